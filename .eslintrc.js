@@ -106,6 +106,7 @@ module.exports = {
     "**/pcf-init/assets/**",
     "**/solution-init/assets/**",
     "**/package-generate/assets/**",
+    "**/project-component-add/assets/**",
     "**/test-projects/**",
     "clientsidepages.ts",
     "*.js"
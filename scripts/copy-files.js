@@ -51,4 +51,11 @@ const spfxPackageGenerateCmdDir = 'dist/m365/spfx/commands/package/package-gener
 const spfxPackageGenerateAssetsDir = 'dist/m365/spfx/commands/package/package-generate/assets';
 mkdirNotExistsSync(spfxPackageGenerateCmdDir);
 mkdirNotExistsSync(spfxPackageGenerateAssetsDir);
-getFilePaths(spfxPackageGenerateAssetsSourceDir).forEach(file => copyFile(file, spfxPackageGenerateAssetsSourceDir, spfxPackageGenerateAssetsDir));
\ No newline at end of file
+getFilePaths(spfxPackageGenerateAssetsSourceDir).forEach(file => copyFile(file, spfxPackageGenerateAssetsSourceDir, spfxPackageGenerateAssetsDir));
+
+const spfxProjectComponentAddAssetsSourceDir = 'src/m365/spfx/commands/project/project-component-add/assets';
+const spfxProjectComponentAddCmdDir = 'dist/m365/spfx/commands/project/project-component-add';
+const spfxProjectComponentAddAssetsDir = 'dist/m365/spfx/commands/project/project-component-add/assets';
+mkdirNotExistsSync(spfxProjectComponentAddCmdDir);
+mkdirNotExistsSync(spfxProjectComponentAddAssetsDir);
+getFilePaths(spfxProjectComponentAddAssetsSourceDir).forEach(file => copyFile(file, spfxProjectComponentAddAssetsSourceDir, spfxProjectComponentAddAssetsDir));
\ No newline at end of file
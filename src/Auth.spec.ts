@@ -1980,6 +1980,7 @@ describe('Auth', () => {
     const mockStorage = new MockTokenStorage();
     const mockStorageSetStub = sinon.stub(mockStorage, 'set').callsFake(() => Promise.resolve());
     sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => new MockTokenStorage());
 
     auth
       .storeConnectionInfo()
@@ -1999,6 +2000,7 @@ describe('Auth', () => {
     const mockStorageRemoveStub = sinon.stub(mockStorage, 'remove').callsFake(() => Promise.resolve());
     sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
     sinon.stub(auth as any, 'getMsalCacheStorage').callsFake(() => mockStorage);
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({}));
 
     auth
       .clearConnectionInfo()
@@ -2013,6 +2015,203 @@ describe('Auth', () => {
       });
   });
 
+  it('returns all named connections from the connections storage', async () => {
+    const mockStorage = new MockTokenStorage();
+    sinon.stub(mockStorage, 'get').callsFake(() => Promise.resolve(JSON.stringify({ contoso: { name: 'contoso', connected: true } })));
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => mockStorage);
+
+    const actual = await auth.getAllConnections();
+    assert.deepStrictEqual(actual, { contoso: { name: 'contoso', connected: true } });
+  });
+
+  it('returns no connections when the connections storage is empty', async () => {
+    const mockStorage = new MockTokenStorage();
+    sinon.stub(mockStorage, 'get').callsFake(() => Promise.resolve(''));
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => mockStorage);
+
+    const actual = await auth.getAllConnections();
+    assert.deepStrictEqual(actual, {});
+  });
+
+  it('configures FileTokenStorage as connections storage', () => {
+    const actual = (auth as any).getConnectionsStorage();
+    assert(actual instanceof FileTokenStorage);
+    assert.strictEqual((actual as any).filePath, FileTokenStorage.connectionsFilePath());
+  });
+
+  it('switches to the specified connection and makes it the active connection', async () => {
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({ contoso: { name: 'contoso', connected: true, tenantId: '123' } as any }));
+    const storeConnectionInfoStub = sinon.stub(auth, 'storeConnectionInfo').callsFake(() => Promise.resolve());
+
+    await auth.switchToConnection('contoso');
+    assert.strictEqual(auth.service.name, 'contoso');
+    assert.strictEqual(auth.service.tenantId, '123');
+    assert(auth.service instanceof Service, 'service is not an instance of Service');
+    assert(storeConnectionInfoStub.called, 'active connection not persisted');
+  });
+
+  it('switches to the specified connection without persisting it as the active connection', async () => {
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({ contoso: { name: 'contoso', connected: true } as any }));
+    const storeConnectionInfoStub = sinon.stub(auth, 'storeConnectionInfo').callsFake(() => Promise.resolve());
+
+    await auth.switchToConnection('contoso', false);
+    assert.strictEqual(auth.service.name, 'contoso');
+    assert(storeConnectionInfoStub.notCalled);
+  });
+
+  it('restores the connection that was active before switching to a temporary connection', async () => {
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({ contoso: { name: 'contoso', connected: true } as any }));
+    const storeConnectionInfoStub = sinon.stub(auth, 'storeConnectionInfo').callsFake(() => Promise.resolve());
+    const activeService = auth.service;
+    activeService.name = 'fabrikam';
+
+    const state = auth.getConnectionState();
+    await auth.switchToConnection('contoso', false);
+    auth.restoreConnectionState(state);
+    assert.strictEqual(auth.service, activeService);
+    assert.strictEqual(auth.service.name, 'fabrikam');
+    assert.strictEqual((auth as any).isTemporaryConnection, false);
+    assert(storeConnectionInfoStub.notCalled);
+  });
+
+  it('throws an error when switching to a connection that does not exist', async () => {
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({}));
+
+    await assert.rejects(auth.switchToConnection('contoso'), (err: any) => err === `Connection 'contoso' not found`);
+  });
+
+  it('stores a named connection in the token storage and the connections storage', async () => {
+    const mockStorage = new MockTokenStorage();
+    const mockStorageSetStub = sinon.stub(mockStorage, 'set').callsFake(() => Promise.resolve());
+    const mockConnectionsStorage = new MockTokenStorage();
+    const mockConnectionsStorageSetStub = sinon.stub(mockConnectionsStorage, 'set').callsFake(() => Promise.resolve());
+    sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => mockConnectionsStorage);
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({ fabrikam: { name: 'fabrikam' } as any }));
+    auth.service.name = 'contoso';
+
+    await auth.storeConnectionInfo();
+    assert(mockStorageSetStub.called, 'active connection not stored');
+    assert.deepStrictEqual(Object.keys(JSON.parse((mockConnectionsStorageSetStub.lastCall.args as any)[0])), ['fabrikam', 'contoso']);
+  });
+
+  it(`doesn't store a temporary connection as the active connection`, async () => {
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({ contoso: { name: 'contoso' } as any }));
+    const mockStorage = new MockTokenStorage();
+    const mockStorageSetStub = sinon.stub(mockStorage, 'set').callsFake(() => Promise.resolve());
+    const mockConnectionsStorage = new MockTokenStorage();
+    const mockConnectionsStorageSetStub = sinon.stub(mockConnectionsStorage, 'set').callsFake(() => Promise.resolve());
+    sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => mockConnectionsStorage);
+
+    await auth.switchToConnection('contoso', false);
+    await auth.storeConnectionInfo();
+    assert(mockStorageSetStub.notCalled, 'temporary connection stored as the active connection');
+    assert(mockConnectionsStorageSetStub.called, 'connection not updated');
+  });
+
+  it('clears information of the specified named connection without clearing the active connection', async () => {
+    const mockStorage = new MockTokenStorage();
+    const mockStorageRemoveStub = sinon.stub(mockStorage, 'remove').callsFake(() => Promise.resolve());
+    const mockMsalStorage = new MockTokenStorage();
+    const mockMsalStorageRemoveStub = sinon.stub(mockMsalStorage, 'remove').callsFake(() => Promise.resolve());
+    const mockConnectionsStorage = new MockTokenStorage();
+    const mockConnectionsStorageSetStub = sinon.stub(mockConnectionsStorage, 'set').callsFake(() => Promise.resolve());
+    sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
+    const getMsalCacheStorageStub = sinon.stub(auth as any, 'getMsalCacheStorage').callsFake(() => mockMsalStorage);
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => mockConnectionsStorage);
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({ contoso: { name: 'contoso' } as any, fabrikam: { name: 'fabrikam' } as any }));
+    auth.service.name = 'contoso';
+
+    await auth.clearConnectionInfo('fabrikam');
+    assert(mockStorageRemoveStub.notCalled, 'active connection cleared');
+    assert(getMsalCacheStorageStub.calledWith('fabrikam'), 'incorrect MSAL cache cleared');
+    assert(mockMsalStorageRemoveStub.called, 'MSAL cache not cleared');
+    assert.deepStrictEqual(Object.keys(JSON.parse((mockConnectionsStorageSetStub.lastCall.args as any)[0])), ['contoso']);
+  });
+
+  it('clears information of the default connection when an empty connection name specified', async () => {
+    const mockStorage = new MockTokenStorage();
+    const mockStorageRemoveStub = sinon.stub(mockStorage, 'remove').callsFake(() => Promise.resolve());
+    const mockConnectionsStorage = new MockTokenStorage();
+    const mockConnectionsStorageSetStub = sinon.stub(mockConnectionsStorage, 'set').callsFake(() => Promise.resolve());
+    sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
+    const getMsalCacheStorageStub = sinon.stub(auth as any, 'getMsalCacheStorage').callsFake(() => new MockTokenStorage());
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => mockConnectionsStorage);
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({ [Auth.defaultConnectionName]: {} as any, contoso: { name: 'contoso' } as any }));
+    auth.service.name = 'contoso';
+
+    await auth.clearConnectionInfo('');
+    assert(mockStorageRemoveStub.notCalled, 'active connection cleared');
+    assert(getMsalCacheStorageStub.calledWith(undefined), 'incorrect MSAL cache cleared');
+    assert.deepStrictEqual(Object.keys(JSON.parse((mockConnectionsStorageSetStub.lastCall.args as any)[0])), ['contoso']);
+  });
+
+  it('clears information of the default connection when the default connection name specified', async () => {
+    const mockStorage = new MockTokenStorage();
+    const mockStorageRemoveStub = sinon.stub(mockStorage, 'remove').callsFake(() => Promise.resolve());
+    sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
+    const getMsalCacheStorageStub = sinon.stub(auth as any, 'getMsalCacheStorage').callsFake(() => new MockTokenStorage());
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({}));
+
+    await auth.clearConnectionInfo(Auth.defaultConnectionName);
+    assert(mockStorageRemoveStub.called, 'active connection not cleared');
+    assert(getMsalCacheStorageStub.calledWith(undefined), 'incorrect MSAL cache cleared');
+  });
+
+  it('stores the default connection with the named connections under the default connection name', async () => {
+    const mockConnectionsStorage = new MockTokenStorage();
+    const mockConnectionsStorageSetStub = sinon.stub(mockConnectionsStorage, 'set').callsFake(() => Promise.resolve());
+    sinon.stub(auth, 'getTokenStorage').callsFake(() => new MockTokenStorage());
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => mockConnectionsStorage);
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({ contoso: { name: 'contoso' } as any }));
+
+    await auth.storeConnectionInfo();
+    assert.deepStrictEqual(Object.keys(JSON.parse((mockConnectionsStorageSetStub.lastCall.args as any)[0])), ['contoso', Auth.defaultConnectionName]);
+  });
+
+  it('switches back to the default connection after logging in to and switching to a named connection', async () => {
+    const mockStorage = new MockTokenStorage();
+    const mockStorageSetStub = sinon.stub(mockStorage, 'set').callsFake(() => Promise.resolve());
+    const mockConnectionsStorage = new MockTokenStorage();
+    const mockConnectionsStorageSetStub = sinon.stub(mockConnectionsStorage, 'set').callsFake(() => Promise.resolve());
+    sinon.stub(mockConnectionsStorage, 'get').callsFake(() => Promise.resolve(mockConnectionsStorageSetStub.lastCall ? (mockConnectionsStorageSetStub.lastCall.args as any)[0] : ''));
+    sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
+    sinon.stub(auth as any, 'getConnectionsStorage').callsFake(() => mockConnectionsStorage);
+
+    // log in without a connection name
+    auth.service.tenantId = 'default';
+    auth.service.connected = true;
+    await auth.storeConnectionInfo();
+    // log in to a named connection
+    auth.service.logout();
+    auth.service.name = 'contoso';
+    auth.service.tenantId = 'contoso';
+    auth.service.connected = true;
+    await auth.storeConnectionInfo();
+    await auth.switchToConnection('contoso');
+    assert.strictEqual(JSON.parse((mockStorageSetStub.lastCall.args as any)[0]).name, 'contoso');
+
+    await auth.switchToConnection(Auth.defaultConnectionName);
+    assert.strictEqual(auth.service.name, undefined);
+    assert.strictEqual(auth.service.tenantId, 'default');
+    assert.strictEqual(auth.connectionName, Auth.defaultConnectionName);
+    assert.strictEqual(JSON.parse((mockStorageSetStub.lastCall.args as any)[0]).tenantId, 'default');
+  });
+
+  it('clears information of the active named connection', async () => {
+    const mockStorage = new MockTokenStorage();
+    const mockStorageRemoveStub = sinon.stub(mockStorage, 'remove').callsFake(() => Promise.resolve());
+    sinon.stub(auth, 'getTokenStorage').callsFake(() => mockStorage);
+    sinon.stub(auth as any, 'getMsalCacheStorage').callsFake(() => new MockTokenStorage());
+    const getAllConnectionsStub = sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({}));
+    auth.service.name = 'contoso';
+
+    await auth.clearConnectionInfo();
+    assert(mockStorageRemoveStub.called, 'active connection not cleared');
+    assert(getAllConnectionsStub.called, 'connections not checked');
+  });
+
   it('resets connection information on logout', () => {
     auth.service.connected = true;
     auth.service.accessTokens[resource] = {
@@ -2027,6 +2226,7 @@ describe('Auth', () => {
     auth.service.thumbprint = 'thumb';
     auth.service.spoUrl = 'https://contoso.sharepoint.com';
     auth.service.tenantId = '123';
+    auth.service.name = 'contoso';
 
     auth.service.logout();
 
@@ -2040,6 +2240,7 @@ describe('Auth', () => {
     assert.strictEqual(auth.service.thumbprint, undefined, 'thumbprint');
     assert.strictEqual(auth.service.spoUrl, undefined, 'spoUrl');
     assert.strictEqual(auth.service.tenantId, undefined, 'tenantId');
+    assert.strictEqual(auth.service.name, undefined, 'name');
   });
 
   it('uses the Microsoft Graph to authenticate', () => {
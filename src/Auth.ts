@@ -34,6 +34,8 @@ export interface InteractiveAuthorizationErrorResponse {
 }
 
 export class Service {
+  // name of the connection; undefined for the default, unnamed connection
+  name?: string;
   connected: boolean = false;
   authType: AuthType = AuthType.DeviceCode;
   userName?: string;
@@ -57,6 +59,7 @@ export class Service {
   }
 
   public logout(): void {
+    this.name = undefined;
     this.connected = false;
     this.accessTokens = {};
     this.authType = AuthType.DeviceCode;
@@ -81,6 +84,11 @@ export enum AuthType {
   Secret
 }
 
+export interface ConnectionState {
+  service: Service;
+  isTemporaryConnection: boolean;
+}
+
 export enum CertificateType {
   Unknown,
   Base64,
@@ -88,17 +96,34 @@ export enum CertificateType {
 }
 
 export class Auth {
+  // name under which the default, unnamed connection is stored with the named
+  // connections. Connection names can only contain letters, digits,
+  // underscores and dashes, so it doesn't conflict with named connections
+  public static readonly defaultConnectionName: string = '(default)';
+
   private _open: typeof open | undefined;
   private _clipboardy: typeof clipboard | undefined;
   private _authServer: AuthServer | undefined;
   private deviceCodeRequest?: Msal.DeviceCodeRequest;
   private _service: Service;
   private clientApplication: Msal.ClientApplication | undefined;
+  // set when the current command uses a connection other than the active one
+  // through the --connection option. Temporary connections aren't persisted
+  // as the active connection
+  private isTemporaryConnection: boolean = false;
 
   public get service(): Service {
     return this._service;
   }
 
+  /**
+   * Name of the current connection or the name under which the default,
+   * unnamed connection is stored
+   */
+  public get connectionName(): string {
+    return this._service.name || Auth.defaultConnectionName;
+  }
+
   public get defaultResource(): string {
     return 'https://graph.microsoft.com';
   }
@@ -121,6 +146,58 @@ export class Auth {
     }
   }
 
+  /**
+   * Retrieves all connections stored on the machine. The default, unnamed
+   * connection is stored under the defaultConnectionName
+   */
+  public async getAllConnections(): Promise<Hash<Service>> {
+    const connectionsStorage = this.getConnectionsStorage();
+    try {
+      const json: string = await connectionsStorage.get();
+      return JSON.parse(json);
+    }
+    catch {
+      return {};
+    }
+  }
+
+  /**
+   * Switches to the specified connection
+   * @param connectionName Name of the connection to switch to. Use defaultConnectionName to switch to the default, unnamed connection
+   * @param persist Set to true to make the connection the active connection.
+   * Set to false to use the connection only for the current command
+   */
+  public async switchToConnection(connectionName: string, persist: boolean = true): Promise<void> {
+    const connections: Hash<Service> = await this.getAllConnections();
+    const connection: Service | undefined = connections[connectionName];
+    if (!connection) {
+      throw `Connection '${connectionName}' not found`;
+    }
+
+    this._service = Object.assign(new Service(), connection);
+    this.isTemporaryConnection = !persist;
+
+    if (persist) {
+      await this.storeConnectionInfo();
+    }
+  }
+
+  /**
+   * Returns the current connection so that it can be restored after
+   * temporarily switching to another connection
+   */
+  public getConnectionState(): ConnectionState {
+    return {
+      service: this._service,
+      isTemporaryConnection: this.isTemporaryConnection
+    };
+  }
+
+  public restoreConnectionState(state: ConnectionState): void {
+    this._service = state.service;
+    this.isTemporaryConnection = state.isTemporaryConnection;
+  }
+
   public async ensureAccessToken(resource: string, logger: Logger, debug: boolean = false, fetchNew: boolean = false): Promise<string> {
     const now: Date = new Date();
     const accessToken: AccessToken | undefined = this.service.accessTokens[resource];
@@ -243,6 +320,8 @@ export class Auth {
       privateKey: certificatePrivateKey as string
     };
 
+    msalCachePlugin.useConnection(this.service.name);
+
     const config = {
       clientId: this.service.appId,
       authority: `https://login.microsoftonline.com/${this.service.tenant}`
@@ -658,26 +737,57 @@ export class Auth {
     return JSON.parse(json);
   }
 
-  public storeConnectionInfo(): Promise<void> {
-    const tokenStorage = this.getTokenStorage();
-    return tokenStorage.set(JSON.stringify(this.service));
+  public async storeConnectionInfo(): Promise<void> {
+    // temporary connections must not replace the active connection
+    if (!this.isTemporaryConnection) {
+      const tokenStorage = this.getTokenStorage();
+      await tokenStorage.set(JSON.stringify(this.service));
+    }
+
+    // store the default connection with the named connections as well, so
+    // that it's kept when switching to another connection
+    const connections: Hash<Service> = await this.getAllConnections();
+    connections[this.connectionName] = this.service;
+    await this.getConnectionsStorage().set(JSON.stringify(connections));
   }
 
-  public async clearConnectionInfo(): Promise<void> {
-    const tokenStorage = this.getTokenStorage();
-    await tokenStorage.remove();
+  /**
+   * Clears persisted information about the specified connection
+   * @param connectionName Name of the connection to clear. If not specified, clears the current connection.
+   * Specify an empty string or defaultConnectionName to clear the default, unnamed connection
+   */
+  public async clearConnectionInfo(connectionName: string | undefined = this.service.name): Promise<void> {
+    connectionName = connectionName === Auth.defaultConnectionName ? undefined : connectionName || undefined;
+
+    if (!this.isTemporaryConnection &&
+      connectionName === this.service.name) {
+      const tokenStorage = this.getTokenStorage();
+      await tokenStorage.remove();
+    }
+
     // we need to manually clear MSAL cache, because MSAL doesn't have support
     // for logging out when using cert-based auth
-    const msalCache = this.getMsalCacheStorage();
+    const msalCache = this.getMsalCacheStorage(connectionName);
     await msalCache.remove();
+
+    const connections: Hash<Service> = await this.getAllConnections();
+    const connectionKey: string = connectionName || Auth.defaultConnectionName;
+    if (connections[connectionKey]) {
+      delete connections[connectionKey];
+      await this.getConnectionsStorage().set(JSON.stringify(connections));
+    }
   }
 
   public getTokenStorage(): TokenStorage {
     return new FileTokenStorage(FileTokenStorage.connectionInfoFilePath());
   }
 
-  private getMsalCacheStorage(): TokenStorage {
-    return new FileTokenStorage(FileTokenStorage.msalCacheFilePath());
+  private getMsalCacheStorage(connectionName?: string): TokenStorage {
+    return new FileTokenStorage(FileTokenStorage.msalCacheFilePath(connectionName));
+  }
+
+  private getConnectionsStorage(): TokenStorage {
+    return new FileTokenStorage(FileTokenStorage.connectionsFilePath());
   }
 
   public static isAppOnlyAuth(accessToken: string): boolean | undefined {
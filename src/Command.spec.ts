@@ -2,14 +2,17 @@ import * as assert from 'assert';
 import * as chalk from 'chalk';
 import * as sinon from 'sinon';
 import appInsights from './appInsights';
-import auth from './Auth';
+import auth, { Service } from './Auth';
 import { Cli } from './cli/Cli';
 import { Logger } from './cli/Logger';
 import Command, {
   CommandError
 } from './Command';
+import request from './request';
+import { cassette } from './utils/cassette';
 import { pid } from './utils/pid';
 import { sinonUtil } from './utils/sinonUtil';
+import { timing } from './utils/timing';
 
 class MockCommand1 extends Command {
   public get name(): string {
@@ -59,6 +62,23 @@ class MockCommand1 extends Command {
   }
 }
 
+class MockCommandWithMaxItems extends Command {
+  public get name(): string {
+    return 'mock-command list';
+  }
+
+  public get description(): string {
+    return 'Mock command description';
+  }
+
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
+  public async commandAction(): Promise<void> {
+  }
+}
+
 class MockCommand2 extends Command {
   public get name(): string {
     return 'Mock command 2 [opt]';
@@ -124,6 +144,35 @@ class MockCommand4 extends Command {
   }
 }
 
+class MockCommandWithRequest extends Command {
+  public innerCommand?: Command;
+  public handleErrors: boolean = false;
+
+  public get name(): string {
+    return 'mock-command';
+  }
+
+  public get description(): string {
+    return 'Mock command description';
+  }
+
+  public async commandAction(logger: Logger): Promise<void> {
+    if (this.innerCommand) {
+      await this.innerCommand.action(logger, { options: {} });
+      return;
+    }
+
+    try {
+      await request.post({ url: 'https://contoso.sharepoint.com/_api/web/lists' });
+    }
+    catch (err) {
+      if (!this.handleErrors) {
+        throw err;
+      }
+    }
+  }
+}
+
 describe('Command', () => {
   let telemetry: any;
   let logger: Logger;
@@ -148,11 +197,13 @@ describe('Command', () => {
     telemetry = null;
     auth.service.connected = true;
     cli.currentCommandName = undefined;
+    loggerLogToStderrSpy.resetHistory();
   });
 
   afterEach(() => {
     sinonUtil.restore([
-      process.exit
+      process.exit,
+      Cli.executeCommandWithOutput
     ]);
     auth.service.connected = false;
   });
@@ -321,11 +372,270 @@ describe('Command', () => {
     assert.strictEqual(JSON.stringify(actual), expected);
   });
 
+  it('switches to the connection specified in the connection option without persisting it', async () => {
+    const switchToConnectionStub = sinon.stub(auth, 'switchToConnection').callsFake(() => Promise.resolve());
+    const mock = new MockCommand1();
+
+    try {
+      await mock.action(logger, { options: { connection: 'contoso' } });
+      assert(switchToConnectionStub.calledWith('contoso', false));
+    }
+    finally {
+      sinonUtil.restore(auth.switchToConnection);
+    }
+  });
+
+  it('restores the active connection after executing the command with the connection option', async () => {
+    const activeService = auth.service;
+    sinon.stub(auth, 'switchToConnection').callsFake(async () => {
+      (auth as any)._service = new Service();
+      auth.service.connected = true;
+    });
+    const mock = new MockCommand1();
+
+    try {
+      await mock.action(logger, { options: { connection: 'contoso' } });
+      assert.strictEqual(auth.service, activeService);
+    }
+    finally {
+      sinonUtil.restore(auth.switchToConnection);
+    }
+  });
+
+  it('throws an error when the connection specified in the connection option does not exist', async () => {
+    sinon.stub(auth, 'switchToConnection').callsFake(() => Promise.reject(`Connection 'contoso' not found`));
+    const mock = new MockCommand1();
+
+    try {
+      await assert.rejects(mock.action(logger, { options: { connection: 'contoso' } }), new CommandError(`Connection 'contoso' not found`));
+    }
+    finally {
+      sinonUtil.restore(auth.switchToConnection);
+    }
+  });
+
+  it('throws an error when not logged in', async () => {
+    auth.service.connected = false;
+    const command = new MockCommand2();
+    await assert.rejects(command.action(logger, { options: {} }), new CommandError('Log in to Microsoft 365 first'));
+  });
+
+  it('executes the command without logging in when replaying recorded responses', async () => {
+    sinon.stub(cassette, 'getReplayFilePath').callsFake(() => 'cassette.json');
+    auth.service.connected = false;
+    const command = new MockCommand2();
+
+    try {
+      await command.action(logger, { options: {} });
+    }
+    finally {
+      sinonUtil.restore(cassette.getReplayFilePath);
+    }
+  });
+
+  it('reports requests skipped in whatIf mode instead of failing', async () => {
+    const loggerLogSpy = sinon.spy(logger, 'log');
+    const command = new MockCommandWithRequest();
+
+    try {
+      await command.action(logger, { options: { whatIf: true } });
+      assert(loggerLogSpy.calledOnceWith([
+        {
+          method: 'POST',
+          url: 'https://contoso.sharepoint.com/_api/web/lists',
+          resource: 'https://contoso.sharepoint.com'
+        }
+      ]));
+      assert.strictEqual(request.whatIf, false);
+    }
+    finally {
+      loggerLogSpy.restore();
+    }
+  });
+
+  it('reports requests skipped in whatIf mode by commands executed by the command', async () => {
+    const loggerLogSpy = sinon.spy(logger, 'log');
+    const command = new MockCommandWithRequest();
+    command.innerCommand = new MockCommandWithRequest();
+
+    try {
+      await command.action(logger, { options: { whatIf: true } });
+      assert(loggerLogSpy.calledOnce);
+      assert.strictEqual(request.whatIf, false);
+    }
+    finally {
+      loggerLogSpy.restore();
+    }
+  });
+
+  it('reports requests skipped in whatIf mode when the command handled the skipped request', async () => {
+    const loggerLogSpy = sinon.spy(logger, 'log');
+    const command = new MockCommandWithRequest();
+    command.handleErrors = true;
+
+    try {
+      await command.action(logger, { options: { whatIf: true } });
+      assert(loggerLogSpy.calledOnceWith([
+        {
+          method: 'POST',
+          url: 'https://contoso.sharepoint.com/_api/web/lists',
+          resource: 'https://contoso.sharepoint.com'
+        }
+      ]));
+      assert.strictEqual(request.whatIf, false);
+    }
+    finally {
+      loggerLogSpy.restore();
+    }
+  });
+
+  it('throws an error when the command fails in whatIf mode before skipping any requests', async () => {
+    const command = new MockCommand4();
+    await assert.rejects(command.action(logger, { options: { whatIf: true } }), new CommandError('Exception'));
+    assert.strictEqual(request.whatIf, false);
+  });
+
+  it('disables whatIf mode after the command completed', async () => {
+    const command = new MockCommand2();
+    await command.action(logger, { options: { whatIf: true } });
+    assert.strictEqual(request.whatIf, false);
+  });
+
+  it('logs timing summary of executed requests when timing option specified', async () => {
+    sinon.stub(request, 'post').callsFake(async () => {
+      request.timings.push({ method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', status: 201, duration: 100, retried: false });
+    });
+    const command = new MockCommandWithRequest();
+
+    try {
+      await command.action(logger, { options: { timing: true } });
+      assert(loggerLogToStderrSpy.calledWith(timing.getSummary([{ method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', status: 201, duration: 100, retried: false }])));
+      assert.strictEqual(request.timing, false);
+    }
+    finally {
+      sinonUtil.restore(request.post);
+    }
+  });
+
+  it('logs timing summary when timing option specified and no requests executed', async () => {
+    const command = new MockCommand2();
+    await command.action(logger, { options: { timing: true } });
+    assert(loggerLogToStderrSpy.calledWith(timing.getSummary([])));
+  });
+
+  it('logs timing summary of executed requests in debug mode', async () => {
+    sinon.stub(request, 'post').callsFake(async () => {
+      request.timings.push({ method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', status: 201, duration: 100, retried: false });
+    });
+    const command = new MockCommandWithRequest();
+
+    try {
+      await command.action(logger, { options: { debug: true } });
+      assert(loggerLogToStderrSpy.calledWith(timing.getSummary([{ method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', status: 201, duration: 100, retried: false }])));
+    }
+    finally {
+      sinonUtil.restore(request.post);
+    }
+  });
+
+  it(`doesn't log timing summary in debug mode when no requests executed`, async () => {
+    const command = new MockCommand2();
+    await command.action(logger, { options: { debug: true } });
+    assert(loggerLogToStderrSpy.neverCalledWith(timing.getSummary([])));
+  });
+
+  it('logs timing summary including requests executed by commands executed by the command', async () => {
+    sinon.stub(request, 'post').callsFake(async () => {
+      request.timings.push({ method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', status: 201, duration: 100, retried: false });
+    });
+    const command = new MockCommandWithRequest();
+    command.innerCommand = new MockCommandWithRequest();
+
+    try {
+      await command.action(logger, { options: { timing: true } });
+      assert(loggerLogToStderrSpy.calledOnceWith(timing.getSummary([{ method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', status: 201, duration: 100, retried: false }])));
+    }
+    finally {
+      sinonUtil.restore(request.post);
+    }
+  });
+
+  it('logs timing summary when the command failed', async () => {
+    const command = new MockCommand4();
+    await assert.rejects(command.action(logger, { options: { timing: true } }), new CommandError('Exception'));
+    assert(loggerLogToStderrSpy.calledWith(timing.getSummary([])));
+    assert.strictEqual(request.timing, false);
+  });
+
   it('catches exception thrown by commandAction', async () => {
     const command = new MockCommand4();
     await assert.rejects(command.action(logger, { options: {} }), new CommandError('Exception'));
   });
 
+  it('executes another command with json output and its debug and verbose settings and returns its parsed output', async () => {
+    const command: any = new MockCommand1();
+    const otherCommand = new MockCommand2();
+    command.debug = true;
+    const executeCommandWithOutputStub: sinon.SinonStub = sinon.stub(Cli, 'executeCommandWithOutput').resolves({ stdout: '{"Title":"Project X"}', stderr: '' });
+
+    const actual = await command.executeCommand(otherCommand, { webUrl: 'https://contoso.sharepoint.com' });
+    assert.deepStrictEqual(actual, { Title: 'Project X' });
+    assert(executeCommandWithOutputStub.calledWith(otherCommand, { options: { webUrl: 'https://contoso.sharepoint.com', output: 'json', debug: true, verbose: false, _: [] } }));
+  });
+
+  it('returns undefined when the executed command does not return any output', async () => {
+    const command: any = new MockCommand1();
+    sinon.stub(Cli, 'executeCommandWithOutput').resolves({ stdout: '', stderr: '' });
+
+    assert.strictEqual(await command.executeCommand(new MockCommand2(), {}), undefined);
+  });
+
+  it('throws the error message of the executed command', async () => {
+    const command: any = new MockCommand1();
+    sinon.stub(Cli, 'executeCommandWithOutput').rejects({ error: new CommandError('Access denied') });
+
+    await assert.rejects(command.executeCommand(new MockCommand2(), {}), (err: any) => err === 'Access denied');
+  });
+
+  it('throws the message of an unexpected error of the executed command', async () => {
+    const command: any = new MockCommand1();
+    sinon.stub(Cli, 'executeCommandWithOutput').rejects(new TypeError(`Cannot read properties of undefined (reading 'id')`));
+
+    await assert.rejects(command.executeCommand(new MockCommand2(), {}), (err: any) => err === `Cannot read properties of undefined (reading 'id')`);
+  });
+
+  it('throws the error of the executed command that failed with a string', async () => {
+    const command: any = new MockCommand1();
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(() => Promise.reject('An error has occurred'));
+
+    await assert.rejects(command.executeCommand(new MockCommand2(), {}), (err: any) => err === 'An error has occurred');
+  });
+
+  it('registers the maxItems option only on commands that support it', () => {
+    assert(new MockCommandWithMaxItems().options.some(o => o.option === '--maxItems [maxItems]'));
+    assert(!new MockCommand2().options.some(o => o.option === '--maxItems [maxItems]'));
+  });
+
+  it('fails validation when maxItems specified for a command that does not support it', async () => {
+    const cmd = new MockCommand2();
+    assert.notStrictEqual(await cmd.validate({ options: { maxItems: 10 } }, Cli.getCommandInfo(cmd)), true);
+  });
+
+  it('fails validation when maxItems is not a number', async () => {
+    const cmd = new MockCommandWithMaxItems();
+    assert.notStrictEqual(await cmd.validate({ options: { maxItems: 'abc' as any } }, Cli.getCommandInfo(cmd)), true);
+  });
+
+  it('fails validation when maxItems is not a positive integer', async () => {
+    const cmd = new MockCommandWithMaxItems();
+    assert.notStrictEqual(await cmd.validate({ options: { maxItems: 0 } }, Cli.getCommandInfo(cmd)), true);
+  });
+
+  it('passes validation when maxItems is a positive integer', async () => {
+    const cmd = new MockCommandWithMaxItems();
+    assert.strictEqual(await cmd.validate({ options: { maxItems: 10 } }, Cli.getCommandInfo(cmd)), true);
+  });
+
   it('passes validation when csv output specified', async () => {
     const cmd = new MockCommand2();
     assert.strictEqual(await cmd.validate({ options: { output: 'csv' } }, Cli.getCommandInfo(cmd)), true);
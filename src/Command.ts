@@ -2,8 +2,8 @@ import type * as Chalk from 'chalk';
 import type { Inquirer } from 'inquirer';
 import * as os from 'os';
 import appInsights from './appInsights';
-import auth from './Auth';
-import { Cli } from './cli/Cli';
+import auth, { ConnectionState } from './Auth';
+import { Cli, CommandOutput } from './cli/Cli';
 import { CommandInfo } from './cli/CommandInfo';
 import { CommandOptionInfo } from './cli/CommandOptionInfo';
 import { Logger } from './cli/Logger';
@@ -11,7 +11,9 @@ import GlobalOptions from './GlobalOptions';
 import request from './request';
 import { settingsNames } from './settingsNames';
 import { accessToken } from './utils/accessToken';
+import { cassette } from './utils/cassette';
 import { GraphResponseError } from './utils/odata';
+import { timing } from './utils/timing';
 
 export interface CommandOption {
   option: string;
@@ -59,7 +61,15 @@ export default abstract class Command {
   protected telemetryProperties: any = {};
 
   protected get allowedOutputs(): string[] {
-    return ['csv', 'json', 'text'];
+    return ['csv', 'json', 'md', 'ndjson', 'text', 'yaml'];
+  }
+
+  /**
+   * List commands that retrieve their items using odata.logAllItems, override
+   * this to support limiting the number of retrieved items using maxItems
+   */
+  protected get supportsMaxItems(): boolean {
+    return false;
   }
 
   public options: CommandOption[] = [];
@@ -93,7 +103,11 @@ export default abstract class Command {
         debug: this.debug.toString(),
         verbose: this.verbose.toString(),
         output: args.options.output,
-        query: typeof args.options.query !== 'undefined'
+        query: typeof args.options.query !== 'undefined',
+        connection: typeof args.options.connection !== 'undefined',
+        whatIf: !!args.options.whatIf,
+        maxItems: typeof args.options.maxItems !== 'undefined',
+        timing: !!args.options.timing
       });
     });
   }
@@ -105,6 +119,10 @@ export default abstract class Command {
         option: '-o, --output [output]',
         autocomplete: this.allowedOutputs
       },
+      { option: '--connection [connection]' },
+      { option: '--whatIf' },
+      ...(this.supportsMaxItems ? [{ option: '--maxItems [maxItems]' }] : []),
+      { option: '--timing' },
       { option: '--verbose' },
       { option: '--debug' }
     );
@@ -115,6 +133,7 @@ export default abstract class Command {
       (args, command) => this.validateUnknownOptions(args, command),
       (args, command) => this.validateRequiredOptions(args, command),
       args => this.validateOutput(args),
+      args => this.validateMaxItems(args),
       (args, command) => this.validateOptionSets(args, command)
     );
   }
@@ -215,6 +234,15 @@ export default abstract class Command {
     }
   }
 
+  private async validateMaxItems(args: CommandArgs): Promise<string | boolean> {
+    if (typeof args.options.maxItems !== 'undefined' &&
+      (!Number.isInteger(args.options.maxItems) || args.options.maxItems < 1)) {
+      return `'${args.options.maxItems}' is not a valid value for maxItems. Specify a positive integer`;
+    }
+
+    return true;
+  }
+
   public alias(): string[] | undefined {
     return;
   }
@@ -244,29 +272,87 @@ export default abstract class Command {
   public abstract commandAction(logger: Logger, args: any): Promise<void>;
 
   public async action(logger: Logger, args: CommandArgs): Promise<void> {
+    // commands executed in the same process, like in batch, must not keep
+    // using the connection specified for this command
+    let previousConnection: ConnectionState | undefined;
     try {
       await auth.restoreAuth();
+
+      if (args.options.connection) {
+        previousConnection = auth.getConnectionState();
+        await auth.switchToConnection(args.options.connection, false);
+      }
     }
     catch (error: any) {
       throw new CommandError(error);
     }
 
+    try {
+      await this.executeAction(logger, args);
+    }
+    finally {
+      if (previousConnection) {
+        auth.restoreConnectionState(previousConnection);
+      }
+    }
+  }
+
+  private async executeAction(logger: Logger, args: CommandArgs): Promise<void> {
     this.initAction(args, logger);
 
-    if (!auth.service.connected) {
+    // when replaying recorded responses, commands don't need a connection
+    if (!auth.service.connected && !cassette.getReplayFilePath()) {
       throw new CommandError('Log in to Microsoft 365 first');
     }
 
+    // commands executed by this command inherit the whatIf mode, so only the
+    // command that enabled it reports the skipped requests
+    const parentWhatIf: boolean = request.whatIf;
+    const reportWhatIf: boolean = !parentWhatIf && !!args.options.whatIf;
+    if (reportWhatIf) {
+      request.whatIf = true;
+      request.whatIfRequests = [];
+    }
+
+    // same as whatIf, only the outermost command reports the timing of
+    // requests executed by it and the commands it executed
+    const reportTiming: boolean = !request.timing && (!!args.options.timing || this.debug);
+    if (reportTiming) {
+      request.timing = true;
+      request.timings = [];
+    }
+
     try {
       this.loadValuesFromAccessToken(args);
       await this.commandAction(logger, args);
     }
     catch (ex) {
+      // in whatIf mode the command stops at the first request that would
+      // change data, so instead of failing report the skipped requests
+      if (reportWhatIf && request.whatIfRequests.length > 0) {
+        return;
+      }
+
       if (ex instanceof CommandError) {
         throw ex;
       }
       throw new CommandError(ex as any);
     }
+    finally {
+      request.whatIf = parentWhatIf;
+      // commands that handle skipped requests themselves finish normally, so
+      // report skipped requests whichever way the command finished
+      if (reportWhatIf && request.whatIfRequests.length > 0) {
+        logger.log(request.whatIfRequests);
+      }
+
+      if (reportTiming) {
+        request.timing = false;
+        if (args.options.timing || request.timings.length > 0) {
+          logger.logToStderr(timing.getSummary(request.timings));
+        }
+      }
+    }
   }
 
   public async validate(args: CommandArgs, command: CommandInfo): Promise<boolean | string> {
@@ -405,6 +491,7 @@ export default abstract class Command {
     this.debug = args.options.debug || process.env.CLIMICROSOFT365_DEBUG === '1';
     this.verbose = this.debug || args.options.verbose || process.env.CLIMICROSOFT365_VERBOSE === '1';
     request.debug = this.debug;
+    request.verbose = this.verbose;
     request.logger = logger;
 
     appInsights.trackEvent({
@@ -491,6 +578,38 @@ export default abstract class Command {
     logger.logToStderr(chalk.yellow(warning));
   }
 
+  /**
+   * Executes the specified command with the debug and verbose settings of
+   * this command and returns its parsed JSON output or undefined if the
+   * command didn't return any output
+   */
+  protected async executeCommand(command: any, options: { [option: string]: any }): Promise<any> {
+    let output: CommandOutput;
+
+    try {
+      output = await Cli.executeCommandWithOutput(command as Command, {
+        options: {
+          ...options,
+          output: 'json',
+          debug: this.debug,
+          verbose: this.verbose,
+          _: []
+        }
+      });
+    }
+    catch (err: any) {
+      // commands fail with { error: CommandError }, but the executed command
+      // could also fail with an unexpected error, like a TypeError
+      if (err && err.error) {
+        throw err.error.message;
+      }
+
+      throw err instanceof Error ? err.message : err;
+    }
+
+    return output.stdout ? JSON.parse(output.stdout) : undefined;
+  }
+
   protected getUsedCommandName(): string {
     const cli: Cli = Cli.getInstance();
     const commandName: string = this.getCommandName();
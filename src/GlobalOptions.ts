@@ -6,6 +6,10 @@ export enum Output {
 export default interface GlobalOptions {
   query?: string;
   output?: string;
+  connection?: string;
+  whatIf?: boolean;
+  maxItems?: number;
+  timing?: boolean;
   debug?: boolean;
   verbose?: boolean;
   // allow command-specific options. Required for tests to avoid casting to 'any'
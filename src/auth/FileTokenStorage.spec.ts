@@ -22,6 +22,14 @@ describe('FileTokenStorage', () => {
     assert.strictEqual(FileTokenStorage.msalCacheFilePath(), path.join(os.homedir(), '.cli-m365-msal.json'));
   });
 
+  it(`stores MSAL cache of a named connection in a separate file in the user's home directory`, () => {
+    assert.strictEqual(FileTokenStorage.msalCacheFilePath('contoso'), path.join(os.homedir(), '.cli-m365-msal-contoso.json'));
+  });
+
+  it(`stores named connections in the user's home directory`, () => {
+    assert.strictEqual(FileTokenStorage.connectionsFilePath(), path.join(os.homedir(), '.cli-m365-connections.json'));
+  });
+
   it('fails retrieving connection info from file if the token file doesn\'t exist', (done) => {
     sinon.stub(fs, 'existsSync').callsFake(() => false);
     fileStorage
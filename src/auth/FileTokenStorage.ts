@@ -4,14 +4,18 @@ import * as path from 'path';
 import { TokenStorage } from './TokenStorage';
 
 export class FileTokenStorage implements TokenStorage {
-  public static msalCacheFilePath(): string {
-    return path.join(os.homedir(), '.cli-m365-msal.json');
+  public static msalCacheFilePath(connectionName?: string): string {
+    return path.join(os.homedir(), connectionName ? `.cli-m365-msal-${connectionName}.json` : '.cli-m365-msal.json');
   }
   
   public static connectionInfoFilePath(): string {
     return path.join(os.homedir(), '.cli-m365-tokens.json');
   }
 
+  public static connectionsFilePath(): string {
+    return path.join(os.homedir(), '.cli-m365-connections.json');
+  }
+
   constructor(private filePath: string) {
   }
 
@@ -2,6 +2,7 @@ import { ISerializableTokenCache, TokenCacheContext } from '@azure/msal-node';
 import * as assert from 'assert';
 import * as sinon from 'sinon';
 import { sinonUtil } from '../utils/sinonUtil';
+import { FileTokenStorage } from './FileTokenStorage';
 import { msalCachePlugin } from './msalCachePlugin';
 
 const mockCache: ISerializableTokenCache = {
@@ -120,4 +121,17 @@ describe('msalCachePlugin', () => {
         }
       }, ex => done(ex));
   });
-});
\ No newline at end of file
+
+  it(`switches the cache storage to the MSAL cache file of the specified connection`, () => {
+    msalCachePlugin.useConnection('contoso');
+    const actual = (msalCachePlugin as any).fileTokenStorage.filePath;
+    msalCachePlugin.useConnection(undefined);
+    assert.strictEqual(actual, FileTokenStorage.msalCacheFilePath('contoso'));
+  });
+
+  it(`doesn't recreate the cache storage when the connection didn't change`, () => {
+    const fileTokenStorage = (msalCachePlugin as any).fileTokenStorage;
+    msalCachePlugin.useConnection(undefined);
+    assert.strictEqual((msalCachePlugin as any).fileTokenStorage, fileTokenStorage);
+  });
+});
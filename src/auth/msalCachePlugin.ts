@@ -4,6 +4,22 @@ import { TokenStorage } from './TokenStorage';
 
 class MsalCachePlugin implements ICachePlugin {
   private fileTokenStorage: TokenStorage = new FileTokenStorage(FileTokenStorage.msalCacheFilePath());
+  private connectionName: string | undefined;
+
+  /**
+   * Switches the cache to the MSAL cache file of the specified connection.
+   * Each named connection keeps its tokens separate so that signing in to
+   * one tenant doesn't overwrite the accounts of another
+   * @param connectionName Name of the connection. Undefined for the default connection
+   */
+  public useConnection(connectionName: string | undefined): void {
+    if (this.connectionName === connectionName) {
+      return;
+    }
+
+    this.connectionName = connectionName;
+    this.fileTokenStorage = new FileTokenStorage(FileTokenStorage.msalCacheFilePath(connectionName));
+  }
 
   public async beforeCacheAccess(tokenCacheContext: TokenCacheContext): Promise<void> {
     try {
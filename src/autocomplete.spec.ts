@@ -125,9 +125,12 @@ describe('autocomplete', () => {
     assert(writeFileSyncStub.calledWith(path.join(__dirname, `..${path.sep}commands.json`), JSON.stringify({
       cli: {
         mock: {
-          "-o": ["csv", "json", "text"],
+          "-o": ["csv", "json", "md", "ndjson", "text", "yaml"],
           "--query": {},
-          "--output": ["csv", "json", "text"],
+          "--output": ["csv", "json", "md", "ndjson", "text", "yaml"],
+          "--connection": {},
+          "--whatIf": {},
+          "--timing": {},
           "--verbose": {},
           "--debug": {},
           "--help": {},
@@ -163,7 +166,7 @@ describe('autocomplete', () => {
 
     assert.strictEqual(clink, [
       'local parser = clink.arg.new_parser',
-      'local m365_parser = parser({"cli"..parser({"mock"..parser({},"--debug", "--help", "--output"..parser({"csv","json","text"}), "--query", "--verbose", "-h", "-o"..parser({"csv","json","text"}))})})',
+      'local m365_parser = parser({"cli"..parser({"mock"..parser({},"--connection", "--debug", "--help", "--output"..parser({"csv","json","md","ndjson","text","yaml"}), "--query", "--timing", "--verbose", "--whatIf", "-h", "-o"..parser({"csv","json","md","ndjson","text","yaml"}))})})',
       '',
       'clink.arg.register_parser("m365", m365_parser)',
       'clink.arg.register_parser("microsoft365", m365_parser)'
@@ -176,7 +179,7 @@ describe('autocomplete', () => {
 
     assert.strictEqual(clink, [
       'local parser = clink.arg.new_parser',
-      'local m365_parser = parser({"cli"..parser({"mock2"..parser({},"--debug", "--help", "--longOption", "--output"..parser({"csv","json","text"}), "--query", "--verbose", "-h", "-l", "-o"..parser({"csv","json","text"}))})})',
+      'local m365_parser = parser({"cli"..parser({"mock2"..parser({},"--connection", "--debug", "--help", "--longOption", "--output"..parser({"csv","json","md","ndjson","text","yaml"}), "--query", "--timing", "--verbose", "--whatIf", "-h", "-l", "-o"..parser({"csv","json","md","ndjson","text","yaml"}))})})',
       '',
       'clink.arg.register_parser("m365", m365_parser)',
       'clink.arg.register_parser("microsoft365", m365_parser)'
@@ -189,7 +192,7 @@ describe('autocomplete', () => {
 
     assert.strictEqual(clink, [
       'local parser = clink.arg.new_parser',
-      'local m365_parser = parser({"cli"..parser({"mock2"..parser({},"--debug", "--help", "--longOption", "--output"..parser({"csv","json","text"}), "--query", "--verbose", "-h", "-l", "-o"..parser({"csv","json","text"}))})})',
+      'local m365_parser = parser({"cli"..parser({"mock2"..parser({},"--connection", "--debug", "--help", "--longOption", "--output"..parser({"csv","json","md","ndjson","text","yaml"}), "--query", "--timing", "--verbose", "--whatIf", "-h", "-l", "-o"..parser({"csv","json","md","ndjson","text","yaml"}))})})',
       '',
       'clink.arg.register_parser("m365", m365_parser)',
       'clink.arg.register_parser("microsoft365", m365_parser)'
@@ -202,7 +205,7 @@ describe('autocomplete', () => {
 
     assert.strictEqual(clink, [
       'local parser = clink.arg.new_parser',
-      'local m365_parser = parser({"cli"..parser({"mock2"..parser({},"--debug", "--help", "--longOption", "--output"..parser({"csv","json","text"}), "--query", "--verbose", "-h", "-l", "-o"..parser({"csv","json","text"}))})})',
+      'local m365_parser = parser({"cli"..parser({"mock2"..parser({},"--connection", "--debug", "--help", "--longOption", "--output"..parser({"csv","json","md","ndjson","text","yaml"}), "--query", "--timing", "--verbose", "--whatIf", "-h", "-l", "-o"..parser({"csv","json","md","ndjson","text","yaml"}))})})',
       '',
       'clink.arg.register_parser("m365", m365_parser)',
       'clink.arg.register_parser("microsoft365", m365_parser)'
@@ -215,7 +218,7 @@ describe('autocomplete', () => {
 
     assert.strictEqual(clink, [
       'local parser = clink.arg.new_parser',
-      'local m365_parser = parser({"cli"..parser({"alias"..parser({},"--debug", "--help", "--output"..parser({"csv","json","text"}), "--query", "--verbose", "-h", "-o"..parser({"csv","json","text"})),"mock"..parser({},"--debug", "--help", "--output"..parser({"csv","json","text"}), "--query", "--verbose", "-h", "-o"..parser({"csv","json","text"}))})})',
+      'local m365_parser = parser({"cli"..parser({"alias"..parser({},"--connection", "--debug", "--help", "--output"..parser({"csv","json","md","ndjson","text","yaml"}), "--query", "--timing", "--verbose", "--whatIf", "-h", "-o"..parser({"csv","json","md","ndjson","text","yaml"})),"mock"..parser({},"--connection", "--debug", "--help", "--output"..parser({"csv","json","md","ndjson","text","yaml"}), "--query", "--timing", "--verbose", "--whatIf", "-h", "-o"..parser({"csv","json","md","ndjson","text","yaml"}))})})',
       '',
       'clink.arg.register_parser("m365", m365_parser)',
       'clink.arg.register_parser("microsoft365", m365_parser)'
@@ -133,6 +133,19 @@ class MockCommandWithOutput extends AnonymousCommand {
   }
 }
 
+class MockCommandWithPagedOutput extends AnonymousCommand {
+  public get name(): string {
+    return 'cli mock output';
+  }
+  public get description(): string {
+    return 'Mock command with paged output';
+  }
+  public async commandAction(logger: Logger): Promise<void> {
+    logger.log([{ prop: 'value1' }]);
+    logger.log([{ prop: 'value2' }]);
+  }
+}
+
 class MockCommandWithRawOutput extends AnonymousCommand {
   public get name(): string {
     return 'cli mock output';
@@ -696,6 +709,18 @@ describe('Cli', () => {
       }, e => done(e));
   });
 
+  it('prints csv header only once when command logs output multiple times', async () => {
+    const command = new MockCommandWithPagedOutput();
+    await Cli.executeCommand(command, { options: { _: [], output: 'csv' } });
+    assert.deepStrictEqual(cliLogStub.args, [['prop\nvalue1\n'], ['value2\n']]);
+  });
+
+  it('returns csv header only once when executing command with output that logs output multiple times', async () => {
+    const command = new MockCommandWithPagedOutput();
+    const output = await Cli.executeCommandWithOutput(command, { options: { _: [], output: 'csv' } });
+    assert.strictEqual(output.stdout, 'prop\nvalue1\n\nvalue2\n');
+  });
+
   it('returns raw command output when executing command with output', (done) => {
     const commandWithOutput: MockCommandWithRawOutput = new MockCommandWithRawOutput();
     Cli
@@ -1014,6 +1039,169 @@ describe('Cli', () => {
     }
   });
 
+  it('formats a simple object as md definition list', () => {
+    const input = {
+      "header1": "value1",
+      "header2": null,
+      "header3": { "prop": "a|b" },
+      "header4": "line1\nline2"
+    };
+    const actual = (Cli as any).formatOutput(input, { output: 'md' });
+    assert.strictEqual(actual, [
+      'header1', ': value1', '',
+      'header2', ': ', '',
+      'header3', ': {"prop":"a\\|b"}', '',
+      'header4', ': line1<br>line2', ''
+    ].join(os.EOL));
+  });
+
+  it('formats an array of objects as md table', () => {
+    const input = [
+      { "name": "Seattle", "state": "WA" },
+      { "name": "New York", "population": 8000000 }
+    ];
+    const actual = (Cli as any).formatOutput(input, { output: 'md' });
+    assert.strictEqual(actual, [
+      '| name | state | population |',
+      '| --- | --- | --- |',
+      '| Seattle | WA |  |',
+      '| New York |  | 8000000 |',
+      ''
+    ].join(os.EOL));
+  });
+
+  it('formats simple values as-is in md output', () => {
+    const actual = (Cli as any).formatOutput(['value1', 'value2'], { output: 'md' });
+    assert.strictEqual(actual, `value1${os.EOL}value2`);
+  });
+
+  it('applies JMESPath query before formatting output as md', () => {
+    const input = [
+      { "name": "Seattle", "state": "WA" },
+      { "name": "New York", "state": "NY" },
+      { "name": "Bellevue", "state": "WA" }
+    ];
+    const actual = (Cli as any).formatOutput(input, { output: 'md', query: `[?state == 'WA'].{name: name}` });
+    assert.strictEqual(actual, [
+      '| name |',
+      '| --- |',
+      '| Seattle |',
+      '| Bellevue |',
+      ''
+    ].join(os.EOL));
+  });
+
+  it('filters output following command definition in output md', () => {
+    const input = [
+      { "name": "Seattle", "state": "WA" },
+      { "name": "New York", "state": "NY" }
+    ];
+    const cli: Cli = Cli.getInstance();
+    (cli as any).commandToExecute = {
+      defaultProperties: ['name']
+    };
+
+    try {
+      const actual = (Cli as any).formatOutput(input, { output: 'md' });
+      assert.strictEqual(actual, [
+        '| name |',
+        '| --- |',
+        '| Seattle |',
+        '| New York |',
+        ''
+      ].join(os.EOL));
+    }
+    finally {
+      (cli as any).commandToExecute = undefined;
+    }
+  });
+
+  it('formats an object as yaml', () => {
+    const input = { "name": "Seattle", "state": "WA", "zip": ["98101"], "undefinedProperty": undefined };
+    const actual = (Cli as any).formatOutput(input, { output: 'yaml' });
+    assert.strictEqual(actual, `name: Seattle\nstate: WA\nzip:\n  - '98101'\n`);
+  });
+
+  it('formats an array of objects as yaml', () => {
+    const input = [
+      { "name": "Seattle", "state": "WA" },
+      { "name": "New York", "state": "NY" }
+    ];
+    const actual = (Cli as any).formatOutput(input, { output: 'yaml' });
+    assert.strictEqual(actual, `- name: Seattle\n  state: WA\n- name: New York\n  state: NY\n`);
+  });
+
+  it('formats a simple value as yaml', () => {
+    const actual = (Cli as any).formatOutput(true, { output: 'yaml' });
+    assert.strictEqual(actual, `true\n`);
+  });
+
+  it('formats an array of simple values as yaml', () => {
+    const actual = (Cli as any).formatOutput(['value1', 'value2'], { output: 'yaml' });
+    assert.strictEqual(actual, `- value1\n- value2\n`);
+  });
+
+  it('formats an array of objects as ndjson', () => {
+    const input = [
+      { "name": "Seattle", "state": "WA" },
+      { "name": "New York", "state": "NY" }
+    ];
+    const actual = (Cli as any).formatOutput(input, { output: 'ndjson' });
+    assert.strictEqual(actual, `{"name":"Seattle","state":"WA"}${os.EOL}{"name":"New York","state":"NY"}`);
+  });
+
+  it('formats an object as ndjson', () => {
+    const actual = (Cli as any).formatOutput({ "name": "Seattle", "state": "WA" }, { output: 'ndjson' });
+    assert.strictEqual(actual, `{"name":"Seattle","state":"WA"}`);
+  });
+
+  it('formats an array of simple values as ndjson', () => {
+    const actual = (Cli as any).formatOutput(['value1', 'value2'], { output: 'ndjson' });
+    assert.strictEqual(actual, `"value1"${os.EOL}"value2"`);
+  });
+
+  it('applies JMESPath query and default properties before formatting output as ndjson', () => {
+    const input = [
+      { "name": "Seattle", "state": "WA", "zip": "98101" },
+      { "name": "New York", "state": "NY", "zip": "10001" },
+      { "name": "Bellevue", "state": "WA", "zip": "98004" }
+    ];
+    const cli: Cli = Cli.getInstance();
+    (cli as any).commandToExecute = {
+      defaultProperties: ['name', 'state']
+    };
+
+    try {
+      assert.strictEqual((Cli as any).formatOutput(input, { output: 'ndjson' }),
+        `{"name":"Seattle","state":"WA"}${os.EOL}{"name":"New York","state":"NY"}${os.EOL}{"name":"Bellevue","state":"WA"}`);
+      assert.strictEqual((Cli as any).formatOutput(input, { output: 'ndjson', query: `[?state == 'WA'].zip` }),
+        `"98101"${os.EOL}"98004"`);
+    }
+    finally {
+      (cli as any).commandToExecute = undefined;
+    }
+  });
+
+  it('formats output wrapped in a value property as yaml array following command definition', () => {
+    const input = {
+      value: [
+        { "name": "Seattle", "state": "WA" }
+      ]
+    };
+    const cli: Cli = Cli.getInstance();
+    (cli as any).commandToExecute = {
+      defaultProperties: ['name']
+    };
+
+    try {
+      const actual = (Cli as any).formatOutput(input, { output: 'yaml' });
+      assert.strictEqual(actual, `- name: Seattle\n`);
+    }
+    finally {
+      (cli as any).commandToExecute = undefined;
+    }
+  });
+
   it('does not produce headers when csvHeader config is set to false ', (done) => {
     const input =
     {
@@ -1608,4 +1796,56 @@ describe('Cli', () => {
     const actualValue = cli.getSettingWithDefaultValue('key', '');
     assert.strictEqual(actualValue, 'value');
   });
+
+  it('returns command with validated options from args', async () => {
+    sinon.stub(cli, 'getSettingWithDefaultValue').callsFake((settingName, defaultValue) => settingName === settingsNames.output ? 'text' : defaultValue);
+    const actual = await cli.getCommandFromArgs(['cli', 'mock', '-x', '1']);
+    assert.strictEqual(actual.command, mockCommand);
+    assert.strictEqual(actual.args!.options.parameterX, '1');
+    assert.strictEqual(actual.args!.options.x, undefined);
+    assert.strictEqual(actual.args!.options.output, 'text');
+  });
+
+  it('returns command with the output specified in args', async () => {
+    const actual = await cli.getCommandFromArgs(['cli', 'mock', '-x', '1', '--output', 'csv']);
+    assert.strictEqual(actual.args!.options.output, 'csv');
+  });
+
+  it('returns command using its alias', async () => {
+    const actual = await cli.getCommandFromArgs(['cli', 'mock', 'alt']);
+    assert.strictEqual(actual.command, mockCommandWithAlias);
+  });
+
+  it('loads command from args when returning command not loaded previously', async () => {
+    (cli as any).commandsFolder = path.join(rootFolder, '..', 'm365');
+    cli.currentCommandName = 'batch';
+    const actual = await cli.getCommandFromArgs(['status']);
+    assert.strictEqual(actual.command!.name, 'status');
+    assert.strictEqual(cli.currentCommandName, 'batch');
+  });
+
+  it('returns error when the command not found', async () => {
+    (cli as any).commandsFolder = path.join(rootFolder, '..', 'm365');
+    sinon.stub(cli, 'loadAllCommands').callsFake(() => { });
+    const actual = await cli.getCommandFromArgs(['cli', 'invalid']);
+    assert.deepStrictEqual(actual, { error: `Command 'cli invalid' not found` });
+  });
+
+  it('returns command with option values loaded from files', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'readFileSync').callsFake(() => 'abc');
+    const actual = await cli.getCommandFromArgs(['cli', 'mock', '-x', '@file.txt']);
+    assert.strictEqual(actual.args!.options.parameterX, 'abc');
+  });
+
+  it('returns error when processing options failed', async () => {
+    sinon.stub(mockCommand, 'processOptions').callsFake(() => Promise.reject(new Error('Error processing options')));
+    const actual = await cli.getCommandFromArgs(['cli', 'mock', '-x', '1']);
+    assert.deepStrictEqual(actual, { error: 'Error processing options' });
+  });
+
+  it('returns error when validating options failed', async () => {
+    const actual = await cli.getCommandFromArgs(['cli', 'mock']);
+    assert.deepStrictEqual(actual, { error: 'Required option parameterX not specified' });
+  });
 });
@@ -11,7 +11,7 @@ import appInsights from '../appInsights';
 import Command, { CommandArgs, CommandError } from '../Command';
 import config from '../config';
 import GlobalOptions from '../GlobalOptions';
-import request from '../request';
+import request, { defaultRetryPolicy, RetryPolicy } from '../request';
 import { settingsNames } from '../settingsNames';
 import { formatting } from '../utils/formatting';
 import { fsUtil } from '../utils/fsUtil';
@@ -59,8 +59,22 @@ export class Cli {
     }
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-empty-function
+  public getRetryPolicy(): RetryPolicy {
+    return {
+      maxAttempts: this.getSettingWithDefaultValue<number>(settingsNames.retryMaxAttempts, defaultRetryPolicy.maxAttempts),
+      baseDelay: this.getSettingWithDefaultValue<number>(settingsNames.retryBaseDelay, defaultRetryPolicy.baseDelay),
+      jitter: this.getSettingWithDefaultValue<boolean>(settingsNames.retryJitter, defaultRetryPolicy.jitter),
+      statusCodes: this
+        .getSettingWithDefaultValue<string>(settingsNames.retryStatusCodes, defaultRetryPolicy.statusCodes.join(','))
+        .split(',')
+        .map(s => parseInt(s))
+    };
+  }
+
   private constructor() {
+    // the request object reads the retry policy through this accessor, so
+    // that it doesn't depend on the CLI
+    request.getRetryPolicy = () => this.getRetryPolicy();
   }
 
   public static getInstance(): Cli {
@@ -160,10 +174,67 @@ export class Cli {
       .then(_ => process.exit(0), err => this.closeWithError(err, optionsWithoutShorts));
   }
 
+  /**
+   * Resolves the command and its options from the specified args the same
+   * way as when executing a command from the command line, including
+   * processing and validating options. Used to run several commands in one
+   * process, eg. in batch mode
+   * 
+   * @param rawArgs Array of words specified as args, eg. ['spo', 'web', 'get', '--url', 'https://contoso.sharepoint.com']
+   * @returns Command with its validated options or the error that prevents executing the command
+   */
+  public async getCommandFromArgs(rawArgs: string[]): Promise<{ command?: Command, args?: { options: minimist.ParsedArgs }, error?: string }> {
+    const parsedArgs: minimist.ParsedArgs = minimist(rawArgs);
+    const commandName: string = parsedArgs._.join(' ');
+    const findCommand = (): CommandInfo | undefined => this.commands
+      .find(c => c.name === commandName || (c.aliases && c.aliases.indexOf(commandName) > -1));
+
+    let commandInfo: CommandInfo | undefined = findCommand();
+    if (!commandInfo) {
+      // loading commands changes the name of the current command which
+      // we need to preserve
+      const currentCommandName: string | undefined = this.currentCommandName;
+      this.loadCommandFromArgs(parsedArgs._);
+      this.currentCommandName = currentCommandName;
+      commandInfo = findCommand();
+    }
+
+    if (!commandInfo) {
+      return { error: `Command '${commandName}' not found` };
+    }
+
+    const args = Cli.removeShortOptions({
+      options: this.getCommandOptionsFromArgs(rawArgs, commandInfo)
+    });
+
+    try {
+      Cli.loadOptionValuesFromFiles(args);
+      await commandInfo.command.processOptions(args.options);
+    }
+    catch (e: any) {
+      return { error: e.message };
+    }
+
+    if (args.options.output === undefined) {
+      args.options.output = this.getSettingWithDefaultValue<string | undefined>(settingsNames.output, 'json');
+    }
+
+    const validationResult = await commandInfo.command.validate(args, commandInfo);
+    if (validationResult !== true) {
+      return { error: validationResult as string };
+    }
+
+    return { command: commandInfo.command, args };
+  }
+
   public static async executeCommand(command: Command, args: { options: minimist.ParsedArgs }): Promise<void> {
+    // commands that stream their output, log it multiple times. Include
+    // the csv header only in the first output
+    let isFirstOutput: boolean = true;
     const logger: Logger = {
       log: (message: any): void => {
-        const output: any = Cli.formatOutput(message, args.options);
+        const output: any = Cli.formatOutput(message, args.options, isFirstOutput);
+        isFirstOutput = false;
         Cli.log(output);
       },
       logRaw: (message: any): void => Cli.log(message),
@@ -202,7 +273,7 @@ export class Cli {
     const logErr: string[] = [];
     const logger: Logger = {
       log: (message: any): void => {
-        const formattedMessage = Cli.formatOutput(message, args.options);
+        const formattedMessage = Cli.formatOutput(message, args.options, log.length === 0);
         if (listener && listener.stdout) {
           listener.stdout(formattedMessage);
         }
@@ -417,7 +488,73 @@ export class Cli {
     return minimist(args, minimistOptions);
   }
 
-  private static formatOutput(logStatement: any, options: GlobalOptions): any {
+  /**
+   * Formats the objects to log as Markdown. Displays a single object as
+   * a definition list and multiple objects as a table
+   * @param logStatement Array of objects to format
+   * @returns Markdown string
+   */
+  private static getMdOutput(logStatement: any[]): string {
+    const formatValue = (value: any): string => {
+      if (typeof value === 'undefined' || value === null) {
+        return '';
+      }
+
+      const formattedValue: string = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return formattedValue
+        .replace(/\|/g, '\\|')
+        .replace(/\r?\n/g, '<br>');
+    };
+
+    const objects: any[] = logStatement.filter(o => o && typeof o === 'object');
+
+    if (objects.length === 1) {
+      const obj: any = objects[0];
+      return Object.getOwnPropertyNames(obj)
+        .map(p => `${p}${os.EOL}: ${formatValue(obj[p])}`)
+        .join(os.EOL + os.EOL) + os.EOL;
+    }
+
+    // use properties of all objects as columns, in case some objects don't
+    // have all properties
+    const propertyNames: string[] = [];
+    objects.forEach(o => {
+      Object.getOwnPropertyNames(o).forEach(p => {
+        if (propertyNames.indexOf(p) < 0) {
+          propertyNames.push(p);
+        }
+      });
+    });
+
+    const output: string[] = [
+      `| ${propertyNames.map(p => formatValue(p)).join(' | ')} |`,
+      `| ${propertyNames.map(_ => '---').join(' | ')} |`
+    ];
+    objects.forEach(o => {
+      output.push(`| ${propertyNames.map(p => formatValue(o[p])).join(' | ')} |`);
+    });
+
+    return output.join(os.EOL) + os.EOL;
+  }
+
+  /**
+   * Serializes the value to log as YAML or as newline-delimited JSON where
+   * each array item is serialized as JSON on a separate line
+   * @param logStatement Value to serialize
+   * @param output yaml or ndjson
+   * @returns Serialized value
+   */
+  private static getStructuredOutput(logStatement: any, output: string): string {
+    if (output === 'yaml') {
+      const yaml = require('js-yaml');
+      return yaml.dump(logStatement, { lineWidth: -1, noRefs: true, skipInvalid: true });
+    }
+
+    const items: any[] = Array.isArray(logStatement) ? logStatement : [logStatement];
+    return items.map(i => JSON.stringify(i)).join(os.EOL);
+  }
+
+  private static formatOutput(logStatement: any, options: GlobalOptions, csvHeader: boolean = true): any {
     if (logStatement instanceof Date) {
       return logStatement.toString();
     }
@@ -463,8 +600,9 @@ export class Cli {
       return chalk.red(`Error: ${logStatement.message}`);
     }
 
+    let isArray: boolean = Array.isArray(logStatement);
     let arrayType: string = '';
-    if (!Array.isArray(logStatement)) {
+    if (!isArray) {
       logStatement = [logStatement];
       arrayType = logStatementType;
     }
@@ -484,14 +622,19 @@ export class Cli {
     }
 
     if (arrayType !== 'object') {
+      if (options.output === 'yaml' || options.output === 'ndjson') {
+        return Cli.getStructuredOutput(isArray ? logStatement : logStatement[0], options.output);
+      }
+
       return logStatement.join(os.EOL);
     }
 
-    // if output type has been set to 'text' or 'csv', process the retrieved
+    // if output type has been set to other than 'json', process the retrieved
     // data so that returned objects contain only default properties specified
-    // on the current command. If there is no current command or the
-    // command doesn't specify default properties, return original data
-    if (options.output === 'text' || options.output === 'csv') {
+    // on the current command. If there is no current command or the command
+    // doesn't specify default properties, return original data
+    if (options.output === 'text' || options.output === 'csv' || options.output === 'md' ||
+      options.output === 'yaml' || options.output === 'ndjson') {
       const cli: Cli = Cli.getInstance();
       const currentCommand: CommandInfo | undefined = cli.commandToExecute;
 
@@ -507,6 +650,7 @@ export class Cli {
           if (logStatement[0].value &&
             Array.isArray(logStatement[0].value)) {
             logStatement = logStatement[0].value;
+            isArray = true;
           }
 
           logStatement = logStatement.map((s: any) =>
@@ -521,7 +665,7 @@ export class Cli {
 
       // https://csv.js.org/stringify/options/
       return stringify(logStatement, {
-        header: cli.getSettingWithDefaultValue<boolean>(settingsNames.csvHeader, true),
+        header: csvHeader && cli.getSettingWithDefaultValue<boolean>(settingsNames.csvHeader, true),
         escape: cli.getSettingWithDefaultValue(settingsNames.csvEscape, '"'),
         quote: cli.config.get(settingsNames.csvQuote),
         quoted: cli.getSettingWithDefaultValue<boolean>(settingsNames.csvQuoted, false),
@@ -529,6 +673,14 @@ export class Cli {
       });
     }
 
+    if (options.output === 'md') {
+      return Cli.getMdOutput(logStatement);
+    }
+
+    if (options.output === 'yaml' || options.output === 'ndjson') {
+      return Cli.getStructuredOutput(isArray ? logStatement : logStatement[0], options.output);
+    }
+
     // display object as a list of key-value pairs
     if (logStatement.length === 1) {
       const obj: any = logStatement[0];
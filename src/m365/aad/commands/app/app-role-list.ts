@@ -25,6 +25,10 @@ class AadAppRoleListCommand extends GraphCommand {
     return 'Gets Azure AD app registration roles';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   constructor() {
     super();
 
@@ -62,8 +66,7 @@ class AadAppRoleListCommand extends GraphCommand {
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
       const objectId = await this.getAppObjectId(args, logger);
-      const appRoles = await odata.getAllItems<AppRole>(`${this.resource}/v1.0/myorganization/applications/${objectId}/appRoles`);
-      logger.log(appRoles);
+      await odata.logAllItems<AppRole>(`${this.resource}/v1.0/myorganization/applications/${objectId}/appRoles`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -100,7 +100,19 @@ describe(commands.APPROLEASSIGNMENT_ADD, () => {
 
   it('sets App Role assignments for service principal with specified objectId and multiple scopes', async () => {
     getRequestStub();
-    postRequestStub();
+    const postStub = sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
+        return Promise.resolve({
+          responses: opts.data.requests.map((r: any) => ({
+            id: r.id,
+            status: 201,
+            body: { "id": "nI5EJPrQ0UOh3eJ5cglpoLL3KmM12wZPom8Zw6AEypw", "appRoleId": r.body.appRoleId, "principalDisplayName": "myapp", "principalId": "24448e9c-d0fa-43d1-a1dd-e279720969a0", "principalType": "ServicePrincipal", "resourceDisplayName": "Office 365 SharePoint Online", "resourceId": "df3d00f0-a24d-45a9-ba8b-3b0934ec3a6c" }
+          }))
+        });
+      }
+
+      return Promise.reject('Invalid request');
+    });
 
     await command.action(logger, { options: { objectId: '24448e9c-d0fa-43d1-a1dd-e279720969a0', resource: 'SharePoint', scope: 'Sites.Read.All,Sites.ReadWrite.All' } });
     assert.strictEqual(loggerLogSpy.lastCall.args[0][0].objectId, 'nI5EJPrQ0UOh3eJ5cglpoLL3KmM12wZPom8Zw6AEypw');
@@ -109,6 +121,29 @@ describe(commands.APPROLEASSIGNMENT_ADD, () => {
     assert.strictEqual(loggerLogSpy.lastCall.args[0][1].objectId, 'nI5EJPrQ0UOh3eJ5cglpoLL3KmM12wZPom8Zw6AEypw');
     assert.strictEqual(loggerLogSpy.lastCall.args[0][1].principalDisplayName, 'myapp');
     assert.strictEqual(loggerLogSpy.lastCall.args[0][1].resourceDisplayName, 'Office 365 SharePoint Online');
+    assert.deepStrictEqual(postStub.firstCall.args[0].data.requests.map((r: any) => r.url), [
+      '/servicePrincipals/24448e9c-d0fa-43d1-a1dd-e279720969a0/appRoleAssignments',
+      '/servicePrincipals/24448e9c-d0fa-43d1-a1dd-e279720969a0/appRoleAssignments'
+    ]);
+  });
+
+  it('correctly handles error when adding one of multiple App Role assignments', async () => {
+    getRequestStub();
+    sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
+        return Promise.resolve({
+          responses: [
+            { id: '0', status: 201, body: {} },
+            { id: '1', status: 400, body: { error: { code: 'Request_BadRequest', message: 'Permission being assigned already exists on the object' } } }
+          ]
+        });
+      }
+
+      return Promise.reject('Invalid request');
+    });
+
+    await assert.rejects(command.action(logger, { options: { objectId: '24448e9c-d0fa-43d1-a1dd-e279720969a0', resource: 'SharePoint', scope: 'Sites.Read.All,Sites.ReadWrite.All' } } as any),
+      new CommandError('Permission being assigned already exists on the object'));
   });
 
   it('sets App Role assignments for service principal with specified displayName and output json', async () => {
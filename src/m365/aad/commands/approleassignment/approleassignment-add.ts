@@ -2,6 +2,7 @@ import * as os from 'os';
 import { Logger } from '../../../../cli/Logger';
 import GlobalOptions from '../../../../GlobalOptions';
 import request from '../../../../request';
+import { graphBatch, GraphBatchResponse } from '../../../../utils/graphBatch';
 import { validation } from '../../../../utils/validation';
 import GraphCommand from '../../../base/GraphCommand';
 import commands from '../../commands';
@@ -191,13 +192,9 @@ class AadAppRoleAssignmentAddCommand extends GraphCommand {
         appRoles.push(existingRoles[0]);
       }
 
-      const tasks: Promise<any>[] = [];
-
-      for (const appRole of appRoles) {
-        tasks.push(this.addRoleToServicePrincipal(objectId, appRole));
-      }
-
-      const rolesAddedResponse = await Promise.all(tasks);
+      const rolesAddedResponse: any[] = appRoles.length === 1 ?
+        [await this.addRoleToServicePrincipal(objectId, appRoles[0])] :
+        await this.addRolesToServicePrincipal(objectId, appRoles);
 
       if (args.options.output && args.options.output.toLowerCase() === 'json') {
         logger.log(rolesAddedResponse);
@@ -222,15 +219,30 @@ class AadAppRoleAssignmentAddCommand extends GraphCommand {
         'Content-Type': 'application/json'
       },
       responseType: 'json',
-      data: {
-        appRoleId: appRole.objectId,
-        principalId: objectId,
-        resourceId: appRole.resourceId
-      }
+      data: this.getAppRoleAssignmentData(objectId, appRole)
     };
 
     return request.post(requestOptions);
   }
+
+  private async addRolesToServicePrincipal(objectId: string, appRoles: AppRole[]): Promise<any[]> {
+    const responses: GraphBatchResponse[] = await graphBatch.execute(appRoles.map(appRole => ({
+      method: 'POST',
+      url: `/servicePrincipals/${objectId}/appRoleAssignments`,
+      body: this.getAppRoleAssignmentData(objectId, appRole)
+    })));
+    graphBatch.ensureSuccess(responses);
+
+    return responses.map(res => res.body);
+  }
+
+  private getAppRoleAssignmentData(objectId: string, appRole: AppRole): any {
+    return {
+      appRoleId: appRole.objectId,
+      principalId: objectId,
+      resourceId: appRole.resourceId
+    };
+  }
 }
 
 module.exports = new AadAppRoleAssignmentAddCommand();
\ No newline at end of file
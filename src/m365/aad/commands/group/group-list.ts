@@ -26,6 +26,10 @@ class AadGroupListCommand extends GraphCommand {
     return 'Lists all groups defined in Azure Active Directory.';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   constructor() {
     super();
 
@@ -55,26 +59,24 @@ class AadGroupListCommand extends GraphCommand {
     const endpoint: string = args.options.deleted ? 'directory/deletedItems/microsoft.graph.group' : 'groups';
 
     try {
-      const groups = await odata.getAllItems<Group>(`${this.resource}/v1.0/${endpoint}`);
-
-      if (args.options.output === 'text') {
-        groups.forEach((group: ExtendedGroup) => {
-          if (group.groupTypes && group.groupTypes.length > 0 && group.groupTypes[0] === 'Unified') {
-            group.groupType = 'Microsoft 365';
-          }
-          else if (group.mailEnabled && group.securityEnabled) {
-            group.groupType = 'Mail enabled security';
-          }
-          else if (group.securityEnabled) {
-            group.groupType = 'Security';
-          }
-          else if (group.mailEnabled) {
-            group.groupType = 'Distribution';
-          }
-        });
-      }
-
-      logger.log(groups);
+      await odata.logAllItems<Group>(`${this.resource}/v1.0/${endpoint}`, logger, args.options, groups => {
+        if (args.options.output === 'text') {
+          groups.forEach((group: ExtendedGroup) => {
+            if (group.groupTypes && group.groupTypes.length > 0 && group.groupTypes[0] === 'Unified') {
+              group.groupType = 'Microsoft 365';
+            }
+            else if (group.mailEnabled && group.securityEnabled) {
+              group.groupType = 'Mail enabled security';
+            }
+            else if (group.securityEnabled) {
+              group.groupType = 'Security';
+            }
+            else if (group.mailEnabled) {
+              group.groupType = 'Distribution';
+            }
+          });
+        }
+      });
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
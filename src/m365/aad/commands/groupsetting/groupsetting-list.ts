@@ -1,9 +1,14 @@
 import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
 import { odata } from '../../../../utils/odata';
 import GraphCommand from '../../../base/GraphCommand';
 import commands from '../../commands';
 import { GroupSetting } from './GroupSetting';
 
+interface CommandArgs {
+  options: GlobalOptions;
+}
+
 class AadGroupSettingListCommand extends GraphCommand {
   public get name(): string {
     return commands.GROUPSETTING_LIST;
@@ -13,14 +18,17 @@ class AadGroupSettingListCommand extends GraphCommand {
     return 'Lists Azure AD group settings';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'displayName'];
   }
 
-  public async commandAction(logger: Logger): Promise<void> {
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
-      const groupSettings = await odata.getAllItems<GroupSetting>(`${this.resource}/v1.0/groupSettings`);
-      logger.log(groupSettings);
+      await odata.logAllItems<GroupSetting>(`${this.resource}/v1.0/groupSettings`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -1,9 +1,14 @@
 import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
 import { odata } from '../../../../utils/odata';
 import GraphCommand from '../../../base/GraphCommand';
 import commands from '../../commands';
 import { GroupSettingTemplate } from './GroupSettingTemplate';
 
+interface CommandArgs {
+  options: GlobalOptions;
+}
+
 class AadGroupSettingTemplateListCommand extends GraphCommand {
   public get name(): string {
     return commands.GROUPSETTINGTEMPLATE_LIST;
@@ -13,14 +18,17 @@ class AadGroupSettingTemplateListCommand extends GraphCommand {
     return 'Lists Azure AD group settings templates';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'displayName'];
   }
 
-  public async commandAction(logger: Logger): Promise<void> {
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
-      const templates = await odata.getAllItems<GroupSettingTemplate>(`${this.resource}/v1.0/groupSettingTemplates`);
-      logger.log(templates);
+      await odata.logAllItems<GroupSettingTemplate>(`${this.resource}/v1.0/groupSettingTemplates`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
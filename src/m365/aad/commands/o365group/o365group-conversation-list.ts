@@ -23,6 +23,10 @@ class AadO365GroupConversationListCommand extends GraphCommand {
     return 'Lists conversations for the specified Microsoft 365 group';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['topic', 'lastDeliveredDateTime', 'id'];
   }
@@ -56,8 +60,7 @@ class AadO365GroupConversationListCommand extends GraphCommand {
 
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
-      const conversations = await odata.getAllItems<Conversation>(`${this.resource}/v1.0/groups/${args.options.groupId}/conversations`);
-      logger.log(conversations);
+      await odata.logAllItems<Conversation>(`${this.resource}/v1.0/groups/${args.options.groupId}/conversations`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -26,6 +26,10 @@ class AadO365GroupConversationPostListCommand extends GraphCommand {
     return 'Lists conversation posts of a Microsoft 365 group';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   constructor() {
     super();
 
@@ -81,8 +85,7 @@ class AadO365GroupConversationPostListCommand extends GraphCommand {
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
       const retrievedgroupId = await this.getGroupId(args);
-      const posts = await odata.getAllItems<Post>(`${this.resource}/v1.0/groups/${retrievedgroupId}/threads/${args.options.threadId}/posts`);
-      logger.log(posts);
+      await odata.logAllItems<Post>(`${this.resource}/v1.0/groups/${retrievedgroupId}/threads/${args.options.threadId}/posts`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -23,6 +23,10 @@ class AadO365GroupRecycleBinItemListCommand extends GraphCommand {
     return 'Lists Microsoft 365 Groups deleted in the current tenant';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   constructor() {
     super();
 
@@ -62,8 +66,7 @@ class AadO365GroupRecycleBinItemListCommand extends GraphCommand {
       const topCount: string = '&$top=100';
       const endpoint: string = `${this.resource}/v1.0/directory/deletedItems/Microsoft.Graph.Group${filter}${displayNameFilter}${mailNicknameFilter}${topCount}`;
 
-      const recycleBinItems = await odata.getAllItems<DirectoryObject>(endpoint);
-      logger.log(recycleBinItems);
+      await odata.logAllItems<DirectoryObject>(endpoint, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
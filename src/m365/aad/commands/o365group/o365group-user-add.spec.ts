@@ -312,6 +312,86 @@ describe(commands.O365GROUP_USER_ADD, () => {
       new CommandError('Invalid object identifier'));
   });
 
+  it('adds multiple users as owners to the specified Microsoft 365 group in batches', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
+        if (opts.data.requests[0].method === 'GET') {
+          return Promise.resolve({
+            responses: [
+              { id: '0', status: 200, body: { value: '00000000-0000-0000-0000-000000000001' } },
+              { id: '1', status: 200, body: { value: '00000000-0000-0000-0000-000000000002' } }
+            ]
+          });
+        }
+
+        return Promise.resolve({
+          responses: [
+            { id: '0', status: 204 },
+            { id: '1', status: 204 }
+          ]
+        });
+      }
+
+      return Promise.reject('Invalid request');
+    });
+
+    await command.action(logger, { options: { groupId: "00000000-0000-0000-0000-000000000000", userName: "anne.matthews@contoso.onmicrosoft.com, john.doe@contoso.onmicrosoft.com", role: "Owner" } });
+    assert.deepStrictEqual(postStub.firstCall.args[0].data.requests, [
+      { id: '0', method: 'GET', url: '/users/anne.matthews%40contoso.onmicrosoft.com/id' },
+      { id: '1', method: 'GET', url: '/users/john.doe%40contoso.onmicrosoft.com/id' }
+    ]);
+    assert.deepStrictEqual(postStub.secondCall.args[0].data.requests, [
+      { id: '0', method: 'POST', url: '/groups/00000000-0000-0000-0000-000000000000/owners/$ref', headers: { 'content-type': 'application/json' }, body: { '@odata.id': 'https://graph.microsoft.com/v1.0/directoryObjects/00000000-0000-0000-0000-000000000001' } },
+      { id: '1', method: 'POST', url: '/groups/00000000-0000-0000-0000-000000000000/owners/$ref', headers: { 'content-type': 'application/json' }, body: { '@odata.id': 'https://graph.microsoft.com/v1.0/directoryObjects/00000000-0000-0000-0000-000000000002' } }
+    ]);
+  });
+
+  it('correctly handles error when one of multiple users cannot be retrieved', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
+        return Promise.resolve({
+          responses: [
+            { id: '0', status: 200, body: { value: '00000000-0000-0000-0000-000000000001' } },
+            { id: '1', status: 404, body: { error: { code: 'Request_ResourceNotFound', message: `Resource 'doesnotexist@contoso.onmicrosoft.com' does not exist or one of its queried reference-property objects are not present.` } } }
+          ]
+        });
+      }
+
+      return Promise.reject('Invalid request');
+    });
+
+    await assert.rejects(command.action(logger, { options: { teamId: "00000000-0000-0000-0000-000000000000", userName: "anne.matthews@contoso.onmicrosoft.com,doesnotexist@contoso.onmicrosoft.com" } } as any),
+      new CommandError(`Resource 'doesnotexist@contoso.onmicrosoft.com' does not exist or one of its queried reference-property objects are not present.`));
+    assert(postStub.calledOnce);
+  });
+
+  it('correctly handles error when adding one of multiple users to the specified Microsoft 365 group', async () => {
+    sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
+        if (opts.data.requests[0].method === 'GET') {
+          return Promise.resolve({
+            responses: [
+              { id: '0', status: 200, body: { value: '00000000-0000-0000-0000-000000000001' } },
+              { id: '1', status: 200, body: { value: '00000000-0000-0000-0000-000000000002' } }
+            ]
+          });
+        }
+
+        return Promise.resolve({
+          responses: [
+            { id: '0', status: 204 },
+            { id: '1', status: 400, body: { error: { code: 'Request_BadRequest', message: 'One or more added object references already exist for the following modified properties: \'members\'.' } } }
+          ]
+        });
+      }
+
+      return Promise.reject('Invalid request');
+    });
+
+    await assert.rejects(command.action(logger, { options: { teamId: "00000000-0000-0000-0000-000000000000", userName: "anne.matthews@contoso.onmicrosoft.com,john.doe@contoso.onmicrosoft.com" } } as any),
+      new CommandError(`One or more added object references already exist for the following modified properties: 'members'.`));
+  });
+
   it('supports debug mode', () => {
     const options = command.options;
     let containsOption = false;
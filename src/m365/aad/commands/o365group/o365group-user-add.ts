@@ -1,6 +1,7 @@
 import { Logger } from '../../../../cli/Logger';
 import GlobalOptions from '../../../../GlobalOptions';
 import request from '../../../../request';
+import { graphBatch, GraphBatchResponse } from '../../../../utils/graphBatch';
 import { validation } from '../../../../utils/validation';
 import GraphCommand from '../../../base/GraphCommand';
 import teamsCommands from '../../../teams/commands';
@@ -96,6 +97,13 @@ class AadO365GroupUserAddCommand extends GraphCommand {
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
       const providedGroupId: string = (typeof args.options.groupId !== 'undefined') ? args.options.groupId : args.options.teamId as string;
+      const endpoint: string = `/groups/${providedGroupId}/${((typeof args.options.role !== 'undefined') ? args.options.role : '').toLowerCase() === 'owner' ? 'owners' : 'members'}/$ref`;
+      const userNames: string[] = args.options.userName.split(',').map(u => u.trim());
+
+      if (userNames.length > 1) {
+        await this.addUsers(userNames, endpoint);
+        return;
+      }
 
       let requestOptions: any = {
         url: `${this.resource}/v1.0/users/${encodeURIComponent(args.options.userName)}/id`,
@@ -106,10 +114,9 @@ class AadO365GroupUserAddCommand extends GraphCommand {
       };
 
       const res = await request.get<{ value: string; }>(requestOptions);
-      const endpoint: string = `${this.resource}/v1.0/groups/${providedGroupId}/${((typeof args.options.role !== 'undefined') ? args.options.role : '').toLowerCase() === 'owner' ? 'owners' : 'members'}/$ref`;
 
       requestOptions = {
-        url: endpoint,
+        url: `${this.resource}/v1.0${endpoint}`,
         headers: {
           'accept': 'application/json;odata.metadata=none'
         },
@@ -123,6 +130,21 @@ class AadO365GroupUserAddCommand extends GraphCommand {
       this.handleRejectedODataJsonPromise(err);
     }
   }
+
+  private async addUsers(userNames: string[], endpoint: string): Promise<void> {
+    const userResponses: GraphBatchResponse<{ value: string; }>[] = await graphBatch.execute<{ value: string; }>(userNames.map(userName => ({
+      method: 'GET',
+      url: `/users/${encodeURIComponent(userName)}/id`
+    })));
+    graphBatch.ensureSuccess(userResponses);
+
+    const responses: GraphBatchResponse[] = await graphBatch.execute(userResponses.map(res => ({
+      method: 'POST',
+      url: endpoint,
+      body: { "@odata.id": "https://graph.microsoft.com/v1.0/directoryObjects/" + res.body!.value }
+    })));
+    graphBatch.ensureSuccess(responses);
+  }
 }
 
 module.exports = new AadO365GroupUserAddCommand();
\ No newline at end of file
@@ -23,6 +23,10 @@ class AadUserListCommand extends GraphCommand {
     return 'Lists users matching specified criteria';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public allowUnknownOptions(): boolean | undefined {
     return true;
   }
@@ -64,8 +68,7 @@ class AadUserListCommand extends GraphCommand {
       }
       const endpoint: string = args.options.deleted ? 'directory/deletedItems/microsoft.graph.user' : 'users';
       const url: string = `${this.resource}/v1.0/${endpoint}?$select=${properties.join(',')}${(filter.length > 0 ? '&' + filter : '')}&$top=100`;
-      const users = await odata.getAllItems<User>(url);
-      logger.log(users);
+      await odata.logAllItems<User>(url, logger, args.options);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
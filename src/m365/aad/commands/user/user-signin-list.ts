@@ -26,6 +26,10 @@ class AadUserSigninListCommand extends GraphCommand {
     return 'Retrieves the Azure AD user sign-ins for the tenant';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   constructor() {
     super();
 
@@ -107,8 +111,7 @@ class AadUserSigninListCommand extends GraphCommand {
       }
       endpoint += filter;
       
-      const signins = await odata.getAllItems<SignIn>(endpoint);
-      logger.log(signins);
+      await odata.logAllItems<SignIn>(endpoint, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
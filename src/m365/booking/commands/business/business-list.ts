@@ -1,9 +1,14 @@
 import { BookingBusiness } from '@microsoft/microsoft-graph-types';
 import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
 import { odata } from '../../../../utils/odata';
 import GraphCommand from '../../../base/GraphCommand';
 import commands from '../../commands';
 
+interface CommandArgs {
+  options: GlobalOptions;
+}
+
 class BookingBusinessListCommand extends GraphCommand {
   public get name(): string {
     return commands.BUSINESS_LIST;
@@ -13,16 +18,19 @@ class BookingBusinessListCommand extends GraphCommand {
     return 'Lists all Microsoft Bookings businesses that are created for the tenant.';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'displayName'];
   }
 
-  public async commandAction(logger: Logger): Promise<void> {
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     const endpoint: string = `${this.resource}/v1.0/solutions/bookingBusinesses`;
 
     try {
-      const items = await odata.getAllItems<BookingBusiness>(endpoint);
-      logger.log(items);
+      await odata.logAllItems<BookingBusiness>(endpoint, logger, args.options);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -174,6 +174,54 @@ describe(commands.CONFIG_SET, () => {
   });
 
 
+  it(`sets ${settingsNames.retryMaxAttempts} property`, async () => {
+    const config = Cli.getInstance().config;
+    let actualKey: string = '', actualValue: any;
+    sinon.stub(config, 'set').callsFake(((key: string, value: any) => {
+      actualKey = key;
+      actualValue = value;
+    }) as any);
+    await command.action(logger, { options: { key: settingsNames.retryMaxAttempts, value: '3' } });
+    assert.strictEqual(actualKey, settingsNames.retryMaxAttempts, 'Invalid key');
+    assert.strictEqual(actualValue, 3, 'Invalid value');
+  });
+
+  it(`sets ${settingsNames.retryBaseDelay} property`, async () => {
+    const config = Cli.getInstance().config;
+    let actualKey: string = '', actualValue: any;
+    sinon.stub(config, 'set').callsFake(((key: string, value: any) => {
+      actualKey = key;
+      actualValue = value;
+    }) as any);
+    await command.action(logger, { options: { key: settingsNames.retryBaseDelay, value: '500' } });
+    assert.strictEqual(actualKey, settingsNames.retryBaseDelay, 'Invalid key');
+    assert.strictEqual(actualValue, 500, 'Invalid value');
+  });
+
+  it(`sets ${settingsNames.retryJitter} property`, async () => {
+    const config = Cli.getInstance().config;
+    let actualKey: string = '', actualValue: any;
+    sinon.stub(config, 'set').callsFake(((key: string, value: any) => {
+      actualKey = key;
+      actualValue = value;
+    }) as any);
+    await command.action(logger, { options: { key: settingsNames.retryJitter, value: 'false' } });
+    assert.strictEqual(actualKey, settingsNames.retryJitter, 'Invalid key');
+    assert.strictEqual(actualValue, false, 'Invalid value');
+  });
+
+  it(`sets ${settingsNames.retryStatusCodes} property`, async () => {
+    const config = Cli.getInstance().config;
+    let actualKey: string = '', actualValue: any;
+    sinon.stub(config, 'set').callsFake(((key: string, value: any) => {
+      actualKey = key;
+      actualValue = value;
+    }) as any);
+    await command.action(logger, { options: { key: settingsNames.retryStatusCodes, value: '429, 500,503' } });
+    assert.strictEqual(actualKey, settingsNames.retryStatusCodes, 'Invalid key');
+    assert.strictEqual(actualValue, '429,500,503', 'Invalid value');
+  });
+
   it('supports specifying key and value', () => {
     const options = command.options;
     let containsOptionKey = false;
@@ -225,6 +273,21 @@ describe(commands.CONFIG_SET, () => {
     assert.strictEqual(actual, true);
   });
 
+  it('passes validation for output type md', async () => {
+    const actual = await command.validate({ options: { key: settingsNames.output, value: 'md' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('passes validation for output type yaml', async () => {
+    const actual = await command.validate({ options: { key: settingsNames.output, value: 'yaml' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('passes validation for output type ndjson', async () => {
+    const actual = await command.validate({ options: { key: settingsNames.output, value: 'ndjson' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
   it('fails validation if specified error output type is invalid', async () => {
     const actual = await command.validate({ options: { key: settingsNames.errorOutput, value: 'invalid' } }, commandInfo);
     assert.notStrictEqual(actual, true);
@@ -239,4 +302,39 @@ describe(commands.CONFIG_SET, () => {
     const actual = await command.validate({ options: { key: settingsNames.errorOutput, value: 'stderr' } }, commandInfo);
     assert.strictEqual(actual, true);
   });
-});
\ No newline at end of file
+
+  it(`fails validation if ${settingsNames.retryMaxAttempts} is not a number`, async () => {
+    const actual = await command.validate({ options: { key: settingsNames.retryMaxAttempts, value: 'abc' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it(`fails validation if ${settingsNames.retryMaxAttempts} is 0`, async () => {
+    const actual = await command.validate({ options: { key: settingsNames.retryMaxAttempts, value: '0' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it(`passes validation if ${settingsNames.retryMaxAttempts} is a positive integer`, async () => {
+    const actual = await command.validate({ options: { key: settingsNames.retryMaxAttempts, value: '3' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it(`fails validation if ${settingsNames.retryBaseDelay} is negative`, async () => {
+    const actual = await command.validate({ options: { key: settingsNames.retryBaseDelay, value: '-1' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it(`passes validation if ${settingsNames.retryBaseDelay} is 0`, async () => {
+    const actual = await command.validate({ options: { key: settingsNames.retryBaseDelay, value: '0' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it(`fails validation if ${settingsNames.retryStatusCodes} contains invalid status codes`, async () => {
+    const actual = await command.validate({ options: { key: settingsNames.retryStatusCodes, value: '429,abc' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it(`passes validation if ${settingsNames.retryStatusCodes} contains a list of status codes`, async () => {
+    const actual = await command.validate({ options: { key: settingsNames.retryStatusCodes, value: '429, 502,503' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
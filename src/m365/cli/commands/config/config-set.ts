@@ -58,7 +58,7 @@ class CliConfigSetCommand extends AnonymousCommand {
           return `${args.options.key} is not a valid setting. Allowed values: ${CliConfigSetCommand.optionNames.join(', ')}`;
         }
     
-        const allowedOutputs = ['text', 'json', 'csv'];
+        const allowedOutputs = ['text', 'json', 'csv', 'md', 'yaml', 'ndjson'];
         if (args.options.key === settingsNames.output &&
           allowedOutputs.indexOf(args.options.value) === -1) {
           return `${args.options.value} is not a valid value for the option ${args.options.key}. Allowed values: ${allowedOutputs.join(', ')}`;
@@ -69,6 +69,22 @@ class CliConfigSetCommand extends AnonymousCommand {
           allowedErrorOutputs.indexOf(args.options.value) === -1) {
           return `${args.options.value} is not a valid value for the option ${args.options.key}. Allowed values: ${allowedErrorOutputs.join(', ')}`;
         }
+
+        if ((args.options.key === settingsNames.retryMaxAttempts ||
+          args.options.key === settingsNames.retryBaseDelay) &&
+          !/^\d+$/.test(args.options.value)) {
+          return `${args.options.value} is not a valid value for the option ${args.options.key}. Specify a non-negative integer`;
+        }
+
+        if (args.options.key === settingsNames.retryMaxAttempts &&
+          parseInt(args.options.value) < 1) {
+          return `${args.options.value} is not a valid value for the option ${args.options.key}. Specify a positive integer`;
+        }
+
+        if (args.options.key === settingsNames.retryStatusCodes &&
+          !/^\s*\d{3}\s*(,\s*\d{3}\s*)*$/.test(args.options.value)) {
+          return `${args.options.value} is not a valid value for the option ${args.options.key}. Specify a comma-separated list of HTTP status codes`;
+        }
     
         return true;
       }
@@ -86,9 +102,17 @@ class CliConfigSetCommand extends AnonymousCommand {
       case settingsNames.csvQuoted:
       case settingsNames.csvQuotedEmpty:
       case settingsNames.printErrorsAsPlainText:
+      case settingsNames.retryJitter:
       case settingsNames.showHelpOnFailure:
         value = args.options.value === 'true';
         break;
+      case settingsNames.retryBaseDelay:
+      case settingsNames.retryMaxAttempts:
+        value = parseInt(args.options.value);
+        break;
+      case settingsNames.retryStatusCodes:
+        value = String(args.options.value).split(',').map(c => c.trim()).join(',');
+        break;
       default:
         value = args.options.value;
         break;
@@ -0,0 +1,344 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as sinon from 'sinon';
+import appInsights from '../../appInsights';
+import auth, { Service } from '../../Auth';
+import { Cli } from '../../cli/Cli';
+import { CommandInfo } from '../../cli/CommandInfo';
+import { Logger } from '../../cli/Logger';
+import Command, { CommandError } from '../../Command';
+import { pid } from '../../utils/pid';
+import { sinonUtil } from '../../utils/sinonUtil';
+import { spo } from '../../utils/spo';
+import commands from './commands';
+const command: Command = require('./batch');
+
+describe(commands.BATCH, () => {
+  let log: any[];
+  let logger: Logger;
+  let loggerLogSpy: sinon.SinonSpy;
+  let commandInfo: CommandInfo;
+  let isTTY: boolean;
+  const innerCommand: Command = {} as any;
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    commandInfo = Cli.getCommandInfo(command);
+    isTTY = process.stdin.isTTY;
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    loggerLogSpy = sinon.spy(logger, 'log');
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      fs.existsSync,
+      fs.readFileSync,
+      Cli.prototype.getCommandFromArgs,
+      Cli.executeCommandWithOutput,
+      auth.getAllConnections,
+      process.stdin.on,
+      process.stdin.setEncoding
+    ]);
+    process.stdin.isTTY = isTTY;
+    spo.formDigestCache = undefined;
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.BATCH), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('fails validation if the specified file does not exist', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => false);
+    const actual = await command.validate({ options: { file: 'commands.txt' } }, commandInfo);
+    assert.strictEqual(actual, `File 'commands.txt' not found`);
+  });
+
+  it('fails validation if no file specified and no commands piped', async () => {
+    process.stdin.isTTY = true;
+    const actual = await command.validate({ options: {} }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation if the specified file exists', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    const actual = await command.validate({ options: { file: 'commands.txt' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('passes validation if no file specified and commands piped', async () => {
+    process.stdin.isTTY = false;
+    const actual = await command.validate({ options: {} }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('executes commands from the specified file skipping empty lines and comments', async () => {
+    sinon.stub(fs, 'readFileSync').callsFake(() => `# get web
+m365 spo web get --url https://contoso.sharepoint.com
+
+spo site get --url https://contoso.sharepoint.com\r
+`);
+    const getCommandFromArgsStub = sinon.stub(Cli.prototype, 'getCommandFromArgs').callsFake(async (rawArgs: string[]) => ({ command: innerCommand, args: { options: { _: [], output: rawArgs[rawArgs.length - 1] } } }));
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async () => ({ stdout: '{"Title":"Contoso"}', stderr: '' }));
+
+    await command.action(logger, { options: { file: 'commands.txt' } });
+    assert.deepStrictEqual(getCommandFromArgsStub.firstCall.args[0], ['spo', 'web', 'get', '--url', 'https://contoso.sharepoint.com', '--output', 'json']);
+    assert(loggerLogSpy.calledWith([
+      {
+        line: 2,
+        command: 'm365 spo web get --url https://contoso.sharepoint.com',
+        success: true,
+        output: { Title: 'Contoso' }
+      },
+      {
+        line: 4,
+        command: 'spo site get --url https://contoso.sharepoint.com',
+        success: true,
+        output: { Title: 'Contoso' }
+      }
+    ]));
+  });
+
+  it('executes commands without the connection option using the active connection', async () => {
+    class ConnectionNameCommand extends Command {
+      public get name(): string {
+        return 'connection name';
+      }
+
+      public get description(): string {
+        return 'Returns the name of the current connection';
+      }
+
+      public async commandAction(logger: Logger): Promise<void> {
+        logger.log(auth.service.name);
+      }
+    }
+    const connectionNameCommand = new ConnectionNameCommand();
+    const activeService: Service = auth.service;
+    activeService.connected = true;
+    activeService.name = 'fabrikam';
+    sinon.stub(auth, 'getAllConnections').callsFake(async () => ({ contoso: { name: 'contoso', connected: true } as any }));
+    sinon.stub(fs, 'readFileSync').callsFake(() => `m365 connection name --connection contoso
+m365 connection name`);
+    sinon.stub(Cli.prototype, 'getCommandFromArgs').callsFake(async (rawArgs: string[]) => ({ command: connectionNameCommand, args: { options: { _: [], output: 'json', connection: rawArgs.includes('--connection') ? rawArgs[rawArgs.indexOf('--connection') + 1] : undefined } } }));
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async (command: Command, args: any) => {
+      const output: string[] = [];
+      await command.action({ log: (msg: string) => output.push(msg) } as any, args);
+      return { stdout: JSON.stringify(output[0]), stderr: '' };
+    });
+
+    try {
+      await command.action(logger, { options: { file: 'commands.txt' } });
+      assert.deepStrictEqual(loggerLogSpy.lastCall.args[0].map((r: any) => r.output), ['contoso', 'fabrikam']);
+      assert.strictEqual(auth.service, activeService);
+    }
+    finally {
+      activeService.connected = false;
+      activeService.name = undefined;
+    }
+  });
+
+  it('splits command line into args respecting quotes', async () => {
+    sinon.stub(fs, 'readFileSync').callsFake(() => `microsoft365 spo web set --url https://contoso.sharepoint.com --title "Contoso \\"Web\\" C:\\\\" --description 'Contoso "web"' --footerEmphasis ""`);
+    const getCommandFromArgsStub = sinon.stub(Cli.prototype, 'getCommandFromArgs').callsFake(async () => ({ command: innerCommand, args: { options: { _: [], output: 'json' } } }));
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async () => ({ stdout: '', stderr: '' }));
+
+    await command.action(logger, { options: { file: 'commands.txt' } });
+    assert.deepStrictEqual(getCommandFromArgsStub.firstCall.args[0], ['spo', 'web', 'set', '--url', 'https://contoso.sharepoint.com', '--title', 'Contoso "Web" C:\\', '--description', 'Contoso "web"', '--footerEmphasis', '', '--output', 'json']);
+    assert(loggerLogSpy.calledWith([
+      {
+        line: 1,
+        command: `microsoft365 spo web set --url https://contoso.sharepoint.com --title "Contoso \\"Web\\" C:\\\\" --description 'Contoso "web"' --footerEmphasis ""`,
+        success: true,
+        output: ''
+      }
+    ]));
+  });
+
+  it('keeps the output mode specified for the command', async () => {
+    sinon.stub(fs, 'readFileSync').callsFake(() => `spo web get --url https://contoso.sharepoint.com -o text
+spo web get --url https://contoso.sharepoint.com --output json`);
+    const getCommandFromArgsStub = sinon.stub(Cli.prototype, 'getCommandFromArgs').callsFake(async (rawArgs: string[]) => ({ command: innerCommand, args: { options: { _: [], output: rawArgs[rawArgs.length - 1] } } }));
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async () => ({ stdout: 'Title  Contoso', stderr: '' }));
+
+    await command.action(logger, { options: { file: 'commands.txt' } });
+    assert.deepStrictEqual(getCommandFromArgsStub.firstCall.args[0], ['spo', 'web', 'get', '--url', 'https://contoso.sharepoint.com', '-o', 'text']);
+    assert.deepStrictEqual(getCommandFromArgsStub.secondCall.args[0], ['spo', 'web', 'get', '--url', 'https://contoso.sharepoint.com', '--output', 'json']);
+    assert.deepStrictEqual(log[0], [
+      {
+        line: 1,
+        command: 'spo web get --url https://contoso.sharepoint.com -o text',
+        success: true,
+        output: 'Title  Contoso'
+      },
+      {
+        line: 2,
+        command: 'spo web get --url https://contoso.sharepoint.com --output json',
+        success: true,
+        output: 'Title  Contoso'
+      }
+    ]);
+  });
+
+  it('stops executing commands after the first failed command', async () => {
+    sinon.stub(fs, 'readFileSync').callsFake(() => `spo web get --url https://contoso.sharepoint.com
+spo web get --url "https://contoso.sharepoint.com
+spo web get --url https://contoso.sharepoint.com`);
+    sinon.stub(Cli.prototype, 'getCommandFromArgs').callsFake(async () => ({ command: innerCommand, args: { options: { _: [], output: 'json' } } }));
+    const executeCommandWithOutputStub = sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async () => ({ stdout: '{}', stderr: '' }));
+
+    await assert.rejects(command.action(logger, { options: { file: 'commands.txt' } }),
+      new CommandError('Executing command on line 2 failed: Unterminated " in command'));
+    assert.strictEqual(executeCommandWithOutputStub.callCount, 1);
+    assert(loggerLogSpy.calledWith([
+      {
+        line: 1,
+        command: 'spo web get --url https://contoso.sharepoint.com',
+        success: true,
+        output: {}
+      },
+      {
+        line: 2,
+        command: 'spo web get --url "https://contoso.sharepoint.com',
+        success: false,
+        error: 'Unterminated " in command'
+      }
+    ]));
+  });
+
+  it('continues executing commands after failed commands when continueOnError specified', async () => {
+    sinon.stub(fs, 'readFileSync').callsFake(() => `spo foo
+spo web get --url https://contoso.sharepoint.com
+spo web get --url https://contoso.sharepoint.com
+spo web get --url https://contoso.sharepoint.com`);
+    sinon.stub(Cli.prototype, 'getCommandFromArgs').callsFake(async (rawArgs: string[]) => {
+      if (rawArgs[1] === 'foo') {
+        return { error: `Command 'spo foo' not found` };
+      }
+
+      return { command: innerCommand, args: { options: { _: [], output: 'json' } } };
+    });
+    const executeCommandWithOutputStub = sinon.stub(Cli, 'executeCommandWithOutput');
+    executeCommandWithOutputStub.onFirstCall().rejects({ error: new CommandError('Access denied'), stderr: '' });
+    executeCommandWithOutputStub.onSecondCall().rejects({ error: 'An error has occurred', stderr: '' });
+    executeCommandWithOutputStub.onThirdCall().resolves({ stdout: '{"Title":"Contoso"}\n{"Title":"Contoso"}', stderr: '' });
+
+    await command.action(logger, { options: { file: 'commands.txt', continueOnError: true, verbose: true } });
+    assert.deepStrictEqual(log[log.length - 1], [
+      {
+        line: 1,
+        command: 'spo foo',
+        success: false,
+        error: `Command 'spo foo' not found`
+      },
+      {
+        line: 2,
+        command: 'spo web get --url https://contoso.sharepoint.com',
+        success: false,
+        error: 'Access denied'
+      },
+      {
+        line: 3,
+        command: 'spo web get --url https://contoso.sharepoint.com',
+        success: false,
+        error: 'An error has occurred'
+      },
+      {
+        line: 4,
+        command: 'spo web get --url https://contoso.sharepoint.com',
+        success: true,
+        output: '{"Title":"Contoso"}\n{"Title":"Contoso"}'
+      }
+    ]);
+    assert(log.indexOf('Executing line 1: spo foo...') > -1);
+  });
+
+  it('executes commands piped to the command', async () => {
+    sinon.stub(process.stdin, 'setEncoding').callsFake(() => process.stdin);
+    sinon.stub(process.stdin, 'on').callsFake((event: string | symbol, listener: (...args: any[]) => void) => {
+      if (event === 'data') {
+        listener('spo web get ');
+        listener('--url https://contoso.sharepoint.com');
+      }
+      if (event === 'end') {
+        listener();
+      }
+      return process.stdin;
+    });
+    sinon.stub(Cli.prototype, 'getCommandFromArgs').callsFake(async () => ({ command: innerCommand, args: { options: { _: [], output: 'json' } } }));
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async () => ({ stdout: '{"Title":"Contoso"}', stderr: '' }));
+
+    await command.action(logger, { options: {} });
+    assert(loggerLogSpy.calledWith([
+      {
+        line: 1,
+        command: 'spo web get --url https://contoso.sharepoint.com',
+        success: true,
+        output: { Title: 'Contoso' }
+      }
+    ]));
+  });
+
+  it('correctly handles error when reading piped commands', async () => {
+    sinon.stub(process.stdin, 'setEncoding').callsFake(() => process.stdin);
+    sinon.stub(process.stdin, 'on').callsFake((event: string | symbol, listener: (...args: any[]) => void) => {
+      if (event === 'error') {
+        listener(new Error('An error has occurred'));
+      }
+      return process.stdin;
+    });
+
+    await assert.rejects(command.action(logger, { options: {} }), new CommandError('An error has occurred'));
+  });
+
+  it('reuses form digests while executing commands and disables the form digest cache afterwards', async () => {
+    let formDigestCache: any;
+    sinon.stub(fs, 'readFileSync').callsFake(() => 'spo web get --url https://contoso.sharepoint.com');
+    sinon.stub(Cli.prototype, 'getCommandFromArgs').callsFake(async () => ({ command: innerCommand, args: { options: { _: [], output: 'json' } } }));
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async () => {
+      formDigestCache = spo.formDigestCache;
+      return { stdout: '{}', stderr: '' };
+    });
+
+    await command.action(logger, { options: { file: 'commands.txt' } });
+    assert.deepStrictEqual(formDigestCache, {});
+    assert.strictEqual(spo.formDigestCache, undefined);
+  });
+
+  it('keeps the existing form digest cache', async () => {
+    const formDigestCache = {};
+    spo.formDigestCache = formDigestCache;
+    sinon.stub(fs, 'readFileSync').callsFake(() => '');
+
+    await command.action(logger, { options: { file: 'commands.txt' } });
+    assert.strictEqual(spo.formDigestCache, formDigestCache);
+    assert(loggerLogSpy.calledWith([]));
+  });
+});
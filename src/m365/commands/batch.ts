@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as minimist from 'minimist';
+import { Cli } from '../../cli/Cli';
+import { Logger } from '../../cli/Logger';
+import { CommandError } from '../../Command';
+import GlobalOptions from '../../GlobalOptions';
+import { spo } from '../../utils/spo';
+import AnonymousCommand from '../base/AnonymousCommand';
+import commands from './commands';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  file?: string;
+  continueOnError?: boolean;
+}
+
+interface BatchCommandResult {
+  line: number;
+  command: string;
+  success: boolean;
+  output?: any;
+  error?: string;
+}
+
+class BatchCommand extends AnonymousCommand {
+  public get name(): string {
+    return commands.BATCH;
+  }
+
+  public get description(): string {
+    return 'Executes multiple CLI for Microsoft 365 commands in one process';
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+    this.#initValidators();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        file: typeof args.options.file !== 'undefined',
+        continueOnError: !!args.options.continueOnError
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-f, --file [file]'
+      },
+      {
+        option: '--continueOnError'
+      }
+    );
+  }
+
+  #initValidators(): void {
+    this.validators.push(
+      async (args: CommandArgs) => {
+        if (args.options.file && !fs.existsSync(args.options.file)) {
+          return `File '${args.options.file}' not found`;
+        }
+
+        if (!args.options.file && process.stdin.isTTY) {
+          return 'Specify the file with commands to execute or pipe the commands to the batch command';
+        }
+
+        return true;
+      }
+    );
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    const script: string = args.options.file ?
+      fs.readFileSync(args.options.file, 'utf8') :
+      await this.readStdin();
+    const lines: string[] = script.split(/\r?\n/);
+    const results: BatchCommandResult[] = [];
+    const cli: Cli = Cli.getInstance();
+
+    // reuse form digests across commands for as long as they're valid
+    const formDigestCache = spo.formDigestCache;
+    if (!formDigestCache) {
+      spo.formDigestCache = {};
+    }
+
+    try {
+      for (let i = 0; i < lines.length; i++) {
+        const commandLine: string = lines[i].trim();
+        if (!commandLine || commandLine.startsWith('#')) {
+          continue;
+        }
+
+        if (this.verbose) {
+          logger.logToStderr(`Executing line ${i + 1}: ${commandLine}...`);
+        }
+
+        const result: BatchCommandResult = await this.executeLine(cli, commandLine, i + 1);
+        results.push(result);
+
+        if (!result.success && !args.options.continueOnError) {
+          logger.log(results);
+          throw new CommandError(`Executing command on line ${result.line} failed: ${result.error}`);
+        }
+      }
+    }
+    finally {
+      spo.formDigestCache = formDigestCache;
+    }
+
+    logger.log(results);
+  }
+
+  private async executeLine(cli: Cli, commandLine: string, lineNumber: number): Promise<BatchCommandResult> {
+    const result: BatchCommandResult = {
+      line: lineNumber,
+      command: commandLine,
+      success: false
+    };
+
+    let rawArgs: string[];
+    try {
+      rawArgs = this.getArgs(commandLine);
+    }
+    catch (e: any) {
+      result.error = e.message;
+      return result;
+    }
+
+    // unless specified otherwise, retrieve the output of each command as JSON
+    // so that it can be included in the batch results as-is
+    const parsedArgs: minimist.ParsedArgs = minimist(rawArgs);
+    if (typeof parsedArgs.output === 'undefined' && typeof parsedArgs.o === 'undefined') {
+      rawArgs.push('--output', 'json');
+    }
+
+    const commandFromArgs = await cli.getCommandFromArgs(rawArgs);
+    if (commandFromArgs.error) {
+      result.error = commandFromArgs.error;
+      return result;
+    }
+
+    try {
+      const commandOutput = await Cli.executeCommandWithOutput(commandFromArgs.command!, commandFromArgs.args!);
+      result.success = true;
+      result.output = this.parseOutput(commandOutput.stdout, commandFromArgs.args!.options.output);
+    }
+    catch (e: any) {
+      result.error = e.error && e.error.message ? e.error.message : String(e.error);
+    }
+
+    return result;
+  }
+
+  private parseOutput(stdout: string, output: string): any {
+    if (output !== 'json' || !stdout) {
+      return stdout;
+    }
+
+    try {
+      return JSON.parse(stdout);
+    }
+    catch {
+      return stdout;
+    }
+  }
+
+  /**
+   * Splits the command line into args respecting single and double quotes
+   * @param commandLine Command line to split, eg. spo web get --url "https://contoso.sharepoint.com"
+   * @returns Array of args without the m365 or microsoft365 prefix
+   */
+  private getArgs(commandLine: string): string[] {
+    const args: string[] = [];
+    let current: string = '';
+    let hasCurrent: boolean = false;
+    let quote: string | undefined;
+
+    for (let i = 0; i < commandLine.length; i++) {
+      const char: string = commandLine[i];
+
+      if (quote) {
+        if (char === quote) {
+          quote = undefined;
+        }
+        else if (char === '\\' && quote === '"' && (commandLine[i + 1] === '"' || commandLine[i + 1] === '\\')) {
+          current += commandLine[++i];
+        }
+        else {
+          current += char;
+        }
+        continue;
+      }
+
+      if (char === '"' || char === '\'') {
+        quote = char;
+        hasCurrent = true;
+      }
+      else if (/\s/.test(char)) {
+        if (hasCurrent) {
+          args.push(current);
+          current = '';
+          hasCurrent = false;
+        }
+      }
+      else {
+        current += char;
+        hasCurrent = true;
+      }
+    }
+
+    if (quote) {
+      throw new Error(`Unterminated ${quote} in command`);
+    }
+
+    if (hasCurrent) {
+      args.push(current);
+    }
+
+    if (args[0] === 'm365' || args[0] === 'microsoft365') {
+      args.shift();
+    }
+
+    return args;
+  }
+
+  private readStdin(): Promise<string> {
+    return new Promise<string>((resolve: (script: string) => void, reject: (error: any) => void): void => {
+      let script: string = '';
+      process.stdin.setEncoding('utf8');
+      process.stdin.on('data', (chunk: string) => script += chunk);
+      process.stdin.on('end', () => resolve(script));
+      process.stdin.on('error', (error: Error) => reject(new CommandError(error.message)));
+    });
+  }
+}
+
+module.exports = new BatchCommand();
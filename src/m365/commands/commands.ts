@@ -1,4 +1,5 @@
 export default {
+  BATCH: `batch`,
   LOGIN: `login`,
   LOGOUT: `logout`,
   REQUEST: `request`,
@@ -83,6 +83,36 @@ describe(commands.LOGIN, () => {
     assert(auth.service.connected);
   });
 
+  it('logs in to Microsoft 365 using a named connection', async () => {
+    sinon.stub(auth, 'ensureAccessToken').callsFake(() => Promise.resolve(''));
+    auth.service.name = undefined;
+    await command.action(logger, { options: { connectionName: 'contoso' } });
+    assert.strictEqual(auth.service.name, 'contoso', 'Incorrect connection name set');
+    assert((auth.clearConnectionInfo as sinon.SinonStub).calledWith('contoso'), 'Persisted info of the connection not cleared');
+  });
+
+  it('replaces the active connection when logging in without a connection name', async () => {
+    sinon.stub(auth, 'ensureAccessToken').callsFake(() => Promise.resolve(''));
+    auth.service.name = 'fabrikam';
+    await command.action(logger, { options: {} });
+    const actual = auth.service.name;
+    auth.service.name = undefined;
+    assert.strictEqual(actual, 'fabrikam');
+  });
+
+  it('logs in to the default connection when an empty connection name specified', async () => {
+    sinon.stub(auth, 'ensureAccessToken').callsFake(() => Promise.resolve(''));
+    auth.service.name = 'fabrikam';
+    await command.action(logger, { options: { connectionName: '' } });
+    assert.strictEqual(auth.service.name, undefined, 'Connection name set');
+    assert((auth.clearConnectionInfo as sinon.SinonStub).calledWith(''), 'Persisted info of the named connection cleared');
+  });
+
+  it('passes validation if connectionName is empty', async () => {
+    const actual = await command.validate({ options: { connectionName: '' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
   it('logs in to Microsoft 365 using username and password when authType password set', async () => {
     sinon.stub(auth, 'ensureAccessToken').callsFake(() => Promise.resolve(''));
     await command.action(logger, { options: { debug: false, authType: 'password', userName: 'user', password: 'password' } });
@@ -293,6 +323,16 @@ describe(commands.LOGIN, () => {
     }
   });
 
+  it('fails validation if connectionName contains invalid characters', async () => {
+    const actual = await command.validate({ options: { connectionName: 'contoso tenant' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation if connectionName is valid', async () => {
+    const actual = await command.validate({ options: { connectionName: 'contoso-dev_1' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
   it('fails validation if authType is set to secret and secret option is not specified', async () => {
     const actual = await command.validate({ options: { authType: 'secret' } }, commandInfo);
     assert.notStrictEqual(actual, true);
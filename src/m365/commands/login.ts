@@ -22,6 +22,7 @@ interface Options extends GlobalOptions {
   appId?: string;
   tenant?: string;
   secret?: string;
+  connectionName?: string;
 }
 
 class LoginCommand extends Command {
@@ -39,12 +40,14 @@ class LoginCommand extends Command {
     this.#initTelemetry();
     this.#initOptions();
     this.#initValidators();
+    this.#initTypes();
   }
   
   #initTelemetry(): void {
     this.telemetry.push((args: CommandArgs) => {
       Object.assign(this.telemetryProperties, {
-        authType: args.options.authType || 'deviceCode'
+        authType: args.options.authType || 'deviceCode',
+        connectionName: typeof args.options.connectionName !== 'undefined'
       });
     });
   }
@@ -78,6 +81,9 @@ class LoginCommand extends Command {
       },
       {
         option: '--secret [secret]'
+      },
+      {
+        option: '--connectionName [connectionName]'
       }
     );
   }
@@ -116,18 +122,32 @@ class LoginCommand extends Command {
             return 'Required option secret missing';
           }
         }
+
+        if (args.options.connectionName &&
+          !/^[\w-]+$/.test(args.options.connectionName)) {
+          return `'${args.options.connectionName}' is not a valid connection name. Use only letters, digits, underscores and dashes`;
+        }
     
         return true;
       }
     );
   }
 
+  #initTypes(): void {
+    this.types.string.push('connectionName');
+  }
+
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     // disconnect before re-connecting
     if (this.debug) {
       logger.logToStderr(`Logging out from Microsoft 365...`);
     }
 
+    // when no connection name is specified, replace the active connection.
+    // An empty connection name logs in to the default, unnamed connection
+    const connectionName: string | undefined = typeof args.options.connectionName === 'undefined' ?
+      auth.service.name :
+      args.options.connectionName || undefined;
     const logout: () => void = (): void => auth.service.logout();
 
     const login: () => Promise<void> = async (): Promise<void> => {
@@ -135,6 +155,7 @@ class LoginCommand extends Command {
         logger.logToStderr(`Signing in to Microsoft 365...`);
       }
 
+      auth.service.name = connectionName;
       auth.service.appId = args.options.appId || config.cliAadAppId;
       auth.service.tenant = args.options.tenant || config.tenant;
 
@@ -179,7 +200,9 @@ class LoginCommand extends Command {
     };
 
     try {
-      await auth.clearConnectionInfo();
+      // pass an empty string for the default connection, because undefined
+      // would clear the active connection
+      await auth.clearConnectionInfo(connectionName || '');
     }
     catch (error: any) {
       if (this.debug) {
@@ -105,6 +105,19 @@ describe(commands.LOGOUT, () => {
     }
   });
 
+  it('logs out from the connection specified in the connection option', async () => {
+    const switchToConnectionStub = sinon.stub(auth, 'switchToConnection').callsFake(() => Promise.resolve());
+    auth.service.connected = true;
+
+    try {
+      await command.action(logger, { options: { connection: 'contoso' } });
+      assert(switchToConnectionStub.calledWith('contoso', false));
+    }
+    finally {
+      sinonUtil.restore(auth.switchToConnection);
+    }
+  });
+
   it('correctly handles error when restoring auth information', async () => {
     sinonUtil.restore(auth.restoreAuth);
     sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.reject('An error has occurred'));
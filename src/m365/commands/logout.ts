@@ -1,4 +1,4 @@
-import auth from '../../Auth';
+import auth, { ConnectionState } from '../../Auth';
 import { Logger } from '../../cli/Logger';
 import Command, { CommandArgs, CommandError } from '../../Command';
 import commands from './commands';
@@ -33,15 +33,28 @@ class LogoutCommand extends Command {
   }
 
   public async action(logger: Logger, args: CommandArgs): Promise<void> {
+    let previousConnection: ConnectionState | undefined;
     try {
       await auth.restoreAuth();
+
+      if (args.options.connection) {
+        previousConnection = auth.getConnectionState();
+        await auth.switchToConnection(args.options.connection, false);
+      }
     }
     catch (error: any) {
       throw new CommandError(error);
     }
 
-    this.initAction(args, logger);
-    this.commandAction(logger);
+    try {
+      this.initAction(args, logger);
+      await this.commandAction(logger);
+    }
+    finally {
+      if (previousConnection) {
+        auth.restoreConnectionState(previousConnection);
+      }
+    }
   }
 }
 
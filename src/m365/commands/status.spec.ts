@@ -68,6 +68,19 @@ describe(commands.STATUS, () => {
     assert(loggerLogSpy.calledWith('Logged out'));
   });
 
+  it('shows status of the connection specified in the connection option', async () => {
+    const switchToConnectionStub = sinon.stub(auth, 'switchToConnection').callsFake(() => Promise.resolve());
+    auth.service.connected = false;
+
+    try {
+      await command.action(logger, { options: { connection: 'contoso' } });
+      assert(switchToConnectionStub.calledWith('contoso', false));
+    }
+    finally {
+      sinonUtil.restore(auth.switchToConnection);
+    }
+  });
+
   it('shows logged out status when not logged in (verbose)', async () => {
     auth.service.connected = false;
     await command.action(logger, { options: { verbose: true } });
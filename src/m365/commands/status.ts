@@ -1,4 +1,4 @@
-import auth, { AuthType } from '../../Auth';
+import auth, { AuthType, ConnectionState } from '../../Auth';
 import { Logger } from '../../cli/Logger';
 import Command, { CommandArgs, CommandError } from '../../Command';
 import { accessToken } from '../../utils/accessToken';
@@ -56,15 +56,28 @@ class StatusCommand extends Command {
   }
 
   public async action(logger: Logger, args: CommandArgs): Promise<void> {
+    let previousConnection: ConnectionState | undefined;
     try {
       await auth.restoreAuth();
+
+      if (args.options.connection) {
+        previousConnection = auth.getConnectionState();
+        await auth.switchToConnection(args.options.connection, false);
+      }
     }
     catch (error: any) {
       throw new CommandError(error);
     }
 
-    this.initAction(args, logger);
-    await this.commandAction(logger);
+    try {
+      this.initAction(args, logger);
+      await this.commandAction(logger);
+    }
+    finally {
+      if (previousConnection) {
+        auth.restoreConnectionState(previousConnection);
+      }
+    }
   }
 }
 
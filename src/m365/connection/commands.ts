@@ -0,0 +1,7 @@
+const prefix: string = 'connection';
+
+export default {
+  LIST: `${prefix} list`,
+  REMOVE: `${prefix} remove`,
+  USE: `${prefix} use`
+};
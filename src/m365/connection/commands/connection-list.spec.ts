@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import appInsights from '../../../appInsights';
+import auth, { Auth, AuthType } from '../../../Auth';
+import { Logger } from '../../../cli/Logger';
+import Command from '../../../Command';
+import { accessToken } from '../../../utils/accessToken';
+import { pid } from '../../../utils/pid';
+import { sinonUtil } from '../../../utils/sinonUtil';
+import commands from '../commands';
+const command: Command = require('./connection-list');
+
+describe(commands.LIST, () => {
+  let log: any[];
+  let logger: Logger;
+  let loggerLogSpy: sinon.SinonSpy;
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    sinon.stub(accessToken, 'getUserNameFromAccessToken').callsFake(() => 'admin@contoso.onmicrosoft.com');
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    loggerLogSpy = sinon.spy(logger, 'log');
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      auth.getAllConnections
+    ]);
+    auth.service.name = undefined;
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      appInsights.trackEvent,
+      pid.getProcessName,
+      accessToken.getUserNameFromAccessToken
+    ]);
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.LIST), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('defines correct properties for the default output', () => {
+    assert.deepStrictEqual(command.defaultProperties(), ['name', 'connectedAs', 'authType', 'active']);
+  });
+
+  it('lists stored connections marking the active connection', async () => {
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({
+      contoso: {
+        name: 'contoso',
+        authType: AuthType.DeviceCode,
+        appId: '31359c7f-bd7e-475c-86db-fdb8c937548e',
+        tenant: 'common',
+        accessTokens: {
+          'https://graph.microsoft.com': {
+            expiresOn: '2022-01-01T00:00:00Z',
+            accessToken: 'abc'
+          }
+        }
+      } as any,
+      fabrikam: {
+        name: 'fabrikam',
+        authType: AuthType.Secret,
+        appId: '9bc3ab49-b65d-410a-85ad-de819febfddc',
+        tenant: 'fabrikam.onmicrosoft.com',
+        accessTokens: {}
+      } as any
+    }));
+    auth.service.name = 'contoso';
+
+    await command.action(logger, { options: {} });
+    assert(loggerLogSpy.calledWith([
+      {
+        name: 'contoso',
+        connectedAs: 'admin@contoso.onmicrosoft.com',
+        authType: 'DeviceCode',
+        appId: '31359c7f-bd7e-475c-86db-fdb8c937548e',
+        appTenant: 'common',
+        active: true
+      },
+      {
+        name: 'fabrikam',
+        connectedAs: '',
+        authType: 'Secret',
+        appId: '9bc3ab49-b65d-410a-85ad-de819febfddc',
+        appTenant: 'fabrikam.onmicrosoft.com',
+        active: false
+      }
+    ]));
+  });
+
+  it('marks the default connection as active when no named connection is active', async () => {
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({
+      [Auth.defaultConnectionName]: {
+        authType: AuthType.Secret,
+        appId: '9bc3ab49-b65d-410a-85ad-de819febfddc',
+        tenant: 'contoso.onmicrosoft.com'
+      } as any,
+      fabrikam: {
+        name: 'fabrikam',
+        authType: AuthType.Secret,
+        appId: '9bc3ab49-b65d-410a-85ad-de819febfddc',
+        tenant: 'fabrikam.onmicrosoft.com'
+      } as any
+    }));
+    auth.service.name = undefined;
+
+    await command.action(logger, { options: {} });
+    assert(loggerLogSpy.calledWith([
+      {
+        name: Auth.defaultConnectionName,
+        connectedAs: '',
+        authType: 'Secret',
+        appId: '9bc3ab49-b65d-410a-85ad-de819febfddc',
+        appTenant: 'contoso.onmicrosoft.com',
+        active: true
+      },
+      {
+        name: 'fabrikam',
+        connectedAs: '',
+        authType: 'Secret',
+        appId: '9bc3ab49-b65d-410a-85ad-de819febfddc',
+        appTenant: 'fabrikam.onmicrosoft.com',
+        active: false
+      }
+    ]));
+  });
+
+  it('returns an empty array when no connections have been stored', async () => {
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({}));
+
+    await command.action(logger, { options: {} });
+    assert(loggerLogSpy.calledWith([]));
+  });
+});
@@ -0,0 +1,40 @@
+import auth, { AuthType, Hash, Service } from '../../../Auth';
+import { Logger } from '../../../cli/Logger';
+import { accessToken } from '../../../utils/accessToken';
+import AnonymousCommand from '../../base/AnonymousCommand';
+import commands from '../commands';
+
+class ConnectionListCommand extends AnonymousCommand {
+  public get name(): string {
+    return commands.LIST;
+  }
+
+  public get description(): string {
+    return 'Lists connections to Microsoft 365 stored on this machine';
+  }
+
+  public defaultProperties(): string[] | undefined {
+    return ['name', 'connectedAs', 'authType', 'active'];
+  }
+
+  public async commandAction(logger: Logger): Promise<void> {
+    await auth.restoreAuth();
+
+    const connections: Hash<Service> = await auth.getAllConnections();
+    logger.log(Object.keys(connections).map(name => {
+      const connection: Service = connections[name];
+      const token = connection.accessTokens && connection.accessTokens[auth.defaultResource];
+
+      return {
+        name: name,
+        connectedAs: token ? accessToken.getUserNameFromAccessToken(token.accessToken) : '',
+        authType: AuthType[connection.authType],
+        appId: connection.appId,
+        appTenant: connection.tenant,
+        active: name === auth.connectionName
+      };
+    }));
+  }
+}
+
+module.exports = new ConnectionListCommand();
@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import appInsights from '../../../appInsights';
+import auth, { Auth } from '../../../Auth';
+import { Cli } from '../../../cli/Cli';
+import { CommandInfo } from '../../../cli/CommandInfo';
+import { Logger } from '../../../cli/Logger';
+import Command, { CommandError } from '../../../Command';
+import { pid } from '../../../utils/pid';
+import { sinonUtil } from '../../../utils/sinonUtil';
+import commands from '../commands';
+const command: Command = require('./connection-remove');
+
+describe(commands.REMOVE, () => {
+  let log: any[];
+  let logger: Logger;
+  let commandInfo: CommandInfo;
+  let promptOptions: any;
+  let clearConnectionInfoStub: sinon.SinonStub;
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    sinon.stub(auth, 'getAllConnections').callsFake(() => Promise.resolve({
+      [Auth.defaultConnectionName]: {} as any,
+      contoso: { name: 'contoso' } as any,
+      fabrikam: { name: 'fabrikam' } as any
+    }));
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    promptOptions = undefined;
+    sinon.stub(Cli, 'prompt').callsFake(async (options: any) => {
+      promptOptions = options;
+      return { continue: false };
+    });
+    clearConnectionInfoStub = sinon.stub(auth, 'clearConnectionInfo').callsFake(() => Promise.resolve());
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      Cli.prompt,
+      auth.clearConnectionInfo,
+      auth.service.logout
+    ]);
+    auth.service.name = undefined;
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      auth.getAllConnections,
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.REMOVE), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('removes the specified connection without prompting for confirmation', async () => {
+    await command.action(logger, { options: { name: 'fabrikam', confirm: true } });
+    assert(clearConnectionInfoStub.calledWith('fabrikam'));
+  });
+
+  it('removes the specified connection (verbose)', async () => {
+    await command.action(logger, { options: { name: 'fabrikam', confirm: true, verbose: true } });
+    assert(log.some(l => l === 'Removing connection fabrikam...'));
+  });
+
+  it('logs out when removing the active connection', async () => {
+    const logoutStub = sinon.stub(auth.service, 'logout').callsFake(() => { });
+    auth.service.name = 'contoso';
+
+    await command.action(logger, { options: { name: 'contoso', confirm: true } });
+    assert(logoutStub.called);
+  });
+
+  it('logs out when removing the active default connection', async () => {
+    const logoutStub = sinon.stub(auth.service, 'logout').callsFake(() => { });
+    auth.service.name = undefined;
+
+    await command.action(logger, { options: { name: Auth.defaultConnectionName, confirm: true } });
+    assert(logoutStub.called);
+  });
+
+  it(`doesn't log out when removing a connection other than the active one`, async () => {
+    const logoutStub = sinon.stub(auth.service, 'logout').callsFake(() => { });
+    auth.service.name = 'contoso';
+
+    await command.action(logger, { options: { name: 'fabrikam', confirm: true } });
+    assert(logoutStub.notCalled);
+  });
+
+  it('throws an error when the specified connection does not exist', async () => {
+    await assert.rejects(command.action(logger, { options: { name: 'tailspin', confirm: true } }), new CommandError(`Connection 'tailspin' not found`));
+    assert(clearConnectionInfoStub.notCalled);
+  });
+
+  it('prompts before removing the connection when confirm option not passed', async () => {
+    await command.action(logger, { options: { name: 'fabrikam' } });
+    assert(promptOptions && promptOptions.type === 'confirm');
+  });
+
+  it('aborts removing the connection when prompt not confirmed', async () => {
+    await command.action(logger, { options: { name: 'fabrikam' } });
+    assert(clearConnectionInfoStub.notCalled);
+  });
+
+  it('removes the connection when prompt confirmed', async () => {
+    sinonUtil.restore(Cli.prompt);
+    sinon.stub(Cli, 'prompt').callsFake(async () => ({ continue: true }));
+
+    await command.action(logger, { options: { name: 'fabrikam' } });
+    assert(clearConnectionInfoStub.calledWith('fabrikam'));
+  });
+
+  it('fails validation when name is not specified', async () => {
+    const actual = await command.validate({ options: {} }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation when name is specified', async () => {
+    const actual = await command.validate({ options: { name: 'contoso' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
@@ -0,0 +1,92 @@
+import auth, { Hash, Service } from '../../../Auth';
+import { Cli } from '../../../cli/Cli';
+import { Logger } from '../../../cli/Logger';
+import { CommandError } from '../../../Command';
+import GlobalOptions from '../../../GlobalOptions';
+import AnonymousCommand from '../../base/AnonymousCommand';
+import commands from '../commands';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  name: string;
+  confirm?: boolean;
+}
+
+class ConnectionRemoveCommand extends AnonymousCommand {
+  public get name(): string {
+    return commands.REMOVE;
+  }
+
+  public get description(): string {
+    return 'Removes the specified connection to Microsoft 365';
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        confirm: !!args.options.confirm
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-n, --name <name>'
+      },
+      {
+        option: '--confirm'
+      }
+    );
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    const removeConnection = async (): Promise<void> => {
+      await auth.restoreAuth();
+
+      const connections: Hash<Service> = await auth.getAllConnections();
+      if (!connections[args.options.name]) {
+        throw new CommandError(`Connection '${args.options.name}' not found`);
+      }
+
+      if (this.verbose) {
+        logger.logToStderr(`Removing connection ${args.options.name}...`);
+      }
+
+      await auth.clearConnectionInfo(args.options.name);
+
+      // removing the active connection signs the CLI out
+      if (auth.connectionName === args.options.name) {
+        auth.service.logout();
+      }
+    };
+
+    if (args.options.confirm) {
+      await removeConnection();
+    }
+    else {
+      const result = await Cli.prompt<{ continue: boolean }>({
+        type: 'confirm',
+        name: 'continue',
+        default: false,
+        message: `Are you sure you want to remove the connection ${args.options.name}?`
+      });
+
+      if (result.continue) {
+        await removeConnection();
+      }
+    }
+  }
+}
+
+module.exports = new ConnectionRemoveCommand();
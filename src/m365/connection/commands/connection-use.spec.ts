@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import appInsights from '../../../appInsights';
+import auth from '../../../Auth';
+import { Cli } from '../../../cli/Cli';
+import { CommandInfo } from '../../../cli/CommandInfo';
+import { Logger } from '../../../cli/Logger';
+import Command, { CommandError } from '../../../Command';
+import { pid } from '../../../utils/pid';
+import { sinonUtil } from '../../../utils/sinonUtil';
+import commands from '../commands';
+const command: Command = require('./connection-use');
+
+describe(commands.USE, () => {
+  let log: any[];
+  let logger: Logger;
+  let commandInfo: CommandInfo;
+
+  before(() => {
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      auth.switchToConnection
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.USE), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('switches to the specified connection', async () => {
+    const switchToConnectionStub = sinon.stub(auth, 'switchToConnection').callsFake(() => Promise.resolve());
+
+    await command.action(logger, { options: { name: 'contoso' } });
+    assert(switchToConnectionStub.calledWith('contoso'));
+  });
+
+  it('switches to the specified connection (verbose)', async () => {
+    sinon.stub(auth, 'switchToConnection').callsFake(() => Promise.resolve());
+
+    await command.action(logger, { options: { name: 'contoso', verbose: true } });
+    assert(log.some(l => l === 'Switching to connection contoso...'));
+  });
+
+  it('throws an error when the specified connection does not exist', async () => {
+    sinon.stub(auth, 'switchToConnection').callsFake(() => Promise.reject(`Connection 'contoso' not found`));
+
+    await assert.rejects(command.action(logger, { options: { name: 'contoso' } }), new CommandError(`Connection 'contoso' not found`));
+  });
+
+  it('fails validation when name is not specified', async () => {
+    const actual = await command.validate({ options: {} }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation when name is specified', async () => {
+    const actual = await command.validate({ options: { name: 'contoso' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
@@ -0,0 +1,53 @@
+import auth from '../../../Auth';
+import { Logger } from '../../../cli/Logger';
+import { CommandError } from '../../../Command';
+import GlobalOptions from '../../../GlobalOptions';
+import AnonymousCommand from '../../base/AnonymousCommand';
+import commands from '../commands';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  name: string;
+}
+
+class ConnectionUseCommand extends AnonymousCommand {
+  public get name(): string {
+    return commands.USE;
+  }
+
+  public get description(): string {
+    return 'Activates the specified connection to Microsoft 365';
+  }
+
+  constructor() {
+    super();
+
+    this.#initOptions();
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-n, --name <name>'
+      }
+    );
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    if (this.verbose) {
+      logger.logToStderr(`Switching to connection ${args.options.name}...`);
+    }
+
+    try {
+      await auth.switchToConnection(args.options.name);
+    }
+    catch (err: any) {
+      throw new CommandError(err);
+    }
+  }
+}
+
+module.exports = new ConnectionUseCommand();
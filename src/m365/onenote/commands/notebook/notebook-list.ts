@@ -29,6 +29,10 @@ class OneNoteNotebookListCommand extends GraphCommand {
     return 'Retrieve a list of notebooks';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   constructor() {
     super();
 
@@ -151,8 +155,7 @@ class OneNoteNotebookListCommand extends GraphCommand {
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
       const endpoint = await this.getEndpointUrl(args);
-      const items = await odata.getAllItems<Notebook>(endpoint);
-      logger.log(items);
+      await odata.logAllItems<Notebook>(endpoint, logger, args.options);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -26,6 +26,10 @@ class OutlookMessageListCommand extends GraphCommand {
     return 'Gets all mail messages from the specified folder';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   constructor() {
     super();
 
@@ -69,9 +73,7 @@ class OutlookMessageListCommand extends GraphCommand {
       const folderId = await this.getFolderId(args);
 
       const url: string = folderId ? `me/mailFolders/${folderId}/messages` : 'me/messages';
-      const messages = await odata.getAllItems<Message>(`${this.resource}/v1.0/${url}?$top=50`);
-
-      logger.log(messages);
+      await odata.logAllItems<Message>(`${this.resource}/v1.0/${url}?$top=50`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
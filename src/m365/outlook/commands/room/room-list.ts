@@ -22,6 +22,10 @@ class OutlookRoomListCommand extends GraphCommand {
     return 'Get a collection of all available rooms';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'displayName', 'phone', 'emailAddress'];
   }
@@ -57,8 +61,7 @@ class OutlookRoomListCommand extends GraphCommand {
     }
 
     try {
-      const rooms = await odata.getAllItems<Room>(endpoint);
-      logger.log(rooms);
+      await odata.logAllItems<Room>(endpoint, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -1,9 +1,14 @@
 import { RoomList } from '@microsoft/microsoft-graph-types';
 import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
 import { odata } from '../../../../utils/odata';
 import GraphCommand from '../../../base/GraphCommand';
 import commands from '../../commands';
 
+interface CommandArgs {
+  options: GlobalOptions;
+}
+
 class OutlookRoomListListCommand extends GraphCommand {
   public get name(): string {
     return commands.ROOMLIST_LIST;
@@ -13,14 +18,17 @@ class OutlookRoomListListCommand extends GraphCommand {
     return 'Get a collection of available roomlists';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'displayName', 'phone', 'emailAddress'];
   }
 
-  public async commandAction(logger: Logger): Promise<void> {
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
-      const roomLists = await odata.getAllItems<RoomList>(`${this.resource}/v1.0/places/microsoft.graph.roomlist`);
-      logger.log(roomLists);
+      await odata.logAllItems<RoomList>(`${this.resource}/v1.0/places/microsoft.graph.roomlist`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -31,6 +31,10 @@ class PlannerBucketListCommand extends GraphCommand {
     return 'Lists the Microsoft Planner buckets in a plan';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'name', 'planId', 'orderHint'];
   }
@@ -114,8 +118,7 @@ class PlannerBucketListCommand extends GraphCommand {
     
     try {
       const planId = await this.getPlanId(args);
-      const buckets = await odata.getAllItems<PlannerBucket>(`${this.resource}/v1.0/planner/plans/${planId}/buckets`);
-      logger.log(buckets);
+      await odata.logAllItems<PlannerBucket>(`${this.resource}/v1.0/planner/plans/${planId}/buckets`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -870,23 +870,49 @@ describe(commands.TASK_ADD, () => {
     await assert.rejects(command.action(logger, { options: options } as any), new CommandError('The specified bucket does not exist'));
   });
 
-  it('fails when an invalid user is specified', async () => {
-    sinonUtil.restore(request.get);
-    sinon.stub(request, 'get').callsFake((opts) => {
-      if (opts.url === `https://graph.microsoft.com/v1.0/users?$filter=userPrincipalName eq 'user%40contoso.onmicrosoft.com'&$select=id,userPrincipalName`) {
+  it('correctly adds planner task with title, bucketId, planId and multiple assignedToUserNames retrieved in a batch', async () => {
+    sinonUtil.restore(request.post);
+    const postStub = sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
         return Promise.resolve({
-          value: [
-            {
-              id: '949b16c1-a032-453e-a8ae-89a52bfc1d8a',
-              userPrincipalName: 'user@contoso.onmicrosoft.com'
-            }
+          responses: [
+            { id: '0', status: 200, body: { value: [{ id: '949b16c1-a032-453e-a8ae-89a52bfc1d8a', userPrincipalName: 'user@contoso.onmicrosoft.com' }] } },
+            { id: '1', status: 200, body: { value: [{ id: 'b2091e18-7882-4efe-b7d1-90703f5a5c65', userPrincipalName: 'user2@contoso.onmicrosoft.com' }] } }
           ]
         });
       }
 
-      if (opts.url === `https://graph.microsoft.com/v1.0/users?$filter=userPrincipalName eq 'user2%40contoso.onmicrosoft.com'&$select=id,userPrincipalName`) {
+      if (opts.url === `https://graph.microsoft.com/v1.0/planner/tasks`) {
+        return Promise.resolve(taskAddResponseWithAssignments);
+      }
+
+      return Promise.reject('Invalid Request');
+    });
+
+    const options: any = {
+      title: 'My Planner Task',
+      planId: '8QZEH7b3wkS_bGQobscsM5gADCBb',
+      bucketId: 'IK8tuFTwQEa5vTonM7ZMRZgAKdno',
+      assignedToUserNames: 'user@contoso.onmicrosoft.com,user2@contoso.onmicrosoft.com'
+    };
+
+    await command.action(logger, { options: options } as any);
+    assert.deepStrictEqual(postStub.firstCall.args[0].data.requests, [
+      { id: '0', method: 'GET', url: `/users?$filter=userPrincipalName eq 'user%40contoso.onmicrosoft.com'&$select=id,userPrincipalName` },
+      { id: '1', method: 'GET', url: `/users?$filter=userPrincipalName eq 'user2%40contoso.onmicrosoft.com'&$select=id,userPrincipalName` }
+    ]);
+    assert.deepStrictEqual(Object.keys(postStub.secondCall.args[0].data.assignments), ['949b16c1-a032-453e-a8ae-89a52bfc1d8a', 'b2091e18-7882-4efe-b7d1-90703f5a5c65']);
+  });
+
+  it('fails when an invalid user is specified', async () => {
+    sinonUtil.restore(request.post);
+    sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
         return Promise.resolve({
-          value: []
+          responses: [
+            { id: '0', status: 200, body: { value: [{ id: '949b16c1-a032-453e-a8ae-89a52bfc1d8a', userPrincipalName: 'user@contoso.onmicrosoft.com' }] } },
+            { id: '1', status: 200, body: { value: [] } }
+          ]
         });
       }
 
@@ -903,6 +929,31 @@ describe(commands.TASK_ADD, () => {
     await assert.rejects(command.action(logger, { options: options } as any), new CommandError('Cannot proceed with planner task creation. The following users provided are invalid : user2@contoso.onmicrosoft.com'));
   });
 
+  it('correctly handles error when retrieving users in a batch', async () => {
+    sinonUtil.restore(request.post);
+    sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
+        return Promise.resolve({
+          responses: [
+            { id: '0', status: 200, body: { value: [] } },
+            { id: '1', status: 403, body: { error: { code: 'Authorization_RequestDenied', message: 'Insufficient privileges to complete the operation.' } } }
+          ]
+        });
+      }
+
+      return Promise.reject('Invalid request');
+    });
+
+    const options: any = {
+      title: 'My Planner Task',
+      planId: '8QZEH7b3wkS_bGQobscsM5gADCBb',
+      bucketId: 'IK8tuFTwQEa5vTonM7ZMRZgAKdno',
+      assignedToUserNames: 'user@contoso.onmicrosoft.com,user2@contoso.onmicrosoft.com'
+    };
+
+    await assert.rejects(command.action(logger, { options: options } as any), new CommandError('Insufficient privileges to complete the operation.'));
+  });
+
   it('fails validation when ownerGroupName not found', async () => {
     sinonUtil.restore(request.get);
     sinon.stub(request, 'get').callsFake((opts) => {
@@ -5,6 +5,7 @@ import GlobalOptions from '../../../../GlobalOptions';
 import request from '../../../../request';
 import { accessToken } from '../../../../utils/accessToken';
 import { formatting } from '../../../../utils/formatting';
+import { graphBatch, GraphBatchResponse } from '../../../../utils/graphBatch';
 import { validation } from '../../../../utils/validation';
 import { aadGroup } from '../../../../utils/aadGroup';
 import { planner } from '../../../../utils/planner';
@@ -357,45 +358,49 @@ class PlannerTaskAddCommand extends GraphCommand {
       .then(group => group.id!);
   }
 
-  private getUserIds(options: Options): Promise<string[]> {
+  private async getUserIds(options: Options): Promise<string[]> {
     if (options.assignedToUserIds) {
-      return Promise.resolve(options.assignedToUserIds.split(','));
+      return options.assignedToUserIds.split(',');
     }
 
     // Hitting this section means assignedToUserNames won't be undefined
     const userNames = options.assignedToUserNames as string;
     const userArr: string[] = userNames.split(',').map(o => o.trim());
-    let userIds: string[] = [];
+    const usersRes: { value: User[] }[] = userArr.length > 1 ? await this.getUsersInBatch(userArr) : [await this.getUser(userArr[0])];
 
-    const promises: Promise<{ value: User[] }>[] = userArr.map(user => {
-      const requestOptions: any = {
-        url: `${this.resource}/v1.0/users?$filter=userPrincipalName eq '${formatting.encodeQueryParameter(user)}'&$select=id,userPrincipalName`,
-        headers: {
-          'content-type': 'application/json'
-        },
-        responseType: 'json'
-      };
+    const userUpns: string[] = usersRes.map(res => res.value[0]?.userPrincipalName as string);
+    const userIds: string[] = usersRes.map(res => res.value[0]?.id as string);
 
-      return request.get(requestOptions);
-    });
+    // Find the members where no graph response was found
+    const invalidUsers = userArr.filter(user => !userUpns.some((upn) => upn?.toLowerCase() === user.toLowerCase()));
+
+    if (invalidUsers && invalidUsers.length > 0) {
+      throw `Cannot proceed with planner task creation. The following users provided are invalid : ${invalidUsers.join(',')}`;
+    }
 
-    return Promise
-      .all(promises)
-      .then((usersRes: { value: User[] }[]): Promise<string[]> => {
-        let userUpns: string[] = [];
+    return userIds;
+  }
 
-        userUpns = usersRes.map(res => res.value[0]?.userPrincipalName as string);
-        userIds = usersRes.map(res => res.value[0]?.id as string);
+  private getUser(userName: string): Promise<{ value: User[] }> {
+    const requestOptions: any = {
+      url: `${this.resource}/v1.0/users?$filter=userPrincipalName eq '${formatting.encodeQueryParameter(userName)}'&$select=id,userPrincipalName`,
+      headers: {
+        'content-type': 'application/json'
+      },
+      responseType: 'json'
+    };
 
-        // Find the members where no graph response was found
-        const invalidUsers = userArr.filter(user => !userUpns.some((upn) => upn?.toLowerCase() === user.toLowerCase()));
+    return request.get(requestOptions);
+  }
 
-        if (invalidUsers && invalidUsers.length > 0) {
-          return Promise.reject(`Cannot proceed with planner task creation. The following users provided are invalid : ${invalidUsers.join(',')}`);
-        }
+  private async getUsersInBatch(userNames: string[]): Promise<{ value: User[] }[]> {
+    const responses: GraphBatchResponse<{ value: User[] }>[] = await graphBatch.execute<{ value: User[] }>(userNames.map(userName => ({
+      method: 'GET',
+      url: `/users?$filter=userPrincipalName eq '${formatting.encodeQueryParameter(userName)}'&$select=id,userPrincipalName`
+    })));
+    graphBatch.ensureSuccess(responses);
 
-        return Promise.resolve(userIds);
-      });
+    return responses.map(res => res.body!);
   }
 }
 
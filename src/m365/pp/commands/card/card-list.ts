@@ -23,6 +23,10 @@ class PpCardListCommand extends PowerPlatformCommand {
     return 'Lists Microsoft Power Platform cards in the specified Power Platform environment.';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['name', 'cardid', 'publishdate', 'createdon', 'modifiedon'];
   }
@@ -61,8 +65,7 @@ class PpCardListCommand extends PowerPlatformCommand {
     try {
       const dynamicsApiUrl = await powerPlatform.getDynamicsInstanceApiUrl(args.options.environment, args.options.asAdmin);
 
-      const items = await odata.getAllItems<any>(`${dynamicsApiUrl}/api/data/v9.1/cards?$expand=owninguser($select=azureactivedirectoryobjectid,fullname)`);
-      logger.log(items);
+      await odata.logAllItems<any>(`${dynamicsApiUrl}/api/data/v9.1/cards?$expand=owninguser($select=azureactivedirectoryobjectid,fullname)`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -14,133 +14,131 @@ describe(commands.DATAVERSE_TABLE_LIST, () => {
   //#region Mocked Responses
   const envResponse: any = { "properties": { "linkedEnvironmentMetadata": { "instanceApiUrl": "https://contoso-dev.api.crm4.dynamics.com" } } };
   const dataverseResponse: any = {
-    "value": {
-      "@odata.context": "https://contoso-dev.api.crm4.dynamics.com/api/data/v9.0/$metadata#EntityDefinitions(MetadataId,IsCustomEntity,IsManaged,SchemaName,IconVectorName,LogicalName,EntitySetName,IsActivity,DataProviderId,IsRenameable,IsCustomizable,CanCreateForms,CanCreateViews,CanCreateCharts,CanCreateAttributes,CanChangeTrackingBeEnabled,CanModifyAdditionalSettings,CanChangeHierarchicalRelationship,CanEnableSyncToExternalSearchIndex)",
-      "value": [
-        {
-          "MetadataId": "27774349-6c36-44ab-8d5d-360df562cdd8",
-          "IsCustomEntity": true,
-          "IsManaged": true,
-          "SchemaName": "aaduser",
-          "IconVectorName": null,
-          "LogicalName": "aaduser",
-          "EntitySetName": "aadusers",
-          "IsActivity": false,
-          "DataProviderId": "54629ed7-0cd3-4c85-9b6c-ea5f8548a9aa",
-          "IsRenameable": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "isrenameable"
-          },
-          "IsCustomizable": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "iscustomizable"
-          },
-          "CanCreateForms": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "cancreateforms"
-          },
-          "CanCreateViews": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "cancreateviews"
-          },
-          "CanCreateCharts": {
-            "Value": false,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "cancreatecharts"
-          },
-          "CanCreateAttributes": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "cancreateattributes"
-          },
-          "CanChangeTrackingBeEnabled": {
-            "Value": false,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "canchangetrackingbeenabled"
-          },
-          "CanModifyAdditionalSettings": {
-            "Value": true,
-            "CanBeChanged": true,
-            "ManagedPropertyLogicalName": "canmodifyadditionalsettings"
-          },
-          "CanChangeHierarchicalRelationship": {
-            "Value": true,
-            "CanBeChanged": true,
-            "ManagedPropertyLogicalName": "canchangehierarchicalrelationship"
-          },
-          "CanEnableSyncToExternalSearchIndex": {
-            "Value": true,
-            "CanBeChanged": true,
-            "ManagedPropertyLogicalName": "canenablesynctoexternalsearchindex"
-          }
+    "@odata.context": "https://contoso-dev.api.crm4.dynamics.com/api/data/v9.0/$metadata#EntityDefinitions(MetadataId,IsCustomEntity,IsManaged,SchemaName,IconVectorName,LogicalName,EntitySetName,IsActivity,DataProviderId,IsRenameable,IsCustomizable,CanCreateForms,CanCreateViews,CanCreateCharts,CanCreateAttributes,CanChangeTrackingBeEnabled,CanModifyAdditionalSettings,CanChangeHierarchicalRelationship,CanEnableSyncToExternalSearchIndex)",
+    "value": [
+      {
+        "MetadataId": "27774349-6c36-44ab-8d5d-360df562cdd8",
+        "IsCustomEntity": true,
+        "IsManaged": true,
+        "SchemaName": "aaduser",
+        "IconVectorName": null,
+        "LogicalName": "aaduser",
+        "EntitySetName": "aadusers",
+        "IsActivity": false,
+        "DataProviderId": "54629ed7-0cd3-4c85-9b6c-ea5f8548a9aa",
+        "IsRenameable": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "isrenameable"
         },
-        {
-          "MetadataId": "70816501-edb9-4740-a16c-6a5efbc05d84",
-          "IsCustomEntity": false,
-          "IsManaged": true,
-          "SchemaName": "Account",
-          "IconVectorName": null,
-          "LogicalName": "account",
-          "EntitySetName": "accounts",
-          "IsActivity": false,
-          "DataProviderId": null,
-          "IsRenameable": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "isrenameable"
-          },
-          "IsCustomizable": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "iscustomizable"
-          },
-          "CanCreateForms": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "cancreateforms"
-          },
-          "CanCreateViews": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "cancreateviews"
-          },
-          "CanCreateCharts": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "cancreatecharts"
-          },
-          "CanCreateAttributes": {
-            "Value": true,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "cancreateattributes"
-          },
-          "CanChangeTrackingBeEnabled": {
-            "Value": true,
-            "CanBeChanged": true,
-            "ManagedPropertyLogicalName": "canchangetrackingbeenabled"
-          },
-          "CanModifyAdditionalSettings": {
-            "Value": true,
-            "CanBeChanged": true,
-            "ManagedPropertyLogicalName": "canmodifyadditionalsettings"
-          },
-          "CanChangeHierarchicalRelationship": {
-            "Value": false,
-            "CanBeChanged": false,
-            "ManagedPropertyLogicalName": "canchangehierarchicalrelationship"
-          },
-          "CanEnableSyncToExternalSearchIndex": {
-            "Value": true,
-            "CanBeChanged": true,
-            "ManagedPropertyLogicalName": "canenablesynctoexternalsearchindex"
-          }
+        "IsCustomizable": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "iscustomizable"
+        },
+        "CanCreateForms": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "cancreateforms"
+        },
+        "CanCreateViews": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "cancreateviews"
+        },
+        "CanCreateCharts": {
+          "Value": false,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "cancreatecharts"
+        },
+        "CanCreateAttributes": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "cancreateattributes"
+        },
+        "CanChangeTrackingBeEnabled": {
+          "Value": false,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "canchangetrackingbeenabled"
+        },
+        "CanModifyAdditionalSettings": {
+          "Value": true,
+          "CanBeChanged": true,
+          "ManagedPropertyLogicalName": "canmodifyadditionalsettings"
+        },
+        "CanChangeHierarchicalRelationship": {
+          "Value": true,
+          "CanBeChanged": true,
+          "ManagedPropertyLogicalName": "canchangehierarchicalrelationship"
+        },
+        "CanEnableSyncToExternalSearchIndex": {
+          "Value": true,
+          "CanBeChanged": true,
+          "ManagedPropertyLogicalName": "canenablesynctoexternalsearchindex"
         }
-      ]
-    }
+      },
+      {
+        "MetadataId": "70816501-edb9-4740-a16c-6a5efbc05d84",
+        "IsCustomEntity": false,
+        "IsManaged": true,
+        "SchemaName": "Account",
+        "IconVectorName": null,
+        "LogicalName": "account",
+        "EntitySetName": "accounts",
+        "IsActivity": false,
+        "DataProviderId": null,
+        "IsRenameable": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "isrenameable"
+        },
+        "IsCustomizable": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "iscustomizable"
+        },
+        "CanCreateForms": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "cancreateforms"
+        },
+        "CanCreateViews": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "cancreateviews"
+        },
+        "CanCreateCharts": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "cancreatecharts"
+        },
+        "CanCreateAttributes": {
+          "Value": true,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "cancreateattributes"
+        },
+        "CanChangeTrackingBeEnabled": {
+          "Value": true,
+          "CanBeChanged": true,
+          "ManagedPropertyLogicalName": "canchangetrackingbeenabled"
+        },
+        "CanModifyAdditionalSettings": {
+          "Value": true,
+          "CanBeChanged": true,
+          "ManagedPropertyLogicalName": "canmodifyadditionalsettings"
+        },
+        "CanChangeHierarchicalRelationship": {
+          "Value": false,
+          "CanBeChanged": false,
+          "ManagedPropertyLogicalName": "canchangehierarchicalrelationship"
+        },
+        "CanEnableSyncToExternalSearchIndex": {
+          "Value": true,
+          "CanBeChanged": true,
+          "ManagedPropertyLogicalName": "canenablesynctoexternalsearchindex"
+        }
+      }
+    ]
   };
   //#endregion
 
@@ -1,4 +1,5 @@
 import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
 import { odata } from '../../../../utils/odata';
 import PowerPlatformCommand from '../../../base/PowerPlatformCommand';
 import commands from '../../commands';
@@ -7,6 +8,10 @@ export interface ManagementApp {
   applicationId: string
 }
 
+interface CommandArgs {
+  options: GlobalOptions;
+}
+
 class PpManagementAppListCommand extends PowerPlatformCommand {
   public get name(): string {
     return commands.MANAGEMENTAPP_LIST;
@@ -16,12 +21,15 @@ class PpManagementAppListCommand extends PowerPlatformCommand {
     return 'Lists management applications for Power Platform';
   }
 
-  public async commandAction(logger: Logger): Promise<void> {
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     const endpoint = `${this.resource}/providers/Microsoft.BusinessAppPlatform/adminApplications?api-version=2020-06-01`;
 
     try {
-      const managementApps = await odata.getAllItems<ManagementApp>(endpoint);
-      logger.log(managementApps);
+      await odata.logAllItems<ManagementApp>(endpoint, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
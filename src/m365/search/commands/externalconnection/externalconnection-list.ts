@@ -1,8 +1,13 @@
 import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
 import GraphCommand from '../../../base/GraphCommand';
 import { odata } from '../../../../utils/odata';
 import commands from '../../commands';
 
+interface CommandArgs {
+  options: GlobalOptions;
+}
+
 class SearchExternalConnectionListCommand extends GraphCommand {
   public get name(): string {
     return commands.EXTERNALCONNECTION_LIST;
@@ -12,14 +17,17 @@ class SearchExternalConnectionListCommand extends GraphCommand {
     return 'Lists external connections defined in the Microsoft Search';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'name', 'state'];
   }
 
-  public async commandAction(logger: Logger): Promise<void> {
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
-      const connections = await odata.getAllItems(`${this.resource}/v1.0/external/connections`);
-      logger.log(connections);
+      await odata.logAllItems(`${this.resource}/v1.0/external/connections`, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -3,6 +3,9 @@ const prefix: string = 'spfx';
 export default {
   DOCTOR: `${prefix} doctor`,
   PACKAGE_GENERATE: `${prefix} package generate`,
+  PACKAGE_VALIDATE: `${prefix} package validate`,
+  PROJECT_COMPONENT_ADD: `${prefix} project component add`,
+  PROJECT_COMPONENT_LIST: `${prefix} project component list`,
   PROJECT_DOCTOR: `${prefix} project doctor`,
   PROJECT_UPGRADE: `${prefix} project upgrade`,
   PROJECT_EXTERNALIZE: `${prefix} project externalize`,
@@ -0,0 +1,398 @@
+import * as AdmZip from 'adm-zip';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import appInsights from '../../../../appInsights';
+import auth from '../../../../Auth';
+import { Cli } from '../../../../cli/Cli';
+import { CommandInfo } from '../../../../cli/CommandInfo';
+import { Logger } from '../../../../cli/Logger';
+import Command, { CommandError } from '../../../../Command';
+import request from '../../../../request';
+import { pid } from '../../../../utils/pid';
+import { sinonUtil } from '../../../../utils/sinonUtil';
+import commands from '../../commands';
+const command: Command = require('./package-validate');
+
+describe(commands.PACKAGE_VALIDATE, () => {
+  const productId: string = 'b2307a39-e878-458b-bc90-03bc578531d6';
+  const componentId: string = '8a3a84e1-2d0f-495c-8e37-1447c91d96dd';
+  const packagePath: string = path.resolve('spfx-solution.sppkg');
+  let log: any[];
+  let logger: Logger;
+  let loggerLogSpy: sinon.SinonSpy;
+  let commandInfo: CommandInfo;
+
+  const getPackage = (options?: { appManifest?: string; skipFeatureDeployment?: boolean; version?: string }): Buffer => {
+    const zip: AdmZip = new AdmZip();
+    const opts = options || {};
+    const appManifest: string = typeof opts.appManifest !== 'undefined' ? opts.appManifest : `<?xml version="1.0" encoding="utf-8"?><App xmlns="http://schemas.microsoft.com/sharepoint/2012/app/manifest" Name="spfx-solution" ProductID="${productId}" Version="${opts.version || '1.0.0.0'}" SharePointMinVersion="16.0.0.0" IsClientSideSolution="true" SkipFeatureDeployment="${opts.skipFeatureDeployment === true}" IsDomainIsolated="false"><Properties><Title>spfx-solution</Title></Properties></App>`;
+    if (appManifest) {
+      zip.addFile('AppManifest.xml', Buffer.from(appManifest, 'utf8'));
+    }
+    zip.addFile('_rels/AppManifest.xml.rels', Buffer.from('<?xml version="1.0" encoding="utf-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>', 'utf8'));
+    zip.addFile(`${productId}/`, Buffer.alloc(0));
+    zip.addFile(`${productId}/WebPart_${componentId}.xml`, Buffer.from(`<?xml version="1.0" encoding="utf-8"?><Elements xmlns="http://schemas.microsoft.com/sharepoint/"><ClientSideComponent Name="HelloWorld" Id="${componentId}" ComponentManifest="{}" Type="WebPart"></ClientSideComponent></Elements>`, 'utf8'));
+    zip.addFile(`${productId}/WebPart_${componentId}.xml.config.xml`, Buffer.from(`<?xml version="1.0" encoding="utf-8"?><Elements xmlns="http://schemas.microsoft.com/sharepoint/"><ClientSideComponent Name="HelloWorld" Id="{${componentId.toUpperCase()}}" ComponentManifest="{}" Type="WebPart"></ClientSideComponent></Elements>`, 'utf8'));
+    return zip.toBuffer();
+  };
+
+  const stubPackage = (pkg: Buffer): void => {
+    const readFileSyncOriginal = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((filePath, options) => {
+      if (filePath.toString() === packagePath) {
+        return pkg;
+      }
+
+      return readFileSyncOriginal(filePath, options);
+    });
+  };
+
+  const stubAppCatalog = (apps: any[], componentManifests: any[], scope: string = 'tenant'): sinon.SinonStub => {
+    return sinon.stub(request, 'get').callsFake((opts) => {
+      if (opts.url === 'https://contoso.sharepoint.com/_api/SP_TenantSettings_Current') {
+        return Promise.resolve({ CorporateCatalogUrl: 'https://contoso.sharepoint.com/sites/apps' });
+      }
+
+      if (scope === 'tenant' && opts.url === 'https://contoso.sharepoint.com/sites/apps/_api/web/tenantappcatalog/AvailableApps') {
+        return Promise.resolve({ value: apps });
+      }
+
+      if (scope === 'tenant' && opts.url === `https://contoso.sharepoint.com/sites/apps/_api/web/GetList('/sites/apps/Lists/ComponentManifests')/items?$select=ClientComponentId,SolutionId&$top=5000`) {
+        return Promise.resolve({ value: componentManifests });
+      }
+
+      if (scope === 'sitecollection' && opts.url === 'https://contoso.sharepoint.com/sites/team-a/_api/web/sitecollectionappcatalog/AvailableApps') {
+        return Promise.resolve({ value: apps });
+      }
+
+      if (scope === 'sitecollection' && opts.url === `https://contoso.sharepoint.com/sites/team-a/_api/web/GetList('/sites/team-a/Lists/ComponentManifests')/items?$select=ClientComponentId,SolutionId&$top=5000`) {
+        return Promise.resolve({ value: componentManifests });
+      }
+
+      return Promise.reject('Invalid request');
+    });
+  };
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    auth.service.connected = true;
+    auth.service.spoUrl = 'https://contoso.sharepoint.com';
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    loggerLogSpy = sinon.spy(logger, 'log');
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      request.get,
+      fs.readFileSync,
+      fs.existsSync,
+      fs.lstatSync
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+    auth.service.connected = false;
+    auth.service.spoUrl = undefined;
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.PACKAGE_VALIDATE), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('defines correct properties for the default output', () => {
+    assert.deepStrictEqual(command.defaultProperties(), ['type', 'app', 'message']);
+  });
+
+  it('returns no conflicts when the package isn\'t deployed to the tenant app catalog', async () => {
+    stubPackage(getPackage());
+    stubAppCatalog([
+      {
+        ID: 'e5f65aef-68fe-45b0-801e-92733dd57e2c',
+        Title: 'other-solution',
+        AppCatalogVersion: '1.0.0.0',
+        SkipDeploymentFeature: false
+      }
+    ], [
+      {
+        ClientComponentId: '1c6c9123-7aac-41f3-a376-3caea41ed83f',
+        SolutionId: 'e5f65aef-68fe-45b0-801e-92733dd57e2c'
+      }
+    ]);
+
+    await command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } });
+    assert(loggerLogSpy.calledWith([]));
+  });
+
+  it('returns no conflicts when a newer version of the deployed package is validated (verbose)', async () => {
+    stubPackage(getPackage({ version: '1.1.0.0' }));
+    stubAppCatalog([
+      {
+        ID: productId,
+        Title: 'spfx-solution',
+        AppCatalogVersion: '1.0.0.0',
+        SkipDeploymentFeature: false
+      }
+    ], [
+      {
+        ClientComponentId: componentId,
+        SolutionId: productId
+      }
+    ]);
+
+    await command.action(logger, { options: { filePath: 'spfx-solution.sppkg', verbose: true } });
+    assert(loggerLogSpy.calledWith([]));
+  });
+
+  it('returns no conflicts when the same version of the package is validated and the app catalog doesn\'t return skipFeatureDeployment', async () => {
+    stubPackage(getPackage({ skipFeatureDeployment: true }));
+    stubAppCatalog([
+      {
+        ID: productId,
+        Title: 'spfx-solution',
+        AppCatalogVersion: '1.0.0.0'
+      }
+    ], []);
+
+    await command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } });
+    assert(loggerLogSpy.calledWith([]));
+  });
+
+  it('treats package without skipFeatureDeployment as deployed to all sites', async () => {
+    stubPackage(getPackage({ appManifest: `<?xml version="1.0" encoding="utf-8"?><App Name="spfx-solution" ProductID="{${productId}}" Version="1.0.0.0"></App>` }));
+    stubAppCatalog([
+      {
+        ID: productId,
+        Title: 'spfx-solution',
+        AppCatalogVersion: '1.0.0.0',
+        SkipDeploymentFeature: true
+      }
+    ], []);
+
+    await command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } });
+    assert.deepStrictEqual(log[0], [
+      {
+        type: 'SkipFeatureDeploymentMismatch',
+        message: 'Package has skipFeatureDeployment set to false while the deployed app has it set to true',
+        app: 'spfx-solution'
+      }
+    ]);
+  });
+
+  it('returns conflicts with the apps deployed to the tenant app catalog', async () => {
+    stubPackage(getPackage({ skipFeatureDeployment: true }));
+    stubAppCatalog([
+      {
+        ID: productId.toUpperCase(),
+        Title: 'other-solution',
+        AppCatalogVersion: '1.0.0.1',
+        SkipDeploymentFeature: false
+      },
+      {
+        ID: 'e5f65aef-68fe-45b0-801e-92733dd57e2c',
+        Title: 'another-solution',
+        AppCatalogVersion: '1.0.0.0',
+        SkipDeploymentFeature: true
+      }
+    ], [
+      {
+        ClientComponentId: componentId,
+        SolutionId: productId
+      },
+      {
+        ClientComponentId: `{${componentId.toUpperCase()}}`,
+        SolutionId: '{E5F65AEF-68FE-45B0-801E-92733DD57E2C}'
+      },
+      {
+        ClientComponentId: componentId,
+        SolutionId: '4f3a1b2c-6d7e-4f80-9a1b-2c3d4e5f6a7b'
+      }
+    ]);
+
+    await command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } });
+    assert.deepStrictEqual(log[0], [
+      {
+        type: 'DuplicateProductId',
+        message: `Product ID ${productId} is already used by other-solution`,
+        app: 'other-solution'
+      },
+      {
+        type: 'LowerVersion',
+        message: 'Package version 1.0.0.0 is lower than the deployed version 1.0.0.1',
+        app: 'other-solution'
+      },
+      {
+        type: 'SkipFeatureDeploymentMismatch',
+        message: 'Package has skipFeatureDeployment set to true while the deployed app has it set to false',
+        app: 'other-solution'
+      },
+      {
+        type: 'DuplicateComponentId',
+        message: `Component ID ${componentId} is already used by another-solution`,
+        app: 'another-solution'
+      },
+      {
+        type: 'DuplicateComponentId',
+        message: `Component ID ${componentId} is already used by 4f3a1b2c-6d7e-4f80-9a1b-2c3d4e5f6a7b`,
+        app: '4f3a1b2c-6d7e-4f80-9a1b-2c3d4e5f6a7b'
+      }
+    ]);
+  });
+
+  it('returns conflicts with components from all pages of component manifests', async () => {
+    stubPackage(getPackage({}));
+    const manifestsUrl: string = `https://contoso.sharepoint.com/sites/apps/_api/web/GetList('/sites/apps/Lists/ComponentManifests')/items?$select=ClientComponentId,SolutionId&$top=5000`;
+    const getStub: sinon.SinonStub = stubAppCatalog([], []);
+    getStub.withArgs(sinon.match({ url: manifestsUrl })).resolves({
+      value: [{ ClientComponentId: 'e5f65aef-68fe-45b0-801e-92733dd57e2c', SolutionId: '4f3a1b2c-6d7e-4f80-9a1b-2c3d4e5f6a7b' }],
+      'odata.nextLink': `${manifestsUrl}&$skiptoken=Paged%3dTRUE%26p_ID%3d5000`
+    });
+    getStub.withArgs(sinon.match({ url: `${manifestsUrl}&$skiptoken=Paged%3dTRUE%26p_ID%3d5000` })).resolves({
+      value: [{ ClientComponentId: componentId, SolutionId: '4f3a1b2c-6d7e-4f80-9a1b-2c3d4e5f6a7b' }]
+    });
+
+    await command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } });
+    assert.deepStrictEqual(log[0], [
+      {
+        type: 'DuplicateComponentId',
+        message: `Component ID ${componentId} is already used by 4f3a1b2c-6d7e-4f80-9a1b-2c3d4e5f6a7b`,
+        app: '4f3a1b2c-6d7e-4f80-9a1b-2c3d4e5f6a7b'
+      }
+    ]);
+  });
+
+  it('returns conflicts with the apps deployed to the site collection app catalog', async () => {
+    stubPackage(getPackage({ version: '1.0' }));
+    stubAppCatalog([
+      {
+        ID: productId,
+        Title: 'spfx-solution',
+        AppCatalogVersion: '1.0.0.1',
+        SkipDeploymentFeature: false
+      }
+    ], [], 'sitecollection');
+
+    await command.action(logger, { options: { filePath: 'spfx-solution.sppkg', scope: 'sitecollection', appCatalogUrl: 'https://contoso.sharepoint.com/sites/team-a/AppCatalog' } });
+    assert.deepStrictEqual(log[0], [
+      {
+        type: 'LowerVersion',
+        message: 'Package version 1.0 is lower than the deployed version 1.0.0.1',
+        app: 'spfx-solution'
+      }
+    ]);
+  });
+
+  it('throws an error when the package doesn\'t contain the app manifest', async () => {
+    stubPackage(getPackage({ appManifest: '' }));
+
+    await assert.rejects(command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } }),
+      new CommandError(`Unable to read package ${packagePath}: AppManifest.xml not found`));
+  });
+
+  it('throws an error when the app manifest doesn\'t contain the product ID', async () => {
+    stubPackage(getPackage({ appManifest: '<?xml version="1.0" encoding="utf-8"?><App Name="spfx-solution"></App>' }));
+
+    await assert.rejects(command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } }),
+      new CommandError(`Unable to read package ${packagePath}: AppManifest.xml doesn't contain the product ID`));
+  });
+
+  it('throws an error when the app manifest doesn\'t contain the app element', async () => {
+    stubPackage(getPackage({ appManifest: '<?xml version="1.0" encoding="utf-8"?><Manifest></Manifest>' }));
+
+    await assert.rejects(command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } }),
+      new CommandError(`Unable to read package ${packagePath}: AppManifest.xml doesn't contain the product ID`));
+  });
+
+  it('throws an error when the file isn\'t a valid package', async () => {
+    stubPackage(Buffer.from('Not a package', 'utf8'));
+
+    await assert.rejects(command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } }),
+      (err: CommandError) => err.message.startsWith(`Unable to read package ${packagePath}: `) &&
+        err.message.length > `Unable to read package ${packagePath}: `.length);
+  });
+
+  it('correctly handles error when retrieving apps', async () => {
+    stubPackage(getPackage());
+    sinon.stub(request, 'get').callsFake((opts) => {
+      if (opts.url === 'https://contoso.sharepoint.com/_api/SP_TenantSettings_Current') {
+        return Promise.resolve({ CorporateCatalogUrl: 'https://contoso.sharepoint.com/sites/apps' });
+      }
+
+      return Promise.reject({ error: { 'odata.error': { code: '-1, Microsoft.SharePoint.Client.ResourceNotFoundException', message: { value: 'An error has occurred' } } } });
+    });
+
+    await assert.rejects(command.action(logger, { options: { filePath: 'spfx-solution.sppkg' } }),
+      new CommandError('An error has occurred'));
+  });
+
+  it('fails validation if the scope is invalid', async () => {
+    const actual = await command.validate({ options: { filePath: 'spfx-solution.sppkg', scope: 'site' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the scope is sitecollection and the appCatalogUrl isn\'t specified', async () => {
+    const actual = await command.validate({ options: { filePath: 'spfx-solution.sppkg', scope: 'sitecollection' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the file doesn\'t exist', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => false);
+    const actual = await command.validate({ options: { filePath: 'spfx-solution.sppkg' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the path points to a folder', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'lstatSync').callsFake(() => ({ isDirectory: () => true }) as any);
+    const actual = await command.validate({ options: { filePath: 'spfx-solution.sppkg' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the appCatalogUrl is not a valid SharePoint URL', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'lstatSync').callsFake(() => ({ isDirectory: () => false }) as any);
+    const actual = await command.validate({ options: { filePath: 'spfx-solution.sppkg', appCatalogUrl: 'foo' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation when the scope is sitecollection and the appCatalogUrl is specified', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'lstatSync').callsFake(() => ({ isDirectory: () => false }) as any);
+    const actual = await command.validate({ options: { filePath: 'spfx-solution.sppkg', scope: 'sitecollection', appCatalogUrl: 'https://contoso.sharepoint.com/sites/team-a' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('passes validation when only the file path is specified', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'lstatSync').callsFake(() => ({ isDirectory: () => false }) as any);
+    const actual = await command.validate({ options: { filePath: 'spfx-solution.sppkg', scope: 'tenant' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
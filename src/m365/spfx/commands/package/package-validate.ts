@@ -0,0 +1,317 @@
+import { DOMParser } from '@xmldom/xmldom';
+import * as AdmZip from 'adm-zip';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
+import request from '../../../../request';
+import { spo } from '../../../../utils/spo';
+import { urlUtil } from '../../../../utils/urlUtil';
+import { validation } from '../../../../utils/validation';
+import { SpoAppBaseCommand } from '../../../spo/commands/app/SpoAppBaseCommand';
+import commands from '../../commands';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  filePath: string;
+  appCatalogUrl?: string;
+  scope?: string;
+}
+
+interface PackageInfo {
+  name: string;
+  productId: string;
+  version: string;
+  skipFeatureDeployment: boolean;
+  componentIds: string[];
+}
+
+interface AvailableApp {
+  ID: string;
+  Title: string;
+  AppCatalogVersion: string;
+  SkipDeploymentFeature?: boolean;
+}
+
+interface ComponentManifest {
+  ClientComponentId: string;
+  SolutionId: string;
+}
+
+interface PackageConflict {
+  type: string;
+  message: string;
+  app: string;
+}
+
+class SpfxPackageValidateCommand extends SpoAppBaseCommand {
+  public get name(): string {
+    return commands.PACKAGE_VALIDATE;
+  }
+
+  public get description(): string {
+    return 'Validates a SharePoint Framework package against the apps deployed to the app catalog';
+  }
+
+  public defaultProperties(): string[] | undefined {
+    return ['type', 'app', 'message'];
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+    this.#initValidators();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        appCatalogUrl: (!(!args.options.appCatalogUrl)).toString(),
+        scope: args.options.scope || 'tenant'
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-p, --filePath <filePath>'
+      },
+      {
+        option: '-u, --appCatalogUrl [appCatalogUrl]'
+      },
+      {
+        option: '-s, --scope [scope]',
+        autocomplete: ['tenant', 'sitecollection']
+      }
+    );
+  }
+
+  #initValidators(): void {
+    this.validators.push(
+      async (args: CommandArgs) => {
+        if (args.options.scope) {
+          const testScope: string = args.options.scope.toLowerCase();
+          if (!(testScope === 'tenant' || testScope === 'sitecollection')) {
+            return `Scope must be either 'tenant' or 'sitecollection'`;
+          }
+
+          if (testScope === 'sitecollection' && !args.options.appCatalogUrl) {
+            return `You must specify appCatalogUrl when the scope is sitecollection`;
+          }
+        }
+
+        const fullPath: string = path.resolve(args.options.filePath);
+
+        if (!fs.existsSync(fullPath)) {
+          return `File '${fullPath}' not found`;
+        }
+
+        if (fs.lstatSync(fullPath).isDirectory()) {
+          return `Path '${fullPath}' points to a directory`;
+        }
+
+        if (args.options.appCatalogUrl) {
+          return validation.isValidSharePointUrl(args.options.appCatalogUrl);
+        }
+
+        return true;
+      }
+    );
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    const scope: string = (args.options.scope) ? args.options.scope.toLowerCase() : 'tenant';
+    const fullPath: string = path.resolve(args.options.filePath);
+
+    if (this.verbose) {
+      logger.logToStderr(`Reading package ${fullPath}...`);
+    }
+
+    let packageInfo: PackageInfo;
+    try {
+      packageInfo = this.getPackageInfo(fullPath);
+    }
+    catch (err: any) {
+      throw `Unable to read package ${fullPath}: ${err.message || err}`;
+    }
+
+    try {
+      const spoUrl: string = await spo.getSpoUrl(logger, this.debug);
+      const appCatalogSiteUrl: string = await this.getAppCatalogSiteUrl(logger, spoUrl, args);
+
+      if (this.verbose) {
+        logger.logToStderr(`Retrieving apps from ${appCatalogSiteUrl}...`);
+      }
+
+      const apps = await request.get<{ value: AvailableApp[] }>({
+        url: `${appCatalogSiteUrl}/_api/web/${scope}appcatalog/AvailableApps`,
+        headers: {
+          accept: 'application/json;odata=nometadata'
+        },
+        responseType: 'json'
+      });
+
+      if (this.verbose) {
+        logger.logToStderr(`Retrieving component manifests from ${appCatalogSiteUrl}...`);
+      }
+
+      const componentManifests: ComponentManifest[] = await this.getComponentManifests(appCatalogSiteUrl);
+
+      logger.log(this.getConflicts(packageInfo, apps.value, componentManifests));
+    }
+    catch (err: any) {
+      this.handleRejectedODataJsonPromise(err);
+    }
+  }
+
+  /**
+   * Retrieves the IDs of all components deployed to the app catalog. App
+   * catalogs with many apps contain more manifests than fit in a single page
+   */
+  private async getComponentManifests(appCatalogSiteUrl: string): Promise<ComponentManifest[]> {
+    let url: string | undefined = `${appCatalogSiteUrl}/_api/web/GetList('${urlUtil.getServerRelativePath(appCatalogSiteUrl, 'Lists/ComponentManifests')}')/items?$select=ClientComponentId,SolutionId&$top=5000`;
+    const componentManifests: ComponentManifest[] = [];
+
+    while (url) {
+      const res: { value: ComponentManifest[], 'odata.nextLink'?: string } = await request.get<{ value: ComponentManifest[], 'odata.nextLink'?: string }>({
+        url: url,
+        headers: {
+          accept: 'application/json;odata=nometadata'
+        },
+        responseType: 'json'
+      });
+      componentManifests.push(...res.value);
+      url = res['odata.nextLink'];
+    }
+
+    return componentManifests;
+  }
+
+  /**
+   * Reads the product ID, version and skipFeatureDeployment setting from the
+   * app manifest and the IDs of the components from the feature elements
+   * of the specified .sppkg file
+   */
+  private getPackageInfo(filePath: string): PackageInfo {
+    const zip: AdmZip = new AdmZip(fs.readFileSync(filePath));
+    const appManifestEntry: AdmZip.IZipEntry | null = zip.getEntry('AppManifest.xml');
+    if (!appManifestEntry) {
+      throw 'AppManifest.xml not found';
+    }
+
+    const parser: DOMParser = new DOMParser();
+    const app: Element | undefined = parser
+      .parseFromString(appManifestEntry.getData().toString('utf8'), 'text/xml')
+      .getElementsByTagName('App')[0];
+    if (!app || !app.getAttribute('ProductID')) {
+      throw 'AppManifest.xml doesn\'t contain the product ID';
+    }
+
+    const componentIds: string[] = [];
+    zip.getEntries()
+      .filter(e => !e.isDirectory && e.entryName.endsWith('.xml'))
+      .forEach(e => {
+        const components = parser
+          .parseFromString(e.getData().toString('utf8'), 'text/xml')
+          .getElementsByTagName('ClientSideComponent');
+        for (let i = 0; i < components.length; i++) {
+          const componentId: string = this.normalizeId(components[i].getAttribute('Id') as string);
+          if (componentIds.indexOf(componentId) < 0) {
+            componentIds.push(componentId);
+          }
+        }
+      });
+
+    return {
+      name: app.getAttribute('Name') as string,
+      productId: this.normalizeId(app.getAttribute('ProductID') as string),
+      version: app.getAttribute('Version') as string,
+      skipFeatureDeployment: (app.getAttribute('SkipFeatureDeployment') || '').toLowerCase() === 'true',
+      componentIds
+    };
+  }
+
+  private getConflicts(packageInfo: PackageInfo, apps: AvailableApp[], componentManifests: ComponentManifest[]): PackageConflict[] {
+    const conflicts: PackageConflict[] = [];
+    const deployedApp: AvailableApp | undefined = apps.find(a => this.normalizeId(a.ID) === packageInfo.productId);
+
+    if (deployedApp) {
+      // the same product ID used by an app with a different name means that
+      // the package comes from a copy of another project
+      if (deployedApp.Title !== packageInfo.name) {
+        conflicts.push({
+          type: 'DuplicateProductId',
+          message: `Product ID ${packageInfo.productId} is already used by ${deployedApp.Title}`,
+          app: deployedApp.Title
+        });
+      }
+
+      if (this.compareVersions(packageInfo.version, deployedApp.AppCatalogVersion) < 0) {
+        conflicts.push({
+          type: 'LowerVersion',
+          message: `Package version ${packageInfo.version} is lower than the deployed version ${deployedApp.AppCatalogVersion}`,
+          app: deployedApp.Title
+        });
+      }
+
+      if (typeof deployedApp.SkipDeploymentFeature === 'boolean' &&
+        deployedApp.SkipDeploymentFeature !== packageInfo.skipFeatureDeployment) {
+        conflicts.push({
+          type: 'SkipFeatureDeploymentMismatch',
+          message: `Package has skipFeatureDeployment set to ${packageInfo.skipFeatureDeployment} while the deployed app has it set to ${deployedApp.SkipDeploymentFeature}`,
+          app: deployedApp.Title
+        });
+      }
+    }
+
+    componentManifests
+      .filter(m => this.normalizeId(m.SolutionId) !== packageInfo.productId &&
+        packageInfo.componentIds.indexOf(this.normalizeId(m.ClientComponentId)) > -1)
+      .forEach(m => {
+        const solutionId: string = this.normalizeId(m.SolutionId);
+        const app: AvailableApp | undefined = apps.find(a => this.normalizeId(a.ID) === solutionId);
+        const appName: string = app ? app.Title : solutionId;
+        conflicts.push({
+          type: 'DuplicateComponentId',
+          message: `Component ID ${this.normalizeId(m.ClientComponentId)} is already used by ${appName}`,
+          app: appName
+        });
+      });
+
+    return conflicts;
+  }
+
+  /**
+   * Returns a negative number if version a is lower than version b,
+   * a positive number if it's higher and 0 if both versions are equal
+   */
+  private compareVersions(a: string, b: string): number {
+    const aParts: number[] = a.split('.').map(p => parseInt(p) || 0);
+    const bParts: number[] = b.split('.').map(p => parseInt(p) || 0);
+
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+      const diff: number = (aParts[i] || 0) - (bParts[i] || 0);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Removes braces and lowercases the specified ID so that IDs from
+   * the package and the app catalog can be compared
+   */
+  private normalizeId(id: string): string {
+    return id.replace(/[{}]/g, '').toLowerCase();
+  }
+}
+
+module.exports = new SpfxPackageValidateCommand();
@@ -15,6 +15,15 @@ export abstract class Rule {
     return [];
   }
 
+  /**
+   * Set to false for rules whose resolution describes what to remove or
+   * change manually, so that it can't be applied automatically by merging it
+   * into the file
+   */
+  get canApply(): boolean {
+    return true;
+  }
+
   protected addFinding(findings: Finding[]): void {
     this.addFindingWithOccurrences([{
       file: this.file,
@@ -34,7 +43,8 @@ export abstract class Rule {
       occurrences: occurrences,
       resolutionType: this.resolutionType,
       severity: this.severity,
-      supersedes: this.supersedes
+      supersedes: this.supersedes,
+      canApply: this.canApply
     });
   }
 }
\ No newline at end of file
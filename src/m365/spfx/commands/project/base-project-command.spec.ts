@@ -1,9 +1,14 @@
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as sinon from 'sinon';
+import { pathToFileURL } from 'url';
+import { Logger } from '../../../../cli/Logger';
 import { sinonUtil } from '../../../../utils/sinonUtil';
 import { BaseProjectCommand } from "./base-project-command";
 import { Project } from "./project-model";
+import { Finding, FindingToReport } from "./report-model";
 
 class MockCommand extends BaseProjectCommand {
   public get name(): string {
@@ -21,10 +26,33 @@ class MockCommand extends BaseProjectCommand {
 }
 
 describe('BaseProjectCommand', () => {
+  let log: string[];
+  let logger: Logger;
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+  });
+
   afterEach(() => {
     sinonUtil.restore([
       fs.readFileSync,
-      fs.existsSync
+      fs.existsSync,
+      fs.writeFileSync,
+      fs.mkdirSync,
+      fs.copyFileSync,
+      fs.unlinkSync,
+      fs.readdirSync
     ]);
   });
 
@@ -77,4 +105,395 @@ describe('BaseProjectCommand', () => {
     const project = command.getProjectPublic();
     assert.notStrictEqual(typeof project, 'undefined');
   });
-});
\ No newline at end of file
+
+  it('reports all modifications as applied when there are no remaining modifications', () => {
+    const command: any = new MockCommand();
+    const finding: Finding = {
+      id: 'FN000001',
+      title: 'Title',
+      description: 'Description',
+      resolutionType: 'text',
+      severity: 'Required',
+      supersedes: [],
+      occurrences: [{ file: './.gitignore', resolution: 'release' }]
+    };
+    sinon.stub(fs, 'existsSync').callsFake(_ => false);
+    sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    command.projectRootPath = '/project';
+
+    const remainingFindings: Finding[] = command.applyFindings([finding], 'npm', logger);
+    assert.deepStrictEqual(remainingFindings, []);
+    assert.deepStrictEqual(log, ['Applied 1 of 1 modifications.']);
+  });
+
+  it('logs error when applying a modification failed in debug mode', () => {
+    const command: any = new MockCommand();
+    const finding: Finding = {
+      id: 'FN000001',
+      title: 'Title',
+      description: 'Description',
+      resolutionType: 'json',
+      severity: 'Required',
+      supersedes: [],
+      occurrences: [{ file: './config/config.json', resolution: '{ invalid' }]
+    };
+    sinon.stub(fs, 'existsSync').callsFake(_ => false);
+    command.projectRootPath = '/project';
+    command.debug = true;
+
+    const remainingFindings: Finding[] = command.applyFindings([finding], 'npm', logger);
+    assert.strictEqual(remainingFindings.length, 1);
+    assert(log[0].startsWith('Error applying FN000001 to ./config/config.json'));
+  });
+
+  it('doesn\'t log error when applying a modification failed', () => {
+    const command: any = new MockCommand();
+    const finding: Finding = {
+      id: 'FN000001',
+      title: 'Title',
+      description: 'Description',
+      resolutionType: 'cmd',
+      severity: 'Required',
+      supersedes: [],
+      occurrences: [{ file: './package.json', resolution: 'install @microsoft/sp-core-library' }]
+    };
+    command.projectRootPath = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-141-webpart-nolib');
+
+    const remainingFindings: Finding[] = command.applyFindings([finding], 'npm', logger);
+    assert.strictEqual(remainingFindings.length, 1);
+    assert.deepStrictEqual(log, ['Applied 0 of 1 modifications. Apply the remaining modifications manually.']);
+  });
+
+  it('doesn\'t apply modifications to code, json modifications that can\'t be applied and modifications without resolution', () => {
+    const command: any = new MockCommand();
+    const findings: Finding[] = [
+      { id: 'FN000001', title: 'Title', description: 'Description', resolutionType: 'ts', severity: 'Required', supersedes: [], occurrences: [{ file: './src/index.ts', resolution: 'import * as React from \'react\';' }] },
+      { id: 'FN000002', title: 'Title', description: 'Description', resolutionType: 'json', severity: 'Required', supersedes: [], canApply: false, occurrences: [{ file: './tsconfig.json', resolution: '{}' }] },
+      { id: 'FN000003', title: 'Title', description: 'Description', resolutionType: 'cmd', severity: 'Required', supersedes: [], occurrences: [{ file: '', resolution: '' }] },
+      { id: 'FN000004', title: 'Title', description: 'Description', resolutionType: 'cmd', severity: 'Required', supersedes: [], occurrences: [{ file: './package.json', resolution: 'npm dedupe' }] }
+    ];
+
+    const remainingFindings: Finding[] = command.applyFindings(findings, 'npm', logger);
+    assert.deepStrictEqual(remainingFindings, findings);
+  });
+
+  it('adds and removes dependencies in package.json', () => {
+    const command: any = new MockCommand();
+    let packageJson: any;
+    sinon.stub(fs, 'existsSync').callsFake(_ => true);
+    sinon.stub(fs, 'readFileSync').callsFake(_ => JSON.stringify({ name: 'project', devDependencies: { ajv: '~5.2.2' } }));
+    sinon.stub(fs, 'writeFileSync').callsFake((_, data) => {
+      packageJson = JSON.parse(data as string);
+    });
+    command.projectRootPath = '/project';
+
+    assert.strictEqual(command.applyCommand('install @microsoft/sp-core-library@1.15.2 react@16.13.1'), true);
+    assert.deepStrictEqual(packageJson.dependencies, { '@microsoft/sp-core-library': '1.15.2', 'react': '16.13.1' });
+    assert.strictEqual(command.applyCommand('uninstallDev ajv'), true);
+    assert.deepStrictEqual(packageJson.devDependencies, {});
+    assert.strictEqual(command.applyCommand('installDev ajv@6.12.5'), true);
+    assert.deepStrictEqual(packageJson, { name: 'project', devDependencies: { ajv: '6.12.5' } });
+    assert.strictEqual(command.applyCommand('uninstall react'), true);
+    assert.deepStrictEqual(packageJson, { name: 'project', devDependencies: { ajv: '~5.2.2' } });
+  });
+
+  it('moves packages installed as the other type of dependency and supports versions with spaces', () => {
+    const command: any = new MockCommand();
+    let packageJson: any;
+    sinon.stub(fs, 'existsSync').callsFake(_ => true);
+    sinon.stub(fs, 'readFileSync').callsFake(_ => JSON.stringify({ dependencies: { gulp: '~3.9.1' }, devDependencies: { react: '16.8.0' } }));
+    sinon.stub(fs, 'writeFileSync').callsFake((_, data) => {
+      packageJson = JSON.parse(data as string);
+    });
+    command.projectRootPath = '/project';
+
+    command.applyCommand('installDev gulp@~4.0.2');
+    assert.deepStrictEqual(packageJson, { dependencies: {}, devDependencies: { react: '16.8.0', gulp: '~4.0.2' } });
+    command.applyCommand('install react@">=16.8.0 <17.0.0"');
+    assert.deepStrictEqual(packageJson, { dependencies: { gulp: '~3.9.1', react: '>=16.8.0 <17.0.0' }, devDependencies: {} });
+  });
+
+  it('adds, copies and removes files and creates folders', () => {
+    const command: any = new MockCommand();
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    const mkdirSyncStub: sinon.SinonStub = sinon.stub(fs, 'mkdirSync').callsFake(_ => '');
+    const copyFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'copyFileSync').callsFake(_ => { });
+    const unlinkSyncStub: sinon.SinonStub = sinon.stub(fs, 'unlinkSync').callsFake(_ => { });
+    sinon.stub(fs, 'existsSync').callsFake(p => p.toString().indexOf('exists') > -1);
+    command.projectRootPath = '/project';
+
+    assert.strictEqual(command.applyCommand(`add_cmd[BEFOREPATH]"config/sass.json"[AFTERPATH][BEFORECONTENT]
+{}
+[AFTERCONTENT]`), true);
+    assert(writeFileSyncStub.calledWith(path.resolve('/project', 'config/sass.json'), '{}'), 'File not added');
+    assert.strictEqual(command.applyCommand('remove_cmd "config/exists.json"'), true);
+    assert.strictEqual(command.applyCommand('remove_cmd "config/missing.json"'), true);
+    assert(unlinkSyncStub.calledOnceWith(path.resolve('/project', 'config/exists.json')), 'File not removed');
+    assert.strictEqual(command.applyCommand('create_dir_cmdPathParam/projectNameParamteamsItemTypeParam'), true);
+    assert(mkdirSyncStub.calledWith(path.join('/project', 'teams')), 'Folder not created');
+    assert.strictEqual(command.applyCommand('copy_cmd "/assets/tab20x20.png"DestinationParam"/project/teams/tab20x20.png"'), true);
+    assert(copyFileSyncStub.calledWith('/assets/tab20x20.png', path.resolve('/project/teams/tab20x20.png')), 'File not copied');
+  });
+
+  it('merges json resolution into an existing file', () => {
+    const command: any = new MockCommand();
+    let json: any;
+    sinon.stub(fs, 'existsSync').callsFake(_ => true);
+    sinon.stub(fs, 'readFileSync').callsFake(_ => `{
+  // comment
+  "compilerOptions": {
+    "lib": ["es5", "dom"],
+    "module": "commonjs"
+  },
+  "include": null
+}`);
+    sinon.stub(fs, 'writeFileSync').callsFake((_, data) => {
+      json = JSON.parse(data as string);
+    });
+    sinon.stub(fs, 'mkdirSync').callsFake(_ => '');
+    command.projectRootPath = '/project';
+
+    command.applyJson({ file: './tsconfig.json', resolution: '{ "compilerOptions": { "lib": ["dom", "es2015.collection"], "module": "esnext" }, "include": ["src/**/*.ts"] }' });
+    assert.deepStrictEqual(json, {
+      compilerOptions: {
+        lib: ['es5', 'dom', 'es2015.collection'],
+        module: 'esnext'
+      },
+      include: ['src/**/*.ts']
+    });
+  });
+
+  it('creates file with json resolution when the file doesn\'t exist', () => {
+    const command: any = new MockCommand();
+    sinon.stub(fs, 'existsSync').callsFake(_ => false);
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'mkdirSync').callsFake(_ => '');
+    command.projectRootPath = '/project';
+
+    command.applyJson({ file: './.vscode/extensions.json', resolution: '{ "recommendations": ["msjsdiag.debugger-for-chrome"] }' });
+    assert(writeFileSyncStub.calledWith(path.resolve('/project', '.vscode/extensions.json'), `{\n  "recommendations": [\n    "msjsdiag.debugger-for-chrome"\n  ]\n}${os.EOL}`));
+  });
+
+  it('adds missing lines to an existing text file', () => {
+    const command: any = new MockCommand();
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'existsSync').callsFake(_ => true);
+    sinon.stub(fs, 'readFileSync').callsFake(_ => 'node_modules');
+    command.projectRootPath = '/project';
+
+    command.applyText({ file: './.gitignore', resolution: 'node_modules\nrelease' });
+    assert(writeFileSyncStub.calledWith(path.resolve('/project', '.gitignore'), `node_modules${os.EOL}release${os.EOL}`));
+  });
+
+  it('adds missing lines to a text file ending with a new line', () => {
+    const command: any = new MockCommand();
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'existsSync').callsFake(_ => true);
+    sinon.stub(fs, 'readFileSync').callsFake(_ => 'node_modules\n');
+    command.projectRootPath = '/project';
+
+    command.applyText({ file: './.gitignore', resolution: 'release' });
+    assert(writeFileSyncStub.calledWith(path.resolve('/project', '.gitignore'), `node_modules\nrelease${os.EOL}`));
+  });
+
+  it('doesn\'t change text file that contains all lines', () => {
+    const command: any = new MockCommand();
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'existsSync').callsFake(_ => true);
+    sinon.stub(fs, 'readFileSync').callsFake(_ => '');
+    command.projectRootPath = '/project';
+
+    command.applyText({ file: './.gitignore', resolution: '\n' });
+    assert(writeFileSyncStub.notCalled);
+  });
+
+  it('adds lines to an empty text file', () => {
+    const command: any = new MockCommand();
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'existsSync').callsFake(_ => true);
+    sinon.stub(fs, 'readFileSync').callsFake(_ => '');
+    command.projectRootPath = '/project';
+
+    command.applyText({ file: './.gitignore', resolution: 'release' });
+    assert(writeFileSyncStub.calledWith(path.resolve('/project', '.gitignore'), `release${os.EOL}`));
+  });
+
+  it('inserts missing lines at the top of a file after leading comments', () => {
+    const command: any = new MockCommand();
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'readFileSync').callsFake(_ => `// Copyright (c) Contoso\n/*\n * Hello world\n */\n/* eslint-disable */\n\nimport * as React from 'react';\nrequire("tslib");\n`);
+
+    command.insertLines('/project/src/index.ts', 'require("tslib");\nrequire("jquery");');
+    assert(writeFileSyncStub.calledWith('/project/src/index.ts', [
+      '// Copyright (c) Contoso',
+      '/*',
+      ' * Hello world',
+      ' */',
+      '/* eslint-disable */',
+      '',
+      'require("jquery");',
+      `import * as React from 'react';`,
+      'require("tslib");',
+      ''
+    ].join(os.EOL)));
+  });
+
+  it('adds missing lines to the end of a file that contains only comments', () => {
+    const command: any = new MockCommand();
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'readFileSync').callsFake(_ => '// Copyright (c) Contoso\n');
+
+    command.insertLines('/project/src/index.ts', 'require("tslib");');
+    assert(writeFileSyncStub.calledWith('/project/src/index.ts', `// Copyright (c) Contoso\nrequire("tslib");${os.EOL}`));
+  });
+
+  it('doesn\'t insert lines that the file already contains', () => {
+    const command: any = new MockCommand();
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'readFileSync').callsFake(_ => 'require("tslib");');
+
+    command.insertLines('/project/src/index.ts', 'require("tslib");');
+    assert(writeFileSyncStub.notCalled);
+  });
+
+  it('returns findings as SARIF log', () => {
+    const command: any = new MockCommand();
+    command.projectRootPath = '/project';
+    const findings: FindingToReport[] = [
+      { id: 'FN001001', title: '@microsoft/sp-core-library', description: 'Upgrade SharePoint Framework dependency package @microsoft/sp-core-library', file: './package.json', position: { line: 14, character: 5 }, resolution: 'install @microsoft/sp-core-library@1.15.2', resolutionType: 'cmd', severity: 'Required' },
+      { id: 'FN001001', title: '@microsoft/sp-core-library', description: 'Upgrade SharePoint Framework dependency package @microsoft/sp-core-library', file: './package.json', position: { line: 1, character: 0 }, resolution: '', resolutionType: 'cmd', severity: 'Required' },
+      { id: 'FN012017', title: 'tsconfig.json extends property', description: 'Update tsconfig.json extends property', file: '.\\tsconfig.json', resolution: '{}', resolutionType: 'json', severity: 'Recommended' },
+      { id: 'FN018002', title: 'Web part Microsoft Teams tab manifest', description: 'Create Microsoft Teams tab manifest for the web part', file: path.join('/project', 'teams', 'manifest.json'), resolution: '{}', resolutionType: 'cmd', severity: 'Optional' },
+      { id: 'FN018005', title: 'Web part Microsoft Teams tab manifest', description: 'Create Microsoft Teams tab manifest', file: '', resolution: '', resolutionType: 'cmd', severity: 'Optional' }
+    ];
+
+    const sarif: any = JSON.parse(command.getSarifReport(findings));
+    assert.strictEqual(sarif.version, '2.1.0');
+    assert.strictEqual(sarif.runs[0].tool.driver.name, 'CLI for Microsoft 365');
+    assert.deepStrictEqual(sarif.runs[0].tool.driver.rules.map((r: any) => [r.id, r.defaultConfiguration.level]), [['FN001001', 'error'], ['FN012017', 'warning'], ['FN018002', 'note'], ['FN018005', 'note']]);
+    assert.strictEqual(sarif.runs[0].originalUriBaseIds['%SRCROOT%'].uri, 'file:///project/');
+    assert.deepStrictEqual(sarif.runs[0].results, [
+      {
+        ruleId: 'FN001001',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: `Upgrade SharePoint Framework dependency package @microsoft/sp-core-library${os.EOL}${os.EOL}install @microsoft/sp-core-library@1.15.2` },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'package.json', uriBaseId: '%SRCROOT%' }, region: { startLine: 14, startColumn: 5 } } }]
+      },
+      {
+        ruleId: 'FN001001',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: 'Upgrade SharePoint Framework dependency package @microsoft/sp-core-library' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'package.json', uriBaseId: '%SRCROOT%' }, region: { startLine: 1 } } }]
+      },
+      {
+        ruleId: 'FN012017',
+        ruleIndex: 1,
+        level: 'warning',
+        message: { text: `Update tsconfig.json extends property${os.EOL}${os.EOL}{}` },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'tsconfig.json', uriBaseId: '%SRCROOT%' } } }]
+      },
+      {
+        ruleId: 'FN018002',
+        ruleIndex: 2,
+        level: 'note',
+        message: { text: `Create Microsoft Teams tab manifest for the web part${os.EOL}${os.EOL}{}` },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'teams/manifest.json', uriBaseId: '%SRCROOT%' } } }]
+      },
+      {
+        ruleId: 'FN018005',
+        ruleIndex: 3,
+        level: 'note',
+        message: { text: 'Create Microsoft Teams tab manifest' }
+      }
+    ]);
+  });
+
+  it('returns all projects located in the specified folder', () => {
+    const testProjectsPath: string = 'src/m365/spfx/commands/project/test-projects';
+    const command = new MockCommand();
+    const projectRoots: string[] = (command as any).getProjectRoots(testProjectsPath);
+    assert.strictEqual(projectRoots.length, fs.readdirSync(testProjectsPath).length);
+    assert.strictEqual(projectRoots[0], path.resolve(testProjectsPath, 'spfx-100-webpart-ko'));
+  });
+
+  it('returns projects matching the specified glob', () => {
+    const command = new MockCommand();
+    const projectRoots: string[] = (command as any).getProjectRoots('src/**/test-projects/spfx-1?0-webpart-react');
+    assert(projectRoots.indexOf(path.resolve('src/m365/spfx/commands/project/test-projects/spfx-100-webpart-react')) > -1, 'Matching project not returned');
+    assert(projectRoots.every(p => /spfx-1\d0-webpart-react$/.test(p)), 'Project not matching the glob returned');
+  });
+
+  it('returns projects matching the specified glob with a trailing wildcard', () => {
+    const command = new MockCommand();
+    const projectRoots: string[] = (command as any).getProjectRoots('src/m365/spfx/commands/project/**');
+    assert.strictEqual(projectRoots.length, fs.readdirSync('src/m365/spfx/commands/project/test-projects').length);
+  });
+
+  it('returns no projects when the specified folder doesn\'t exist', () => {
+    const command = new MockCommand();
+    assert.deepStrictEqual((command as any).getProjectRoots('src/m365/spfx/commands/project/non-existent/*'), []);
+  });
+
+  it('skips node_modules, hidden folders and folders without a valid .yo-rc.json file when looking for projects', () => {
+    const rootPath: string = path.resolve('root');
+    const folders: { [folderPath: string]: string[] } = {
+      [rootPath]: ['node_modules', '.git', 'invalid', 'other', 'project'],
+      [path.join(rootPath, 'invalid')]: [],
+      [path.join(rootPath, 'other')]: []
+    };
+    const readdirSyncStub: sinon.SinonStub = sinon.stub(fs, 'readdirSync').callsFake((folderPath: any) => {
+      return folders[folderPath.toString()].map(name => ({ name, isDirectory: () => true })) as any;
+    });
+    sinon.stub(fs, 'existsSync').callsFake(filePath => filePath.toString() === rootPath || filePath.toString().endsWith('.yo-rc.json'));
+    sinon.stub(fs, 'readFileSync').callsFake(filePath => {
+      switch (filePath.toString()) {
+        case path.join(rootPath, 'invalid', '.yo-rc.json'):
+          return 'invalid';
+        case path.join(rootPath, 'project', '.yo-rc.json'):
+          return JSON.stringify({ '@microsoft/generator-sharepoint': {} });
+        default:
+          return '{}';
+      }
+    });
+
+    const command = new MockCommand();
+    assert.deepStrictEqual((command as any).getProjectRoots('root'), [path.join(rootPath, 'project')]);
+    assert(readdirSyncStub.neverCalledWith(path.join(rootPath, 'node_modules')), 'Looked for projects in node_modules');
+    assert(readdirSyncStub.neverCalledWith(path.join(rootPath, '.git')), 'Looked for projects in a hidden folder');
+  });
+
+  it('returns findings of multiple projects as a single SARIF log with paths relative to the current folder', () => {
+    const projectRoot: string = path.resolve('packages', 'project');
+    const finding: FindingToReport = {
+      id: 'FN000001',
+      title: 'Title',
+      description: 'Description',
+      resolution: '',
+      resolutionType: 'cmd',
+      severity: 'Required',
+      file: ''
+    };
+
+    const command = new MockCommand();
+    const sarif: any = JSON.parse((command as any).getProjectsSarifReport([
+      {
+        root: projectRoot,
+        project: path.join('packages', 'project'),
+        result: [
+          finding,
+          Object.assign({}, finding, { file: path.join(projectRoot, 'package.json') })
+        ]
+      },
+      {
+        root: path.resolve('packages', 'invalid'),
+        project: path.join('packages', 'invalid'),
+        error: 'Error'
+      }
+    ]));
+    assert.strictEqual(typeof sarif.runs[0].results[0].locations, 'undefined', 'Location reported for a finding without file');
+    assert.strictEqual(sarif.runs[0].results[1].locations[0].physicalLocation.artifactLocation.uri, 'packages/project/package.json', 'Incorrect file path');
+    assert.strictEqual(sarif.runs[0].originalUriBaseIds['%SRCROOT%'].uri, `${pathToFileURL(process.cwd()).href}/`, 'Incorrect root');
+  });
+});
@@ -1,9 +1,64 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Logger } from '../../../../cli/Logger';
 import { formatting } from '../../../../utils/formatting';
 import { fsUtil } from '../../../../utils/fsUtil';
 import AnonymousCommand from "../../../base/AnonymousCommand";
 import { Manifest, Project, ScssFile, TsFile } from "./project-model";
+import { Finding, FindingSarif, FindingSarifResult, FindingSarifRule, FindingToReport, Occurrence } from './report-model';
+
+const packageJSON = require('../../../../../package.json');
+
+export interface ProjectResult<T> {
+  /**
+   * Absolute path of the project root folder
+   */
+  root: string;
+  /**
+   * Path of the project root folder relative to the current folder
+   */
+  project: string;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * Converts a glob pattern, eg. packages/*, to a regular expression.
+ * Supports the *, ** and ? wildcards
+ */
+function getGlobRegExp(glob: string): RegExp {
+  let regExp: string = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c: string = glob[i];
+    switch (c) {
+      case '*':
+        if (glob[i + 1] === '*') {
+          i++;
+          if (glob[i + 1] === '/') {
+            // **/ matches zero or more folders
+            i++;
+            regExp += '(?:.*/)?';
+          }
+          else {
+            regExp += '.*';
+          }
+        }
+        else {
+          regExp += '[^/]*';
+        }
+        break;
+      case '?':
+        regExp += '[^/]';
+        break;
+      default:
+        regExp += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regExp}$`);
+}
 
 export abstract class BaseProjectCommand extends AnonymousCommand {
   protected projectRootPath: string | null = null;
@@ -225,6 +280,96 @@ export abstract class BaseProjectCommand extends AnonymousCommand {
     }
   }
 
+  /**
+   * Returns root folders of SharePoint Framework projects, identified by the
+   * .yo-rc.json file, located in the specified folder and its subfolders.
+   * If the path contains wildcards, eg. packages/*, returns only projects
+   * located in folders matching the pattern
+   */
+  protected getProjectRoots(folderPath: string): string[] {
+    const pathChunks: string[] = folderPath.replace(/\\/g, '/').split('/');
+    const wildcardChunkPos: number = pathChunks.findIndex(c => /[*?]/.test(c));
+    const searchPath: string = path.resolve(wildcardChunkPos < 0 ? folderPath : pathChunks.slice(0, wildcardChunkPos).join('/'));
+    const projectRoots: string[] = [];
+
+    if (fs.existsSync(searchPath)) {
+      this.findProjectRoots(searchPath, projectRoots);
+    }
+
+    if (wildcardChunkPos < 0) {
+      return projectRoots;
+    }
+
+    const pattern: RegExp = getGlobRegExp(path.resolve(folderPath).replace(/\\/g, '/'));
+    return projectRoots.filter(p => pattern.test(p.replace(/\\/g, '/')));
+  }
+
+  private findProjectRoots(folderPath: string, projectRoots: string[]): void {
+    if (this.isSpfxProject(folderPath)) {
+      // SharePoint Framework projects aren't nested so there is no need to
+      // look for projects in the project's subfolders
+      projectRoots.push(folderPath);
+      return;
+    }
+
+    fs.readdirSync(folderPath, { withFileTypes: true })
+      .filter(e => e.isDirectory() && e.name !== 'node_modules' && !e.name.startsWith('.'))
+      .forEach(e => this.findProjectRoots(path.join(folderPath, e.name), projectRoots));
+  }
+
+  private isSpfxProject(folderPath: string): boolean {
+    const yoRcPath: string = path.join(folderPath, '.yo-rc.json');
+    if (!fs.existsSync(yoRcPath)) {
+      return false;
+    }
+
+    try {
+      const yoRc: any = JSON.parse(fs.readFileSync(yoRcPath, 'utf-8'));
+      return typeof yoRc['@microsoft/generator-sharepoint'] !== 'undefined';
+    }
+    catch {
+      return false;
+    }
+  }
+
+  /**
+   * Executes the specified function for each of the specified projects.
+   * Before executing the function, sets the project root path to the project
+   * being processed. Errors are recorded in the result of the project, so that
+   * the remaining projects are processed
+   */
+  protected async getProjectResults<T>(projectRoots: string[], getResult: () => Promise<T>): Promise<ProjectResult<T>[]> {
+    const results: ProjectResult<T>[] = [];
+
+    for (const projectRoot of projectRoots) {
+      this.projectRootPath = projectRoot;
+      const projectResult: ProjectResult<T> = {
+        root: projectRoot,
+        project: path.relative(process.cwd(), projectRoot) || '.'
+      };
+
+      try {
+        projectResult.result = await getResult();
+      }
+      catch (e: any) {
+        projectResult.error = e.message;
+      }
+
+      results.push(projectResult);
+    }
+
+    return results;
+  }
+
+  /**
+   * Returns the path to search for projects specified using the recursive
+   * option. If the option is specified without a value, returns the current
+   * folder
+   */
+  protected getRecursiveSearchPath(recursive: string | boolean): string {
+    return typeof recursive === 'string' ? recursive : '.';
+  }
+
   protected getProjectVersion(): string | undefined {
     const yoRcPath: string = path.resolve(this.projectRootPath as string, '.yo-rc.json');
 
@@ -263,4 +408,432 @@ export abstract class BaseProjectCommand extends AnonymousCommand {
 
     return undefined;
   }
+
+  /**
+   * Returns the reports of the specified projects grouped by project. Markdown
+   * reports include the name of the project in their title so they're only
+   * separated from each other
+   */
+  protected getProjectsReport<T>(results: ProjectResult<T>[], output: string, getReport: (result: T) => string): string {
+    return results.map(r => {
+      this.projectRootPath = r.root;
+      if (output === 'md') {
+        return typeof r.error === 'undefined' ? getReport(r.result as T) : `# ${r.project}${os.EOL}${os.EOL}${r.error}`;
+      }
+
+      return [
+        r.project,
+        '='.repeat(r.project.length),
+        '',
+        typeof r.error === 'undefined' ? getReport(r.result as T) : r.error
+      ].join(os.EOL);
+    }).join(os.EOL + os.EOL);
+  }
+
+  /**
+   * Returns the findings of the specified projects as a single SARIF log.
+   * Paths of the files are relative to the current folder
+   */
+  protected getProjectsSarifReport(results: ProjectResult<FindingToReport[]>[]): string {
+    const findings: FindingToReport[] = [];
+    results.forEach(r => {
+      if (!r.result) {
+        return;
+      }
+
+      findings.push(...r.result.map(f => {
+        if (!f.file) {
+          return f;
+        }
+
+        const filePath: string = path.isAbsolute(f.file) ? path.relative(r.root, f.file) : f.file;
+        return Object.assign({}, f, { file: path.join(r.project, filePath) });
+      }));
+    });
+
+    this.projectRootPath = process.cwd();
+    return this.getSarifReport(findings);
+  }
+
+  /**
+   * Logs errors of the specified projects to stderr. Used for outputs that
+   * don't include errors, like SARIF or CodeTour
+   */
+  protected logProjectErrors<T>(results: ProjectResult<T>[], logger: Logger): void {
+    results
+      .filter(r => typeof r.error !== 'undefined')
+      .forEach(r => logger.logToStderr(`${r.project}: ${r.error}`));
+  }
+
+  /**
+   * Returns the findings as a SARIF log that can be shown by code scanning
+   * tools, eg. as annotations on pull requests
+   */
+  protected getSarifReport(findings: FindingToReport[]): string {
+    const rules: FindingSarifRule[] = [];
+    const results: FindingSarifResult[] = findings.map(f => {
+      const level: string = this.getSarifLevel(f.severity);
+      let ruleIndex: number = rules.findIndex(r => r.id === f.id);
+      if (ruleIndex < 0) {
+        ruleIndex = rules.push({
+          id: f.id,
+          name: f.title,
+          shortDescription: {
+            text: f.title
+          },
+          fullDescription: {
+            text: f.description
+          },
+          defaultConfiguration: {
+            level
+          }
+        }) - 1;
+      }
+
+      const result: FindingSarifResult = {
+        ruleId: f.id,
+        ruleIndex,
+        level,
+        message: {
+          text: f.resolution ? `${f.description}${os.EOL}${os.EOL}${f.resolution}` : f.description
+        }
+      };
+
+      if (f.file) {
+        const filePath: string = path.isAbsolute(f.file) ? path.relative(this.projectRootPath as string, f.file) : f.file;
+        result.locations = [{
+          physicalLocation: {
+            artifactLocation: {
+              // SARIF expects URIs relative to the project root without './'
+              uri: filePath.replace(/\\/g, '/').replace(/^\.\//, ''),
+              uriBaseId: '%SRCROOT%'
+            }
+          }
+        }];
+
+        if (f.position) {
+          result.locations[0].physicalLocation.region = {
+            startLine: f.position.line
+          };
+
+          if (f.position.character > 0) {
+            result.locations[0].physicalLocation.region.startColumn = f.position.character;
+          }
+        }
+      }
+
+      return result;
+    });
+
+    const sarif: FindingSarif = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'CLI for Microsoft 365',
+            version: packageJSON.version,
+            informationUri: 'https://aka.ms/cli-m365',
+            rules
+          }
+        },
+        originalUriBaseIds: {
+          '%SRCROOT%': {
+            uri: `${pathToFileURL(this.projectRootPath as string).href}/`
+          }
+        },
+        results
+      }]
+    };
+
+    return JSON.stringify(sarif, null, 2);
+  }
+
+  private getSarifLevel(severity: string): string {
+    switch (severity) {
+      case 'Required':
+        return 'error';
+      case 'Optional':
+        return 'note';
+      default:
+        return 'warning';
+    }
+  }
+
+  /**
+   * Applies the resolutions of the specified findings to the project in the
+   * specified order and returns the findings that couldn't be applied
+   * automatically
+   */
+  protected applyFindings(findings: Finding[], packageManager: string, logger: Logger): Finding[] {
+    const appliedOccurrences: Occurrence[] = [];
+    let dependenciesChanged: boolean = false;
+    let occurrencesCount: number = 0;
+
+    findings.forEach(f => {
+      f.occurrences.forEach(o => {
+        occurrencesCount++;
+
+        let applied: boolean = false;
+        try {
+          applied = this.applyOccurrence(f, o);
+        }
+        catch (e: any) {
+          if (this.debug) {
+            logger.logToStderr(`Error applying ${f.id} to ${o.file}: ${e.message}`);
+          }
+        }
+
+        if (!applied) {
+          return;
+        }
+
+        appliedOccurrences.push(o);
+        if (f.resolutionType === 'cmd' && /^(un)?install/.test(o.resolution)) {
+          dependenciesChanged = true;
+        }
+
+        if (this.verbose) {
+          logger.logToStderr(`Applied ${f.id} ${f.title} to ${o.file}`);
+        }
+      });
+    });
+
+    const remainingFindings: Finding[] = findings
+      .map(f => Object.assign({}, f, { occurrences: f.occurrences.filter(o => appliedOccurrences.indexOf(o) < 0) }))
+      .filter(f => f.occurrences.length > 0);
+
+    logger.logToStderr(`Applied ${appliedOccurrences.length} of ${occurrencesCount} modifications.${(appliedOccurrences.length < occurrencesCount ? ' Apply the remaining modifications manually.' : '')}`);
+    if (dependenciesChanged) {
+      logger.logToStderr(`Run '${packageManager} install' to install the updated dependencies.`);
+    }
+
+    return remainingFindings;
+  }
+
+  private applyOccurrence(finding: Finding, occurrence: Occurrence): boolean {
+    if (!occurrence.resolution) {
+      return false;
+    }
+
+    switch (finding.resolutionType) {
+      case 'cmd':
+        return this.applyCommand(occurrence.resolution);
+      case 'json':
+        if (finding.canApply === false) {
+          return false;
+        }
+
+        this.applyJson(occurrence);
+        return true;
+      case 'text':
+        this.applyText(occurrence);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private applyCommand(resolution: string): boolean {
+    const packageOperation: RegExpExecArray | null = /^(uninstallDev|installDev|uninstall|install) (.+)$/.exec(resolution);
+    if (packageOperation) {
+      const isDevDep: boolean = packageOperation[1].endsWith('Dev');
+      const isInstall: boolean = packageOperation[1].startsWith('install');
+      const packageJsonPath: string = this.getProjectFilePath('package.json');
+      const packageJson: any = this.readJsonFile(packageJsonPath);
+      const dependenciesProperty: string = isDevDep ? 'devDependencies' : 'dependencies';
+      const otherDependenciesProperty: string = isDevDep ? 'dependencies' : 'devDependencies';
+
+      // versions with spaces are wrapped in quotes, eg. react@">=16.8.0 <17.0.0"
+      (packageOperation[2].match(/\S+@"[^"]*"|\S+/g) as string[]).forEach(p => {
+        if (isInstall) {
+          // skip the first character to support scoped packages, eg. @microsoft/sp-core-library@1.15.0
+          const versionPos: number = p.lastIndexOf('@', p.endsWith('"') ? p.indexOf('"') : p.length);
+          if (versionPos < 1) {
+            throw new Error(`Version missing for package ${p}`);
+          }
+
+          const packageName: string = p.substring(0, versionPos);
+          if (!packageJson[dependenciesProperty]) {
+            packageJson[dependenciesProperty] = {};
+          }
+          packageJson[dependenciesProperty][packageName] = p.substring(versionPos + 1).replace(/"/g, '');
+
+          // like package managers, move the package if it's installed as
+          // the other type of dependency
+          if (packageJson[otherDependenciesProperty]) {
+            delete packageJson[otherDependenciesProperty][packageName];
+          }
+        }
+        else if (packageJson[dependenciesProperty]) {
+          delete packageJson[dependenciesProperty][p];
+        }
+      });
+
+      this.writeJsonFile(packageJsonPath, packageJson);
+      return true;
+    }
+
+    if (resolution.startsWith('add_cmd')) {
+      const filePath: string = this.getProjectFilePath(resolution
+        .substring(resolution.indexOf('[BEFOREPATH]') + '[BEFOREPATH]'.length, resolution.indexOf('[AFTERPATH]'))
+        .replace(/"/g, ''));
+      const fileContent: string = resolution
+        .substring(resolution.indexOf('[BEFORECONTENT]') + '[BEFORECONTENT]'.length, resolution.indexOf('[AFTERCONTENT]'))
+        .replace(/^\r?\n/, '')
+        .replace(/\r?\n$/, '');
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, fileContent, 'utf-8');
+      return true;
+    }
+
+    const removeFile: RegExpExecArray | null = /^remove_cmd "(.+)"$/.exec(resolution);
+    if (removeFile) {
+      const filePath: string = this.getProjectFilePath(removeFile[1]);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+      return true;
+    }
+
+    const createDir: RegExpExecArray | null = /^create_dir_cmdPathParam(.+)NameParam(.+)ItemTypeParam$/.exec(resolution);
+    if (createDir) {
+      fs.mkdirSync(path.join(createDir[1], createDir[2]), { recursive: true });
+      return true;
+    }
+
+    const copyFile: RegExpExecArray | null = /^copy_cmd "(.+)"DestinationParam"(.+)"$/.exec(resolution);
+    if (copyFile) {
+      const destinationPath: string = this.getProjectFilePath(copyFile[2]);
+      fs.mkdirSync(path.dirname(destinationPath), { recursive: true });
+      fs.copyFileSync(copyFile[1], destinationPath);
+      return true;
+    }
+
+    return false;
+  }
+
+  private applyJson(occurrence: Occurrence): void {
+    const filePath: string = this.getProjectFilePath(occurrence.file);
+    const resolution: any = JSON.parse(formatting.removeSingleLineComments(occurrence.resolution));
+    const json: any = this.mergeJson(this.readJsonFile(filePath), resolution);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.writeJsonFile(filePath, json);
+  }
+
+  private applyText(occurrence: Occurrence): void {
+    const filePath: string = this.getProjectFilePath(occurrence.file);
+    if (!fs.existsSync(filePath)) {
+      fs.writeFileSync(filePath, occurrence.resolution, 'utf-8');
+      return;
+    }
+
+    this.addLines(filePath, occurrence.resolution);
+  }
+
+  /**
+   * Adds the specified lines, that the file doesn't contain yet, to the end
+   * of the file
+   */
+  protected addLines(filePath: string, text: string): void {
+    const source: string = fs.readFileSync(filePath, 'utf-8');
+    const lines: string[] = source.split(/\r?\n/);
+    const linesToAdd: string[] = this.getMissingLines(lines, text);
+    if (linesToAdd.length === 0) {
+      return;
+    }
+
+    fs.writeFileSync(filePath, `${source}${(/\n$/.test(source) || !source ? '' : os.EOL)}${linesToAdd.join(os.EOL)}${os.EOL}`, 'utf-8');
+  }
+
+  /**
+   * Inserts the specified lines, that the file doesn't contain yet, at the top
+   * of the file after its leading comments
+   */
+  protected insertLines(filePath: string, text: string): void {
+    const source: string = fs.readFileSync(filePath, 'utf-8');
+    const lines: string[] = source.split(/\r?\n/);
+    const linesToAdd: string[] = this.getMissingLines(lines, text);
+    if (linesToAdd.length === 0) {
+      return;
+    }
+
+    let inBlockComment: boolean = false;
+    const index: number = lines.findIndex(l => {
+      const line: string = l.trim();
+      if (inBlockComment) {
+        inBlockComment = line.indexOf('*/') < 0;
+        return false;
+      }
+
+      if (line.startsWith('/*')) {
+        inBlockComment = line.indexOf('*/', 2) < 0;
+        return false;
+      }
+
+      return line.length > 0 && !line.startsWith('//');
+    });
+    if (index < 0) {
+      this.addLines(filePath, text);
+      return;
+    }
+
+    lines.splice(index, 0, ...linesToAdd);
+    fs.writeFileSync(filePath, lines.join(os.EOL), 'utf-8');
+  }
+
+  private getMissingLines(lines: string[], text: string): string[] {
+    return text
+      .split(/\r?\n/)
+      .filter(l => l.trim() && lines.indexOf(l) < 0);
+  }
+
+  /**
+   * Merges the source object into the target object. Values of arrays are
+   * added to the target array if they don't exist yet
+   */
+  protected mergeJson(target: any, source: any): any {
+    Object.keys(source).forEach(key => {
+      const sourceValue: any = source[key];
+      const targetValue: any = target[key];
+
+      if (Array.isArray(sourceValue) && Array.isArray(targetValue)) {
+        sourceValue.forEach(v => {
+          if (!targetValue.some(t => JSON.stringify(t) === JSON.stringify(v))) {
+            targetValue.push(v);
+          }
+        });
+        return;
+      }
+
+      if (this.isObject(sourceValue) && this.isObject(targetValue)) {
+        this.mergeJson(targetValue, sourceValue);
+        return;
+      }
+
+      target[key] = sourceValue;
+    });
+
+    return target;
+  }
+
+  private isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  protected readJsonFile(filePath: string): any {
+    if (!fs.existsSync(filePath)) {
+      return {};
+    }
+
+    return JSON.parse(formatting.removeSingleLineComments(fs.readFileSync(filePath, 'utf-8')));
+  }
+
+  protected writeJsonFile(filePath: string, json: any): void {
+    fs.writeFileSync(filePath, `${JSON.stringify(json, null, 2)}${os.EOL}`, 'utf-8');
+  }
+
+  protected getProjectFilePath(filePath: string): string {
+    return path.resolve(this.projectRootPath as string, filePath);
+  }
 }
@@ -0,0 +1,343 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import appInsights from '../../../../appInsights';
+import { Cli } from '../../../../cli/Cli';
+import { CommandInfo } from '../../../../cli/CommandInfo';
+import { Logger } from '../../../../cli/Logger';
+import Command, { CommandError } from '../../../../Command';
+import { formatting } from '../../../../utils/formatting';
+import { pid } from '../../../../utils/pid';
+import { sinonUtil } from '../../../../utils/sinonUtil';
+import commands from '../../commands';
+const command: Command = require('./project-component-add');
+
+describe(commands.PROJECT_COMPONENT_ADD, () => {
+  let log: any[];
+  let logger: Logger;
+  let loggerLogToStderrSpy: sinon.SinonSpy;
+  let commandInfo: CommandInfo;
+  let trackEvent: any;
+  let telemetry: any;
+  let writtenFiles: { [filePath: string]: string };
+  let copiedFiles: string[];
+  const reactProjectPath: string = path.resolve('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react');
+  const noFrameworkProjectPath: string = path.resolve('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-nolib');
+
+  const stubFileSystem = (): void => {
+    sinon.stub(fs, 'writeFileSync').callsFake((filePath, data) => {
+      writtenFiles[filePath.toString()] = data as string;
+    });
+    sinon.stub(fs, 'mkdirSync').callsFake(_ => undefined);
+    sinon.stub(fs, 'copyFileSync').callsFake((_, destination) => {
+      copiedFiles.push(destination.toString());
+    });
+  };
+
+  before(() => {
+    trackEvent = sinon.stub(appInsights, 'trackEvent').callsFake((t) => {
+      telemetry = t;
+    });
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    telemetry = null;
+    loggerLogToStderrSpy = sinon.spy(logger, 'logToStderr');
+    writtenFiles = {};
+    copiedFiles = [];
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      (command as any).getProjectRoot,
+      (command as any).getProjectVersion,
+      fs.existsSync,
+      fs.readFileSync,
+      fs.writeFileSync,
+      fs.mkdirSync,
+      fs.copyFileSync
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.PROJECT_COMPONENT_ADD), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('calls telemetry', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => null);
+
+    await assert.rejects(command.action(logger, { options: { type: 'webpart', name: 'Contoso' } }));
+    assert(trackEvent.called);
+  });
+
+  it('logs correct telemetry event', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => null);
+
+    await assert.rejects(command.action(logger, { options: { type: 'webpart', name: 'Contoso' } }));
+    assert.strictEqual(telemetry.name, commands.PROJECT_COMPONENT_ADD);
+  });
+
+  it('shows error if the project path couldn\'t be determined', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => null);
+
+    await assert.rejects(command.action(logger, { options: { type: 'webpart', name: 'Contoso' } } as any),
+      new CommandError(`Couldn't find project root folder`, 1));
+  });
+
+  it('shows error if the project version couldn\'t be determined', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    sinon.stub(command as any, 'getProjectVersion').callsFake(_ => undefined);
+
+    await assert.rejects(command.action(logger, { options: { type: 'webpart', name: 'Contoso' } } as any),
+      new CommandError(`Unable to determine the version of the current SharePoint Framework project`, 2));
+  });
+
+  it('shows error if the project version is not supported', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    sinon.stub(command as any, 'getProjectVersion').callsFake(_ => '1.13.1');
+
+    await assert.rejects(command.action(logger, { options: { type: 'webpart', name: 'Contoso' } } as any),
+      new CommandError(`CLI for Microsoft 365 doesn't support adding components to projects built using SharePoint Framework v1.13.1. Upgrade the project to SharePoint Framework v1.14.0 or later`, 3));
+  });
+
+  it('shows error if the component folder already exists', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+
+    await assert.rejects(command.action(logger, { options: { type: 'webpart', name: 'Hello World' } } as any),
+      new CommandError(`Folder ${path.join('src', 'webparts', 'helloWorld')} already exists. Specify a different name for the component`, 4));
+  });
+
+  it('shows error if the bundle already exists in config.json', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    const existsSyncOriginal = fs.existsSync;
+    sinon.stub(fs, 'existsSync').callsFake(filePath => {
+      if (filePath.toString() === path.join(reactProjectPath, 'src', 'webparts', 'helloWorld')) {
+        return false;
+      }
+
+      return existsSyncOriginal(filePath);
+    });
+
+    await assert.rejects(command.action(logger, { options: { type: 'webpart', name: 'Hello World' } } as any),
+      new CommandError(`Bundle hello-world-web-part already exists in config.json. Specify a different name for the component`, 4));
+  });
+
+  it('adds react web part to a react project', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    stubFileSystem();
+
+    await command.action(logger, { options: { type: 'webpart', name: 'contoso news' } } as any);
+    const result: any = log.pop();
+    const componentPath: string = path.join(reactProjectPath, 'src', 'webparts', 'contosoNews');
+    const manifest: any = JSON.parse(formatting.removeSingleLineComments(writtenFiles[path.join(componentPath, 'ContosoNewsWebPart.manifest.json')]));
+    const configJson: any = JSON.parse(writtenFiles[path.join(reactProjectPath, 'config', 'config.json')]);
+    assert.deepStrictEqual(result, {
+      id: manifest.id,
+      alias: 'ContosoNewsWebPart',
+      type: 'WebPart',
+      manifest: 'src/webparts/contosoNews/ContosoNewsWebPart.manifest.json'
+    }, 'Incorrect result');
+    assert.strictEqual(manifest.alias, 'ContosoNewsWebPart', 'Incorrect alias');
+    assert.strictEqual(manifest.preconfiguredEntries[0].title.default, 'contoso news', 'Incorrect title');
+    assert.strictEqual(manifest.preconfiguredEntries[0].description.default, 'contoso news description', 'Incorrect description');
+    assert(writtenFiles[path.join(componentPath, 'ContosoNewsWebPart.ts')].indexOf('export default class ContosoNewsWebPart extends BaseClientSideWebPart<IContosoNewsWebPartProps>') > -1, 'Incorrect web part class');
+    assert(writtenFiles[path.join(componentPath, 'components', 'ContosoNews.tsx')].indexOf('styles.contosoNews') > -1, 'Incorrect react component');
+    assert.notStrictEqual(typeof writtenFiles[path.join(componentPath, 'components', 'IContosoNewsProps.ts')], 'undefined', 'Props interface not created');
+    assert.deepStrictEqual(copiedFiles.sort(), [path.join(componentPath, 'assets', 'welcome-dark.png'), path.join(componentPath, 'assets', 'welcome-light.png')], 'Assets not copied');
+    assert.deepStrictEqual(configJson.bundles['contoso-news-web-part'], {
+      components: [
+        {
+          entrypoint: './lib/webparts/contosoNews/ContosoNewsWebPart.js',
+          manifest: './src/webparts/contosoNews/ContosoNewsWebPart.manifest.json'
+        }
+      ]
+    }, 'Incorrect bundle');
+    assert.strictEqual(typeof configJson.bundles['hello-world-web-part'], 'object', 'Existing bundle removed');
+    assert.strictEqual(configJson.localizedResources.ContosoNewsWebPartStrings, 'lib/webparts/contosoNews/loc/{locale}.js', 'Incorrect localized resources');
+    assert.deepStrictEqual(JSON.parse(writtenFiles[path.join(reactProjectPath, 'package.json')]).dependencies['@microsoft/sp-component-base'], '1.14.0', 'sp-component-base not added');
+    assert(Object.keys(writtenFiles).every(f => writtenFiles[f].indexOf('$name$') < 0 && writtenFiles[f].indexOf('$id$') < 0), 'Not all variables replaced');
+  });
+
+  it(`doesn't update package.json when the project references all dependencies of the component`, async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    stubFileSystem();
+    const readFileSyncOriginal = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((filePath: any, options: any) => {
+      if (filePath === path.join(reactProjectPath, 'package.json')) {
+        const packageJson: any = JSON.parse(readFileSyncOriginal(filePath, 'utf-8'));
+        packageJson.devDependencies['@microsoft/sp-component-base'] = '1.14.0';
+        return JSON.stringify(packageJson);
+      }
+
+      return readFileSyncOriginal(filePath, options);
+    });
+
+    await command.action(logger, { options: { type: 'webpart', name: 'Contoso' } } as any);
+    assert.strictEqual(typeof writtenFiles[path.join(reactProjectPath, 'package.json')], 'undefined');
+  });
+
+  it('escapes the name of the component in the manifest', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    stubFileSystem();
+
+    await command.action(logger, { options: { type: 'webpart', name: 'Contoso "news" \\ events' } } as any);
+    const componentPath: string = path.join(reactProjectPath, 'src', 'webparts', 'contosoNewsEvents');
+    const manifest: any = JSON.parse(formatting.removeSingleLineComments(writtenFiles[path.join(componentPath, 'ContosoNewsEventsWebPart.manifest.json')]));
+    assert.strictEqual(manifest.preconfiguredEntries[0].title.default, 'Contoso "news" \\ events');
+    assert.strictEqual(manifest.preconfiguredEntries[0].properties.description, 'Contoso "news" \\ events description');
+  });
+
+  it('escapes values inserted in strings in code files', () => {
+    assert.strictEqual((command as any).escapeVariableValue(`It's "news"`, 'HelloWorldWebPart.ts'), `It\\'s \\"news\\"`);
+  });
+
+  it('adds no framework web part to a project without a framework (verbose)', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => noFrameworkProjectPath);
+    stubFileSystem();
+
+    await command.action(logger, { options: { type: 'webpart', name: 'ContosoNews', verbose: true } } as any);
+    const componentPath: string = path.join(noFrameworkProjectPath, 'src', 'webparts', 'contosoNews');
+    assert(writtenFiles[path.join(componentPath, 'ContosoNewsWebPart.ts')].indexOf('this.domElement.innerHTML') > -1, 'Incorrect web part');
+    assert.notStrictEqual(typeof writtenFiles[path.join(componentPath, 'ContosoNewsWebPart.module.scss')], 'undefined', 'Styles not created');
+    assert(loggerLogToStderrSpy.calledWith(`Created ${path.join('src', 'webparts', 'contosoNews', 'ContosoNewsWebPart.ts')}`), 'Created file not logged');
+    assert(loggerLogToStderrSpy.calledWith(`Updated ${path.join('config', 'config.json')}`), 'Updated config.json not logged');
+  });
+
+  it('adds application customizer and its dependencies to the project', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    stubFileSystem();
+
+    await command.action(logger, { options: { type: 'extension', name: 'Contoso Banner' } } as any);
+    const result: any = log.pop();
+    const packageJson: any = JSON.parse(writtenFiles[path.join(reactProjectPath, 'package.json')]);
+    assert.strictEqual(result.type, 'ApplicationCustomizer', 'Incorrect type');
+    assert.strictEqual(result.manifest, 'src/extensions/contosoBanner/ContosoBannerApplicationCustomizer.manifest.json', 'Incorrect manifest');
+    assert.notStrictEqual(typeof writtenFiles[path.join(reactProjectPath, 'src', 'extensions', 'contosoBanner', 'ContosoBannerApplicationCustomizer.ts')], 'undefined', 'Application customizer not created');
+    assert.strictEqual(packageJson.dependencies['@microsoft/sp-application-base'], '1.14.0', 'sp-application-base not added');
+    assert.strictEqual(packageJson.dependencies['@microsoft/sp-dialog'], '1.14.0', 'sp-dialog not added');
+    assert(loggerLogToStderrSpy.calledWith('Added @microsoft/sp-application-base, @microsoft/sp-dialog to package.json. Install the added dependencies using your package manager.'), 'Added dependencies not reported');
+  });
+
+  it('adds list view command set to the project', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    stubFileSystem();
+
+    await command.action(logger, { options: { type: 'extension', extensionType: 'listViewCommandSet', name: 'Contoso Actions' } } as any);
+    const result: any = log.pop();
+    assert.strictEqual(result.alias, 'ContosoActionsCommandSet', 'Incorrect alias');
+    assert.strictEqual(result.type, 'ListViewCommandSet', 'Incorrect type');
+    assert.notStrictEqual(typeof JSON.parse(writtenFiles[path.join(reactProjectPath, 'config', 'config.json')]).bundles['contoso-actions-command-set'], 'undefined', 'Bundle not added');
+  });
+
+  it('adds react field customizer to a react project', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    stubFileSystem();
+
+    await command.action(logger, { options: { type: 'extension', extensionType: 'fieldCustomizer', name: 'Contoso Status' } } as any);
+    const result: any = log.pop();
+    assert.strictEqual(result.type, 'FieldCustomizer', 'Incorrect type');
+    assert.notStrictEqual(typeof writtenFiles[path.join(reactProjectPath, 'src', 'extensions', 'contosoStatus', 'components', 'ContosoStatus.tsx')], 'undefined', 'React component not created');
+  });
+
+  it('adds no framework field customizer to a project without a framework', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => noFrameworkProjectPath);
+    stubFileSystem();
+
+    await command.action(logger, { options: { type: 'extension', extensionType: 'fieldCustomizer', name: 'Contoso Status' } } as any);
+    const fieldCustomizer: string = writtenFiles[path.join(noFrameworkProjectPath, 'src', 'extensions', 'contosoStatus', 'ContosoStatusFieldCustomizer.ts')];
+    assert(fieldCustomizer.indexOf('event.domElement.classList.add(styles.ContosoStatus);') > -1, 'Incorrect field customizer');
+  });
+
+  it('adds Adaptive Card Extension to the project', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => noFrameworkProjectPath);
+    stubFileSystem();
+
+    await command.action(logger, { options: { type: 'ace', name: 'Contoso Card' } } as any);
+    const result: any = log.pop();
+    const componentPath: string = path.join(noFrameworkProjectPath, 'src', 'adaptiveCardExtensions', 'contosoCard');
+    assert.strictEqual(result.alias, 'ContosoCardAdaptiveCardExtension', 'Incorrect alias');
+    assert.strictEqual(result.type, 'AdaptiveCardExtension', 'Incorrect type');
+    assert.notStrictEqual(typeof writtenFiles[path.join(componentPath, 'quickView', 'template', 'QuickViewTemplate.json')], 'undefined', 'Quick view template not created');
+    assert.notStrictEqual(typeof writtenFiles[path.join(componentPath, 'ContosoCardPropertyPane.ts')], 'undefined', 'Property pane not created');
+    assert.strictEqual(JSON.parse(writtenFiles[path.join(noFrameworkProjectPath, 'package.json')]).dependencies['@microsoft/sp-adaptive-card-extension-base'], '1.14.0', 'sp-adaptive-card-extension-base not added');
+  });
+
+  it('adds bundles, localized resources and dependencies to a project without them', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => reactProjectPath);
+    stubFileSystem();
+    const readFileSyncOriginal = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((filePath, options) => {
+      if (filePath.toString() === path.join(reactProjectPath, 'config', 'config.json')) {
+        return '{}';
+      }
+
+      if (filePath.toString() === path.join(reactProjectPath, 'package.json')) {
+        return JSON.stringify({ devDependencies: { '@microsoft/sp-core-library': '1.14.0' } });
+      }
+
+      return readFileSyncOriginal(filePath, options);
+    });
+
+    await command.action(logger, { options: { type: 'extension', extensionType: 'fieldCustomizer', name: 'Contoso Status' } } as any);
+    const configJson: any = JSON.parse(writtenFiles[path.join(reactProjectPath, 'config', 'config.json')]);
+    const packageJson: any = JSON.parse(writtenFiles[path.join(reactProjectPath, 'package.json')]);
+    assert.deepStrictEqual(Object.keys(configJson.bundles), ['contoso-status-field-customizer'], 'Incorrect bundles');
+    assert.deepStrictEqual(Object.keys(configJson.localizedResources), ['ContosoStatusFieldCustomizerStrings'], 'Incorrect localized resources');
+    assert.deepStrictEqual(packageJson.dependencies, { '@microsoft/sp-listview-extensibility': '1.14.0' }, 'Incorrect dependencies');
+  });
+
+  it('fails validation if the type is invalid', async () => {
+    const actual = await command.validate({ options: { type: 'library', name: 'Contoso' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the extension type is specified for a web part', async () => {
+    const actual = await command.validate({ options: { type: 'webpart', extensionType: 'fieldCustomizer', name: 'Contoso' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the extension type is invalid', async () => {
+    const actual = await command.validate({ options: { type: 'extension', extensionType: 'formCustomizer', name: 'Contoso' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the name doesn\'t start with a letter', async () => {
+    const actual = await command.validate({ options: { type: 'webpart', name: '1 Contoso' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation when adding an extension with the extension type', async () => {
+    const actual = await command.validate({ options: { type: 'extension', extensionType: 'listViewCommandSet', name: 'Contoso' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('passes validation when adding a web part', async () => {
+    const actual = await command.validate({ options: { type: 'webpart', name: 'Contoso News' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
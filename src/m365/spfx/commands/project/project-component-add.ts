@@ -0,0 +1,332 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { lt } from 'semver';
+import { v4 } from 'uuid';
+import { Logger } from '../../../../cli/Logger';
+import { CommandError } from '../../../../Command';
+import GlobalOptions from '../../../../GlobalOptions';
+import { formatting } from '../../../../utils/formatting';
+import { spfx } from '../../../../utils/spfx';
+import commands from '../../commands';
+import { BaseProjectCommand } from './base-project-command';
+import { Project } from './project-model';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  type: string;
+  name: string;
+  extensionType?: string;
+}
+
+interface ComponentTemplate {
+  /**
+   * Name of the folder with the template files in the assets folder
+   */
+  template: string;
+  /**
+   * Name of the folder in the src folder where the component is created
+   */
+  folder: string;
+  /**
+   * Type of the component as returned by the spfx project component list command
+   */
+  type: string;
+  /**
+   * Suffix added to the name of the component to build its class name
+   */
+  suffix: string;
+  /**
+   * SharePoint Framework packages used by the component
+   */
+  dependencies: string[];
+}
+
+class SpfxProjectComponentAddCommand extends BaseProjectCommand {
+  private static types: string[] = ['webpart', 'extension', 'ace'];
+  private static extensionTypes: string[] = ['applicationCustomizer', 'listViewCommandSet', 'fieldCustomizer'];
+  // oldest version of SharePoint Framework that the templates are compatible with
+  private static minVersion: string = '1.14.0';
+
+  public static ERROR_NO_PROJECT_ROOT_FOLDER: number = 1;
+  public static ERROR_NO_VERSION: number = 2;
+  public static ERROR_UNSUPPORTED_VERSION: number = 3;
+  public static ERROR_COMPONENT_EXISTS: number = 4;
+
+  public get name(): string {
+    return commands.PROJECT_COMPONENT_ADD;
+  }
+
+  public get description(): string {
+    return 'Adds a new component to a SharePoint Framework project';
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+    this.#initValidators();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        type: args.options.type,
+        extensionType: args.options.extensionType
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-t, --type <type>',
+        autocomplete: SpfxProjectComponentAddCommand.types
+      },
+      {
+        option: '-n, --name <name>'
+      },
+      {
+        option: '--extensionType [extensionType]',
+        autocomplete: SpfxProjectComponentAddCommand.extensionTypes
+      }
+    );
+  }
+
+  #initValidators(): void {
+    this.validators.push(
+      async (args: CommandArgs) => {
+        if (SpfxProjectComponentAddCommand.types.indexOf(args.options.type) < 0) {
+          return `${args.options.type} is not a valid component type. Allowed values are ${SpfxProjectComponentAddCommand.types.join(', ')}`;
+        }
+
+        if (args.options.extensionType) {
+          if (args.options.type !== 'extension') {
+            return `The extensionType option can be used only when adding an extension`;
+          }
+
+          if (SpfxProjectComponentAddCommand.extensionTypes.indexOf(args.options.extensionType) < 0) {
+            return `${args.options.extensionType} is not a valid extension type. Allowed values are ${SpfxProjectComponentAddCommand.extensionTypes.join(', ')}`;
+          }
+        }
+
+        if (!/^[a-z]/i.test(formatting.toPascalCase(args.options.name))) {
+          return `${args.options.name} is not a valid component name. The name must start with a letter`;
+        }
+
+        return true;
+      }
+    );
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    this.projectRootPath = this.getProjectRoot(process.cwd());
+    if (this.projectRootPath === null) {
+      throw new CommandError(`Couldn't find project root folder`, SpfxProjectComponentAddCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
+    }
+
+    const projectVersion: string | undefined = this.getProjectVersion();
+    if (!projectVersion) {
+      throw new CommandError(`Unable to determine the version of the current SharePoint Framework project`, SpfxProjectComponentAddCommand.ERROR_NO_VERSION);
+    }
+
+    if (lt(projectVersion, SpfxProjectComponentAddCommand.minVersion)) {
+      throw new CommandError(`CLI for Microsoft 365 doesn't support adding components to projects built using SharePoint Framework v${projectVersion}. Upgrade the project to SharePoint Framework v${SpfxProjectComponentAddCommand.minVersion} or later`, SpfxProjectComponentAddCommand.ERROR_UNSUPPORTED_VERSION);
+    }
+
+    const project: Project = this.getProject(this.projectRootPath);
+    const componentTemplate: ComponentTemplate = this.getComponentTemplate(project, args.options);
+    const name: string = formatting.toPascalCase(args.options.name);
+    const nameCamelCase: string = name.charAt(0).toLowerCase() + name.substring(1);
+    const className: string = `${name}${componentTemplate.suffix}`;
+    const componentFolder: string = path.join(this.projectRootPath, 'src', componentTemplate.folder, nameCamelCase);
+
+    if (fs.existsSync(componentFolder)) {
+      throw new CommandError(`Folder ${path.relative(this.projectRootPath, componentFolder)} already exists. Specify a different name for the component`, SpfxProjectComponentAddCommand.ERROR_COMPONENT_EXISTS);
+    }
+
+    const configJsonPath: string = path.join(this.projectRootPath, 'config', 'config.json');
+    const configJson: any = JSON.parse(formatting.removeSingleLineComments(fs.readFileSync(configJsonPath, 'utf-8')));
+    // bundle names are generated from the class name, eg. HelloWorldWebPart
+    // becomes hello-world-web-part
+    const bundleName: string = className.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+    if (configJson.bundles && configJson.bundles[bundleName]) {
+      throw new CommandError(`Bundle ${bundleName} already exists in config.json. Specify a different name for the component`, SpfxProjectComponentAddCommand.ERROR_COMPONENT_EXISTS);
+    }
+
+    const id: string = v4();
+    const variables: { [variable: string]: string } = {
+      '$name$': name,
+      '$nameCamelCase$': nameCamelCase,
+      '$title$': args.options.name,
+      '$description$': `${args.options.name} description`,
+      '$id$': id
+    };
+
+    if (this.verbose) {
+      logger.logToStderr(`Creating ${className} in ${componentFolder} using the ${componentTemplate.template} template...`);
+    }
+
+    this.instantiateTemplate(path.join(__dirname, 'project-component-add', 'assets', componentTemplate.template), componentFolder, variables, logger);
+
+    const componentPath: string = `${componentTemplate.folder}/${nameCamelCase}`;
+    configJson.bundles = configJson.bundles || {};
+    configJson.bundles[bundleName] = {
+      components: [
+        {
+          entrypoint: `./lib/${componentPath}/${className}.js`,
+          manifest: `./src/${componentPath}/${className}.manifest.json`
+        }
+      ]
+    };
+    configJson.localizedResources = configJson.localizedResources || {};
+    configJson.localizedResources[`${className}Strings`] = `lib/${componentPath}/loc/{locale}.js`;
+    fs.writeFileSync(configJsonPath, JSON.stringify(configJson, null, 2), 'utf-8');
+
+    if (this.verbose) {
+      logger.logToStderr(`Updated ${path.relative(this.projectRootPath, configJsonPath)}`);
+    }
+
+    this.addDependencies(componentTemplate.dependencies, projectVersion, logger);
+
+    logger.log({
+      id,
+      alias: className,
+      type: componentTemplate.type,
+      manifest: `src/${componentPath}/${className}.manifest.json`
+    });
+  }
+
+  private getComponentTemplate(project: Project, options: Options): ComponentTemplate {
+    switch (options.type) {
+      case 'webpart':
+        return {
+          template: spfx.isReactProject(project) ? 'webpart-react' : 'webpart-noframework',
+          folder: 'webparts',
+          type: 'WebPart',
+          suffix: 'WebPart',
+          dependencies: ['@microsoft/sp-component-base', '@microsoft/sp-core-library', '@microsoft/sp-lodash-subset', '@microsoft/sp-property-pane', '@microsoft/sp-webpart-base']
+        };
+      case 'ace':
+        return {
+          template: 'ace',
+          folder: 'adaptiveCardExtensions',
+          type: 'AdaptiveCardExtension',
+          suffix: 'AdaptiveCardExtension',
+          dependencies: ['@microsoft/sp-core-library', '@microsoft/sp-adaptive-card-extension-base', '@microsoft/sp-property-pane']
+        };
+    }
+
+    switch (options.extensionType) {
+      case 'listViewCommandSet':
+        return {
+          template: 'listviewcommandset',
+          folder: 'extensions',
+          type: 'ListViewCommandSet',
+          suffix: 'CommandSet',
+          dependencies: ['@microsoft/sp-core-library', '@microsoft/sp-dialog', '@microsoft/sp-listview-extensibility']
+        };
+      case 'fieldCustomizer':
+        return {
+          template: spfx.isReactProject(project) ? 'fieldcustomizer-react' : 'fieldcustomizer-noframework',
+          folder: 'extensions',
+          type: 'FieldCustomizer',
+          suffix: 'FieldCustomizer',
+          dependencies: ['@microsoft/sp-core-library', '@microsoft/sp-listview-extensibility']
+        };
+      default:
+        return {
+          template: 'applicationcustomizer',
+          folder: 'extensions',
+          type: 'ApplicationCustomizer',
+          suffix: 'ApplicationCustomizer',
+          dependencies: ['@microsoft/sp-core-library', '@microsoft/sp-application-base', '@microsoft/sp-dialog']
+        };
+    }
+  }
+
+  /**
+   * Escapes the value of a variable, so that it can be inserted in a string
+   * in the specified file, eg. a component name with quotes in a manifest
+   */
+  private escapeVariableValue(value: string, fileName: string): string {
+    switch (path.extname(fileName).toLowerCase()) {
+      case '.json':
+        return JSON.stringify(value).slice(1, -1);
+      case '.js':
+      case '.ts':
+      case '.tsx':
+        return JSON.stringify(value).slice(1, -1).replace(/'/g, `\\'`);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Copies template files to the destination folder replacing variables in
+   * the names and contents of files prefixed with template_
+   */
+  private instantiateTemplate(sourcePath: string, destinationPath: string, variables: { [variable: string]: string }, logger: Logger): void {
+    fs.mkdirSync(destinationPath, { recursive: true });
+
+    fs.readdirSync(sourcePath, { withFileTypes: true }).forEach(entry => {
+      const entryPath: string = path.join(sourcePath, entry.name);
+
+      if (entry.isDirectory()) {
+        this.instantiateTemplate(entryPath, path.join(destinationPath, entry.name), variables, logger);
+        return;
+      }
+
+      const isTemplateFile: boolean = entry.name.startsWith('template_');
+      let fileName: string = isTemplateFile ? entry.name.substring('template_'.length) : entry.name;
+      Object.keys(variables).forEach(variable => {
+        fileName = fileName.split(variable).join(variables[variable]);
+      });
+
+      const filePath: string = path.join(destinationPath, fileName);
+      if (isTemplateFile) {
+        let fileContent: string = fs.readFileSync(entryPath, 'utf-8');
+        Object.keys(variables).forEach(variable => {
+          fileContent = fileContent.split(variable).join(this.escapeVariableValue(variables[variable], fileName));
+        });
+        fs.writeFileSync(filePath, fileContent, 'utf-8');
+      }
+      else {
+        fs.copyFileSync(entryPath, filePath);
+      }
+
+      if (this.verbose) {
+        logger.logToStderr(`Created ${path.relative(this.projectRootPath as string, filePath)}`);
+      }
+    });
+  }
+
+  /**
+   * Adds SharePoint Framework packages used by the component, that the project
+   * doesn't reference yet, to package.json using the version of the project
+   */
+  private addDependencies(dependencies: string[], projectVersion: string, logger: Logger): void {
+    const packageJsonPath: string = path.join(this.projectRootPath as string, 'package.json');
+    const packageJson: any = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    const missingDependencies: string[] = dependencies.filter(d =>
+      !(packageJson.dependencies && packageJson.dependencies[d]) &&
+      !(packageJson.devDependencies && packageJson.devDependencies[d]));
+
+    if (missingDependencies.length === 0) {
+      return;
+    }
+
+    packageJson.dependencies = packageJson.dependencies || {};
+    missingDependencies.forEach(d => {
+      packageJson.dependencies[d] = projectVersion;
+    });
+    fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf-8');
+
+    logger.logToStderr(`Added ${missingDependencies.join(', ')} to package.json. Install the added dependencies using your package manager.`);
+  }
+}
+
+module.exports = new SpfxProjectComponentAddCommand();
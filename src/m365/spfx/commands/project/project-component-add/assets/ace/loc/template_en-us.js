@@ -0,0 +1,11 @@
+define([], function() {
+  return {
+    "PropertyPaneDescription": "Write 1-3 sentences describing the functionality of this component.",
+    "TitleFieldLabel": "Card title",
+    "Title": "Adaptive Card Extension",
+    "SubTitle": "Quick view",
+    "PrimaryText": "SPFx Adaptive Card Extension",
+    "Description": "Create your SPFx Adaptive Card Extension solution!",
+    "QuickViewButton": "Quick view"
+  }
+});
\ No newline at end of file
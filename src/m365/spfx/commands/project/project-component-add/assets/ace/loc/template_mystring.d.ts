@@ -0,0 +1,14 @@
+declare interface I$name$AdaptiveCardExtensionStrings {
+  PropertyPaneDescription: string;
+  TitleFieldLabel: string;
+  Title: string;
+  SubTitle: string;
+  PrimaryText: string;
+  Description: string;
+  QuickViewButton: string;
+}
+
+declare module '$name$AdaptiveCardExtensionStrings' {
+  const strings: I$name$AdaptiveCardExtensionStrings;
+  export = strings;
+}
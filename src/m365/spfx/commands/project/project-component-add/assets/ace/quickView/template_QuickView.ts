@@ -0,0 +1,25 @@
+import { ISPFxAdaptiveCard, BaseAdaptiveCardView } from '@microsoft/sp-adaptive-card-extension-base';
+import * as strings from '$name$AdaptiveCardExtensionStrings';
+import { I$name$AdaptiveCardExtensionProps, I$name$AdaptiveCardExtensionState } from '../$name$AdaptiveCardExtension';
+
+export interface IQuickViewData {
+  subTitle: string;
+  title: string;
+}
+
+export class QuickView extends BaseAdaptiveCardView<
+  I$name$AdaptiveCardExtensionProps,
+  I$name$AdaptiveCardExtensionState,
+  IQuickViewData
+> {
+  public get data(): IQuickViewData {
+    return {
+      subTitle: strings.SubTitle,
+      title: strings.Title,
+    };
+  }
+
+  public get template(): ISPFxAdaptiveCard {
+    return require('./template/QuickViewTemplate.json');
+  }
+}
\ No newline at end of file
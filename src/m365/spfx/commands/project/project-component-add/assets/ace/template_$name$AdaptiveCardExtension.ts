@@ -0,0 +1,51 @@
+import { IPropertyPaneConfiguration } from '@microsoft/sp-property-pane';
+import { BaseAdaptiveCardExtension } from '@microsoft/sp-adaptive-card-extension-base';
+import { CardView } from './cardView/CardView';
+import { QuickView } from './quickView/QuickView';
+import { $name$PropertyPane } from './$name$PropertyPane';
+
+export interface I$name$AdaptiveCardExtensionProps {
+  title: string;
+}
+
+export interface I$name$AdaptiveCardExtensionState {
+}
+
+const CARD_VIEW_REGISTRY_ID: string = '$name$_CARD_VIEW';
+export const QUICK_VIEW_REGISTRY_ID: string = '$name$_QUICK_VIEW';
+
+export default class $name$AdaptiveCardExtension extends BaseAdaptiveCardExtension<
+  I$name$AdaptiveCardExtensionProps,
+  I$name$AdaptiveCardExtensionState
+> {
+  private _deferredPropertyPane: $name$PropertyPane | undefined;
+
+  public onInit(): Promise<void> {
+    this.state = { };
+
+    this.cardNavigator.register(CARD_VIEW_REGISTRY_ID, () => new CardView());
+    this.quickViewNavigator.register(QUICK_VIEW_REGISTRY_ID, () => new QuickView());
+
+    return Promise.resolve();
+  }
+
+  protected loadPropertyPaneResources(): Promise<void> {
+    return import(
+      /* webpackChunkName: '$name$-property-pane'*/
+      './$name$PropertyPane'
+    )
+      .then(
+        (component) => {
+          this._deferredPropertyPane = new component.$name$PropertyPane();
+        }
+      );
+  }
+
+  protected renderCard(): string | undefined {
+    return CARD_VIEW_REGISTRY_ID;
+  }
+
+  protected getPropertyPaneConfiguration(): IPropertyPaneConfiguration {
+    return this._deferredPropertyPane!.getPropertyPaneConfiguration();
+  }
+}
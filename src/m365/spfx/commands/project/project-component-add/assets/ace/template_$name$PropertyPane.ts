@@ -0,0 +1,23 @@
+import { IPropertyPaneConfiguration, PropertyPaneTextField } from '@microsoft/sp-property-pane';
+import * as strings from '$name$AdaptiveCardExtensionStrings';
+
+export class $name$PropertyPane {
+  public getPropertyPaneConfiguration(): IPropertyPaneConfiguration {
+    return {
+      pages: [
+        {
+          header: { description: strings.PropertyPaneDescription },
+          groups: [
+            {
+              groupFields: [
+                PropertyPaneTextField('title', {
+                  label: strings.TitleFieldLabel
+                })
+              ]
+            }
+          ]
+        }
+      ]
+    };
+  }
+}
@@ -0,0 +1,5 @@
+define([], function() {
+  return {
+    "Title": "$name$ApplicationCustomizer"
+  }
+});
\ No newline at end of file
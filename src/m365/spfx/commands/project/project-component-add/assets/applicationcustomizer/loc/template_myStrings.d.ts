@@ -0,0 +1,8 @@
+declare interface I$name$ApplicationCustomizerStrings {
+  Title: string;
+}
+
+declare module '$name$ApplicationCustomizerStrings' {
+  const strings: I$name$ApplicationCustomizerStrings;
+  export = strings;
+}
@@ -0,0 +1,8 @@
+declare interface I$name$FieldCustomizerStrings {
+  Title: string;
+}
+
+declare module '$name$FieldCustomizerStrings' {
+  const strings: I$name$FieldCustomizerStrings;
+  export = strings;
+}
@@ -0,0 +1,28 @@
+import { Log } from '@microsoft/sp-core-library';
+import * as React from 'react';
+
+import styles from './$name$.module.scss';
+
+export interface I$name$Props {
+  text: string;
+}
+
+const LOG_SOURCE: string = '$name$';
+
+export default class $name$ extends React.Component<I$name$Props, {}> {
+  public componentDidMount(): void {
+    Log.info(LOG_SOURCE, 'React Element: $name$ mounted');
+  }
+
+  public componentWillUnmount(): void {
+    Log.info(LOG_SOURCE, 'React Element: $name$ unmounted');
+  }
+
+  public render(): React.ReactElement<{}> {
+    return (
+      <div className={styles.$name$}>
+        { this.props.text }
+      </div>
+    );
+  }
+}
@@ -0,0 +1,6 @@
+define([], function() {
+  return {
+    "Command1": "Command 1",
+    "Command2": "Command 2"
+  }
+});
\ No newline at end of file
@@ -0,0 +1,9 @@
+declare interface I$name$CommandSetStrings {
+  Command1: string;
+  Command2: string;
+}
+
+declare module '$name$CommandSetStrings' {
+  const strings: I$name$CommandSetStrings;
+  export = strings;
+}
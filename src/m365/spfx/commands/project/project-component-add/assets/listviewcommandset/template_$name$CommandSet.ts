@@ -0,0 +1,52 @@
+import { Log } from '@microsoft/sp-core-library';
+import {
+  BaseListViewCommandSet,
+  Command,
+  IListViewCommandSetListViewUpdatedParameters,
+  IListViewCommandSetExecuteEventParameters
+} from '@microsoft/sp-listview-extensibility';
+import { Dialog } from '@microsoft/sp-dialog';
+
+import * as strings from '$name$CommandSetStrings';
+
+/**
+ * If your command set uses the ClientSideComponentProperties JSON input,
+ * it will be deserialized into the BaseExtension.properties object.
+ * You can define an interface to describe it.
+ */
+export interface I$name$CommandSetProperties {
+  // This is an example; replace with your own properties
+  sampleTextOne: string;
+  sampleTextTwo: string;
+}
+
+const LOG_SOURCE: string = '$name$CommandSet';
+
+export default class $name$CommandSet extends BaseListViewCommandSet<I$name$CommandSetProperties> {
+
+  public onInit(): Promise<void> {
+    Log.info(LOG_SOURCE, 'Initialized $name$CommandSet');
+    return Promise.resolve();
+  }
+
+  public onListViewUpdated(event: IListViewCommandSetListViewUpdatedParameters): void {
+    const compareOneCommand: Command = this.tryGetCommand('COMMAND_1');
+    if (compareOneCommand) {
+      // This command should be hidden unless exactly one row is selected.
+      compareOneCommand.visible = event.selectedRows.length === 1;
+    }
+  }
+
+  public onExecute(event: IListViewCommandSetExecuteEventParameters): void {
+    switch (event.itemId) {
+      case 'COMMAND_1':
+        Dialog.alert(`${this.properties.sampleTextOne}`);
+        break;
+      case 'COMMAND_2':
+        Dialog.alert(`${this.properties.sampleTextTwo}`);
+        break;
+      default:
+        throw new Error('Unknown command');
+    }
+  }
+}
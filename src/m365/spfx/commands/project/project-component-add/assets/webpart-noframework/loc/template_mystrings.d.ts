@@ -0,0 +1,14 @@
+declare interface I$name$WebPartStrings {
+  PropertyPaneDescription: string;
+  BasicGroupName: string;
+  DescriptionFieldLabel: string;
+  AppLocalEnvironmentSharePoint: string;
+  AppLocalEnvironmentTeams: string;
+  AppSharePointEnvironment: string;
+  AppTeamsTabEnvironment: string;
+}
+
+declare module '$name$WebPartStrings' {
+  const strings: I$name$WebPartStrings;
+  export = strings;
+}
@@ -0,0 +1,207 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import appInsights from '../../../../appInsights';
+import { Logger } from '../../../../cli/Logger';
+import Command, { CommandError } from '../../../../Command';
+import { formatting } from '../../../../utils/formatting';
+import { pid } from '../../../../utils/pid';
+import { sinonUtil } from '../../../../utils/sinonUtil';
+import commands from '../../commands';
+const command: Command = require('./project-component-list');
+
+describe(commands.PROJECT_COMPONENT_LIST, () => {
+  let log: any[];
+  let logger: Logger;
+  let loggerLogToStderrSpy: sinon.SinonSpy;
+  let trackEvent: any;
+  let telemetry: any;
+  const testProjectsPath: string = 'src/m365/spfx/commands/project/test-projects';
+
+  before(() => {
+    trackEvent = sinon.stub(appInsights, 'trackEvent').callsFake((t) => {
+      telemetry = t;
+    });
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    telemetry = null;
+    loggerLogToStderrSpy = sinon.spy(logger, 'logToStderr');
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      (command as any).getProjectRoot,
+      (command as any).getProject
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.PROJECT_COMPONENT_LIST), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('defines correct properties for the default output', () => {
+    assert.deepStrictEqual(command.defaultProperties(), ['project', 'id', 'alias', 'type']);
+  });
+
+  it('calls telemetry', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), testProjectsPath, 'spfx-1140-webpart-react'));
+
+    await command.action(logger, { options: {} });
+    assert(trackEvent.called);
+  });
+
+  it('logs correct telemetry event', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), testProjectsPath, 'spfx-1140-webpart-react'));
+
+    await command.action(logger, { options: {} });
+    assert.strictEqual(telemetry.name, commands.PROJECT_COMPONENT_LIST);
+  });
+
+  it('shows error if the project path couldn\'t be determined', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => null);
+
+    await assert.rejects(command.action(logger, { options: {} } as any),
+      new CommandError(`Couldn't find project root folder`, 1));
+  });
+
+  it('lists web part with its preconfigured entries and properties', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), testProjectsPath, 'spfx-1140-webpart-react'));
+
+    await command.action(logger, { options: {} });
+    assert.deepStrictEqual(log[0], [
+      {
+        id: '8a3a84e1-2d0f-495c-8e37-1447c91d96dd',
+        alias: 'HelloWorldWebPart',
+        type: 'WebPart',
+        version: '*',
+        supportedHosts: ['SharePointWebPart', 'TeamsPersonalApp', 'TeamsTab', 'SharePointFullPage'],
+        preconfiguredEntries: [{
+          groupId: '5c03119e-3074-46fd-976b-c60198311f70',
+          group: { default: 'Other' },
+          title: { default: 'HelloWorld' },
+          description: { default: 'HelloWorld' },
+          officeFabricIconFontName: 'Page',
+          properties: {
+            description: 'HelloWorld'
+          }
+        }],
+        properties: ['description'],
+        manifest: 'src/webparts/helloWorld/HelloWorldWebPart.manifest.json'
+      }
+    ]);
+  });
+
+  it('lists extension using the extension type as the component type', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), testProjectsPath, 'spfx-1140-listviewcommandset'));
+
+    await command.action(logger, { options: { verbose: true } });
+    const components: any[] = log.pop();
+    assert.strictEqual(components.length, 1, 'Incorrect number of components');
+    assert.strictEqual(components[0].alias, 'HelloWorldCommandSet', 'Incorrect alias');
+    assert.strictEqual(components[0].type, 'ListViewCommandSet', 'Incorrect type');
+    assert.deepStrictEqual(components[0].properties, [], 'Incorrect properties');
+  });
+
+  it('returns empty list when the project doesn\'t have any components', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), testProjectsPath, 'spfx-1140-webpart-react'));
+    sinon.stub(command as any, 'getProject').callsFake(projectRootPath => ({ path: projectRootPath }));
+
+    await command.action(logger, { options: {} });
+    assert.deepStrictEqual(log[0], []);
+  });
+
+  it('merges properties of all preconfigured entries and warns about duplicate IDs in the project', async () => {
+    const projectPath: string = path.join(process.cwd(), testProjectsPath, 'spfx-1140-webpart-react');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectPath);
+    sinon.stub(command as any, 'getProject').callsFake(_ => ({
+      path: projectPath,
+      manifests: [
+        {
+          path: path.join(projectPath, 'src', 'webparts', 'first', 'FirstWebPart.manifest.json'),
+          id: '8a3a84e1-2d0f-495c-8e37-1447c91d96dd',
+          componentType: 'WebPart',
+          preconfiguredEntries: [
+            { properties: { description: 'First', title: 'First' } },
+            { properties: { description: 'Second', color: 'red' } },
+            {}
+          ]
+        },
+        {
+          path: path.join(projectPath, 'src', 'webparts', 'second', 'SecondWebPart.manifest.json'),
+          id: '8a3a84e1-2d0f-495c-8e37-1447c91d96dd',
+          componentType: 'WebPart'
+        },
+        {
+          path: path.join(projectPath, 'src', 'library', 'Library.manifest.json'),
+          componentType: 'Library'
+        }
+      ]
+    }));
+
+    await command.action(logger, { options: {} });
+    const components: any[] = log.pop();
+    assert.deepStrictEqual(components[0].properties, ['description', 'title', 'color'], 'Incorrect properties');
+    assert.deepStrictEqual(components[1].preconfiguredEntries, [], 'Incorrect preconfigured entries');
+    assert.deepStrictEqual(components[2].supportedHosts, [], 'Incorrect supported hosts');
+    assert(loggerLogToStderrSpy.calledOnceWith(sinon.match('Component ID 8a3a84e1-2d0f-495c-8e37-1447c91d96dd is used by multiple components: src/webparts/first/FirstWebPart.manifest.json, src/webparts/second/SecondWebPart.manifest.json')), 'Duplicate ID not reported');
+    assert.deepStrictEqual(Object.keys(formatting.filterObject(components[1], command.defaultProperties() as string[])), ['id', 'alias', 'type'], 'Incorrect default properties');
+  });
+
+  it('lists components of all projects matching the glob specified in the recursive option and warns about duplicate IDs', async () => {
+    await command.action(logger, { options: { recursive: `${testProjectsPath}/spfx-1140-webpart-react*` } });
+    const components: any[] = log.pop();
+    assert.deepStrictEqual(components.map(c => [c.project, c.alias]), [
+      [path.normalize(`${testProjectsPath}/spfx-1140-webpart-react`), 'HelloWorldWebPart'],
+      [path.normalize(`${testProjectsPath}/spfx-1140-webpart-react-invalidconfig`), 'HelloWorldWebPart']
+    ], 'Incorrect components');
+    assert.deepStrictEqual(Object.keys(formatting.filterObject(components[0], command.defaultProperties() as string[])), ['project', 'id', 'alias', 'type'], 'Incorrect default properties');
+    assert(loggerLogToStderrSpy.calledWith(sinon.match('Component ID 8a3a84e1-2d0f-495c-8e37-1447c91d96dd is used by multiple components')), 'Duplicate ID not reported');
+  });
+
+  it('lists components of projects in the current folder when the recursive option is specified without a value', async () => {
+    const projectPath: string = path.resolve(testProjectsPath, 'spfx-1140-ace');
+    const cwdStub: sinon.SinonStub = sinon.stub(process, 'cwd').returns(projectPath);
+
+    try {
+      await command.action(logger, { options: { recursive: true } });
+    }
+    finally {
+      cwdStub.restore();
+    }
+
+    const components: any[] = log.pop();
+    assert.strictEqual(components.length, 1, 'Incorrect number of components');
+    assert.strictEqual(components[0].project, '.', 'Incorrect project');
+    assert.strictEqual(components[0].type, 'AdaptiveCardExtension', 'Incorrect type');
+    assert(loggerLogToStderrSpy.notCalled, 'Warning logged');
+  });
+
+  it('shows error when no projects found in the folder specified in the recursive option', async () => {
+    await assert.rejects(command.action(logger, { options: { recursive: 'src/m365/spfx/commands/project/project-model' } } as any),
+      new CommandError(`Couldn't find any SharePoint Framework projects`, 1));
+  });
+});
@@ -0,0 +1,139 @@
+import * as path from 'path';
+import { Logger } from '../../../../cli/Logger';
+import { CommandError } from '../../../../Command';
+import GlobalOptions from '../../../../GlobalOptions';
+import commands from '../../commands';
+import { BaseProjectCommand } from './base-project-command';
+import { Manifest } from './project-model';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  recursive?: string | boolean;
+}
+
+interface ProjectComponent {
+  project?: string;
+  id?: string;
+  alias?: string;
+  type: string;
+  version?: string;
+  supportedHosts: string[];
+  preconfiguredEntries: any[];
+  properties: string[];
+  manifest: string;
+}
+
+class SpfxProjectComponentListCommand extends BaseProjectCommand {
+  public static ERROR_NO_PROJECT_ROOT_FOLDER: number = 1;
+
+  public get name(): string {
+    return commands.PROJECT_COMPONENT_LIST;
+  }
+
+  public get description(): string {
+    return 'Lists components of a SharePoint Framework project';
+  }
+
+  public defaultProperties(): string[] | undefined {
+    // components have the project property only when listed recursively
+    return ['project', 'id', 'alias', 'type'];
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        recursive: typeof args.options.recursive !== 'undefined'
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '--recursive [recursive]'
+      }
+    );
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    let components: ProjectComponent[];
+
+    if (typeof args.options.recursive !== 'undefined') {
+      const projectRoots: string[] = this.getProjectRoots(this.getRecursiveSearchPath(args.options.recursive));
+      if (projectRoots.length === 0) {
+        throw new CommandError(`Couldn't find any SharePoint Framework projects`, SpfxProjectComponentListCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
+      }
+
+      components = [];
+      projectRoots.forEach(projectRoot => {
+        const project: string = path.relative(process.cwd(), projectRoot) || '.';
+        components.push(...this.getComponents(projectRoot, logger).map(c => Object.assign({ project }, c)));
+      });
+    }
+    else {
+      this.projectRootPath = this.getProjectRoot(process.cwd());
+      if (this.projectRootPath === null) {
+        throw new CommandError(`Couldn't find project root folder`, SpfxProjectComponentListCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
+      }
+
+      components = this.getComponents(this.projectRootPath, logger);
+    }
+
+    this.warnAboutDuplicateIds(components, logger);
+
+    logger.log(components);
+  }
+
+  private getComponents(projectRootPath: string, logger: Logger): ProjectComponent[] {
+    if (this.verbose) {
+      logger.logToStderr(`Retrieving components of the project in ${projectRootPath}...`);
+    }
+
+    const manifests: Manifest[] = this.getProject(projectRootPath).manifests || [];
+    return manifests.map(m => {
+      const preconfiguredEntries: any[] = m.preconfiguredEntries || [];
+      const properties: string[] = [];
+      preconfiguredEntries.forEach(e => {
+        Object.keys(e.properties || {}).forEach(p => {
+          if (properties.indexOf(p) < 0) {
+            properties.push(p);
+          }
+        });
+      });
+
+      return {
+        id: m.id,
+        alias: m.alias,
+        type: m.extensionType || m.componentType,
+        version: m.version,
+        supportedHosts: m.supportedHosts || [],
+        preconfiguredEntries,
+        properties,
+        manifest: path.relative(projectRootPath, m.path).replace(/\\/g, '/')
+      };
+    });
+  }
+
+  private warnAboutDuplicateIds(components: ProjectComponent[], logger: Logger): void {
+    components
+      .filter((c, i) => c.id && components.findIndex(c1 => c1.id === c.id) === i)
+      .forEach(c => {
+        const duplicates: ProjectComponent[] = components.filter(c1 => c1.id === c.id);
+        if (duplicates.length > 1) {
+          this.warn(logger, `Component ID ${c.id} is used by multiple components: ${duplicates.map(d => d.project ? `${d.project}/${d.manifest}` : d.manifest).join(', ')}`);
+        }
+      });
+  }
+}
+
+module.exports = new SpfxProjectComponentListCommand();
@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as sinon from 'sinon';
 import appInsights from '../../../../appInsights';
@@ -22,6 +23,7 @@ describe(commands.PROJECT_DOCTOR, () => {
   let telemetry: any;
   const validProjectPath = 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react';
   const invalidProjectPath = 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react-invalidconfig';
+  const projectsGlob = 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react*';
 
   before(() => {
     trackEvent = sinon.stub(appInsights, 'trackEvent').callsFake((t) => {
@@ -57,7 +59,8 @@ describe(commands.PROJECT_DOCTOR, () => {
       fs.statSync,
       fs.writeFileSync,
       fs.mkdirSync,
-      fsUtil.readdirR
+      fsUtil.readdirR,
+      process.cwd
     ]);
   });
 
@@ -124,6 +127,15 @@ describe(commands.PROJECT_DOCTOR, () => {
     });
   });
 
+  it('returns SARIF report with output format sarif', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), invalidProjectPath));
+
+    await command.action(logger, { options: { output: 'sarif' } } as any);
+    const sarif: any = JSON.parse(log[0]);
+    assert.strictEqual(sarif.runs[0].results.length, 28);
+    assert.strictEqual(sarif.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri, 'package.json');
+  });
+
   it('returns markdown report with output format md', async () => {
     sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), invalidProjectPath));
 
@@ -475,6 +487,129 @@ describe(commands.PROJECT_DOCTOR, () => {
     assert.strictEqual(findings.length, 0);
   });
 
+  it('e2e: fixes issues in an invalid 1.14.0 project with the fix option', async () => {
+    const projectPath: string = path.join(process.cwd(), invalidProjectPath);
+    const writtenFiles: { [filePath: string]: string } = {};
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectPath);
+    sinon.stub(fs, 'writeFileSync').callsFake((filePath, data) => {
+      writtenFiles[filePath.toString()] = data as string;
+    });
+    const readFileSyncOriginal = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((filePath, options) => {
+      if (typeof writtenFiles[filePath.toString()] !== 'undefined') {
+        return writtenFiles[filePath.toString()];
+      }
+
+      return readFileSyncOriginal(filePath, options);
+    });
+
+    await command.action(logger, { options: { output: 'json', fix: true } } as any);
+    const packageJson: any = JSON.parse(writtenFiles[path.join(projectPath, 'package.json')]);
+    const findings: FindingToReport[] = log.pop();
+    assert.deepStrictEqual(findings.map(f => f.id), ['FN017001'], 'Incorrect remaining findings');
+    assert.strictEqual(packageJson.dependencies['@microsoft/sp-office-ui-fabric-core'], '1.14.0', 'sp-office-ui-fabric-core not moved to dependencies');
+    assert.strictEqual(typeof packageJson.devDependencies['@microsoft/sp-office-ui-fabric-core'], 'undefined', 'sp-office-ui-fabric-core not removed from devDependencies');
+    assert.strictEqual(typeof packageJson.devDependencies['@microsoft/rush-stack-compiler-3.7'], 'undefined', 'rush-stack-compiler-3.7 not removed');
+
+    // validate the fixed project
+    (command as any).allFindings = [];
+    log = [];
+    await command.action(logger, { options: { output: 'json' } } as any);
+    assert.deepStrictEqual(log.pop(), [], 'Fixed project has issues');
+  });
+
+  it('e2e: validates projects matching the glob specified in the recursive option (json)', async () => {
+    await command.action(logger, { options: { output: 'json', recursive: projectsGlob } } as any);
+    const results: any[] = log.pop();
+    assert.deepStrictEqual(results.map(r => r.project), [path.normalize(validProjectPath), path.normalize(invalidProjectPath)], 'Incorrect projects');
+    assert.strictEqual(results[0].findings.length, 0, 'Incorrect number of findings for the valid project');
+    assert.strictEqual(results[1].findings.length, 28, 'Incorrect number of findings for the invalid project');
+  });
+
+  it('e2e: validates projects in the current folder when the recursive option is specified without a value', async () => {
+    const projectPath: string = path.resolve(validProjectPath);
+    sinon.stub(process, 'cwd').returns(projectPath);
+
+    await command.action(logger, { options: { output: 'json', recursive: true } } as any);
+    assert.deepStrictEqual(log.pop(), [{ project: '.', findings: [] }]);
+  });
+
+  it('e2e: reports findings grouped by project when validating multiple projects (text)', async () => {
+    await command.action(logger, { options: { output: 'text', recursive: projectsGlob } } as any);
+    const report: string = log.pop();
+    const validProjectPos: number = report.indexOf(`${path.normalize(validProjectPath)}${os.EOL}${'='.repeat(validProjectPath.length)}`);
+    const invalidProjectPos: number = report.indexOf(`${path.normalize(invalidProjectPath)}${os.EOL}${'='.repeat(invalidProjectPath.length)}`);
+    assert(validProjectPos > -1, 'Valid project not reported');
+    assert(invalidProjectPos > validProjectPos, 'Invalid project not reported');
+    assert(report.indexOf('✅ CLI for Microsoft 365 has found no issues in your project') > validProjectPos, 'Valid project has issues');
+    assert(report.indexOf('Execute in command line') > invalidProjectPos, 'Findings of the invalid project not reported');
+  });
+
+  it('e2e: reports findings grouped by project when validating multiple projects (md)', async () => {
+    await command.action(logger, { options: { output: 'md', recursive: projectsGlob } } as any);
+    const report: string = log.pop();
+    assert(report.indexOf(`# Validate project spfx-1140-webpart-react${os.EOL}`) > -1, 'Valid project not reported');
+    assert(report.indexOf('# Validate project spfx-1140-webpart-react-invalidconfig') > -1, 'Invalid project not reported');
+  });
+
+  it('e2e: reports findings of all projects in a single SARIF log when validating multiple projects', async () => {
+    await command.action(logger, { options: { output: 'sarif', recursive: projectsGlob } } as any);
+    const sarif: any = JSON.parse(log.pop());
+    assert.strictEqual(sarif.runs.length, 1, 'Incorrect number of runs');
+    assert.strictEqual(sarif.runs[0].results.length, 28, 'Incorrect number of results');
+    assert.strictEqual(sarif.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri, `${invalidProjectPath}/package.json`, 'Incorrect file path');
+  });
+
+  it('e2e: writes CodeTour report to each project when validating multiple projects', async () => {
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'mkdirSync').callsFake(_ => '');
+
+    await command.action(logger, { options: { output: 'tour', recursive: projectsGlob } } as any);
+    assert(writeFileSyncStub.calledWith(path.join(process.cwd(), validProjectPath, '/.tours/validation.tour')), 'Tour file not created for the valid project');
+    assert(writeFileSyncStub.calledWith(path.join(process.cwd(), invalidProjectPath, '/.tours/validation.tour')), 'Tour file not created for the invalid project');
+  });
+
+  it('e2e: reports errors of projects that cannot be validated and validates the remaining projects', async () => {
+    const getProjectVersionOriginal = (command as any).getProjectVersion;
+    sinon.stub(command as any, 'getProjectVersion').callsFake(function (this: any) {
+      return this.projectRootPath.endsWith('invalidconfig') ? undefined : getProjectVersionOriginal.apply(this);
+    });
+
+    await command.action(logger, { options: { output: 'json', recursive: projectsGlob } } as any);
+    assert.deepStrictEqual(log.pop(), [
+      { project: path.normalize(validProjectPath), findings: [] },
+      { project: path.normalize(invalidProjectPath), error: 'Unable to determine the version of the current SharePoint Framework project' }
+    ]);
+  });
+
+  it('e2e: reports errors of projects that cannot be validated (text)', async () => {
+    sinon.stub(command as any, 'getProjectVersion').callsFake(() => undefined);
+
+    await command.action(logger, { options: { output: 'text', recursive: validProjectPath } } as any);
+    assert.strictEqual(log.pop(), `${path.normalize(validProjectPath)}${os.EOL}${'='.repeat(validProjectPath.length)}${os.EOL}${os.EOL}Unable to determine the version of the current SharePoint Framework project`);
+  });
+
+  it('e2e: reports errors of projects that cannot be validated (md)', async () => {
+    sinon.stub(command as any, 'getProjectVersion').callsFake(() => undefined);
+
+    await command.action(logger, { options: { output: 'md', recursive: validProjectPath } } as any);
+    assert.strictEqual(log.pop(), `# ${path.normalize(validProjectPath)}${os.EOL}${os.EOL}Unable to determine the version of the current SharePoint Framework project`);
+  });
+
+  it('e2e: logs errors of projects that cannot be validated to stderr in sarif output mode', async () => {
+    sinon.stub(command as any, 'getProjectVersion').callsFake(() => undefined);
+
+    await command.action(logger, { options: { output: 'sarif', recursive: validProjectPath } } as any);
+    const sarif: any = JSON.parse(log.pop());
+    assert.strictEqual(sarif.runs[0].results.length, 0, 'Incorrect number of results');
+    assert.strictEqual(log.pop(), `${path.normalize(validProjectPath)}: Unable to determine the version of the current SharePoint Framework project`);
+  });
+
+  it('shows error when no projects found in the folder specified in the recursive option', async () => {
+    await assert.rejects(command.action(logger, { options: { recursive: 'src/m365/spfx/commands/project/project-model' } } as any),
+      new CommandError(`Couldn't find any SharePoint Framework projects`, 1));
+  });
+
   it('supports debug mode', () => {
     const options = command.options;
     let containsOption = false;
@@ -527,6 +662,10 @@ describe(commands.PROJECT_DOCTOR, () => {
     assert.strictEqual(await command.validate({ options: { output: 'tour' } }, Cli.getCommandInfo(command)), true);
   });
 
+  it('passes validation when sarif output specified', async () => {
+    assert.strictEqual(await command.validate({ options: { output: 'sarif' } }, Cli.getCommandInfo(command)), true);
+  });
+
   it('fails validation when csv output specified', async () => {
     assert.notStrictEqual(await command.validate({ options: { output: 'csv' } }, Cli.getCommandInfo(command)), true);
   });
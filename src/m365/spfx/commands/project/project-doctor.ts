@@ -7,7 +7,7 @@ import GlobalOptions from '../../../../GlobalOptions';
 import { packageManager } from '../../../../utils/packageManager';
 import { Dictionary, Hash } from '../../../../utils/types';
 import commands from '../../commands';
-import { BaseProjectCommand } from './base-project-command';
+import { BaseProjectCommand, ProjectResult } from './base-project-command';
 import { rules as genericRules } from './project-doctor/generic-rules';
 import { Project } from './project-model';
 import { FN017001_MISC_npm_dedupe } from './project-upgrade/rules/FN017001_MISC_npm_dedupe';
@@ -21,6 +21,8 @@ interface CommandArgs {
 
 interface Options extends GlobalOptions {
   packageManager?: string;
+  fix?: boolean;
+  recursive?: string | boolean;
 }
 
 class SpfxProjectDoctorCommand extends BaseProjectCommand {
@@ -68,7 +70,7 @@ class SpfxProjectDoctorCommand extends BaseProjectCommand {
   ];
 
   protected get allowedOutputs(): string[] {
-    return ['json', 'text', 'md', 'tour'];
+    return ['json', 'text', 'md', 'tour', 'sarif'];
   }
 
   public get name(): string {
@@ -90,7 +92,9 @@ class SpfxProjectDoctorCommand extends BaseProjectCommand {
   #initTelemetry(): void {
     this.telemetry.push((args: CommandArgs) => {
       Object.assign(this.telemetryProperties, {
-        packageManager: args.options.packageManager || 'npm'
+        packageManager: args.options.packageManager || 'npm',
+        fix: !!args.options.fix,
+        recursive: typeof args.options.recursive !== 'undefined'
       });
     });
   }
@@ -105,6 +109,12 @@ class SpfxProjectDoctorCommand extends BaseProjectCommand {
       {
         option: '--packageManager [packageManager]',
         autocomplete: SpfxProjectDoctorCommand.packageManagers
+      },
+      {
+        option: '--fix'
+      },
+      {
+        option: '--recursive [recursive]'
       }
     );
   }
@@ -124,17 +134,82 @@ class SpfxProjectDoctorCommand extends BaseProjectCommand {
   }
 
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    this.packageManager = args.options.packageManager || 'npm';
+
+    if (typeof args.options.recursive !== 'undefined') {
+      await this.validateProjects(logger, args);
+      return;
+    }
+
     this.projectRootPath = this.getProjectRoot(process.cwd());
     if (this.projectRootPath === null) {
       throw new CommandError(`Couldn't find project root folder`, SpfxProjectDoctorCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
     }
 
-    this.packageManager = args.options.packageManager || 'npm';
+    const findingsToReport: FindingToReport[] = this.getFindingsToReport(logger, args);
+
+    switch (args.options.output) {
+      case 'text':
+        logger.log(this.getTextReport(findingsToReport));
+        break;
+      case 'tour':
+        this.writeReportTourFolder(this.getTourReport(findingsToReport));
+        break;
+      case 'md':
+        logger.log(this.getMdReport(findingsToReport));
+        break;
+      case 'sarif':
+        logger.log(this.getSarifReport(findingsToReport));
+        break;
+      default:
+        logger.log(findingsToReport);
+    }
+  }
+
+  private async validateProjects(logger: Logger, args: CommandArgs): Promise<void> {
+    const projectRoots: string[] = this.getProjectRoots(this.getRecursiveSearchPath(args.options.recursive as string | boolean));
+    if (projectRoots.length === 0) {
+      throw new CommandError(`Couldn't find any SharePoint Framework projects`, SpfxProjectDoctorCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
+    }
+
+    const results: ProjectResult<FindingToReport[]>[] = await this.getProjectResults(projectRoots, async () => {
+      this.allFindings = [];
+      return this.getFindingsToReport(logger, args);
+    });
+
+    switch (args.options.output) {
+      case 'text':
+        logger.log(this.getProjectsReport(results, args.options.output, (findings: FindingToReport[]) => this.getTextReport(findings)));
+        break;
+      case 'md':
+        logger.log(this.getProjectsReport(results, args.options.output, (findings: FindingToReport[]) => this.getMdReport(findings)));
+        break;
+      case 'tour':
+        this.logProjectErrors(results, logger);
+        results
+          .filter(r => r.result)
+          .forEach(r => {
+            this.projectRootPath = r.root;
+            this.writeReportTourFolder(this.getTourReport(r.result as FindingToReport[]));
+          });
+        break;
+      case 'sarif':
+        this.logProjectErrors(results, logger);
+        logger.log(this.getProjectsSarifReport(results));
+        break;
+      default:
+        logger.log(results.map(r => typeof r.error === 'undefined' ?
+          { project: r.project, findings: r.result } :
+          { project: r.project, error: r.error }));
+    }
+  }
+
+  private getFindingsToReport(logger: Logger, args: CommandArgs): FindingToReport[] {
 
     if (this.verbose) {
       logger.logToStderr('Collecting project...');
     }
-    const project: Project = this.getProject(this.projectRootPath);
+    const project: Project = this.getProject(this.projectRootPath as string);
 
     if (this.debug) {
       logger.logToStderr('Collected project');
@@ -188,8 +263,10 @@ class SpfxProjectDoctorCommand extends BaseProjectCommand {
         });
       });
 
+    const findings: Finding[] = args.options.fix ? this.applyFindings(this.allFindings, this.packageManager, logger) : this.allFindings;
+
     // flatten
-    const findingsToReport: FindingToReport[] = ([] as FindingToReport[]).concat.apply([], this.allFindings.map(f => {
+    const findingsToReport: FindingToReport[] = ([] as FindingToReport[]).concat.apply([], findings.map(f => {
       return f.occurrences.map(o => {
         return {
           description: f.description,
@@ -226,19 +303,7 @@ class SpfxProjectDoctorCommand extends BaseProjectCommand {
       }
     });
 
-    switch (args.options.output) {
-      case 'text':
-        logger.log(this.getTextReport(findingsToReport));
-        break;
-      case 'tour':
-        this.writeReportTourFolder(this.getTourReport(findingsToReport));
-        break;
-      case 'md':
-        logger.log(this.getMdReport(findingsToReport));
-        break;
-      default:
-        logger.log(findingsToReport);
-    }
+    return findingsToReport;
   }
 
   private writeReportTourFolder(findingsToReport: any): void {
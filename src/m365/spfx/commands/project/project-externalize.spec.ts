@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as sinon from 'sinon';
 import { AxiosRequestConfig } from 'axios';
@@ -45,6 +46,7 @@ describe(commands.PROJECT_EXTERNALIZE, () => {
     };
     telemetry = null;
     (command as any).allFindings = [];
+    (command as any).allEditSuggestions = [];
   });
 
   afterEach(() => {
@@ -54,6 +56,8 @@ describe(commands.PROJECT_EXTERNALIZE, () => {
       fs.existsSync,
       fs.readFileSync,
       fs.writeFileSync,
+      fs.statSync,
+      request.get,
       request.head,
       request.post
     ]);
@@ -524,6 +528,215 @@ describe(commands.PROJECT_EXTERNALIZE, () => {
 
     await assert.rejects(command.action(logger, { options: { output: 'json', debug: true } } as any));
   });
+  it('applies externals and edits to the project files and adds typings of externalized packages', async () => {
+    const projectRoot: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-182-webpart-react');
+    const nodeModulesPath: string = path.join(projectRoot, 'node_modules');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRoot);
+    const originalExistsSync = fs.existsSync;
+    sinon.stub(fs, 'existsSync').callsFake(filePath => {
+      if (filePath.toString().startsWith(nodeModulesPath)) {
+        return !filePath.toString().endsWith('index.d.ts') && filePath.toString().indexOf('@types') < 0;
+      }
+
+      return originalExistsSync(filePath);
+    });
+    const originalReadFileSync = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((path, options) => {
+      if (path.toString().endsWith('package.json') && path.toString().indexOf('logging') > -1) {
+        return JSON.stringify({
+          main: "./dist/logging.es5.umd.bundle.js",
+          module: "./dist/logging.es5.umd.bundle.min.js"
+        });
+      }
+      else if (path.toString().endsWith('package.json') && path.toString().indexOf('common') > -1) {
+        return JSON.stringify({
+          main: "./dist/common.es5.umd.bundle.js",
+          module: "./dist/common.es5.umd.bundle.min.js"
+        });
+      }
+      else if (path.toString().endsWith('package.json') && path.toString().indexOf('tslib') > -1) {
+        return JSON.stringify({
+          main: "tslib.js",
+          typings: "tslib.d.ts"
+        });
+      }
+      else if (path.toString().endsWith('package.json') && path.toString().indexOf('spfx-182-webpart-react') > -1) {
+        const pConfig = JSON.parse(originalReadFileSync(path, 'utf8'));
+        pConfig.dependencies['@pnp/logging'] = '1.3.5';
+        pConfig.dependencies['@pnp/common'] = '1.3.5';
+        return JSON.stringify(pConfig);
+      }
+      else {
+        return originalReadFileSync(path, options);
+      }
+    });
+    const originalStatSync = fs.statSync;
+    sinon.stub(fs, 'statSync').callsFake((filePath, options) => {
+      if (filePath.toString().startsWith(nodeModulesPath)) {
+        return { size: 2048 } as any;
+      }
+
+      return originalStatSync(filePath, options);
+    });
+    const writtenFiles: { [filePath: string]: string } = {};
+    sinon.stub(fs, 'writeFileSync').callsFake((filePath, data) => {
+      writtenFiles[filePath.toString()] = data as string;
+    });
+    sinon.stub(request, 'head').callsFake(() => Promise.resolve());
+    sinon.stub(request, 'post').callsFake(() => Promise.resolve(JSON.stringify({ scriptType: 'script' })));
+    sinon.stub(request, 'get').callsFake((opts) => {
+      if (opts.url === 'https://registry.npmjs.org/@types/pnp__logging/latest') {
+        return Promise.resolve({ version: '1.0.0' });
+      }
+
+      return Promise.reject('Not found');
+    });
+
+    await command.action(logger, { options: { output: 'json', apply: true, verbose: true } } as any);
+    const report: any = log.pop();
+    const configJson: any = JSON.parse(writtenFiles[path.join(projectRoot, 'config', 'config.json')]);
+    const packageJson: any = JSON.parse(writtenFiles[path.join(projectRoot, 'package.json')]);
+    assert.deepStrictEqual(configJson.externals['@pnp/logging'], {
+      path: 'https://unpkg.com/@pnp/logging@1.3.5/dist/logging.es5.umd.min.js',
+      globalName: 'pnp.logging',
+      globalDependencies: ['tslib']
+    }, 'Incorrect logging external');
+    assert.notStrictEqual(typeof configJson.externals.tslib, 'undefined', 'tslib external not added');
+    assert.strictEqual(typeof configJson.bundles, 'object', 'Existing config.json properties removed');
+    assert.strictEqual(packageJson.devDependencies['@types/pnp__logging'], '^1.0.0', 'Types not added');
+    assert.strictEqual(writtenFiles[path.join(projectRoot, 'src', 'externals.d.ts')], `declare module '@pnp/common';${os.EOL}`, 'Shim not added');
+    assert(writtenFiles[path.join(projectRoot, 'src', 'webparts', 'helloWorld', 'HelloWorldWebPart.ts')].startsWith(`require("tslib");${os.EOL}import * as React from 'react';`), 'Requires not added at the top of the file');
+    assert.deepStrictEqual(report.bundleSizeReduction, [
+      { key: '@pnp/common', size: 2048 },
+      { key: '@pnp/logging', size: 2048 },
+      { key: 'tslib', size: 2048 }
+    ], 'Incorrect bundle size reduction');
+    assert(log.indexOf('Applied 6 modifications.') > -1, 'Applied modifications not reported');
+    assert(log.indexOf('Install the added dependencies using your package manager.') > -1, 'Install not suggested');
+  });
+
+  it('doesn\'t add typings for packages that include them or have them installed', async () => {
+    const projectRoot: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-182-webpart-react');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRoot);
+    const originalExistsSync = fs.existsSync;
+    sinon.stub(fs, 'existsSync').callsFake(filePath => {
+      if (filePath.toString().startsWith(path.join(projectRoot, 'node_modules', 'lib-with-index'))) {
+        return true;
+      }
+
+      return originalExistsSync(filePath);
+    });
+    const originalReadFileSync = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((path, options) => {
+      if (path.toString().endsWith('package.json') && path.toString().indexOf('lib-with-index') > -1) {
+        return JSON.stringify({});
+      }
+
+      return originalReadFileSync(path, options);
+    });
+    (command as any).projectRootPath = projectRoot;
+    (command as any).allFindings = [
+      { key: 'lib-with-types', path: 'https://unpkg.com/lib-with-types@1.0.0/index.js' },
+      { key: 'lib-with-index', path: 'https://unpkg.com/lib-with-index@1.0.0/index.js' },
+      { key: '@contoso/lib', path: 'https://unpkg.com/@contoso/lib@1.0.0/index.js' }
+    ];
+
+    const edits: FileEdit[] = await (command as any).getTypingsEdits({ packageJson: { devDependencies: { '@types/lib-with-types': '1.0.0', '@types/contoso__lib': '1.0.0' } } });
+    const editsWithoutPackageJson: FileEdit[] = await (command as any).getTypingsEdits({});
+    assert.deepStrictEqual(edits, []);
+    assert.deepStrictEqual(editsWithoutPackageJson, []);
+  });
+
+  it('removes lines and creates files when applying edits (verbose)', () => {
+    const projectRoot: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-182-webpart-react');
+    (command as any).projectRootPath = projectRoot;
+    const writtenFiles: { [filePath: string]: string } = {};
+    sinon.stub(fs, 'writeFileSync').callsFake((filePath, data) => {
+      writtenFiles[filePath.toString()] = data as string;
+    });
+    const originalReadFileSync = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((path, options) => {
+      if (path.toString().endsWith('HelloWorldWebPart.ts')) {
+        return `import * as React from 'react';${os.EOL}require("tslib");${os.EOL}`;
+      }
+
+      return originalReadFileSync(path, options);
+    });
+    (command as any).verbose = true;
+
+    try {
+      (command as any).applyExternals([], [
+        { action: 'remove', path: 'src/webparts/helloWorld/HelloWorldWebPart.ts', targetValue: 'require("tslib");' },
+        { action: 'remove', path: 'src/webparts/missing/MissingWebPart.ts', targetValue: 'require("tslib");' },
+        { action: 'add', path: 'tsconfig.json', targetValue: JSON.stringify({ compilerOptions: { esModuleInterop: true } }) }
+      ], logger);
+    }
+    finally {
+      (command as any).verbose = false;
+    }
+    assert.strictEqual(writtenFiles[path.join(projectRoot, 'src', 'webparts', 'helloWorld', 'HelloWorldWebPart.ts')], `import * as React from 'react';${os.EOL}`, 'Line not removed');
+    assert.strictEqual(JSON.parse(writtenFiles[path.join(projectRoot, 'tsconfig.json')]).compilerOptions.esModuleInterop, true, 'tsconfig.json not updated');
+    assert.strictEqual(typeof writtenFiles[path.join(projectRoot, 'config', 'config.json')], 'undefined', 'config.json updated');
+    assert(log.indexOf('Applied remove require("tslib"); to src/webparts/helloWorld/HelloWorldWebPart.ts') > -1, 'Applied edit not logged');
+    assert(log.indexOf('Applied 2 modifications.') > -1, 'Incorrect number of applied modifications');
+  });
+
+  it('adds externals to config.json without externals', () => {
+    const projectRoot: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-182-webpart-react');
+    (command as any).projectRootPath = projectRoot;
+    const writtenFiles: { [filePath: string]: string } = {};
+    sinon.stub(fs, 'writeFileSync').callsFake((filePath, data) => {
+      writtenFiles[filePath.toString()] = data as string;
+    });
+    const originalReadFileSync = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((path, options) => {
+      if (path.toString().endsWith('config.json')) {
+        return '{}';
+      }
+
+      return originalReadFileSync(path, options);
+    });
+
+    (command as any).applyExternals([{ key: 'jquery', path: 'https://unpkg.com/jquery@3.6.0/dist/jquery.min.js', globalName: 'jQuery' }], [], logger);
+    assert.deepStrictEqual(JSON.parse(writtenFiles[path.join(projectRoot, 'config', 'config.json')]), {
+      externals: {
+        jquery: {
+          path: 'https://unpkg.com/jquery@3.6.0/dist/jquery.min.js',
+          globalName: 'jQuery'
+        }
+      }
+    });
+  });
+
+  it('reports bundle size reduction only for files installed in the project', () => {
+    const projectRoot: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-182-webpart-react');
+    (command as any).projectRootPath = projectRoot;
+    sinon.stub(fs, 'existsSync').callsFake(filePath => filePath.toString() === path.join(projectRoot, 'node_modules', '@pnp', 'sp', 'dist', 'sp.es5.umd.min.js'));
+    sinon.stub(fs, 'statSync').callsFake(() => ({ size: 10240 }) as any);
+
+    const sizes = (command as any).getBundleSizeReduction([
+      { key: '@pnp/sp', path: 'https://unpkg.com/@pnp/sp@1.3.5/dist/sp.es5.umd.min.js' },
+      { key: 'moment', path: 'https://unpkg.com/moment@2.29.4/min/moment.min.js' },
+      { key: 'jquery', path: 'https://code.jquery.com/jquery-3.6.0.min.js' }
+    ]);
+    assert.deepStrictEqual(sizes, [{ key: '@pnp/sp', size: 10240 }]);
+  });
+
+  it('includes edits in the markdown report', () => {
+    (command as any).projectRootPath = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-182-webpart-react');
+    const md: string = (command as any).serializeMdReport([], [
+      { action: 'add', path: 'src/webparts/helloWorld/HelloWorldWebPart.ts', targetValue: 'require("tslib");' }
+    ], []);
+    assert(md.indexOf(`#### [src/webparts/helloWorld/HelloWorldWebPart.ts](src/webparts/helloWorld/HelloWorldWebPart.ts)${os.EOL}add${os.EOL}\`\`\`JavaScript${os.EOL}require("tslib");${os.EOL}\`\`\``) > -1);
+  });
+
+  it('includes bundle size reduction in the markdown and text reports', () => {
+    (command as any).projectRootPath = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-182-webpart-react');
+    const md: string = (command as any).serializeMdReport([], [], [{ key: '@pnp/sp', size: 10240 }]);
+    const text: string = (command as any).serializeTextReport([], [], [{ key: '@pnp/sp', size: 10240 }]);
+    assert(md.indexOf(`@pnp/sp|10.0 KB`) > -1, 'Size not included in the markdown report');
+    assert(text.endsWith('- @pnp/sp: 10.0 KB'), 'Size not included in the text report');
+  });
   //#endregion
 
   it('outputs JSON object with output format json', async () => {
@@ -586,6 +799,37 @@ describe(commands.PROJECT_EXTERNALIZE, () => {
     assert(emptyReport.length === 122 || emptyReport.length === 124);
   });
 
+  it('outputs JSON report of each project with output format json when the recursive option is specified', async () => {
+    await command.action(logger, { options: { output: 'json', recursive: projectPath } } as any);
+    const results: any[] = log.pop();
+    assert.strictEqual(results.length, 1, 'Incorrect number of projects');
+    assert.strictEqual(results[0].project, path.normalize(projectPath), 'Incorrect project');
+    assert.deepStrictEqual(results[0].edits, [], 'Incorrect edits');
+    assert.notStrictEqual(typeof results[0].externalConfiguration, 'undefined', 'External configuration not reported');
+  });
+
+  it('returns markdown report of each project with output format md when the recursive option is specified', async () => {
+    await command.action(logger, { options: { output: 'md', recursive: projectPath } } as any);
+    assert(log[logEntryToCheck].startsWith('# Externalizing dependencies of project spfx-182-webpart-react'));
+  });
+
+  it('returns text report grouped by project with output format text when the recursive option is specified', async () => {
+    await command.action(logger, { options: { output: 'text', recursive: projectPath } } as any);
+    assert(log[logEntryToCheck].startsWith(`${path.normalize(projectPath)}${os.EOL}${'='.repeat(path.normalize(projectPath).length)}${os.EOL}${os.EOL}In the config/config.json file update the externals property to:`));
+  });
+
+  it('returns errors of projects that cannot be externalized when the recursive option is specified', async () => {
+    sinon.stub(command as any, 'getProjectVersion').callsFake(() => undefined);
+
+    await command.action(logger, { options: { output: 'json', recursive: projectPath } } as any);
+    assert.deepStrictEqual(log.pop(), [{ project: path.normalize(projectPath), error: 'Unable to determine the version of the current SharePoint Framework project' }]);
+  });
+
+  it('shows error when no projects found in the folder specified in the recursive option', async () => {
+    await assert.rejects(command.action(logger, { options: { output: 'json', recursive: 'src/m365/spfx/commands/project/project-model' } } as any),
+      new CommandError(`Couldn't find any SharePoint Framework projects`, 1));
+  });
+
   it('passes validation when json output specified', async () => {
     assert.strictEqual(await command.validate({ options: { output: 'json' } }, Cli.getCommandInfo(command)), true);
   });
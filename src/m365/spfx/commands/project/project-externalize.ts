@@ -1,17 +1,25 @@
+import { AxiosRequestConfig } from 'axios';
+import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { Logger } from '../../../../cli/Logger';
 import { CommandError } from '../../../../Command';
 import GlobalOptions from '../../../../GlobalOptions';
+import request from '../../../../request';
 import commands from '../../commands';
-import { BaseProjectCommand } from './base-project-command';
-import { ExternalizeEntry, FileEdit } from './project-externalize/';
+import { BaseProjectCommand, ProjectResult } from './base-project-command';
+import { BundleSizeReduction, ExternalizeEntry, FileEdit } from './project-externalize/';
 import { BasicDependencyRule } from './project-externalize/rules';
-import { External, ExternalConfiguration, Project } from './project-model';
+import { ConfigJson, External, ExternalConfiguration, Project } from './project-model';
 import rules = require('./project-externalize/DefaultRules');
 
 interface CommandArgs {
-  options: GlobalOptions;
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  apply?: boolean;
+  recursive?: string | boolean;
 }
 
 class SpfxProjectExternalizeCommand extends BaseProjectCommand {
@@ -61,15 +69,33 @@ class SpfxProjectExternalizeCommand extends BaseProjectCommand {
   constructor() {
     super();
 
+    this.#initTelemetry();
     this.#initOptions();
   }
 
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        apply: !!args.options.apply,
+        recursive: typeof args.options.recursive !== 'undefined'
+      });
+    });
+  }
+
   #initOptions(): void {
     this.options.forEach(o => {
       if (o.option.indexOf('--output') > -1) {
         o.autocomplete = this.allowedOutputs;
       }
     });
+    this.options.unshift(
+      {
+        option: '--apply'
+      },
+      {
+        option: '--recursive [recursive]'
+      }
+    );
   }
 
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
@@ -77,11 +103,42 @@ class SpfxProjectExternalizeCommand extends BaseProjectCommand {
       logger.logToStderr(`This command is currently in preview. Feedback welcome at https://github.com/pnp/cli-microsoft365/issues${os.EOL}`);
     }
 
+    if (typeof args.options.recursive !== 'undefined') {
+      await this.externalizeProjects(logger, args);
+      return;
+    }
+
     this.projectRootPath = this.getProjectRoot(process.cwd());
     if (this.projectRootPath === null) {
       throw new CommandError(`Couldn't find project root folder`, SpfxProjectExternalizeCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
     }
 
+    logger.log(await this.getProjectReport(logger, args));
+  }
+
+  private async externalizeProjects(logger: Logger, args: CommandArgs): Promise<void> {
+    const projectRoots: string[] = this.getProjectRoots(this.getRecursiveSearchPath(args.options.recursive as string | boolean));
+    if (projectRoots.length === 0) {
+      throw new CommandError(`Couldn't find any SharePoint Framework projects`, SpfxProjectExternalizeCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
+    }
+
+    const results: ProjectResult<any>[] = await this.getProjectResults(projectRoots, () => {
+      this.allFindings = [];
+      this.allEditSuggestions = [];
+      return this.getProjectReport(logger, args);
+    });
+
+    if (args.options.output === 'json') {
+      logger.log(results.map(r => typeof r.error === 'undefined' ?
+        Object.assign({ project: r.project }, r.result) :
+        { project: r.project, error: r.error }));
+    }
+    else {
+      logger.log(this.getProjectsReport(results, args.options.output as string, (report: string) => report));
+    }
+  }
+
+  private async getProjectReport(logger: Logger, args: CommandArgs): Promise<any> {
     this.projectVersion = this.getProjectVersion();
     if (!this.projectVersion) {
       throw new CommandError(`Unable to determine the version of the current SharePoint Framework project`, SpfxProjectExternalizeCommand.ERROR_NO_VERSION);
@@ -94,7 +151,7 @@ class SpfxProjectExternalizeCommand extends BaseProjectCommand {
     if (this.verbose) {
       logger.logToStderr('Collecting project...');
     }
-    const project: Project = this.getProject(this.projectRootPath);
+    const project: Project = this.getProject(this.projectRootPath as string);
 
     if (this.debug) {
       logger.logToStderr('Collected project');
@@ -108,32 +165,181 @@ class SpfxProjectExternalizeCommand extends BaseProjectCommand {
       this.allEditSuggestions.push(...rulesResults.map(x => x.suggestions).reduce((x, y) => [...x, ...y]));
       //removing duplicates
       this.allFindings = this.allFindings.filter((x, i) => this.allFindings.findIndex(y => y.key === x.key) === i);
-      this.writeReport(this.allFindings, this.allEditSuggestions, logger, args.options);
+
+      if (args.options.apply) {
+        this.allEditSuggestions.push(...await this.getTypingsEdits(project));
+        this.applyExternals(this.allFindings, this.allEditSuggestions, logger);
+      }
+
+      return this.getReport(this.allFindings, this.allEditSuggestions, this.getBundleSizeReduction(this.allFindings), args.options);
     }
     catch (err: any) {
       throw new CommandError(err);
     }
   }
 
-  private writeReport(findingsToReport: ExternalizeEntry[], editsToReport: FileEdit[], logger: Logger, options: GlobalOptions): void {
+  /**
+   * Returns edits that add type definitions of the externalized packages
+   * that don't include them. If the package has type definitions in
+   * DefinitelyTyped, adds the @types package to devDependencies. Otherwise,
+   * declares the module in a shim so that the project still builds
+   */
+  private async getTypingsEdits(project: Project): Promise<FileEdit[]> {
+    const edits: FileEdit[] = [];
+    const dependencies: { [name: string]: string } = Object.assign({}, project.packageJson?.dependencies, project.packageJson?.devDependencies);
+
+    for (const finding of this.allFindings) {
+      const typesPackageName: string = `@types/${finding.key.replace(/^@(.+)\/(.+)$/, '$1__$2')}`;
+      if (dependencies[typesPackageName] || this.hasTypings(finding.key)) {
+        continue;
+      }
+
+      const typesVersion: string | undefined = await this.getLatestVersion(typesPackageName);
+      if (typesVersion) {
+        edits.push({
+          action: 'add',
+          path: 'package.json',
+          targetValue: JSON.stringify({ devDependencies: { [typesPackageName]: `^${typesVersion}` } })
+        });
+      }
+      else {
+        edits.push({
+          action: 'add',
+          path: 'src/externals.d.ts',
+          targetValue: `declare module '${finding.key}';`
+        });
+      }
+    }
+
+    return edits;
+  }
+
+  /**
+   * Checks if the package installed in the project includes type definitions.
+   * If the package isn't installed, assumes that it does, because it can't
+   * be verified
+   */
+  private hasTypings(packageName: string): boolean {
+    const packagePath: string = path.join(this.projectRootPath as string, 'node_modules', packageName);
+    const packageJsonPath: string = path.join(packagePath, 'package.json');
+    if (!fs.existsSync(packageJsonPath)) {
+      return true;
+    }
+
+    const packageJson: { types?: string; typings?: string } = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    return !!packageJson.types || !!packageJson.typings || fs.existsSync(path.join(packagePath, 'index.d.ts'));
+  }
+
+  private getLatestVersion(packageName: string): Promise<string | undefined> {
+    const requestOptions: AxiosRequestConfig = {
+      url: `https://registry.npmjs.org/${packageName}/latest`,
+      headers: { accept: 'application/json', 'x-anonymous': 'true' },
+      responseType: 'json'
+    };
+
+    return request
+      .get<{ version: string }>(requestOptions)
+      .then(res => res.version)
+      .catch(() => undefined);
+  }
+
+  /**
+   * Returns the size of the files of the externalized packages installed in
+   * the project, which is how much the bundle will shrink after loading
+   * these packages from the CDN
+   */
+  private getBundleSizeReduction(findings: ExternalizeEntry[]): BundleSizeReduction[] {
+    const sizes: BundleSizeReduction[] = [];
+
+    findings.forEach(f => {
+      // CDN URLs are built as https://unpkg.com/<package>@<version>/<file>
+      const file: RegExpExecArray | null = /^https:\/\/unpkg\.com\/(.+?)@[^/]+\/(.+)$/.exec(f.path);
+      if (!file) {
+        return;
+      }
+
+      const filePath: string = path.join(this.projectRootPath as string, 'node_modules', file[1], file[2]);
+      if (fs.existsSync(filePath)) {
+        sizes.push({ key: f.key, size: fs.statSync(filePath).size });
+      }
+    });
+
+    return sizes;
+  }
+
+  /**
+   * Adds the externals to config.json and applies the edits to the project
+   * files
+   */
+  private applyExternals(findings: ExternalizeEntry[], edits: FileEdit[], logger: Logger): void {
+    let modificationsCount: number = 0;
+    let dependenciesChanged: boolean = false;
+
+    if (findings.length > 0) {
+      const configJsonPath: string = this.getProjectFilePath('config/config.json');
+      const configJson: ConfigJson = this.readJsonFile(configJsonPath);
+      configJson.externals = Object.assign(configJson.externals || {}, this.serializeJsonReport(findings).externals);
+      this.writeJsonFile(configJsonPath, configJson);
+      modificationsCount++;
+
+      if (this.verbose) {
+        logger.logToStderr(`Updated externals in config/config.json`);
+      }
+    }
+
+    edits.forEach(e => {
+      const filePath: string = this.getProjectFilePath(e.path);
+
+      if (e.action === 'remove') {
+        if (!fs.existsSync(filePath)) {
+          return;
+        }
+
+        const source: string = fs.readFileSync(filePath, 'utf-8');
+        fs.writeFileSync(filePath, source.split(/\r?\n/).filter(l => l.trim() !== e.targetValue.trim()).join(os.EOL), 'utf-8');
+      }
+      else if (e.path.endsWith('.json')) {
+        this.writeJsonFile(filePath, this.mergeJson(this.readJsonFile(filePath), JSON.parse(e.targetValue)));
+        dependenciesChanged = dependenciesChanged || e.path === 'package.json';
+      }
+      else if (!fs.existsSync(filePath)) {
+        fs.writeFileSync(filePath, `${e.targetValue}${os.EOL}`, 'utf-8');
+      }
+      else {
+        this.insertLines(filePath, e.targetValue);
+      }
+
+      modificationsCount++;
+      if (this.verbose) {
+        logger.logToStderr(`Applied ${e.action} ${e.targetValue} to ${e.path}`);
+      }
+    });
+
+    logger.logToStderr(`Applied ${modificationsCount} modifications.`);
+    if (dependenciesChanged) {
+      logger.logToStderr('Install the added dependencies using your package manager.');
+    }
+  }
+
+  private getReport(findingsToReport: ExternalizeEntry[], editsToReport: FileEdit[], sizesToReport: BundleSizeReduction[], options: GlobalOptions): any {
     let report;
 
     switch (options.output) {
       case 'json':
-        report = { externalConfiguration: this.serializeJsonReport(findingsToReport), edits: editsToReport };
+        report = { externalConfiguration: this.serializeJsonReport(findingsToReport), edits: editsToReport, bundleSizeReduction: sizesToReport };
         break;
       case 'md':
-        report = this.serializeMdReport(findingsToReport, editsToReport);
+        report = this.serializeMdReport(findingsToReport, editsToReport, sizesToReport);
         break;
       default:
-        report = this.serializeTextReport(findingsToReport, editsToReport);
+        report = this.serializeTextReport(findingsToReport, editsToReport, sizesToReport);
         break;
     }
 
-    logger.log(report);
+    return report;
   }
 
-  private serializeMdReport(findingsToReport: ExternalizeEntry[], editsToReport: FileEdit[]): string {
+  private serializeMdReport(findingsToReport: ExternalizeEntry[], editsToReport: FileEdit[], sizesToReport: BundleSizeReduction[]): string {
     const lines = [
       `# Externalizing dependencies of project ${path.basename(this.projectRootPath as string)}`, os.EOL,
       os.EOL,
@@ -151,11 +357,31 @@ class SpfxProjectExternalizeCommand extends BaseProjectCommand {
       JSON.stringify(this.serializeJsonReport(findingsToReport), null, 2), os.EOL,
       '```', os.EOL,
       ...this.getReportForFileEdit(this.getGroupedFileEdits(editsToReport, 'add')),
-      ...this.getReportForFileEdit(this.getGroupedFileEdits(editsToReport, 'remove'))
+      ...this.getReportForFileEdit(this.getGroupedFileEdits(editsToReport, 'remove')),
+      ...this.getReportForBundleSizeReduction(sizesToReport)
     ];
     return lines.join('');
   }
 
+  private getReportForBundleSizeReduction(sizesToReport: BundleSizeReduction[]): string[] {
+    if (sizesToReport.length === 0) {
+      return [];
+    }
+
+    return [
+      os.EOL,
+      '## Expected bundle size reduction', os.EOL,
+      os.EOL,
+      'Dependency|Size', os.EOL,
+      '----------|----', os.EOL,
+      ...sizesToReport.map(s => `${s.key}|${this.formatSize(s.size)}${os.EOL}`)
+    ];
+  }
+
+  private formatSize(size: number): string {
+    return `${(size / 1024).toFixed(1)} KB`;
+  }
+
   private getReportForFileEdit(suggestions: FileEdit[][]): string[] {
     const initialReport = suggestions
       .map(x => [
@@ -198,13 +424,23 @@ class SpfxProjectExternalizeCommand extends BaseProjectCommand {
     };
   }
 
-  private serializeTextReport(findingsToReport: ExternalizeEntry[], editsToReport: FileEdit[]): string {
+  private serializeTextReport(findingsToReport: ExternalizeEntry[], editsToReport: FileEdit[], sizesToReport?: BundleSizeReduction[]): string {
     const s: string[] = [
       'In the config/config.json file update the externals property to:', os.EOL,
       os.EOL,
       JSON.stringify({ externalConfiguration: this.serializeJsonReport(findingsToReport), edits: editsToReport }, null, 2)
     ];
 
+    if (sizesToReport && sizesToReport.length > 0) {
+      s.push(
+        os.EOL,
+        os.EOL,
+        'Expected bundle size reduction:', os.EOL,
+        os.EOL,
+        ...sizesToReport.map(r => `- ${r.key}: ${this.formatSize(r.size)}${os.EOL}`)
+      );
+    }
+
     return s.join('').trim();
   }
 }
@@ -0,0 +1,7 @@
+export interface BundleSizeReduction {
+  key: string;
+  /**
+   * Size in bytes of the file that is no longer included in the bundle
+   */
+  size: number;
+}
\ No newline at end of file
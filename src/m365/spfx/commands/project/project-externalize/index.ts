@@ -1,3 +1,4 @@
+export * from './BundleSizeReduction';
 export * from './ExternalizeEntry';
 export * from './FileEdit';
 export * from './VisitationResult';
@@ -4,6 +4,7 @@ export interface Manifest extends JsonFile {
   path: string;
   
   $schema: string;
+  alias?: string;
   componentType: string;
   extensionType?: string;
   id?: string;
@@ -16,7 +17,8 @@ export interface Manifest extends JsonFile {
     },
     title?: {
       default?: string;
-    }
+    },
+    properties?: any;
   }[];
   requiresCustomScript?: boolean;
   safeWithCustomScriptDisabled?: boolean;
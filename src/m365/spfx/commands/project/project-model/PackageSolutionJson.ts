@@ -5,6 +5,7 @@ export interface PackageSolutionJson extends JsonFile {
   solution?: {
     developer?: PackageSolutionJsonDeveloper;
     features?: PackageSolutionJsonFeature[];
+    id?: string;
     includeClientSideAssets?: boolean;
     isDomainIsolated?: boolean;
     metadata?: PackageSolutionJsonMetadata;
@@ -50,7 +50,9 @@ describe(commands.PROJECT_RENAME, () => {
       (command as any).getProject,
       fs.existsSync,
       fs.readFileSync,
-      fs.writeFileSync
+      fs.writeFileSync,
+      fs.readdirSync,
+      fs.renameSync
     ]);
   });
 
@@ -325,6 +327,238 @@ gulp package-solution - TODO
     assert.strictEqual(loggerLogToStderrSpy.getCall(5).args[0], `Updated README.md`);
   });
 
+  it('regenerates IDs of the solution, components and features when --regenerateIds is passed', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-webpart-react'));
+    sinon.stub(fs, 'renameSync').callsFake(() => { });
+    let i: number = 0;
+    sinon.stub((command as any), 'generateNewId').callsFake(() => `00000000-0000-0000-0000-00000000000${i++}`);
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true } } as any);
+    assert.deepStrictEqual(log[0], [
+      {
+        type: 'Solution',
+        name: 'contoso',
+        oldId: '2ba33097-06fe-4af7-8516-74a5a6d1c929',
+        newId: '00000000-0000-0000-0000-000000000000'
+      },
+      {
+        type: 'Component',
+        name: 'ContosoHelloWorldWebPart',
+        oldId: 'fe962bab-d705-48a9-9071-ab08f41e14f4',
+        newId: '00000000-0000-0000-0000-000000000001'
+      },
+      {
+        type: 'Feature',
+        name: 'spfx Feature',
+        oldId: '450bad5d-44b6-4b21-902b-524fe24539ac',
+        newId: '00000000-0000-0000-0000-000000000002'
+      }
+    ]);
+  });
+
+  it('replaces component ID and alias in the manifest when --regenerateIds is passed', async () => {
+    const projectRootPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-webpart-react');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRootPath);
+    sinon.stub(fs, 'renameSync').callsFake(() => { });
+    let i: number = 0;
+    sinon.stub((command as any), 'generateNewId').callsFake(() => `00000000-0000-0000-0000-00000000000${i++}`);
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true } } as any);
+    const manifest: string = writeFileSyncSpy.getCalls()
+      .find(c => c.args[0] === path.join(projectRootPath, 'src', 'webparts', 'helloWorld', 'HelloWorldWebPart.manifest.json'))!.args[1];
+    assert(manifest.indexOf('"id": "00000000-0000-0000-0000-000000000001"') > -1, 'Component ID not replaced');
+    assert(manifest.indexOf('"alias": "ContosoHelloWorldWebPart"') > -1, 'Alias not replaced');
+  });
+
+  it('replaces feature ID in package-solution.json when --regenerateIds is passed', async () => {
+    const projectRootPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-webpart-react');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRootPath);
+    sinon.stub(fs, 'renameSync').callsFake(() => { });
+    let i: number = 0;
+    sinon.stub((command as any), 'generateNewId').callsFake(() => `00000000-0000-0000-0000-00000000000${i++}`);
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true } } as any);
+    const packageSolutionJson: string = writeFileSyncSpy.getCalls()
+      .filter(c => c.args[0] === path.join(projectRootPath, 'config', 'package-solution.json'))
+      .pop()!.args[1];
+    assert(packageSolutionJson.indexOf('"id": "00000000-0000-0000-0000-000000000002"') > -1);
+  });
+
+  it('renames localized resources of components when --regenerateIds is passed', async () => {
+    const projectRootPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-webpart-react');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRootPath);
+    sinon.stub(fs, 'renameSync').callsFake(() => { });
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true } } as any);
+    const getWrittenContent = (filePath: string): string => writeFileSyncSpy.getCalls().find(c => c.args[0] === path.join(projectRootPath, filePath))!.args[1];
+    assert(getWrittenContent(path.join('config', 'config.json')).indexOf('"ContosoHelloWorldWebPartStrings": "lib/webparts/helloWorld/loc/{locale}.js"') > -1, 'config.json not updated');
+    assert(getWrittenContent(path.join('src', 'webparts', 'helloWorld', 'HelloWorldWebPart.ts')).indexOf(`import * as strings from 'ContosoHelloWorldWebPartStrings';`) > -1, 'Web part not updated');
+    const typings: string = getWrittenContent(path.join('src', 'webparts', 'helloWorld', 'loc', 'mystrings.d.ts'));
+    assert(typings.indexOf(`declare module 'ContosoHelloWorldWebPartStrings' {`) > -1, 'Module declaration not updated');
+    assert(typings.indexOf('declare interface IHelloWorldWebPartStrings {') > -1, 'Interface renamed');
+  });
+
+  it('renames files named after component IDs when --regenerateIds is passed', async () => {
+    const projectRootPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-webpart-react');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRootPath);
+    const renameSyncStub: sinon.SinonStub = sinon.stub(fs, 'renameSync').callsFake(() => { });
+    let i: number = 0;
+    sinon.stub((command as any), 'generateNewId').callsFake(() => `00000000-0000-0000-0000-00000000000${i++}`);
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true, debug: true } } as any);
+    assert(renameSyncStub.calledWith(path.join(projectRootPath, 'teams', 'fe962bab-d705-48a9-9071-ab08f41e14f4_color.png'), path.join(projectRootPath, 'teams', '00000000-0000-0000-0000-000000000001_color.png')), 'Color icon not renamed');
+    assert(renameSyncStub.calledWith(path.join(projectRootPath, 'teams', 'fe962bab-d705-48a9-9071-ab08f41e14f4_outline.png'), path.join(projectRootPath, 'teams', '00000000-0000-0000-0000-000000000001_outline.png')), 'Outline icon not renamed');
+    assert(loggerLogToStderrSpy.calledWith(`Renamed ${path.join('teams', 'fe962bab-d705-48a9-9071-ab08f41e14f4_color.png')} to 00000000-0000-0000-0000-000000000001_color.png`));
+  });
+
+  it('replaces component ID in serve.json and feature elements when --regenerateIds is passed', async () => {
+    const projectRootPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-applicationcustomizer');
+    const elementsPath: string = path.join(projectRootPath, 'sharepoint', 'assets', 'elements.xml');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRootPath);
+    let i: number = 0;
+    sinon.stub((command as any), 'generateNewId').callsFake(() => `0000000a-0000-0000-0000-00000000000${i++}`);
+    const originalReadFileSync = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((filePath, options) => {
+      if (filePath === elementsPath) {
+        return '<CustomAction ClientSideComponentId="32837D33-196D-40D7-80A2-BC65B6E3C138" />';
+      }
+
+      return originalReadFileSync(filePath, options);
+    });
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true, debug: true } } as any);
+    const serveJson: string = writeFileSyncSpy.getCalls().find(c => c.args[0] === path.join(projectRootPath, 'config', 'serve.json'))!.args[1];
+    assert(serveJson.indexOf('"0000000a-0000-0000-0000-000000000001": {') > -1, 'serve.json not updated');
+    assert(serveJson.indexOf('32837d33-196d-40d7-80a2-bc65b6e3c138') < 0, 'serve.json contains the old ID');
+    assert(writeFileSyncSpy.calledWith(elementsPath, '<CustomAction ClientSideComponentId="0000000A-0000-0000-0000-000000000001" />', 'utf-8'), 'elements.xml not updated');
+    assert(loggerLogToStderrSpy.calledWith(`Updated ${path.join('sharepoint', 'assets', 'elements.xml')}`));
+  });
+
+  it('skips dependencies and build output when replacing IDs', async () => {
+    const projectRootPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-applicationcustomizer');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRootPath);
+    const originalReaddirSync = fs.readdirSync;
+    const readdirSyncStub: sinon.SinonStub = sinon.stub(fs, 'readdirSync').callsFake((folderPath, options) => {
+      const entries: any[] = originalReaddirSync(folderPath, options as any);
+      if (folderPath === projectRootPath && options) {
+        entries.push({ name: 'node_modules', isDirectory: () => true });
+      }
+
+      return entries as any;
+    });
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true } } as any);
+    assert(readdirSyncStub.neverCalledWith(path.join(projectRootPath, 'node_modules')));
+  });
+
+  it('regenerates IDs of components without aliases and features without titles', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-webpart-react'));
+    sinon.stub(command as any, 'getProject').callsFake(_ => {
+      return {
+        packageJson: {
+          name: 'spfx-react'
+        },
+        manifests: [
+          { path: path.join('src', 'webparts', 'helloWorld', 'HelloWorldWebPart.manifest.json'), id: 'fe962bab-d705-48a9-9071-ab08f41e14f4' },
+          { path: path.join('src', 'webparts', 'other', 'OtherWebPart.manifest.json'), alias: 'SpfxReactOtherWebPart' }
+        ],
+        packageSolutionJson: {
+          solution: {
+            features: [
+              { id: '450bad5d-44b6-4b21-902b-524fe24539ac' },
+              { title: 'Feature without ID' }
+            ]
+          }
+        }
+      };
+    });
+    sinon.stub(fs, 'renameSync').callsFake(() => { });
+    let i: number = 0;
+    sinon.stub((command as any), 'generateNewId').callsFake(() => `00000000-0000-0000-0000-00000000000${i++}`);
+
+    await command.action(logger, { options: { newName: 'spfx-react', regenerateIds: true } } as any);
+    assert.deepStrictEqual(log[0], [
+      {
+        type: 'Component',
+        name: 'HelloWorldWebPart',
+        oldId: 'fe962bab-d705-48a9-9071-ab08f41e14f4',
+        newId: '00000000-0000-0000-0000-000000000001'
+      },
+      {
+        type: 'Feature',
+        name: '',
+        oldId: '450bad5d-44b6-4b21-902b-524fe24539ac',
+        newId: '00000000-0000-0000-0000-000000000002'
+      }
+    ]);
+  });
+
+  it('prefixes aliases that start with the current name of the project', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-webpart-react'));
+    sinon.stub(command as any, 'getProject').callsFake(_ => {
+      return {
+        packageJson: {
+          name: 'hello-world'
+        },
+        manifests: [
+          { path: path.join('src', 'webparts', 'helloWorld', 'HelloWorldWebPart.manifest.json'), id: 'fe962bab-d705-48a9-9071-ab08f41e14f4', alias: 'HelloWorldWebPart' }
+        ]
+      };
+    });
+    sinon.stub(fs, 'renameSync').callsFake(() => { });
+    sinon.stub((command as any), 'generateNewId').callsFake(() => '00000000-0000-0000-0000-000000000000');
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true } } as any);
+    assert.strictEqual(log[0][0].name, 'ContosoHelloWorldWebPart');
+  });
+
+  it('replaces the prefix of aliases added when the project was renamed before', async () => {
+    const projectRootPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1150-webpart-react');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectRootPath);
+    const manifest: any = { path: path.join('src', 'webparts', 'helloWorld', 'HelloWorldWebPart.manifest.json'), id: 'fe962bab-d705-48a9-9071-ab08f41e14f4', alias: 'HelloWorldWebPart' };
+    const packageJson: any = { name: 'spfx-react' };
+    sinon.stub(command as any, 'getProject').callsFake(_ => {
+      return {
+        packageJson: { ...packageJson },
+        manifests: [{ ...manifest }]
+      };
+    });
+    sinon.stub(fs, 'renameSync').callsFake(() => { });
+    sinon.stub((command as any), 'generateNewId').callsFake(() => '00000000-0000-0000-0000-000000000000');
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true } } as any);
+    assert.strictEqual(log[0][0].name, 'ContosoHelloWorldWebPart');
+
+    // rename the renamed project
+    const manifestPath: string = path.join(projectRootPath, manifest.path);
+    const getManifestContents = (): string => writeFileSyncSpy.getCalls().find(c => c.args[0] === manifestPath)!.args[1];
+    const renamedManifestContents: string = getManifestContents();
+    const originalReadFileSync = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((filePath, options) => filePath === manifestPath ? renamedManifestContents : originalReadFileSync(filePath, options));
+    packageJson.name = 'contoso';
+    manifest.alias = 'ContosoHelloWorldWebPart';
+    log = [];
+    writeFileSyncSpy.resetHistory();
+
+    await command.action(logger, { options: { newName: 'fabrikam', regenerateIds: true } } as any);
+    assert.strictEqual(log[0][0].name, 'FabrikamHelloWorldWebPart');
+    assert(getManifestContents().indexOf('"alias": "FabrikamHelloWorldWebPart"') > -1, 'alias not replaced in the manifest');
+  });
+
+  it('returns an empty map when the project has no components and features', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), projectPath));
+    sinon.stub(command as any, 'getProject').callsFake(_ => {
+      return {
+        packageJson: {
+          name: 'spfx-react'
+        }
+      };
+    });
+
+    await command.action(logger, { options: { newName: 'contoso', regenerateIds: true } } as any);
+    assert.deepStrictEqual(log[0], []);
+  });
+
   it('supports debug mode', () => {
     const options = command.options;
     let containsOption = false;
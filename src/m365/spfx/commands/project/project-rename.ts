@@ -4,8 +4,10 @@ import { v4 } from 'uuid';
 import { Logger } from '../../../../cli/Logger';
 import { CommandError } from '../../../../Command';
 import GlobalOptions from '../../../../GlobalOptions';
+import { formatting } from '../../../../utils/formatting';
 import commands from '../../commands';
 import { BaseProjectCommand } from './base-project-command';
+import { Project } from './project-model';
 
 interface CommandArgs {
   options: Options;
@@ -14,9 +16,22 @@ interface CommandArgs {
 interface Options extends GlobalOptions {
   newName: string;
   generateNewId?: boolean;
+  regenerateIds?: boolean;
+}
+
+interface IdChange {
+  type: string;
+  name: string;
+  oldId: string;
+  newId: string;
 }
 
 class SpfxProjectRenameCommand extends BaseProjectCommand {
+  // folders with dependencies and build output that don't contain
+  // references to the IDs of the project
+  private static excludedFolders: string[] = ['.git', 'node_modules', 'lib', 'dist', 'temp', 'release', path.join('sharepoint', 'solution')];
+  private static textFileExtensions: string[] = ['.json', '.js', '.ts', '.tsx', '.xml', '.md'];
+
   public static ERROR_NO_PROJECT_ROOT_FOLDER: number = 1;
 
   public get name(): string {
@@ -37,7 +52,8 @@ class SpfxProjectRenameCommand extends BaseProjectCommand {
   #initTelemetry(): void {
     this.telemetry.push((args: CommandArgs) => {
       Object.assign(this.telemetryProperties, {
-        generateNewId: args.options.generateNewId
+        generateNewId: args.options.generateNewId,
+        regenerateIds: args.options.regenerateIds
       });
     });
   }
@@ -49,6 +65,9 @@ class SpfxProjectRenameCommand extends BaseProjectCommand {
       },
       {
         option: '--generateNewId'
+      },
+      {
+        option: '--regenerateIds'
       }
     );
   }
@@ -59,11 +78,12 @@ class SpfxProjectRenameCommand extends BaseProjectCommand {
       throw new CommandError(`Couldn't find project root folder`, SpfxProjectRenameCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
     }
 
-    const packageJson: any = this.getProject(this.projectRootPath).packageJson;
+    const project: Project = this.getProject(this.projectRootPath);
+    const packageJson: any = project.packageJson;
     const projectName: string = packageJson.name;
 
     let newId: string = '';
-    if (args.options.generateNewId) {
+    if (args.options.generateNewId || args.options.regenerateIds) {
       newId = this.generateNewId();
       if (this.debug) {
         logger.logToStderr('Created new solution id');
@@ -81,6 +101,10 @@ class SpfxProjectRenameCommand extends BaseProjectCommand {
       this.replacePackageSolutionJsonContent(path.join(this.projectRootPath, 'config', 'package-solution.json'), projectName, newId, args, logger);
       this.replaceDeployAzureStorageJsonContent(path.join(this.projectRootPath, 'config', 'deploy-azure-storage.json'), args, logger);
       this.replaceReadMeContent(path.join(this.projectRootPath, 'README.md'), projectName, args, logger);
+
+      if (args.options.regenerateIds) {
+        logger.log(this.regenerateIds(project, projectName, newId, args, logger));
+      }
     }
     catch (error: any) {
       throw new CommandError(error);
@@ -91,6 +115,133 @@ class SpfxProjectRenameCommand extends BaseProjectCommand {
     return v4();
   };
 
+  /**
+   * Assigns new IDs to the solution, its components and features and prefixes
+   * the aliases of the components with the new name of the project. Updates
+   * all references in the project and returns the map of the replaced IDs
+   */
+  private regenerateIds = (project: Project, projectName: string, newId: string, args: CommandArgs, logger: Logger): IdChange[] => {
+    const idChanges: IdChange[] = [];
+    const aliasChanges: { oldAlias: string; newAlias: string; }[] = [];
+    const oldPrefix: string = formatting.toPascalCase(projectName);
+    const newPrefix: string = formatting.toPascalCase(args.options.newName);
+
+    if (project.packageSolutionJson &&
+      project.packageSolutionJson.solution &&
+      project.packageSolutionJson.solution.id) {
+      idChanges.push({
+        type: 'Solution',
+        name: args.options.newName,
+        oldId: project.packageSolutionJson.solution.id,
+        newId
+      });
+    }
+
+    (project.manifests || []).forEach(manifest => {
+      const manifestName: string = path.basename(manifest.path, '.manifest.json');
+      let alias: string = manifest.alias || '';
+      if (alias) {
+        // drop the prefix added when the project was renamed before. Aliases
+        // are generated from the same name as the manifest file, which isn't
+        // renamed, so aliases that only start with the name of the project
+        // keep it
+        const baseAlias: string = alias === `${oldPrefix}${manifestName}` ? manifestName : alias;
+        alias = `${newPrefix}${baseAlias}`;
+        if (alias !== manifest.alias) {
+          aliasChanges.push({ oldAlias: manifest.alias as string, newAlias: alias });
+        }
+      }
+
+      if (manifest.id) {
+        idChanges.push({
+          type: 'Component',
+          name: alias || manifestName,
+          oldId: manifest.id,
+          newId: this.generateNewId()
+        });
+      }
+    });
+
+    if (project.packageSolutionJson &&
+      project.packageSolutionJson.solution &&
+      project.packageSolutionJson.solution.features) {
+      project.packageSolutionJson.solution.features.forEach(feature => {
+        if (feature.id) {
+          idChanges.push({
+            type: 'Feature',
+            name: feature.title || '',
+            oldId: feature.id,
+            newId: this.generateNewId()
+          });
+        }
+      });
+    }
+
+    this.getProjectFiles(this.projectRootPath as string).forEach(filePath => {
+      if (SpfxProjectRenameCommand.textFileExtensions.indexOf(path.extname(filePath).toLowerCase()) > -1) {
+        const existingContent: string = fs.readFileSync(filePath, 'utf-8');
+        let updatedContent: string = existingContent;
+
+        idChanges.forEach(idChange => {
+          // IDs in XML files are often uppercase, so keep the original casing
+          updatedContent = updatedContent.replace(new RegExp(idChange.oldId, 'gi'), match =>
+            match === match.toLowerCase() ? idChange.newId : idChange.newId.toUpperCase());
+        });
+        aliasChanges.forEach(aliasChange => {
+          updatedContent = updatedContent
+            .replace(new RegExp(`("alias"\\s*:\\s*")${aliasChange.oldAlias}"`, 'g'), `$1${aliasChange.newAlias}"`)
+            // localized resources are named after the alias of the component
+            .replace(new RegExp(`(['"])${aliasChange.oldAlias}Strings\\1`, 'g'), `$1${aliasChange.newAlias}Strings$1`);
+        });
+
+        if (updatedContent !== existingContent) {
+          fs.writeFileSync(filePath, updatedContent, 'utf-8');
+
+          if (this.debug) {
+            logger.logToStderr(`Updated ${path.relative(this.projectRootPath as string, filePath)}`);
+          }
+        }
+      }
+
+      // files named after component IDs, like Teams icons
+      const fileName: string = path.basename(filePath);
+      const idChange: IdChange | undefined = idChanges.find(c => fileName.toLowerCase().indexOf(c.oldId.toLowerCase()) > -1);
+      if (idChange) {
+        const newFilePath: string = path.join(path.dirname(filePath), fileName.replace(new RegExp(idChange.oldId, 'i'), idChange.newId));
+        fs.renameSync(filePath, newFilePath);
+
+        if (this.debug) {
+          logger.logToStderr(`Renamed ${path.relative(this.projectRootPath as string, filePath)} to ${path.basename(newFilePath)}`);
+        }
+      }
+    });
+
+    return idChanges;
+  };
+
+  /**
+   * Returns paths of all files in the project skipping dependencies
+   * and build output
+   */
+  private getProjectFiles = (folderPath: string): string[] => {
+    const files: string[] = [];
+
+    fs.readdirSync(folderPath, { withFileTypes: true }).forEach(entry => {
+      const entryPath: string = path.join(folderPath, entry.name);
+
+      if (entry.isDirectory()) {
+        if (SpfxProjectRenameCommand.excludedFolders.indexOf(path.relative(this.projectRootPath as string, entryPath)) < 0) {
+          files.push(...this.getProjectFiles(entryPath));
+        }
+      }
+      else {
+        files.push(entryPath);
+      }
+    });
+
+    return files;
+  };
+
   private replacePackageJsonContent = (filePath: string, args: CommandArgs, logger: Logger): void => {
     if (!fs.existsSync(filePath)) {
       return;
@@ -136,7 +287,7 @@ class SpfxProjectRenameCommand extends BaseProjectCommand {
     if (updatedContent &&
       updatedContent['@microsoft/generator-sharepoint'] &&
       updatedContent['@microsoft/generator-sharepoint'].libraryId &&
-      args.options.generateNewId) {
+      newId) {
       updatedContent['@microsoft/generator-sharepoint'].libraryId = newId;
     }
 
@@ -167,7 +318,7 @@ class SpfxProjectRenameCommand extends BaseProjectCommand {
     if (updatedContent &&
       updatedContent.solution &&
       updatedContent.solution.id &&
-      args.options.generateNewId) {
+      newId) {
       updatedContent.solution.id = newId;
     }
     if (updatedContent &&
@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as sinon from 'sinon';
 import appInsights from '../../../../appInsights';
@@ -69,7 +70,10 @@ describe(commands.PROJECT_UPGRADE, () => {
       fs.statSync,
       fs.writeFileSync,
       fs.mkdirSync,
-      fsUtil.readdirR
+      fs.unlinkSync,
+      fs.copyFileSync,
+      fsUtil.readdirR,
+      process.cwd
     ]);
   });
 
@@ -2712,6 +2716,15 @@ describe(commands.PROJECT_UPGRADE, () => {
     assert(log[0].indexOf('## Findings') > -1);
   });
 
+  it('returns SARIF report with output format sarif', async () => {
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-151-webpart-react-graph'));
+
+    await command.action(logger, { options: { output: 'sarif', toVersion: '1.6.0' } } as any);
+    const sarif: any = JSON.parse(log[0]);
+    assert.strictEqual(sarif.version, '2.1.0');
+    assert(sarif.runs[0].results.length > 0);
+  });
+
   it('returns json report with output format default', async () => {
     sinon.stub(command as any, 'getProjectRoot').callsFake(_ => path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-151-webpart-react-graph'));
 
@@ -2764,6 +2777,137 @@ describe(commands.PROJECT_UPGRADE, () => {
     assert(mkDirSyncStub.notCalled, '.tours folder created');
   });
 
+  it('applies modifications to project files when the apply option is set', async () => {
+    const projectPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-141-webpart-nolib');
+    const writtenFiles: { [filePath: string]: string } = {};
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectPath);
+    sinon.stub(fs, 'writeFileSync').callsFake((filePath, data) => {
+      writtenFiles[filePath.toString()] = data as string;
+    });
+    const readFileSyncOriginal = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((filePath, options) => {
+      if (typeof writtenFiles[filePath.toString()] !== 'undefined') {
+        return writtenFiles[filePath.toString()];
+      }
+
+      return readFileSyncOriginal(filePath, options);
+    });
+    const mkdirSyncStub: sinon.SinonStub = sinon.stub(fs, 'mkdirSync').callsFake(_ => '');
+    const copyFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'copyFileSync').callsFake(_ => { });
+    const unlinkSyncStub: sinon.SinonStub = sinon.stub(fs, 'unlinkSync').callsFake(_ => { });
+
+    await command.action(logger, { options: { output: 'json', apply: true } } as any);
+    const packageJson: any = JSON.parse(writtenFiles[path.join(projectPath, 'package.json')]);
+    const yoRcJson: any = JSON.parse(writtenFiles[path.join(projectPath, '.yo-rc.json')]);
+    const remainingFindings: FindingToReport[] = log.find(l => Array.isArray(l));
+    assert.strictEqual(packageJson.dependencies['@microsoft/sp-core-library'], '1.15.2', 'sp-core-library not upgraded');
+    assert.strictEqual(typeof packageJson.devDependencies['@microsoft/sp-webpart-workbench'], 'undefined', 'sp-webpart-workbench not removed');
+    assert.strictEqual(yoRcJson['@microsoft/generator-sharepoint'].version, '1.15.2', '.yo-rc.json not updated');
+    assert(mkdirSyncStub.calledWith(path.join(projectPath, 'teams')), 'teams folder not created');
+    assert(copyFileSyncStub.called, 'Teams icons not copied');
+    assert(unlinkSyncStub.calledWith(path.join(projectPath, 'config', 'copy-assets.json')), 'copy-assets.json not removed');
+    assert.deepStrictEqual(remainingFindings.map(f => f.id), ['FN014008', 'FN007003', 'FN014007', 'FN012019', 'FN013002', 'FN021002', 'FN016004', 'FN014006', 'FN014006', 'FN017001'], 'Incorrect remaining findings');
+    assert(log.some(l => typeof l === 'string' && l.startsWith('Applied ')), 'Summary not logged');
+    assert(log.indexOf(`Run 'npm install' to install the updated dependencies.`) > -1, 'Install instruction not logged');
+  });
+
+  it('logs applied modifications in verbose mode', async () => {
+    const projectPath: string = path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-nolib');
+    sinon.stub(command as any, 'getProjectRoot').callsFake(_ => projectPath);
+    sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'mkdirSync').callsFake(_ => '');
+    sinon.stub(fs, 'unlinkSync').callsFake(_ => { });
+
+    await command.action(logger, { options: { output: 'text', toVersion: '1.15.0', apply: true, verbose: true } } as any);
+    assert(log.indexOf(`Applied FN010001 .yo-rc.json version to ./.yo-rc.json`) > -1);
+  });
+
+  it('e2e: shows findings grouped by project for upgrading projects matching the glob specified in the recursive option (json)', async () => {
+    await command.action(logger, { options: { toVersion: '1.15.0', output: 'json', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-*' } } as any);
+    const results: any[] = log.pop();
+    assert.deepStrictEqual(results.map(r => r.project), [
+      path.normalize('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-nolib'),
+      path.normalize('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-optionaldeps'),
+      path.normalize('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react'),
+      path.normalize('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react-invalidconfig')
+    ], 'Incorrect projects');
+    assert.strictEqual(results[0].findings.length, 22, 'Incorrect number of findings for the no framework web part');
+    assert.strictEqual(results[1].findings.length, 33, 'Incorrect number of findings for the web part with optional dependencies');
+    assert.strictEqual(results[2].findings.length, 24, 'Incorrect number of findings for the react web part');
+  });
+
+  it('e2e: upgrades projects in the current folder when the recursive option is specified without a value', async () => {
+    const projectPath: string = path.resolve('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react');
+    sinon.stub(process, 'cwd').returns(projectPath);
+
+    await command.action(logger, { options: { toVersion: '1.15.0', output: 'json', recursive: true } } as any);
+    const results: any[] = log.pop();
+    assert.strictEqual(results.length, 1, 'Incorrect number of projects');
+    assert.strictEqual(results[0].project, '.', 'Incorrect project');
+    assert.strictEqual(results[0].findings.length, 24, 'Incorrect number of findings');
+  });
+
+  it('e2e: returns no findings for projects that do not need to be upgraded when upgrading multiple projects (json)', async () => {
+    await command.action(logger, { options: { toVersion: '1.14.0', output: 'json', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react' } } as any);
+    assert.deepStrictEqual(log.pop(), [{ project: path.normalize('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react'), findings: [] }]);
+  });
+
+  it('e2e: shows message for projects that do not need to be upgraded when upgrading multiple projects (text)', async () => {
+    const projectPath: string = path.normalize('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react');
+
+    await command.action(logger, { options: { toVersion: '1.14.0', output: 'text', recursive: projectPath } } as any);
+    assert.strictEqual(log.pop(), `${projectPath}${os.EOL}${'='.repeat(projectPath.length)}${os.EOL}${os.EOL}Project doesn't need to be upgraded`);
+  });
+
+  it('e2e: shows report grouped by project when upgrading multiple projects (text)', async () => {
+    await command.action(logger, { options: { toVersion: '1.15.0', output: 'text', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react*' } } as any);
+    const report: string = log.pop();
+    const projectPos: number = report.indexOf(path.normalize('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react'));
+    assert(projectPos > -1, 'Project not reported');
+    assert(report.indexOf('Execute in bash') > projectPos, 'Findings not reported');
+  });
+
+  it('e2e: shows report grouped by project when upgrading multiple projects (md)', async () => {
+    await command.action(logger, { options: { toVersion: '1.15.0', output: 'md', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react*' } } as any);
+    const report: string = log.pop();
+    assert(report.indexOf(`# Upgrade project spfx-1140-webpart-react to v1.15.0${os.EOL}`) > -1, 'React web part not reported');
+    assert(report.indexOf('# Upgrade project spfx-1140-webpart-react-invalidconfig to v1.15.0') > -1, 'Invalid project not reported');
+  });
+
+  it('e2e: returns findings of all projects in a single SARIF log when upgrading multiple projects', async () => {
+    await command.action(logger, { options: { toVersion: '1.15.0', output: 'sarif', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react' } } as any);
+    const sarif: any = JSON.parse(log.pop());
+    assert.strictEqual(sarif.runs[0].results.length, 24, 'Incorrect number of results');
+    assert(sarif.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri.startsWith('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react/'), 'Incorrect file path');
+  });
+
+  it('e2e: returns empty SARIF log when none of the projects need to be upgraded', async () => {
+    await command.action(logger, { options: { toVersion: '1.14.0', output: 'sarif', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react' } } as any);
+    const sarif: any = JSON.parse(log.pop());
+    assert.strictEqual(sarif.runs[0].results.length, 0);
+  });
+
+  it('e2e: writes CodeTour upgrade report to each project that needs to be upgraded when upgrading multiple projects', async () => {
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(_ => { });
+    sinon.stub(fs, 'mkdirSync').callsFake(_ => '');
+
+    await command.action(logger, { options: { toVersion: '1.14.0', output: 'tour', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react' } } as any);
+    assert.strictEqual(writeFileSyncStub.callCount, 0, 'Tour file created for a project that does not need to be upgraded');
+
+    await command.action(logger, { options: { toVersion: '1.15.0', output: 'tour', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react' } } as any);
+    assert(writeFileSyncStub.calledWith(path.join(process.cwd(), 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react', '.tours', 'upgrade.tour')), 'Tour file not created');
+  });
+
+  it('e2e: returns errors of projects that cannot be upgraded when upgrading multiple projects', async () => {
+    await command.action(logger, { options: { toVersion: '1.13.0', output: 'json', recursive: 'src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react' } } as any);
+    assert.deepStrictEqual(log.pop(), [{ project: path.normalize('src/m365/spfx/commands/project/test-projects/spfx-1140-webpart-react'), error: 'You cannot downgrade a project' }]);
+  });
+
+  it('shows error when no projects found in the folder specified in the recursive option', async () => {
+    await assert.rejects(command.action(logger, { options: { recursive: 'src/m365/spfx/commands/project/project-model' } } as any),
+      new CommandError(`Couldn't find any SharePoint Framework projects`, 1));
+  });
+
   it('supports debug mode', () => {
     const options = command.options;
     let containsOption = false;
@@ -2824,4 +2968,14 @@ describe(commands.PROJECT_UPGRADE, () => {
     const actual = await command.validate({ options: { shell: 'cmd' } }, commandInfo);
     assert.strictEqual(actual, true);
   });
+
+  it('passes validation when tour output specified', async () => {
+    const actual = await command.validate({ options: { output: 'tour' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('passes validation when sarif output specified', async () => {
+    const actual = await command.validate({ options: { output: 'sarif' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
 });
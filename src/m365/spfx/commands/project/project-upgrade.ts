@@ -10,7 +10,7 @@ import { fsUtil } from '../../../../utils/fsUtil';
 import { packageManager } from '../../../../utils/packageManager';
 import { Dictionary, Hash } from '../../../../utils/types';
 import commands from '../../commands';
-import { BaseProjectCommand } from './base-project-command';
+import { BaseProjectCommand, ProjectResult } from './base-project-command';
 import { Project } from './project-model';
 import { FN017001_MISC_npm_dedupe } from './project-upgrade/rules/FN017001_MISC_npm_dedupe';
 import { Finding, FindingToReport, FindingTour, FindingTourStep } from './report-model';
@@ -26,6 +26,8 @@ interface Options extends GlobalOptions {
   preview?: boolean;
   toVersion?: string;
   shell?: string;
+  apply?: boolean;
+  recursive?: string | boolean;
 }
 
 class SpfxProjectUpgradeCommand extends BaseProjectCommand {
@@ -78,6 +80,10 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
   public static ERROR_UNSUPPORTED_FROM_VERSION: number = 4;
   public static ERROR_NO_DOWNGRADE: number = 5;
 
+  protected get allowedOutputs(): string[] {
+    return ['json', 'text', 'md', 'tour', 'sarif'];
+  }
+
   public get name(): string {
     return commands.PROJECT_UPGRADE;
   }
@@ -100,7 +106,9 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
         toVersion: args.options.toVersion || this.supportedVersions[this.supportedVersions.length - 1],
         packageManager: args.options.packageManager || 'npm',
         shell: args.options.shell || 'bash',
-        preview: args.options.preview
+        preview: args.options.preview,
+        apply: !!args.options.apply,
+        recursive: typeof args.options.recursive !== 'undefined'
       });
       // uncomment to support upgrading to preview releases
       if (prerelease(this.telemetryProperties.toVersion) && !args.options.preview) {
@@ -124,12 +132,18 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
       },
       {
         option: '--preview'
+      },
+      {
+        option: '--apply'
+      },
+      {
+        option: '--recursive [recursive]'
       }
     );
 
     this.options.forEach(o => {
       if (o.option.indexOf('--output') > -1) {
-        o.autocomplete = ['json', 'text', 'md', 'tour'];
+        o.autocomplete = this.allowedOutputs;
       }
     });
   }
@@ -155,11 +169,90 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
   }
 
   public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    if (typeof args.options.recursive !== 'undefined') {
+      await this.upgradeProjects(logger, args);
+      return;
+    }
+
     this.projectRootPath = this.getProjectRoot(process.cwd());
     if (this.projectRootPath === null) {
       throw new CommandError(`Couldn't find project root folder`, SpfxProjectUpgradeCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
     }
 
+    this.setUpgradeOptions(args);
+
+    const findingsToReport: FindingToReport[] | undefined = this.getFindingsToReport(logger, args);
+    if (!findingsToReport) {
+      logger.log(`Project doesn't need to be upgraded`);
+      return;
+    }
+
+    switch (args.options.output) {
+      case 'text':
+        logger.log(this.getTextReport(findingsToReport));
+        break;
+      case 'json':
+        logger.log(findingsToReport);
+        break;
+      case 'tour':
+        this.writeReportTourFolder(this.getTourReport(findingsToReport));
+        break;
+      case 'md':
+        logger.log(this.getMdReport(findingsToReport));
+        break;
+      case 'sarif':
+        logger.log(this.getSarifReport(findingsToReport));
+        break;
+      default:
+        logger.log(findingsToReport);
+    }
+  }
+
+  private async upgradeProjects(logger: Logger, args: CommandArgs): Promise<void> {
+    const projectRoots: string[] = this.getProjectRoots(this.getRecursiveSearchPath(args.options.recursive as string | boolean));
+    if (projectRoots.length === 0) {
+      throw new CommandError(`Couldn't find any SharePoint Framework projects`, SpfxProjectUpgradeCommand.ERROR_NO_PROJECT_ROOT_FOLDER);
+    }
+
+    this.setUpgradeOptions(args);
+
+    const results: ProjectResult<FindingToReport[] | undefined>[] = await this.getProjectResults(projectRoots, async () => {
+      this.allFindings = [];
+      return this.getFindingsToReport(logger, args);
+    });
+
+    switch (args.options.output) {
+      case 'text':
+      case 'md':
+        logger.log(this.getProjectsReport(results, args.options.output, (findings: FindingToReport[] | undefined) => {
+          if (!findings) {
+            return `Project doesn't need to be upgraded`;
+          }
+
+          return args.options.output === 'md' ? this.getMdReport(findings) : this.getTextReport(findings);
+        }));
+        break;
+      case 'tour':
+        this.logProjectErrors(results, logger);
+        results
+          .filter(r => r.result)
+          .forEach(r => {
+            this.projectRootPath = r.root;
+            this.writeReportTourFolder(this.getTourReport(r.result as FindingToReport[]));
+          });
+        break;
+      case 'sarif':
+        this.logProjectErrors(results, logger);
+        logger.log(this.getProjectsSarifReport(results.map(r => Object.assign({}, r, { result: r.result || [] }))));
+        break;
+      default:
+        logger.log(results.map(r => typeof r.error === 'undefined' ?
+          { project: r.project, findings: r.result || [] } :
+          { project: r.project, error: r.error }));
+    }
+  }
+
+  private setUpgradeOptions(args: CommandArgs): void {
     this.toVersion = args.options.toVersion ? args.options.toVersion : this.supportedVersions[this.supportedVersions.length - 1];
     // uncomment to support upgrading to preview releases
     if (!args.options.toVersion &&
@@ -177,6 +270,13 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
     if (this.supportedVersions.indexOf(this.toVersion) < 0) {
       throw new CommandError(`CLI for Microsoft 365 doesn't support upgrading SharePoint Framework projects to version ${this.toVersion}. Supported versions are ${this.supportedVersions.join(', ')}`, SpfxProjectUpgradeCommand.ERROR_UNSUPPORTED_TO_VERSION);
     }
+  }
+
+  /**
+   * Returns findings to upgrade the current project or undefined if the
+   * project doesn't need to be upgraded
+   */
+  private getFindingsToReport(logger: Logger, args: CommandArgs): FindingToReport[] | undefined {
 
     this.projectVersion = this.getProjectVersion();
     if (!this.projectVersion) {
@@ -194,14 +294,13 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
     }
 
     if (pos === posTo) {
-      logger.log(`Project doesn't need to be upgraded`);
-      return;
+      return undefined;
     }
 
     if (this.verbose) {
       logger.logToStderr('Collecting project...');
     }
-    const project: Project = this.getProject(this.projectRootPath);
+    const project: Project = this.getProject(this.projectRootPath as string);
 
     if (this.debug) {
       logger.logToStderr('Collected project');
@@ -228,7 +327,7 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
     }
 
     // dedupe
-    const findings: Finding[] = this.allFindings.filter((f: Finding, i: number) => {
+    let findings: Finding[] = this.allFindings.filter((f: Finding, i: number) => {
       const firstFindingPos: number = this.allFindings.findIndex(f1 => f1.id === f.id);
       return i === firstFindingPos;
     });
@@ -261,6 +360,12 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
         }
       });
 
+    if (args.options.apply) {
+      // findings are sorted from the most recent version, so apply them in
+      // reverse order to follow the upgrade path
+      findings = this.applyFindings(findings.reverse(), this.packageManager, logger).reverse();
+    }
+
     // flatten
     const findingsToReport: FindingToReport[] = ([] as FindingToReport[]).concat.apply([], findings.map(f => {
       return f.occurrences.map(o => {
@@ -338,22 +443,7 @@ class SpfxProjectUpgradeCommand extends BaseProjectCommand {
       }
     });
 
-    switch (args.options.output) {
-      case 'text':
-        logger.log(this.getTextReport(findingsToReport));
-        break;
-      case 'json':
-        logger.log(findingsToReport);
-        break;
-      case 'tour':
-        this.writeReportTourFolder(this.getTourReport(findingsToReport, project));
-        break;
-      case 'md':
-        logger.log(this.getMdReport(findingsToReport));
-        break;
-      default:
-        logger.log(findingsToReport);
-    }
+    return findingsToReport;
   }
 
   private writeReportTourFolder(findingsToReport: any): void {
@@ -470,7 +560,7 @@ ${f.resolution}
     return s.join('').trim();
   }
 
-  private getTourReport(findings: FindingToReport[], project: Project): string {
+  private getTourReport(findings: FindingToReport[]): string {
     const tourFindings: FindingTour = {
       title: `Upgrade project ${path.basename(this.projectRootPath as string)} to v${this.toVersion}`,
       steps: []
@@ -496,7 +586,7 @@ ${f.resolution}
       const sev: string = f.severity.toUpperCase();
 
       // Clean up the file name
-      let file: string | undefined = fs.existsSync(path.join(project.path, f.file)) ? f.file : undefined;
+      let file: string | undefined = fs.existsSync(path.join(this.projectRootPath as string, f.file)) ? f.file : undefined;
 
       if (file !== undefined) {
         // CodeTour expects the files to be relative from root (i.e.: no './')
@@ -29,6 +29,10 @@ export class FN008003_CFG_TSL_preferConst extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return false;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
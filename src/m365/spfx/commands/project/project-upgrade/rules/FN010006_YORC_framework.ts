@@ -27,6 +27,10 @@ export class FN010006_YORC_framework extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return this.add;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
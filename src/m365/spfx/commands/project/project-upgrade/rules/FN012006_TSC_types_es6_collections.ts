@@ -29,6 +29,10 @@ export class FN012006_TSC_types_es6_collections extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return this.add;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
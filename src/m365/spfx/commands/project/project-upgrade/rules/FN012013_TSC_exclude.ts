@@ -30,6 +30,10 @@ export class FN012013_TSC_exclude extends JsonRule {
     }, null, 2);
   }
 
+  get canApply(): boolean {
+    return this.add;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
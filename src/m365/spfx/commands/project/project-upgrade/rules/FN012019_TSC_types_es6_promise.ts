@@ -29,6 +29,10 @@ export class FN012019_TSC_types_es6_promise extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return this.add;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
@@ -25,6 +25,10 @@ export class FN014001_CODE_settings_jsonSchemas extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return this.add;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
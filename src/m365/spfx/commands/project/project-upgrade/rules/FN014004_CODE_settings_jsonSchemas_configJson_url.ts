@@ -32,6 +32,10 @@ export class FN014004_CODE_settings_jsonSchemas_configJson_url extends JsonRule
 }`;
   }
 
+  get canApply(): boolean {
+    return false;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
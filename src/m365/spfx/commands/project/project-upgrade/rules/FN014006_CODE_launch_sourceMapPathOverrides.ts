@@ -32,6 +32,10 @@ export class FN014006_CODE_launch_sourceMapPathOverrides extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return false;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
@@ -30,6 +30,10 @@ export class FN014008_CODE_launch_hostedWorkbench_type extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return false;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
@@ -25,6 +25,10 @@ export class FN019001_TSL_rulesDirectory extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return false;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
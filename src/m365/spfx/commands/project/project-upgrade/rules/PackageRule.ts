@@ -21,6 +21,10 @@ export abstract class PackageRule extends JsonRule {
 }`;
   }
 
+  get canApply(): boolean {
+    return this.add;
+  }
+
   get resolutionType(): string {
     return 'json';
   }
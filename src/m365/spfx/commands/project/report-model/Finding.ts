@@ -1,6 +1,7 @@
 import { Occurrence } from "./";
 
 export interface Finding {
+  canApply?: boolean;
   description: string;
   id: string;
   occurrences: Occurrence[];
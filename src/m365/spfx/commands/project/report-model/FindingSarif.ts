@@ -0,0 +1,55 @@
+export interface FindingSarifRule {
+  id: string;
+  name: string;
+  shortDescription: {
+    text: string;
+  };
+  fullDescription: {
+    text: string;
+  };
+  defaultConfiguration: {
+    level: string;
+  };
+}
+
+export interface FindingSarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: string;
+  message: {
+    text: string;
+  };
+  locations?: {
+    physicalLocation: {
+      artifactLocation: {
+        uri: string;
+        uriBaseId: string;
+      };
+      region?: {
+        startLine: number;
+        startColumn?: number;
+      };
+    };
+  }[];
+}
+
+export interface FindingSarif {
+  $schema: string;
+  version: string;
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: FindingSarifRule[];
+      };
+    };
+    originalUriBaseIds: {
+      [id: string]: {
+        uri: string;
+      };
+    };
+    results: FindingSarifResult[];
+  }[];
+}
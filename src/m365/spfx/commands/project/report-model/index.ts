@@ -1,4 +1,5 @@
 export * from './Finding';
+export * from './FindingSarif';
 export * from './FindingToReport';
 export * from './FindingTour';
 export * from './FindingTourStep';
@@ -572,10 +572,10 @@ describe(commands.DOCTOR, () => {
     assert(loggerLogSpy.calledWith(getStatus(0, 'Supported in SP2019')));
   });
 
-  it('fails validation if output does not equal text.', async () => {
+  it('fails validation if output is not text or json', async () => {
     const actual = await command.validate({
       options: {
-        output: 'json'
+        output: 'csv'
       }
     }, commandInfo);
 
@@ -923,6 +923,147 @@ describe(commands.DOCTOR, () => {
     assert(loggerLogSpy.calledWith(getStatus(0, 'SharePoint Framework v1.10.0')), 'Invalid SharePoint Framework version reported');
   });
 
+  it('returns all checks in JSON output', async () => {
+    sandbox = sinon.createSandbox();
+    sandbox.stub(process, 'version').value('v16.15.0');
+    sinon.stub(child_process, 'exec').callsFake((file, callback: any) => {
+      const packageName: string = file.split(' ')[2];
+      switch (packageName) {
+        case '@microsoft/sp-core-library':
+          callback(undefined, packageVersionResponse(packageName, '1.15.2'));
+          break;
+        case 'yo':
+          callback(undefined, packageVersionResponse(packageName, '4.3.0'));
+          break;
+        case 'gulp-cli':
+          callback(undefined, packageVersionResponse(packageName, '2.3.0'));
+          break;
+        case 'typescript':
+          callback(undefined, packageVersionResponse(packageName, '4.5.5'));
+          break;
+        default:
+          callback(new Error(`${file} ENOENT`));
+      }
+      return {} as child_process.ChildProcess;
+    });
+
+    await command.action(logger, { options: { output: 'json', env: 'spo' } });
+    assert.deepStrictEqual(log, [[
+      { check: 'SharePoint Framework', passed: true, message: 'SharePoint Framework v1.15.2', version: '1.15.2' },
+      { check: 'SharePoint', passed: true, message: 'Supported in SPO' },
+      { check: 'Node', passed: true, message: 'Node v16.15.0', version: '16.15.0', required: '^12.13 || ^14.15 || ^16.13' },
+      { check: 'yo', passed: true, message: 'yo v4.3.0', version: '4.3.0', required: '^4' },
+      { check: 'gulp-cli', passed: true, message: 'gulp-cli v2.3.0', version: '2.3.0', required: '^1 || ^2' },
+      { check: 'typescript', passed: false, message: 'typescript v4.5.5 installed in the project', version: '4.5.5', fix: 'npm un typescript' }
+    ]]);
+  });
+
+  it('returns checks performed before the failed check in JSON output', async () => {
+    sinon.stub(child_process, 'exec').callsFake((file, callback: any) => {
+      const packageName: string = file.split(' ')[2];
+      switch (packageName) {
+        case '@microsoft/sp-core-library':
+          callback(undefined, packageVersionResponse(packageName, '1.5.0'));
+          return {} as child_process.ChildProcess;
+      }
+
+      callback(new Error(`${file} ENOENT`));
+      return {} as child_process.ChildProcess;
+    });
+
+    await assert.rejects(command.action(logger, { options: { output: 'json', env: 'sp2019' } } as any), new CommandError('SharePoint Framework v1.5.0 is not supported in SP2019'));
+    assert.deepStrictEqual(log, [[
+      { check: 'SharePoint Framework', passed: true, message: 'SharePoint Framework v1.5.0', version: '1.5.0' },
+      { check: 'SharePoint', passed: false, message: 'Not supported in SP2019', fix: 'Use SharePoint Framework v1.4.1' }
+    ]]);
+  });
+
+  it('checks the latest version of SharePoint Framework when latest specified', async () => {
+    sandbox = sinon.createSandbox();
+    sandbox.stub(process, 'version').value('v16.15.0');
+    sinon.stub(child_process, 'exec').callsFake((file, callback: any) => {
+      const packageName: string = file.split(' ')[2];
+      switch (packageName) {
+        case '@microsoft/generator-sharepoint':
+          callback(undefined, packageVersionResponse(packageName, '1.14.0'));
+          break;
+        default:
+          callback(new Error(`${file} ENOENT`));
+      }
+      return {} as child_process.ChildProcess;
+    });
+
+    await command.action(logger, { options: { spfxVersion: 'latest' } });
+    assert(loggerLogSpy.calledWith(getStatus(1, 'SharePoint Framework v1.14.0 found, v1.15.2 required')), 'Invalid SharePoint Framework version reported');
+    assert(loggerLogSpy.calledWith('- npm i -g @microsoft/generator-sharepoint@1.15.2'), 'No fix provided');
+  });
+
+  it('lists SharePoint Framework versions in the specified range supported by the installed tools', async () => {
+    sandbox = sinon.createSandbox();
+    sandbox.stub(process, 'version').value('v16.15.0');
+    sinon.stub(child_process, 'exec').callsFake((file, callback: any) => {
+      const packageName: string = file.split(' ')[2];
+      switch (packageName) {
+        case 'yo':
+          callback(undefined, packageVersionResponse(packageName, '4.3.0'));
+          break;
+        case 'gulp-cli':
+          callback(undefined, packageVersionResponse(packageName, '2.3.0'));
+          break;
+        default:
+          callback(new Error(`${file} ENOENT`));
+      }
+      return {} as child_process.ChildProcess;
+    });
+
+    await command.action(logger, { options: { spfxVersion: '>=1.13.1' } });
+    assert(loggerLogSpy.calledWith(getStatus(1, 'SharePoint Framework v1.13.1: Node v16.15.0 found, v^12 || ^14 required')), 'Invalid support reported for v1.13.1');
+    assert(loggerLogSpy.calledWith(getStatus(1, 'SharePoint Framework v1.14.0: Node v16.15.0 found, v^12 || ^14 required')), 'Invalid support reported for v1.14.0');
+    assert(loggerLogSpy.calledWith(getStatus(0, 'SharePoint Framework v1.15.2')), 'Invalid support reported for v1.15.2');
+    assert(loggerLogSpy.neverCalledWith(getStatus(0, 'SharePoint Framework v1.16.0-beta.1')), 'Prerelease version reported');
+  });
+
+  it('returns SharePoint Framework versions in the specified range with their checks in JSON output', async () => {
+    sandbox = sinon.createSandbox();
+    sandbox.stub(process, 'version').value('v16.15.0');
+    sinon.stub(child_process, 'exec').callsFake((file, callback: any) => {
+      const packageName: string = file.split(' ')[2];
+      switch (packageName) {
+        case 'yo':
+          callback(undefined, packageVersionResponse(packageName, '4.3.0'));
+          break;
+        default:
+          callback(new Error(`${file} ENOENT`));
+      }
+      return {} as child_process.ChildProcess;
+    });
+
+    await assert.rejects(command.action(logger, { options: { spfxVersion: '1.15.x', env: 'spo', output: 'json' } }),
+      new CommandError('None of the SharePoint Framework versions in range 1.15.x is supported by the tools installed on your machine'));
+    assert.deepStrictEqual(log, [[
+      {
+        spfxVersion: '1.15.0',
+        supported: false,
+        checks: [
+          { check: 'SharePoint', passed: true, message: 'Supported in SPO' },
+          { check: 'Node', passed: true, message: 'Node v16.15.0', version: '16.15.0', required: '^12.13 || ^14.15 || ^16.13' },
+          { check: 'yo', passed: true, message: 'yo v4.3.0', version: '4.3.0', required: '^4' },
+          { check: 'gulp-cli', passed: false, message: 'gulp-cli not found', required: '^1 || ^2', fix: 'npm i -g gulp-cli@2' }
+        ]
+      },
+      {
+        spfxVersion: '1.15.2',
+        supported: false,
+        checks: [
+          { check: 'SharePoint', passed: true, message: 'Supported in SPO' },
+          { check: 'Node', passed: true, message: 'Node v16.15.0', version: '16.15.0', required: '^12.13 || ^14.15 || ^16.13' },
+          { check: 'yo', passed: true, message: 'yo v4.3.0', version: '4.3.0', required: '^4' },
+          { check: 'gulp-cli', passed: false, message: 'gulp-cli not found', required: '^1 || ^2', fix: 'npm i -g gulp-cli@2' }
+        ]
+      }
+    ]]);
+  });
+
   it('supports specifying environment', () => {
     const options = command.options;
     let containsOption = false;
@@ -974,6 +1115,26 @@ describe(commands.DOCTOR, () => {
     assert.notStrictEqual(actual, true);
   });
 
+  it('passes validation when latest version of SPFx specified', async () => {
+    const actual = await command.validate({ options: { spfxVersion: 'latest' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('passes validation when range of SPFx versions specified', async () => {
+    const actual = await command.validate({ options: { spfxVersion: '^1.14' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('fails validation when range of SPFx versions without supported versions specified', async () => {
+    const actual = await command.validate({ options: { spfxVersion: '^2' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation when invalid range of SPFx versions specified', async () => {
+    const actual = await command.validate({ options: { spfxVersion: 'foo' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
   it('fails validation when supported version of SPFx prefixed with v specified', async () => {
     const actual = await command.validate({ options: { spfxVersion: 'v1.15.2' } }, commandInfo);
     assert.notStrictEqual(actual, true);
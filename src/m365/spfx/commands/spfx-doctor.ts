@@ -1,7 +1,8 @@
 import * as chalk from 'chalk';
 import * as child_process from 'child_process';
-import { satisfies } from 'semver';
+import { compare, prerelease, satisfies, valid, validRange } from 'semver';
 import { Logger } from '../../../cli/Logger';
+import { CommandError } from '../../../Command';
 import GlobalOptions from '../../../GlobalOptions';
 import AnonymousCommand from '../../base/AnonymousCommand';
 import commands from '../commands';
@@ -33,14 +34,6 @@ enum PackageSearchMode {
   LocalAndGlobal
 }
 
-/**
- * Is the particular check optional or required
- */
-enum OptionalOrRequired {
-  Optional,
-  Required
-}
-
 /**
  * Should the method continue or fail on a rejected Promise
  */
@@ -70,6 +63,39 @@ enum SharePointVersion {
   All = ~(~0 << 3)
 }
 
+/**
+ * Result of a single check
+ */
+interface SpfxDoctorCheck {
+  /**
+   * Name of the checked tool, eg. Node
+   */
+  check: string;
+  passed: boolean;
+  message: string;
+  /**
+   * Version of the tool found on the machine
+   */
+  version?: string;
+  /**
+   * Required version range in semver
+   */
+  required?: string;
+  /**
+   * What to do to fix it if the check failed
+   */
+  fix?: string;
+}
+
+/**
+ * Which checks passed for the particular version of SharePoint Framework
+ */
+interface SpfxVersionSupport {
+  spfxVersion: string;
+  supported: boolean;
+  checks: SpfxDoctorCheck[];
+}
+
 interface SpfxVersionPrerequisites {
   gulpCli: VersionCheck;
   node: VersionCheck;
@@ -78,6 +104,7 @@ interface SpfxVersionPrerequisites {
 }
 
 class SpfxDoctorCommand extends AnonymousCommand {
+  private output: string = 'text';
   private readonly versions: { [version: string]: SpfxVersionPrerequisites } = {
     '1.0.0': {
       gulpCli: {
@@ -457,7 +484,7 @@ class SpfxDoctorCommand extends AnonymousCommand {
   };
 
   protected get allowedOutputs(): string[] {
-    return ['text'];
+    return ['text', 'json'];
   }
 
   public get name(): string {
@@ -493,7 +520,7 @@ class SpfxDoctorCommand extends AnonymousCommand {
       },
       {
         option: '-v, --spfxVersion [spfxVersion]',
-        autocomplete: Object.keys(this.versions)
+        autocomplete: ['latest'].concat(Object.keys(this.versions))
       }
     );
   }
@@ -508,10 +535,11 @@ class SpfxDoctorCommand extends AnonymousCommand {
           }
         }
 
-        if (args.options.spfxVersion) {
-          if (!this.versions[args.options.spfxVersion]) {
-            return `${args.options.spfxVersion} is not a supported SharePoint Framework version. Supported versions are ${Object.keys(this.versions).join(', ')}`;
-          }
+        if (args.options.spfxVersion &&
+          !this.versions[args.options.spfxVersion] &&
+          args.options.spfxVersion !== 'latest' &&
+          (valid(args.options.spfxVersion) || this.getVersionsInRange(args.options.spfxVersion).length === 0)) {
+          return `${args.options.spfxVersion} is not a supported SharePoint Framework version or range. Supported versions are ${Object.keys(this.versions).join(', ')}`;
         }
 
         return true;
@@ -524,76 +552,131 @@ class SpfxDoctorCommand extends AnonymousCommand {
       args.options.output = 'text';
     }
 
-    logger.log(' ');
-    logger.log('CLI for Microsoft 365 SharePoint Framework doctor');
-    logger.log('Verifying configuration of your system for working with the SharePoint Framework');
-    logger.log(' ');
+    this.output = args.options.output;
+
+    if (this.output === 'text') {
+      logger.log(' ');
+      logger.log('CLI for Microsoft 365 SharePoint Framework doctor');
+      logger.log('Verifying configuration of your system for working with the SharePoint Framework');
+      logger.log(' ');
+    }
+
+    if (args.options.spfxVersion &&
+      !this.versions[args.options.spfxVersion] &&
+      args.options.spfxVersion !== 'latest') {
+      await this.checkVersionsInRange(args.options.spfxVersion, args, logger);
+      return;
+    }
 
     let spfxVersion: string = '';
     let prerequisites: SpfxVersionPrerequisites;
-    const fixes: string[] = [];
+    const checks: SpfxDoctorCheck[] = [];
 
     try {
-      spfxVersion = args.options.spfxVersion ?? await this.getSharePointFrameworkVersion(logger);
+      spfxVersion = args.options.spfxVersion === 'latest' ?
+        this.getLatestVersion() :
+        args.options.spfxVersion ?? await this.getSharePointFrameworkVersion(logger);
 
       if (!spfxVersion) {
-        logger.log(this.getStatus(CheckStatus.Failure, `SharePoint Framework`));
+        this.logCheck({ check: 'SharePoint Framework', passed: false, message: `SharePoint Framework` }, checks, logger);
         throw `SharePoint Framework not found`;
       }
 
       prerequisites = this.versions[spfxVersion];
       if (!prerequisites) {
-        logger.log(this.getStatus(CheckStatus.Failure, `SharePoint Framework v${spfxVersion}`));
+        this.logCheck({ check: 'SharePoint Framework', passed: false, message: `SharePoint Framework v${spfxVersion}`, version: spfxVersion }, checks, logger);
         throw `spfx doctor doesn't support SPFx v${spfxVersion} at this moment`;
       }
 
       if (args.options.spfxVersion) {
-        await this.checkSharePointFrameworkVersion(args.options.spfxVersion, fixes, logger);
+        await this.checkSharePointFrameworkVersion(spfxVersion, checks, logger);
       }
       else {
         // spfx was detected and if we are here, it means that we support it
-        logger.log(this.getStatus(CheckStatus.Success, `SharePoint Framework v${spfxVersion}`));
+        this.logCheck({ check: 'SharePoint Framework', passed: true, message: `SharePoint Framework v${spfxVersion}`, version: spfxVersion }, checks, logger);
       }
 
-      await this.checkSharePointCompatibility(spfxVersion, prerequisites, args, fixes, logger);
-      await this.checkNodeVersion(prerequisites, fixes, logger);
-      await this.checkYo(prerequisites, fixes, logger);
-      await this.checkGulp(fixes, logger);
-      await this.checkGulpCli(prerequisites, fixes, logger);
-      await this.checkTypeScript(fixes, logger);
+      await this.checkSharePointCompatibility(spfxVersion, prerequisites, args, checks, logger);
+      await this.checkNodeVersion(prerequisites, checks, logger);
+      await this.checkYo(prerequisites, checks, logger);
+      await this.checkGulp(checks, logger);
+      await this.checkGulpCli(prerequisites, checks, logger);
+      await this.checkTypeScript(checks, logger);
 
-      if (fixes.length > 0) {
-        logger.log(' ');
-        logger.log('Recommended fixes:');
-        logger.log(' ');
-        fixes.forEach(f => logger.log(`- ${f}`));
+      if (this.output === 'text' && checks.some(c => c.fix)) {
         logger.log(' ');
       }
+
+      this.logReport(checks, logger);
     }
     catch (err: any) {
-      logger.log(' ');
-
-      if (fixes.length > 0) {
-        logger.log('Recommended fixes:');
-        logger.log(' ');
-        fixes.forEach(f => logger.log(`- ${f}`));
+      if (this.output === 'text') {
         logger.log(' ');
       }
+
+      this.logReport(checks, logger);
       this.handleRejectedPromise(err);
     }
   }
 
-  private checkSharePointCompatibility(spfxVersion: string, prerequisites: SpfxVersionPrerequisites, args: CommandArgs, fixes: string[], logger: Logger): Promise<void> {
+  /**
+   * Checks which of the SharePoint Framework versions in the specified range
+   * are supported by the tools installed on the machine. Doesn't require
+   * a SharePoint Framework project so that it can be used to verify build
+   * agents
+   */
+  private async checkVersionsInRange(range: string, args: CommandArgs, logger: Logger): Promise<void> {
+    const nodeVersion: string = this.getNodeVersion();
+    const yoVersion: string = await this.getPackageVersion('yo', PackageSearchMode.GlobalOnly, HandlePromise.Continue, logger);
+    const gulpCliVersion: string = await this.getPackageVersion('gulp-cli', PackageSearchMode.GlobalOnly, HandlePromise.Continue, logger);
+
+    const results: SpfxVersionSupport[] = this.getVersionsInRange(range).map(spfxVersion => {
+      const prerequisites: SpfxVersionPrerequisites = this.versions[spfxVersion];
+      const checks: SpfxDoctorCheck[] = [];
+
+      if (args.options.env) {
+        checks.push(this.getSharePointCompatibilityCheck(prerequisites, this.spVersionStringToEnum(args.options.env) as SharePointVersion));
+      }
+
+      checks.push(
+        this.getVersionCheck('Node', nodeVersion, prerequisites.node),
+        this.getVersionCheck('yo', yoVersion, prerequisites.yo),
+        this.getVersionCheck('gulp-cli', gulpCliVersion, prerequisites.gulpCli)
+      );
+
+      return {
+        spfxVersion,
+        supported: checks.every(c => c.passed),
+        checks
+      };
+    });
+
+    if (this.output === 'json') {
+      logger.log(results);
+    }
+    else {
+      results.forEach(r => {
+        const failedChecks: SpfxDoctorCheck[] = r.checks.filter(c => !c.passed);
+        logger.log(this.getStatus(r.supported ? CheckStatus.Success : CheckStatus.Failure, `SharePoint Framework v${r.spfxVersion}${r.supported ? '' : `: ${failedChecks.map(c => c.message).join(', ')}`}`));
+      });
+      logger.log(' ');
+    }
+
+    if (!results.some(r => r.supported)) {
+      throw new CommandError(`None of the SharePoint Framework versions in range ${range} is supported by the tools installed on your machine`);
+    }
+  }
+
+  private checkSharePointCompatibility(spfxVersion: string, prerequisites: SpfxVersionPrerequisites, args: CommandArgs, checks: SpfxDoctorCheck[], logger: Logger): Promise<void> {
     return new Promise<void>((resolve: () => void, reject: (error: string) => void): void => {
       if (args.options.env) {
         const sp: SharePointVersion = this.spVersionStringToEnum(args.options.env) as SharePointVersion;
-        if ((prerequisites.sp & sp) === sp) {
-          logger.log(this.getStatus(CheckStatus.Success, `Supported in ${SharePointVersion[sp]}`));
+        const check: SpfxDoctorCheck = this.getSharePointCompatibilityCheck(prerequisites, sp);
+        this.logCheck(check, checks, logger);
+        if (check.passed) {
           resolve();
         }
         else {
-          logger.log(this.getStatus(CheckStatus.Failure, `Not supported in ${SharePointVersion[sp]}`));
-          fixes.push(`Use SharePoint Framework v${(sp === SharePointVersion.SP2016 ? '1.1' : '1.4.1')}`);
           reject(`SharePoint Framework v${spfxVersion} is not supported in ${SharePointVersion[sp]}`);
         }
       }
@@ -603,15 +686,15 @@ class SpfxDoctorCommand extends AnonymousCommand {
     });
   }
 
-  private checkNodeVersion(prerequisites: SpfxVersionPrerequisites, fixes: string[], logger: Logger): Promise<void> {
+  private checkNodeVersion(prerequisites: SpfxVersionPrerequisites, checks: SpfxDoctorCheck[], logger: Logger): Promise<void> {
     return Promise
       .resolve(this.getNodeVersion())
       .then((nodeVersion: string): void => {
-        this.checkStatus('Node', nodeVersion, prerequisites.node, OptionalOrRequired.Required, fixes, logger);
+        this.logCheck(this.getVersionCheck('Node', nodeVersion, prerequisites.node), checks, logger);
       });
   }
 
-  private checkSharePointFrameworkVersion(spfxVersionRequested: string, fixes: string[], logger: Logger): Promise<void> {
+  private checkSharePointFrameworkVersion(spfxVersionRequested: string, checks: SpfxDoctorCheck[], logger: Logger): Promise<void> {
     return this
       .getPackageVersion('@microsoft/generator-sharepoint', PackageSearchMode.GlobalOnly, HandlePromise.Continue, logger)
       .then((spfxVersionDetected: string): void => {
@@ -619,69 +702,102 @@ class SpfxDoctorCommand extends AnonymousCommand {
           range: spfxVersionRequested,
           fix: `npm i -g @microsoft/generator-sharepoint@${spfxVersionRequested}`
         };
-        if (spfxVersionDetected) {
-          this.checkStatus(`SharePoint Framework`, spfxVersionDetected, versionCheck, OptionalOrRequired.Required, fixes, logger);
-        }
-        else {
-          logger.log(this.getStatus(CheckStatus.Failure, `SharePoint Framework v${spfxVersionRequested} not found`));
-          fixes.push(versionCheck.fix);
+        const check: SpfxDoctorCheck = this.getVersionCheck('SharePoint Framework', spfxVersionDetected, versionCheck);
+        if (!spfxVersionDetected) {
+          check.message = `SharePoint Framework v${spfxVersionRequested} not found`;
         }
+        this.logCheck(check, checks, logger);
       });
   }
 
-  private checkYo(prerequisites: SpfxVersionPrerequisites, fixes: string[], logger: Logger): Promise<void> {
+  private checkYo(prerequisites: SpfxVersionPrerequisites, checks: SpfxDoctorCheck[], logger: Logger): Promise<void> {
     return this
       .getPackageVersion('yo', PackageSearchMode.GlobalOnly, HandlePromise.Continue, logger)
       .then((yoVersion: string): void => {
-        if (yoVersion) {
-          this.checkStatus('yo', yoVersion, prerequisites.yo, OptionalOrRequired.Required, fixes, logger);
-        }
-        else {
-          logger.log(this.getStatus(CheckStatus.Failure, `yo not found`));
-          fixes.push(prerequisites.yo.fix);
-        }
+        this.logCheck(this.getVersionCheck('yo', yoVersion, prerequisites.yo), checks, logger);
       });
   }
 
-  private checkGulpCli(prerequisites: SpfxVersionPrerequisites, fixes: string[], logger: Logger): Promise<void> {
+  private checkGulpCli(prerequisites: SpfxVersionPrerequisites, checks: SpfxDoctorCheck[], logger: Logger): Promise<void> {
     return this
       .getPackageVersion('gulp-cli', PackageSearchMode.GlobalOnly, HandlePromise.Continue, logger)
       .then((gulpCliVersion: string): void => {
-        if (gulpCliVersion) {
-          this.checkStatus('gulp-cli', gulpCliVersion, prerequisites.gulpCli, OptionalOrRequired.Required, fixes, logger);
-        }
-        else {
-          logger.log(this.getStatus(CheckStatus.Failure, `gulp-cli not found`));
-          fixes.push(prerequisites.gulpCli.fix);
-        }
+        this.logCheck(this.getVersionCheck('gulp-cli', gulpCliVersion, prerequisites.gulpCli), checks, logger);
       });
   }
 
-  private checkGulp(fixes: string[], logger: Logger): Promise<void> {
+  private checkGulp(checks: SpfxDoctorCheck[], logger: Logger): Promise<void> {
     return this
       .getPackageVersion('gulp', PackageSearchMode.GlobalOnly, HandlePromise.Continue, logger)
       .then((gulpVersion: string): void => {
         if (gulpVersion) {
-          logger.log(this.getStatus(CheckStatus.Failure, `gulp should be removed`));
-          fixes.push('npm un -g gulp');
+          this.logCheck({ check: 'gulp', passed: false, message: `gulp should be removed`, version: gulpVersion, fix: 'npm un -g gulp' }, checks, logger);
         }
       });
   }
 
-  private checkTypeScript(fixes: string[], logger: Logger): Promise<void> {
+  private checkTypeScript(checks: SpfxDoctorCheck[], logger: Logger): Promise<void> {
     return this
       .getPackageVersion('typescript', PackageSearchMode.LocalOnly, HandlePromise.Continue, logger)
       .then((typeScriptVersion: string): void => {
         if (typeScriptVersion) {
-          logger.log(this.getStatus(CheckStatus.Failure, `typescript v${typeScriptVersion} installed in the project`));
-          fixes.push('npm un typescript');
+          this.logCheck({ check: 'typescript', passed: false, message: `typescript v${typeScriptVersion} installed in the project`, version: typeScriptVersion, fix: 'npm un typescript' }, checks, logger);
         }
         else {
-          logger.log(this.getStatus(CheckStatus.Success, `bundled typescript used`));
+          this.logCheck({ check: 'typescript', passed: true, message: `bundled typescript used` }, checks, logger);
         }
       });
   }
 
+  private getSharePointCompatibilityCheck(prerequisites: SpfxVersionPrerequisites, sp: SharePointVersion): SpfxDoctorCheck {
+    if ((prerequisites.sp & sp) === sp) {
+      return { check: 'SharePoint', passed: true, message: `Supported in ${SharePointVersion[sp]}` };
+    }
+
+    return {
+      check: 'SharePoint',
+      passed: false,
+      message: `Not supported in ${SharePointVersion[sp]}`,
+      fix: `Use SharePoint Framework v${(sp === SharePointVersion.SP2016 ? '1.1' : '1.4.1')}`
+    };
+  }
+
+  private getVersionCheck(what: string, versionFound: string, versionCheck: VersionCheck): SpfxDoctorCheck {
+    if (!versionFound) {
+      return { check: what, passed: false, message: `${what} not found`, required: versionCheck.range, fix: versionCheck.fix };
+    }
+
+    if (satisfies(versionFound, versionCheck.range)) {
+      return { check: what, passed: true, message: `${what} v${versionFound}`, version: versionFound, required: versionCheck.range };
+    }
+
+    return {
+      check: what,
+      passed: false,
+      message: `${what} v${versionFound} found, v${versionCheck.range} required`,
+      version: versionFound,
+      required: versionCheck.range,
+      fix: versionCheck.fix
+    };
+  }
+
+  private getLatestVersion(): string {
+    return Object.keys(this.versions)
+      .filter(v => !prerelease(v))
+      .sort(compare)
+      .pop() as string;
+  }
+
+  private getVersionsInRange(range: string): string[] {
+    if (!validRange(range)) {
+      return [];
+    }
+
+    return Object.keys(this.versions)
+      .filter(v => satisfies(v, range))
+      .sort(compare);
+  }
+
   private spVersionStringToEnum(sp: string): SharePointVersion | undefined {
     return (<any>SharePointVersion)[sp.toUpperCase()];
   }
@@ -807,15 +923,29 @@ class SpfxDoctorCommand extends AnonymousCommand {
     return process.version.substr(1);
   }
 
-  private checkStatus(what: string, versionFound: string, versionCheck: VersionCheck, optionalOrRequired: OptionalOrRequired, fixes: string[], logger: Logger): void {
-    if (versionFound) {
-      if (satisfies(versionFound, versionCheck.range)) {
-        logger.log(this.getStatus(CheckStatus.Success, `${what} v${versionFound}`));
-      }
-      else {
-        logger.log(this.getStatus(CheckStatus.Failure, `${what} v${versionFound} found, v${versionCheck.range} required`));
-        fixes.push(versionCheck.fix);
-      }
+  private logCheck(check: SpfxDoctorCheck, checks: SpfxDoctorCheck[], logger: Logger): void {
+    checks.push(check);
+
+    if (this.output === 'text') {
+      logger.log(this.getStatus(check.passed ? CheckStatus.Success : CheckStatus.Failure, check.message));
+    }
+  }
+
+  /**
+   * Logs the recommended fixes in text output or all checks in JSON output
+   */
+  private logReport(checks: SpfxDoctorCheck[], logger: Logger): void {
+    if (this.output === 'json') {
+      logger.log(checks);
+      return;
+    }
+
+    const fixes: string[] = checks.filter(c => c.fix).map(c => c.fix as string);
+    if (fixes.length > 0) {
+      logger.log('Recommended fixes:');
+      logger.log(' ');
+      fixes.forEach(f => logger.log(`- ${f}`));
+      logger.log(' ');
     }
   }
 
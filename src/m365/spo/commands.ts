@@ -71,6 +71,7 @@ export default {
   FOLDER_ROLEASSIGNMENT_REMOVE: `${prefix} folder roleassignment remove`,
   FOLDER_ROLEINHERITANCE_BREAK: `${prefix} folder roleinheritance break`,
   FOLDER_ROLEINHERITANCE_RESET: `${prefix} folder roleinheritance reset`,
+  FOLDER_SYNC: `${prefix} folder sync`,
   GET: `${prefix} get`,
   GROUP_ADD: `${prefix} group add`,
   GROUP_GET: `${prefix} group get`,
@@ -130,7 +131,9 @@ export default {
   LIST_WEBHOOK_SET: `${prefix} list webhook set`,
   LISTITEM_ADD: `${prefix} listitem add`,
   LISTITEM_ATTACHMENT_LIST: `${prefix} listitem attachment list`,
+  LISTITEM_EXPORT: `${prefix} listitem export`,
   LISTITEM_GET: `${prefix} listitem get`,
+  LISTITEM_IMPORT: `${prefix} listitem import`,
   LISTITEM_ISRECORD: `${prefix} listitem isrecord`,
   LISTITEM_LIST: `${prefix} listitem list`,
   LISTITEM_RECORD_DECLARE: `${prefix} listitem record declare`,
@@ -217,6 +220,8 @@ export default {
   SITE_REMOVE: `${prefix} site remove`,
   SITE_RENAME: `${prefix} site rename`,
   SITE_SET: `${prefix} site set`,
+  SITE_TEMPLATE_APPLY: `${prefix} site template apply`,
+  SITE_TEMPLATE_GET: `${prefix} site template get`,
   SITE_CHROME_SET: `${prefix} site chrome set`,
   SITEDESIGN_ADD: `${prefix} sitedesign add`,
   SITEDESIGN_APPLY: `${prefix} sitedesign apply`,
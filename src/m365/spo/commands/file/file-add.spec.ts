@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as path from 'path';
 import * as sinon from 'sinon';
 import appInsights from '../../../../appInsights';
 import auth from '../../../../Auth';
@@ -8,6 +9,7 @@ import { CommandInfo } from '../../../../cli/CommandInfo';
 import { Logger } from '../../../../cli/Logger';
 import Command, { CommandError } from '../../../../Command';
 import request from '../../../../request';
+import { cache } from '../../../../utils/cache';
 import { pid } from '../../../../utils/pid';
 import { sinonUtil } from '../../../../utils/sinonUtil';
 import { spo } from '../../../../utils/spo';
@@ -178,12 +180,13 @@ describe(commands.FILE_ADD, () => {
   };
 
   before(() => {
-    sinon.stub(fs, 'readFileSync').returns(Buffer.from('abc'));
+    sinon.stub(fs, 'createReadStream').returns({} as any);
+    sinon.stub(cache, 'setValue').callsFake(() => { });
+    sinon.stub(cache, 'removeValue').callsFake(() => { });
     ensureFolderStub = sinon.stub(spo, 'ensureFolder').resolves();
     sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
     sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
     sinon.stub(pid, 'getProcessName').callsFake(() => '');
-    sinon.stub(Buffer, 'alloc').returns(Buffer.from('abc'));
     auth.service.connected = true;
     commandInfo = Cli.getCommandInfo(command);
   });
@@ -204,9 +207,7 @@ describe(commands.FILE_ADD, () => {
     loggerLogSpy = sinon.spy(logger, 'log');
     loggerLogToStderrSpy = sinon.spy(logger, 'logToStderr');
     sinon.stub(fs, 'statSync').returns({ size: 1234 } as any);
-    sinon.stub(fs, 'openSync').returns(3);
-    sinon.stub(fs, 'readSync').returns(10485760);
-    sinon.stub(fs, 'closeSync');
+    sinon.stub(cache, 'getValue').returns(undefined);
   });
 
   afterEach(() => {
@@ -215,21 +216,24 @@ describe(commands.FILE_ADD, () => {
       request.get,
       fs.existsSync,
       fs.statSync,
-      fs.openSync,
-      fs.readSync,
-      fs.closeSync
+      cache.getValue,
+      global.setTimeout
     ]);
+    (fs.createReadStream as sinon.SinonStub).resetHistory();
+    (cache.setValue as sinon.SinonStub).resetHistory();
+    (cache.removeValue as sinon.SinonStub).resetHistory();
   });
 
   after(() => {
     sinonUtil.restore([
       auth.restoreAuth,
-      fs.readFileSync,
+      fs.createReadStream,
       fs.existsSync,
+      cache.setValue,
+      cache.removeValue,
       spo.ensureFolder,
       appInsights.trackEvent,
-      pid.getProcessName,
-      Buffer.alloc
+      pid.getProcessName
     ]);
     auth.service.connected = false;
   });
@@ -570,6 +574,26 @@ describe(commands.FILE_ADD, () => {
       }
     });
     assert.notStrictEqual(postRequests.lastCall.args[0].url.indexOf(`/GetFolderByServerRelativeUrl('%2Fsites%2Fproject-x%2FShared%2520Documents%2Ft1')/Files/Add`), -1);
+    assert.strictEqual(postRequests.lastCall.args[0].headers['content-length'], 250 * 1024 * 1024);
+  });
+
+  it('streams the file from disk when uploading it in a single request', async () => {
+    const postRequests: sinon.SinonStub = stubPostResponses();
+    stubGetResponses();
+    const stream: any = {};
+    (fs.createReadStream as sinon.SinonStub).returns(stream);
+
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg'
+      }
+    });
+    assert((fs.createReadStream as sinon.SinonStub).calledOnceWith(path.resolve('MS365.jpg')));
+    assert.strictEqual(postRequests.lastCall.args[0].data, stream);
+    assert.strictEqual(postRequests.lastCall.args[0].headers['content-length'], 1234);
+    (fs.createReadStream as sinon.SinonStub).returns({});
   });
 
   it('should perform chunk upload on files over 250 MB (debug)', async () => {
@@ -589,75 +613,353 @@ describe(commands.FILE_ADD, () => {
       }
     });
     assert.notStrictEqual(postRequests.firstCall.args[0].url.indexOf('/StartUpload'), -1);
-    assert.notStrictEqual(postRequests.getCalls()[2].args[0].url.indexOf('/ContinueUpload'), -1);
-    assert.notStrictEqual(postRequests.lastCall.args[0].url.indexOf('/FinishUpload'), -1);
+    assert.notStrictEqual(postRequests.secondCall.args[0].url.indexOf('/ContinueUpload'), -1);
+    assert.notStrictEqual(postRequests.secondCall.args[0].url.indexOf(',fileOffset=0)'), -1);
+    assert.notStrictEqual(postRequests.lastCall.args[0].url.indexOf(`/FinishUpload`), -1);
+    assert.notStrictEqual(postRequests.lastCall.args[0].url.indexOf(`,fileOffset=${250 * 1024 * 1024})`), -1);
+    assert.strictEqual(postRequests.lastCall.args[0].headers['content-length'], 1024 * 1024);
+    assert((fs.createReadStream as sinon.SinonStub).calledWith(path.resolve('C:\Users\Velin\Desktop\MS365.jpg'), { start: 250 * 1024 * 1024, end: 251 * 1024 * 1024 - 1 }));
+    assert((cache.removeValue as sinon.SinonStub).calledOnce);
   });
 
-  it('should cancel chunk upload on files over 250 MB on error', async () => {
+  it('uploads file in chunks of the specified size', async () => {
+    const postRequests: sinon.SinonStub = stubPostResponses();
     stubGetResponses();
-    sinon.stub(request, 'post').callsFake((opts) => {
-      if ((opts.url as string).indexOf('/_api/web/GetFolderByServerRelativeUrl(') > -1) {
-        if ((opts.url as string).indexOf('/StartUpload') !== -1) {
+    sinonUtil.restore([fs.statSync]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
 
-          return Promise.resolve({ "d": { "StartUpload": "0" } });
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10
+      }
+    });
+    const urls: string[] = postRequests.getCalls().map(c => c.args[0].url.replace(/guid'[^']+'/, 'guid\'id\''));
+    assert.deepStrictEqual(urls.map(u => u.substring(u.lastIndexOf('/') + 1)), [
+      `StartUpload(uploadId=guid'id')`,
+      `ContinueUpload(uploadId=guid'id',fileOffset=0)`,
+      `ContinueUpload(uploadId=guid'id',fileOffset=10485760)`,
+      `FinishUpload(uploadId=guid'id',fileOffset=20971520)`
+    ]);
+    assert.deepStrictEqual(postRequests.getCalls().slice(1).map(c => c.args[0].headers['content-length']), [10485760, 10485760, 5242880]);
+  });
 
-        }
-        else if ((opts.url as string).indexOf('/cancelupload') !== -1) {
+  it('stores progress of chunked upload so that it can be resumed', async () => {
+    stubPostResponses();
+    stubGetResponses();
+    sinonUtil.restore([fs.statSync]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024, mtimeMs: 1674000000000 } as any);
 
-          return Promise.resolve({ "d": { "CancelUpload": null } });
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10
+      }
+    });
+    const setValueCalls: sinon.SinonSpyCall[] = (cache.setValue as sinon.SinonStub).getCalls();
+    assert.deepStrictEqual(setValueCalls.map(c => JSON.parse(c.args[1]).position), [0, 10485760, 20971520]);
+    assert(setValueCalls.every(c => c.args[0] === setValueCalls[0].args[0] && c.args[0].startsWith('spo-file-add-')));
+    assert((cache.removeValue as sinon.SinonStub).calledOnceWith(setValueCalls[0].args[0]));
+  });
 
-        }
-        else if ((opts.url as string).indexOf('/ContinueUpload') !== -1) {
+  it('resumes interrupted chunked upload (verbose)', async () => {
+    const postRequests: sinon.SinonStub = stubPostResponses();
+    stubGetResponses();
+    sinonUtil.restore([fs.statSync, cache.getValue]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
+    sinon.stub(cache, 'getValue').returns(JSON.stringify({ id: 'a2c4b6d8-1234-4e5f-8a9b-0c1d2e3f4a5b', position: 10485760 }));
 
-          return Promise.reject({ "error": "123" });
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10,
+        verbose: true
+      }
+    });
+    assert.deepStrictEqual(postRequests.getCalls().map(c => c.args[0].url.substring(c.args[0].url.lastIndexOf('/') + 1)), [
+      `ContinueUpload(uploadId=guid'a2c4b6d8-1234-4e5f-8a9b-0c1d2e3f4a5b',fileOffset=10485760)`,
+      `FinishUpload(uploadId=guid'a2c4b6d8-1234-4e5f-8a9b-0c1d2e3f4a5b',fileOffset=20971520)`
+    ]);
+  });
 
-        }
+  it('resumes interrupted chunked upload when only the last chunk is left', async () => {
+    const postRequests: sinon.SinonStub = stubPostResponses();
+    stubGetResponses();
+    sinonUtil.restore([fs.statSync, cache.getValue]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
+    sinon.stub(cache, 'getValue').returns(JSON.stringify({ id: 'a2c4b6d8-1234-4e5f-8a9b-0c1d2e3f4a5b', position: 20971520 }));
+
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10
+      }
+    });
+    assert.strictEqual(postRequests.callCount, 1);
+    assert.notStrictEqual(postRequests.firstCall.args[0].url.indexOf('/FinishUpload'), -1);
+  });
+
+  it('starts a new upload session when resuming the interrupted upload fails (verbose)', async () => {
+    const postRequests: sinon.SinonStub = sinon.stub(request, 'post').callsFake(async (opts) => {
+      if ((opts.url as string).indexOf(`guid'a2c4b6d8-1234-4e5f-8a9b-0c1d2e3f4a5b'`) > -1) {
+        throw { error: 'Upload session not found' };
+      }
+      return { "odata.null": true };
+    });
+    stubGetResponses();
+    sinonUtil.restore([fs.statSync, cache.getValue]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
+    sinon.stub(cache, 'getValue').returns(JSON.stringify({ id: 'a2c4b6d8-1234-4e5f-8a9b-0c1d2e3f4a5b', position: 10485760 }));
+
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10,
+        verbose: true
+      }
+    });
+    assert.strictEqual(postRequests.callCount, 5);
+    assert.notStrictEqual(postRequests.secondCall.args[0].url.indexOf('/StartUpload'), -1);
+    assert.notStrictEqual(postRequests.thirdCall.args[0].url.indexOf(',fileOffset=0)'), -1);
+  });
+
+  it('starts a new upload session when the stored upload session is invalid', async () => {
+    const postRequests: sinon.SinonStub = stubPostResponses();
+    stubGetResponses();
+    sinonUtil.restore([fs.statSync, cache.getValue]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
+    sinon.stub(cache, 'getValue').returns('{"id":');
+
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10
       }
-      return Promise.reject('Invalid request');
     });
+    assert.notStrictEqual(postRequests.firstCall.args[0].url.indexOf('/StartUpload'), -1);
+  });
 
+  it('retries uploading chunk on error (verbose)', async () => {
+    stubGetResponses();
+    const timeouts: number[] = [];
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeouts.push(to as number);
+      fn();
+      return {} as any;
+    });
+    let failed: boolean = false;
+    const postRequests: sinon.SinonStub = sinon.stub(request, 'post').callsFake(async (opts) => {
+      if ((opts.url as string).indexOf('/ContinueUpload') > -1 && !failed) {
+        failed = true;
+        throw { error: 'Connection reset' };
+      }
+      return { "odata.null": true };
+    });
     sinonUtil.restore([fs.statSync]);
-    sinon.stub(fs, 'statSync').returns({ size: 251 * 1024 * 1024 } as any); // 250 MB
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
 
-    await assert.rejects(command.action(logger, {
+    await command.action(logger, {
       options: {
         webUrl: 'https://contoso.sharepoint.com/sites/project-x',
-        folder: 'Shared%20Documents/t1',
-        path: 'C:\Users\Velin\Desktop\MS365.jpg',
-        debug: true,
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10,
         verbose: true
       }
-    } as any), new CommandError('123'));
+    });
+    assert.deepStrictEqual(postRequests.getCalls().slice(1).map(c => c.args[0].url.substring(c.args[0].url.indexOf('fileOffset='))), [
+      'fileOffset=0)',
+      'fileOffset=0)',
+      'fileOffset=10485760)',
+      'fileOffset=20971520)'
+    ]);
+    assert.deepStrictEqual(timeouts, [1000]);
   });
 
-  it('should handle fail to read file error', async () => {
+  it('stops uploading the file in a single request when still throttled after the maximum number of attempts', async () => {
     stubGetResponses();
-    stubPostResponses();
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+    const postRequests: sinon.SinonStub = sinon.stub(request, 'post').callsFake(async (opts) => {
+      if ((opts.url as string).indexOf('/Files/Add') > -1) {
+        throw { response: { status: 429, headers: {} }, error: { message: 'Too many requests' } };
+      }
+      return { "odata.null": true };
+    });
 
-    sinonUtil.restore([fs.statSync, fs.openSync]);
-    sinon.stub(fs, 'statSync').returns({ size: 251 * 1024 * 1024 } as any); // 250 MB
-    sinon.stub(fs, 'openSync').throws(new Error('openSync error'));
+    await assert.rejects(command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg'
+      }
+    }), new CommandError('Too many requests'));
+    assert.strictEqual(postRequests.getCalls().filter(c => c.args[0].url.indexOf('/Files/Add') > -1).length, 5);
+  });
+
+  it('waits before retrying a throttled chunk for the period indicated by SharePoint', async () => {
+    stubGetResponses();
+    const timeouts: number[] = [];
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeouts.push(to as number);
+      fn();
+      return {} as any;
+    });
+    let failed: boolean = false;
+    sinon.stub(request, 'post').callsFake(async (opts) => {
+      if ((opts.url as string).indexOf('/ContinueUpload') > -1 && !failed) {
+        failed = true;
+        throw { response: { status: 429, headers: { 'retry-after': '30' } } };
+      }
+      return { "odata.null": true };
+    });
+    sinonUtil.restore([fs.statSync]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
+
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10
+      }
+    });
+    assert.deepStrictEqual(timeouts, [30000]);
+  });
+
+  it('uploads the file in a single request again with a new stream when throttled (verbose)', async () => {
+    stubGetResponses();
+    const postRequests: sinon.SinonStub = sinon.stub(request, 'post');
+    const timeouts: number[] = [];
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeouts.push(to as number);
+      fn();
+      return {} as any;
+    });
+    let attempt: number = 0;
+    postRequests.callsFake(async (opts) => {
+      if ((opts.url as string).indexOf('/Files/Add') > -1 && attempt++ < 4) {
+        throw { response: { status: attempt === 1 ? 429 : 503, headers: attempt === 1 ? { 'retry-after': '5' } : {} } };
+      }
+      return { "odata.null": true };
+    });
+
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        verbose: true
+      }
+    });
+    assert.deepStrictEqual(timeouts, [5000, 2000, 4000, 8000]);
+    assert.strictEqual(postRequests.getCalls().filter(c => c.args[0].url.indexOf('/Files/Add') > -1).length, 5);
+    assert.strictEqual((fs.createReadStream as sinon.SinonStub).callCount, 5);
+  });
+
+  it('keeps the upload session when uploading a chunk fails with a transient error (verbose)', async () => {
+    stubGetResponses();
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+    const postRequests: sinon.SinonStub = sinon.stub(request, 'post').callsFake(async (opts) => {
+      if ((opts.url as string).indexOf('fileOffset=10485760') > -1) {
+        throw { response: { status: 503, headers: {} }, error: { message: 'Service unavailable' } };
+      }
+      return { "odata.null": true };
+    });
+    sinonUtil.restore([fs.statSync]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
 
     await assert.rejects(command.action(logger, {
       options: {
         webUrl: 'https://contoso.sharepoint.com/sites/project-x',
-        folder: 'Shared%20Documents/t1',
-        path: 'C:\Users\Velin\Desktop\MS365.jpg',
-        debug: true,
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10,
         verbose: true
       }
-    } as any), new CommandError('openSync error'));
+    }), new CommandError('Service unavailable'));
+    assert(postRequests.getCalls().every(c => c.args[0].url.indexOf('/cancelupload') < 0), 'upload session cancelled');
+    assert((cache.removeValue as sinon.SinonStub).notCalled, 'upload session removed');
+    assert.strictEqual(JSON.parse((cache.setValue as sinon.SinonStub).lastCall.args[1]).position, 10485760);
   });
 
-  it('should try closeSync on error', async () => {
+  it('retries uploading each chunk up to the maximum number of attempts', async () => {
     stubGetResponses();
-    stubPostResponses();
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+    const failedOffsets: string[] = [];
+    const postRequests: sinon.SinonStub = sinon.stub(request, 'post').callsFake(async (opts) => {
+      const offset: string = (opts.url as string).substring((opts.url as string).indexOf('fileOffset='));
+      // fail each chunk three times before it's uploaded
+      if (offset.startsWith('fileOffset=') && failedOffsets.filter(o => o === offset).length < 3) {
+        failedOffsets.push(offset);
+        throw { code: 'ECONNRESET' };
+      }
+      return { "odata.null": true };
+    });
+    sinonUtil.restore([fs.statSync]);
+    sinon.stub(fs, 'statSync').returns({ size: 25 * 1024 * 1024 } as any);
 
-    sinonUtil.restore([fs.statSync, fs.openSync, , fs.readSync, , fs.closeSync]);
+    await command.action(logger, {
+      options: {
+        webUrl: 'https://contoso.sharepoint.com/sites/project-x',
+        folder: 'Shared Documents/t1',
+        path: 'MS365.jpg',
+        chunkSize: 10
+      }
+    });
+    assert.strictEqual(failedOffsets.length, 9);
+    assert.notStrictEqual(postRequests.lastCall.args[0].url.indexOf('/FinishUpload'), -1);
+  });
+
+  it('should cancel chunk upload on files over 250 MB on error', async () => {
+    stubGetResponses();
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+    sinon.stub(request, 'post').callsFake((opts) => {
+      if ((opts.url as string).indexOf('/_api/web/GetFolderByServerRelativeUrl(') > -1) {
+        if ((opts.url as string).indexOf('/StartUpload') !== -1) {
+
+          return Promise.resolve({ "d": { "StartUpload": "0" } });
+
+        }
+        else if ((opts.url as string).indexOf('/cancelupload') !== -1) {
+
+          return Promise.resolve({ "d": { "CancelUpload": null } });
+
+        }
+        else if ((opts.url as string).indexOf('/ContinueUpload') !== -1) {
+
+          return Promise.reject({ "error": "123" });
+
+        }
+      }
+      return Promise.reject('Invalid request');
+    });
+
+    sinonUtil.restore([fs.statSync]);
     sinon.stub(fs, 'statSync').returns({ size: 251 * 1024 * 1024 } as any); // 250 MB
-    sinon.stub(fs, 'openSync').returns(3);
-    sinon.stub(fs, 'readSync').throws(new Error('readSync error'));
-    sinon.stub(fs, 'closeSync').throws(new Error('failed to closeSync'));
 
     await assert.rejects(command.action(logger, {
       options: {
@@ -667,7 +969,7 @@ describe(commands.FILE_ADD, () => {
         debug: true,
         verbose: true
       }
-    } as any), new CommandError('readSync error'));
+    } as any), new CommandError('123'));
   });
 
   it('should succeed updating list item metadata', async () => {
@@ -857,6 +1159,36 @@ describe(commands.FILE_ADD, () => {
     assert.notStrictEqual(actual, true);
   });
 
+  it('fails validation if chunkSize is not a number', async () => {
+    sinon.stub(fs, 'existsSync').returns(true);
+    const actual = await command.validate({ options: { webUrl: 'https://contoso.sharepoint.com', folder: 'abc', path: 'abc', chunkSize: 'abc' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if chunkSize is not a whole number', async () => {
+    sinon.stub(fs, 'existsSync').returns(true);
+    const actual = await command.validate({ options: { webUrl: 'https://contoso.sharepoint.com', folder: 'abc', path: 'abc', chunkSize: 1.5 } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if chunkSize is less than 1', async () => {
+    sinon.stub(fs, 'existsSync').returns(true);
+    const actual = await command.validate({ options: { webUrl: 'https://contoso.sharepoint.com', folder: 'abc', path: 'abc', chunkSize: 0 } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if chunkSize is greater than 250', async () => {
+    sinon.stub(fs, 'existsSync').returns(true);
+    const actual = await command.validate({ options: { webUrl: 'https://contoso.sharepoint.com', folder: 'abc', path: 'abc', chunkSize: 251 } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation if chunkSize is valid', async () => {
+    sinon.stub(fs, 'existsSync').returns(true);
+    const actual = await command.validate({ options: { webUrl: 'https://contoso.sharepoint.com', folder: 'abc', path: 'abc', chunkSize: 250 } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
   it('passed validation if options correct', async () => {
     sinon.stub(fs, 'existsSync').returns(true);
     const actual = await command.validate({
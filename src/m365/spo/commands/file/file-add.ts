@@ -1,9 +1,11 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 } from 'uuid';
 import { Logger } from '../../../../cli/Logger';
 import GlobalOptions from '../../../../GlobalOptions';
 import request from '../../../../request';
+import { cache } from '../../../../utils/cache';
 import { fsUtil } from '../../../../utils/fsUtil';
 import { spo } from '../../../../utils/spo';
 import { urlUtil } from '../../../../utils/urlUtil';
@@ -26,6 +28,7 @@ interface Options extends GlobalOptions {
   approveComment?: string;
   publish?: boolean;
   publishComment?: string;
+  chunkSize?: number;
 }
 
 interface FieldValue {
@@ -55,11 +58,22 @@ interface FileUploadInfo {
   RetriesLeft: number;
   Size: number;
   Position: number;
+  ChunkSize: number;
+  CacheKey: string;
+}
+
+interface UploadSession {
+  id: string;
+  position: number;
+}
+
+function wait(milliseconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
 }
 
 class SpoFileAddCommand extends SpoCommand {
-  private readonly fileChunkingThreshold: number = 250 * 1024 * 1024;  // max 250 MB
-  private readonly fileChunkSize: number = 250 * 1024 * 1024;  // max fileChunkingThreshold
+  // max size in MB of a file that can be uploaded in a single request
+  private static readonly maxChunkSize: number = 250;
   private readonly fileChunkRetryAttempts: number = 5;
 
   public get name(): string {
@@ -91,7 +105,8 @@ class SpoFileAddCommand extends SpoCommand {
         approve: args.options.approve || false,
         approveComment: (!(!args.options.approveComment)).toString(),
         publish: args.options.publish || false,
-        publishComment: (!(!args.options.publishComment)).toString()
+        publishComment: (!(!args.options.publishComment)).toString(),
+        chunkSize: typeof args.options.chunkSize !== 'undefined'
       });
     });
   }
@@ -127,6 +142,9 @@ class SpoFileAddCommand extends SpoCommand {
       },
       {
         option: '--publishComment [publishComment]'
+      },
+      {
+        option: '--chunkSize [chunkSize]'
       }
     );
   }
@@ -150,6 +168,11 @@ class SpoFileAddCommand extends SpoCommand {
         if (args.options.approveComment && !args.options.approve) {
           return '--approveComment cannot be used without --approve';
         }
+
+        if (typeof args.options.chunkSize !== 'undefined' &&
+          (!Number.isInteger(args.options.chunkSize) || args.options.chunkSize < 1 || args.options.chunkSize > SpoFileAddCommand.maxChunkSize)) {
+          return `${args.options.chunkSize} is not a valid chunk size. Specify a whole number between 1 and ${SpoFileAddCommand.maxChunkSize}`;
+        }
     
         return true;
       }
@@ -209,50 +232,53 @@ class SpoFileAddCommand extends SpoCommand {
         logger.logToStderr(`File size is ${fileSize} bytes`);
       }
 
-      // only up to 250 MB are allowed in a single request
-      if (fileSize > this.fileChunkingThreshold) {
-        const fileChunkCount: number = Math.ceil(fileSize / this.fileChunkSize);
+      // files larger than the chunk size are uploaded in chunks
+      const chunkSize: number = (args.options.chunkSize || SpoFileAddCommand.maxChunkSize) * 1024 * 1024;
+      if (fileSize > chunkSize) {
+        const fileChunkCount: number = Math.ceil(fileSize / chunkSize);
         if (this.verbose) {
           logger.logToStderr(`Uploading ${fileSize} bytes in ${fileChunkCount} chunks...`);
         }
 
-        // initiate chunked upload session
-        const uploadId: string = v4();
-        const requestOptions: any = {
-          url: `${args.options.webUrl}/_api/web/GetFolderByServerRelativeUrl('${encodeURIComponent(folderPath)}')/Files/GetByPathOrAddStub(DecodedUrl='${encodeURIComponent(fileName)}')/StartUpload(uploadId=guid'${uploadId}')`,
-          headers: {
-            'accept': 'application/json;odata=nometadata'
-          }
-        };
-
-        await request.post<void>(requestOptions);
-        // session started successfully, now upload our file chunks
         const fileUploadInfo: FileUploadInfo = {
           Name: fileName,
           FilePath: fullPath,
           WebUrl: args.options.webUrl,
           FolderPath: folderPath,
-          Id: uploadId,
+          Id: '',
           RetriesLeft: this.fileChunkRetryAttempts,
           Position: 0,
-          Size: fileSize
+          Size: fileSize,
+          ChunkSize: chunkSize,
+          CacheKey: this.getUploadCacheKey(args.options.webUrl, folderPath, fileName, fileStats)
         };
 
+        await this.startUpload(fileUploadInfo, logger);
+
         try {
-          await new Promise<void>((resolve: () => void, reject: (err: any) => void): void => {
-            this.uploadFileChunks(fileUploadInfo, logger, resolve, reject);
-          });
+          await this.uploadFileChunks(fileUploadInfo, logger);
+          cache.removeValue(fileUploadInfo.CacheKey);
           if (this.verbose) {
             logger.logToStderr(`Finished uploading ${fileUploadInfo.Position} bytes in ${fileChunkCount} chunks`);
           }
         }
         catch (err: any) {
+          // keep the upload session so that the next run resumes the upload
+          if (request.isTransientError(err)) {
+            if (this.verbose) {
+              logger.logToStderr(`Upload interrupted at ${fileUploadInfo.Position} of ${fileSize} bytes. Run the command again to resume the upload`);
+            }
+
+            throw err;
+          }
+
           if (this.verbose) {
             logger.logToStderr('Cancelling upload session due to error...');
           }
 
+          cache.removeValue(fileUploadInfo.CacheKey);
           const requestOptions: any = {
-            url: `${args.options.webUrl}/_api/web/GetFolderByServerRelativeUrl('${encodeURIComponent(folderPath)}')/Files('${encodeURIComponent(fileName)}')/cancelupload(uploadId=guid'${uploadId}')`,
+            url: `${args.options.webUrl}/_api/web/GetFolderByServerRelativeUrl('${encodeURIComponent(folderPath)}')/Files('${encodeURIComponent(fileName)}')/cancelupload(uploadId=guid'${fileUploadInfo.Id}')`,
             headers: {
               'accept': 'application/json;odata=nometadata'
             }
@@ -271,21 +297,17 @@ class SpoFileAddCommand extends SpoCommand {
         }
       }
       else {
-        // upload small file in a single request
-        const fileBody: Buffer = fs.readFileSync(fullPath);
-        const bodyLength: number = fileBody.byteLength;
-
+        // upload small file in a single request streaming it from disk
         const requestOptions: any = {
           url: `${args.options.webUrl}/_api/web/GetFolderByServerRelativeUrl('${encodeURIComponent(folderPath)}')/Files/Add(url='${encodeURIComponent(fileName)}', overwrite=true)`,
-          data: fileBody,
           headers: {
             'accept': 'application/json;odata=nometadata',
-            'content-length': bodyLength
+            'content-length': fileSize
           },
-          maxBodyLength: this.fileChunkingThreshold
+          maxBodyLength: chunkSize
         };
 
-        await request.post(requestOptions);
+        await this.postFileContents(requestOptions, () => fs.createReadStream(fullPath), logger);
       }
 
       if (args.options.contentType || args.options.publish || args.options.approve) {
@@ -430,79 +452,166 @@ class SpoFileAddCommand extends SpoCommand {
       });
   }
 
-  private uploadFileChunks(info: FileUploadInfo, logger: any, resolve: () => void, reject: (err: any) => void): void {
-    let fd: number = 0;
-    try {
-      fd = fs.openSync(info.FilePath, 'r');
-      let fileBuffer: Buffer = Buffer.alloc(this.fileChunkSize);
-      const readCount: number = fs.readSync(fd, fileBuffer, 0, this.fileChunkSize, info.Position);
-      fs.closeSync(fd);
-      fd = 0;
-
-      const offset: number = info.Position;
-      info.Position += readCount;
-      const isLastChunk: boolean = info.Position >= info.Size;
-      if (isLastChunk) {
-        // trim buffer for last chunk
-        fileBuffer = fileBuffer.slice(0, readCount);
+  /**
+   * Resumes the upload session of the file started by a previous,
+   * interrupted run of the command or starts a new upload session
+   */
+  private async startUpload(info: FileUploadInfo, logger: Logger): Promise<void> {
+    const session: UploadSession | undefined = this.getUploadSession(info.CacheKey);
+    if (session) {
+      if (this.verbose) {
+        logger.logToStderr(`Resuming upload session ${session.id} at ${session.position} of ${info.Size} bytes...`);
       }
 
-      const requestOptions: any = {
-        url: `${info.WebUrl}/_api/web/GetFolderByServerRelativeUrl('${encodeURIComponent(info.FolderPath)}')/Files('${encodeURIComponent(info.Name)}')/${isLastChunk ? 'Finish' : 'Continue'}Upload(uploadId=guid'${info.Id}',fileOffset=${offset})`,
-        data: fileBuffer,
-        headers: {
-          'accept': 'application/json;odata=nometadata',
-          'content-length': readCount
-        },
-        maxBodyLength: this.fileChunkingThreshold
-      };
-
-      request
-        .post<void>(requestOptions)
-        .then((): void => {
-          if (this.verbose) {
-            logger.logToStderr(`Uploaded ${info.Position} of ${info.Size} bytes (${Math.round(100 * info.Position / info.Size)}%)`);
-          }
+      info.Id = session.id;
+      info.Position = session.position;
 
-          if (isLastChunk) {
-            resolve();
-          }
-          else {
-            this.uploadFileChunks(info, logger, resolve, reject);
-          }
-        })
-        .catch((err: any) => {
-          if (--info.RetriesLeft > 0) {
-            if (this.verbose) {
-              logger.logToStderr(`Retrying to upload chunk due to error: ${err}`);
-            }
-            info.Position -= readCount;  // rewind
-            this.uploadFileChunks(info, logger, resolve, reject);
-          }
-          else {
-            reject(err);
-          }
-        });
+      try {
+        // the session expires after some time so if uploading the next
+        // chunk fails, start over
+        await this.uploadFileChunk(info, logger);
+        return;
+      }
+      catch {
+        if (this.verbose) {
+          logger.logToStderr('Could not resume upload session. Starting a new upload session...');
+        }
+      }
     }
-    catch (err) {
-      if (fd) {
-        try {
-          fs.closeSync(fd);
-          /* c8 ignore next */
+
+    info.Id = v4();
+    info.Position = 0;
+
+    const requestOptions: any = {
+      url: `${info.WebUrl}/_api/web/GetFolderByServerRelativeUrl('${encodeURIComponent(info.FolderPath)}')/Files/GetByPathOrAddStub(DecodedUrl='${encodeURIComponent(info.Name)}')/StartUpload(uploadId=guid'${info.Id}')`,
+      headers: {
+        'accept': 'application/json;odata=nometadata'
+      }
+    };
+
+    await request.post<void>(requestOptions);
+    cache.setValue(info.CacheKey, JSON.stringify({ id: info.Id, position: info.Position }));
+  }
+
+  private async uploadFileChunks(info: FileUploadInfo, logger: Logger): Promise<void> {
+    while (info.Position < info.Size) {
+      try {
+        await this.uploadFileChunk(info, logger);
+        // retries apply to each chunk rather than the whole file
+        info.RetriesLeft = this.fileChunkRetryAttempts;
+      }
+      catch (err: any) {
+        if (--info.RetriesLeft > 0) {
+          const retryDelay: number = this.getRetryDelay(err, this.fileChunkRetryAttempts - info.RetriesLeft);
+          if (this.verbose) {
+            logger.logToStderr(`Retrying to upload chunk in ${retryDelay}ms due to error: ${err}`);
+          }
+          await wait(retryDelay);
+        }
+        else {
+          throw err;
         }
-        catch { }
       }
+    }
+  }
 
-      if (--info.RetriesLeft > 0) {
+  /**
+   * Uploads the file contents created by getData. Requests with streamed
+   * contents aren't retried automatically, so throttled requests are retried
+   * with new contents after the period indicated by SharePoint. Chunks
+   * are retried by uploadFileChunks instead
+   */
+  private async postFileContents(requestOptions: any, getData: () => fs.ReadStream, logger: Logger): Promise<void> {
+    for (let attempt: number = 1; attempt < request.retryPolicy.maxAttempts; attempt++) {
+      try {
+        await request.post<void>({ ...requestOptions, data: getData() });
+        return;
+      }
+      catch (err: any) {
+        const status: number | undefined = err && err.response ? err.response.status : undefined;
+        if (status !== 429 && status !== 503) {
+          throw err;
+        }
+
+        const retryDelay: number = this.getRetryDelay(err, attempt);
         if (this.verbose) {
-          logger.logToStderr(`Retrying to read chunk due to error: ${err}`);
+          logger.logToStderr(`Upload throttled with status ${status}. Retrying in ${retryDelay}ms...`);
         }
-        this.uploadFileChunks(info, logger, resolve, reject);
-      }
-      else {
-        reject(err);
+        await wait(retryDelay);
       }
     }
+
+    await request.post<void>({ ...requestOptions, data: getData() });
+  }
+
+  /**
+   * Returns the number of milliseconds to wait before retrying the failed
+   * upload. Uses the period indicated by SharePoint in the Retry-After header
+   * or an exponentially increasing delay if the header is missing
+   */
+  private getRetryDelay(err: any, attempt: number): number {
+    const retryAfter: number = parseInt(err && err.response && err.response.headers ? err.response.headers['retry-after'] : '');
+    if (!isNaN(retryAfter)) {
+      return retryAfter * 1000;
+    }
+
+    return request.retryPolicy.baseDelay * Math.pow(2, attempt - 1);
+  }
+
+  private async uploadFileChunk(info: FileUploadInfo, logger: Logger): Promise<void> {
+    const offset: number = info.Position;
+    const chunkLength: number = Math.min(info.ChunkSize, info.Size - offset);
+    const isLastChunk: boolean = offset + chunkLength >= info.Size;
+
+    const requestOptions: any = {
+      url: `${info.WebUrl}/_api/web/GetFolderByServerRelativeUrl('${encodeURIComponent(info.FolderPath)}')/Files('${encodeURIComponent(info.Name)}')/${isLastChunk ? 'Finish' : 'Continue'}Upload(uploadId=guid'${info.Id}',fileOffset=${offset})`,
+      // stream the chunk from disk rather than loading it in memory
+      data: fs.createReadStream(info.FilePath, { start: offset, end: offset + chunkLength - 1 }),
+      headers: {
+        'accept': 'application/json;odata=nometadata',
+        'content-length': chunkLength
+      },
+      maxBodyLength: info.ChunkSize
+    };
+
+    await request.post<void>(requestOptions);
+    info.Position += chunkLength;
+
+    if (!isLastChunk) {
+      // store the progress so that an interrupted upload can be resumed
+      cache.setValue(info.CacheKey, JSON.stringify({ id: info.Id, position: info.Position }));
+    }
+
+    if (this.verbose) {
+      logger.logToStderr(`Uploaded ${info.Position} of ${info.Size} bytes (${Math.round(100 * info.Position / info.Size)}%)`);
+    }
+  }
+
+  private getUploadSession(cacheKey: string): UploadSession | undefined {
+    const session: string | undefined = cache.getValue(cacheKey);
+    if (!session) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(session);
+    }
+    catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the key under which the upload session of the file is stored.
+   * The key includes the size and modification time of the local file so
+   * that uploads of changed files aren't resumed
+   */
+  private getUploadCacheKey(webUrl: string, folderPath: string, fileName: string, fileStats: fs.Stats): string {
+    const hash: string = crypto
+      .createHash('sha256')
+      .update([webUrl, folderPath, fileName, fileStats.size, fileStats.mtimeMs].join('|'))
+      .digest('hex');
+    return `spo-file-add-${hash}`;
   }
 
   private getFileParentList(fileName: string, webUrl: string, folder: string, logger: any): Promise<ListSettings> {
@@ -588,6 +697,7 @@ class SpoFileAddCommand extends SpoCommand {
       'approveComment',
       'publish',
       'publishComment',
+      'chunkSize',
       'debug',
       'verbose',
       'output',
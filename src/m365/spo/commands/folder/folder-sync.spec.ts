@@ -0,0 +1,357 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import appInsights from '../../../../appInsights';
+import auth from '../../../../Auth';
+import { Cli } from '../../../../cli/Cli';
+import { CommandInfo } from '../../../../cli/CommandInfo';
+import { Logger } from '../../../../cli/Logger';
+import Command, { CommandError } from '../../../../Command';
+import request from '../../../../request';
+import { pid } from '../../../../utils/pid';
+import { sinonUtil } from '../../../../utils/sinonUtil';
+import { spo } from '../../../../utils/spo';
+import commands from '../../commands';
+const command: Command = require('./folder-sync');
+const fileAddCommand: Command = require('../file/file-add');
+const fileGetCommand: Command = require('../file/file-get');
+
+describe(commands.FOLDER_SYNC, () => {
+  const webUrl: string = 'https://contoso.sharepoint.com/sites/project-x';
+  const folderUrl: string = '/sites/project-x/Shared Documents/site';
+  // QuickXorHash of 'Hello world'
+  const helloWorldHash: string = 'SCgDG9jwBhDc4Q1yawMZAAAAAAA=';
+  let localPath: string;
+  let remoteFolders: { [url: string]: any };
+  let remoteHashes: { [url: string]: string };
+  let log: any[];
+  let logger: Logger;
+  let loggerLogSpy: sinon.SinonSpy;
+  let commandInfo: CommandInfo;
+  let executedCommands: { command: Command, options: any }[];
+
+  const writeLocalFile = (relativePath: string, contents: string, lastModified: string): void => {
+    const filePath: string = path.join(localPath, ...relativePath.split('/'));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, contents);
+    fs.utimesSync(filePath, new Date(lastModified), new Date(lastModified));
+  };
+
+  const stubRequests = (): sinon.SinonStub => {
+    return sinon.stub(request, 'get').callsFake(async (opts) => {
+      const url: string = opts.url as string;
+      if (url.startsWith(`${webUrl}/_api/web/GetFolderByServerRelativePath(DecodedUrl=@f)?$expand=Files,Folders/ListItemAllFields&$select=Files/Name,Files/Length,Files/TimeLastModified,Folders/Name,Folders/ServerRelativeUrl,Folders/ListItemAllFields/Id&@f=`)) {
+        const folder: any = remoteFolders[decodeURIComponent(url.substring(url.indexOf('@f=') + 4, url.length - 1))];
+        if (folder) {
+          return folder;
+        }
+
+        throw { response: { status: 404 }, error: { 'odata.error': { message: { value: 'File Not Found.' } } } };
+      }
+
+      if (url.startsWith('https://graph.microsoft.com/v1.0/shares/u!')) {
+        const shareId: string = url.substring(url.indexOf('u!') + 2, url.indexOf('/driveItem')).replace(/_/g, '/').replace(/-/g, '+');
+        return { file: { hashes: { quickXorHash: remoteHashes[Buffer.from(shareId, 'base64').toString('utf8')] } } };
+      }
+
+      throw 'Invalid request';
+    });
+  };
+
+  const stubCommands = (): void => {
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async (cmd: Command, args: any): Promise<any> => {
+      executedCommands.push({ command: cmd, options: args.options });
+      if (cmd === fileGetCommand) {
+        fs.writeFileSync(args.options.path, 'Downloaded');
+      }
+      return { stdout: '', stderr: '' };
+    });
+  };
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    auth.service.connected = true;
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    localPath = fs.mkdtempSync(path.join(os.tmpdir(), 'm365-folder-sync-'));
+    remoteFolders = {
+      [folderUrl]: {
+        Files: [
+          { Name: 'index.html', Length: '11', TimeLastModified: '2023-01-01T00:00:00Z' }
+        ],
+        Folders: [
+          { Name: 'assets', ServerRelativeUrl: `${folderUrl}/assets`, ListItemAllFields: { Id: 1 } },
+          { Name: 'Forms', ServerRelativeUrl: `${folderUrl}/Forms`, ListItemAllFields: {} }
+        ]
+      },
+      [`${folderUrl}/assets`]: {
+        Files: [
+          { Name: 'app.js', Length: '13', TimeLastModified: '2023-01-05T00:00:00Z' }
+        ],
+        Folders: []
+      }
+    };
+    remoteHashes = {};
+    executedCommands = [];
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    loggerLogSpy = sinon.spy(logger, 'log');
+  });
+
+  afterEach(() => {
+    fs.rmSync(localPath, { recursive: true, force: true });
+    sinonUtil.restore([
+      request.get,
+      request.post,
+      Cli.executeCommandWithOutput,
+      spo.ensureFolder
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+    auth.service.connected = false;
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.FOLDER_SYNC), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('defines correct properties for the default output', () => {
+    assert.deepStrictEqual(command.defaultProperties(), ['path', 'action']);
+  });
+
+  it('uploads new and changed files and creates missing folders', async () => {
+    writeLocalFile('index.html', 'Hello world', '2023-01-02T00:00:00Z');
+    writeLocalFile('assets/app.js', 'console.log()', '2023-01-01T00:00:00Z');
+    writeLocalFile('docs/readme.md', 'Readme', '2023-01-01T00:00:00Z');
+    stubRequests();
+    stubCommands();
+    const ensureFolderStub = sinon.stub(spo, 'ensureFolder').resolves();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'up' } });
+    assert(ensureFolderStub.calledOnceWith(webUrl, `${folderUrl}/docs`, logger, false));
+    assert.deepStrictEqual(executedCommands, [
+      { command: fileAddCommand, options: { webUrl: webUrl, folder: `${folderUrl}/docs`, path: path.join(localPath, 'docs', 'readme.md'), output: 'json', debug: false, verbose: false, _: [] } },
+      { command: fileAddCommand, options: { webUrl: webUrl, folder: folderUrl, path: path.join(localPath, 'index.html'), output: 'json', debug: false, verbose: false, _: [] } }
+    ]);
+    assert(loggerLogSpy.calledWith([
+      { path: 'docs', action: 'Added' },
+      { path: 'docs/readme.md', action: 'Added' },
+      { path: 'index.html', action: 'Updated' }
+    ]));
+  });
+
+  it('uploads all files when the folder does not exist in SharePoint (debug)', async () => {
+    remoteFolders = {};
+    writeLocalFile('index.html', 'Hello world', '2023-01-02T00:00:00Z');
+    stubRequests();
+    stubCommands();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'up', debug: true } });
+    assert.strictEqual(executedCommands.length, 1);
+    assert(loggerLogSpy.calledWith([{ path: 'index.html', action: 'Added' }]));
+  });
+
+  it('uploads files with the same size whose hashes differ when comparing by hash', async () => {
+    writeLocalFile('index.html', 'Hello world', '2022-12-01T00:00:00Z');
+    writeLocalFile('assets/app.js', 'console.log()', '2022-12-01T00:00:00Z');
+    remoteHashes[`https://contoso.sharepoint.com${encodeURI(`${folderUrl}/index.html`)}`] = helloWorldHash;
+    remoteHashes[`https://contoso.sharepoint.com${encodeURI(`${folderUrl}/assets/app.js`)}`] = helloWorldHash;
+    stubRequests();
+    stubCommands();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'up', compareBy: 'hash' } });
+    assert.deepStrictEqual(executedCommands.map(c => c.options.path), [path.join(localPath, 'assets', 'app.js')]);
+    assert(loggerLogSpy.calledWith([{ path: 'assets/app.js', action: 'Updated' }]));
+  });
+
+  it('recycles files and folders that do not exist locally when uploading (verbose)', async () => {
+    remoteFolders[`${folderUrl}/assets`].Files.push({ Name: 'old.js', Length: '3', TimeLastModified: '2023-01-01T00:00:00Z' });
+    remoteFolders[`${folderUrl}/assets`].Folders.push({ Name: 'images', ServerRelativeUrl: `${folderUrl}/assets/images`, ListItemAllFields: { Id: 2 } });
+    remoteFolders[`${folderUrl}/assets/images`] = {
+      Files: [{ Name: 'logo.png', Length: '100', TimeLastModified: '2023-01-01T00:00:00Z' }],
+      Folders: [{ Name: 'icons', ServerRelativeUrl: `${folderUrl}/assets/images/icons`, ListItemAllFields: { Id: 3 } }]
+    };
+    remoteFolders[`${folderUrl}/assets/images/icons`] = { Files: [], Folders: [] };
+    writeLocalFile('index.html', 'Hello world', '2022-12-01T00:00:00Z');
+    writeLocalFile('assets/App.js', 'console.log()', '2022-12-01T00:00:00Z');
+    stubRequests();
+    stubCommands();
+    const postStub = sinon.stub(request, 'post').resolves();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: '/sites/project-x/Shared Documents/site/', localPath: localPath, direction: 'up', deleteOrphans: true, verbose: true } });
+    assert.strictEqual(executedCommands.length, 0);
+    assert.deepStrictEqual(postStub.getCalls().map(c => c.args[0].url), [
+      `${webUrl}/_api/web/GetFolderByServerRelativePath(DecodedUrl=@f)/recycle()?@f='%2Fsites%2Fproject-x%2FShared%20Documents%2Fsite%2Fassets%2Fimages'`,
+      `${webUrl}/_api/web/GetFileByServerRelativePath(DecodedUrl=@f)/recycle()?@f='%2Fsites%2Fproject-x%2FShared%20Documents%2Fsite%2Fassets%2Fold.js'`
+    ]);
+    assert(loggerLogSpy.calledWith([
+      { path: 'assets/images', action: 'Deleted' },
+      { path: 'assets/old.js', action: 'Deleted' }
+    ]));
+  });
+
+  it('creates missing folders in SharePoint when uploading (verbose)', async () => {
+    fs.mkdirSync(path.join(localPath, 'assets'));
+    fs.mkdirSync(path.join(localPath, 'empty'));
+    writeLocalFile('index.html', 'Hello world', '2022-12-01T00:00:00Z');
+    stubRequests();
+    stubCommands();
+    sinon.stub(spo, 'ensureFolder').resolves();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'up', verbose: true } });
+    assert(loggerLogSpy.calledWith([{ path: 'empty', action: 'Added' }]));
+  });
+
+  it('uploads changed files (verbose)', async () => {
+    writeLocalFile('index.html', 'Hello world!', '2022-12-01T00:00:00Z');
+    stubRequests();
+    stubCommands();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'up', verbose: true } });
+    assert(loggerLogSpy.calledWith([{ path: 'index.html', action: 'Updated' }]));
+  });
+
+  it('downloads new and changed files and creates missing local folders', async () => {
+    writeLocalFile('Index.html', 'Hello world', '2022-12-01T00:00:00Z');
+    stubRequests();
+    stubCommands();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'down' } });
+    assert.deepStrictEqual(executedCommands, [
+      { command: fileGetCommand, options: { webUrl: webUrl, url: `${folderUrl}/index.html`, asFile: true, path: path.join(localPath, 'Index.html'), output: 'json', debug: false, verbose: false, _: [] } },
+      { command: fileGetCommand, options: { webUrl: webUrl, url: `${folderUrl}/assets/app.js`, asFile: true, path: path.join(localPath, 'assets', 'app.js'), output: 'json', debug: false, verbose: false, _: [] } }
+    ]);
+    assert.strictEqual(fs.statSync(path.join(localPath, 'assets', 'app.js')).mtime.toISOString(), '2023-01-05T00:00:00.000Z');
+    assert(loggerLogSpy.calledWith([
+      { path: 'assets', action: 'Added' },
+      { path: 'index.html', action: 'Updated' },
+      { path: 'assets/app.js', action: 'Added' }
+    ]));
+  });
+
+  it('creates the local folder if it does not exist when downloading (verbose)', async () => {
+    const targetPath: string = path.join(localPath, 'site');
+    stubRequests();
+    stubCommands();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: targetPath, direction: 'down', verbose: true } });
+    assert(fs.existsSync(path.join(targetPath, 'assets', 'app.js')));
+    assert.strictEqual(executedCommands.length, 2);
+  });
+
+  it('downloads files with the same size whose hashes differ when comparing by hash', async () => {
+    writeLocalFile('index.html', 'Hello world', '2024-01-01T00:00:00Z');
+    writeLocalFile('assets/app.js', 'console.log()', '2024-01-01T00:00:00Z');
+    remoteHashes[`https://contoso.sharepoint.com${encodeURI(`${folderUrl}/index.html`)}`] = helloWorldHash;
+    remoteHashes[`https://contoso.sharepoint.com${encodeURI(`${folderUrl}/assets/app.js`)}`] = 'AAAAAAAAAAAAAAAAAAAAAAAAAAA=';
+    stubRequests();
+    stubCommands();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'down', compareBy: 'hash' } });
+    assert(loggerLogSpy.calledWith([{ path: 'assets/app.js', action: 'Updated' }]));
+  });
+
+  it('removes local files and folders that do not exist in SharePoint when downloading (verbose)', async () => {
+    writeLocalFile('index.html', 'Hello world', '2023-01-01T00:00:00Z');
+    writeLocalFile('assets/app.js', 'console.log()', '2023-01-05T00:00:00Z');
+    writeLocalFile('assets/old.js', 'old', '2023-01-01T00:00:00Z');
+    writeLocalFile('docs/api/readme.md', 'Readme', '2023-01-01T00:00:00Z');
+    stubRequests();
+    stubCommands();
+
+    await command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'down', deleteOrphans: true, verbose: true } });
+    assert.strictEqual(executedCommands.length, 0);
+    assert.strictEqual(fs.existsSync(path.join(localPath, 'docs')), false);
+    assert.strictEqual(fs.existsSync(path.join(localPath, 'assets', 'old.js')), false);
+    assert(loggerLogSpy.calledWith([
+      { path: 'docs', action: 'Deleted' },
+      { path: 'assets/old.js', action: 'Deleted' }
+    ]));
+  });
+
+  it('fails when the folder does not exist in SharePoint when downloading', async () => {
+    remoteFolders = {};
+    stubRequests();
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'down' } }),
+      new CommandError('File Not Found.'));
+  });
+
+  it('correctly handles API OData error', async () => {
+    sinon.stub(request, 'get').rejects({ error: { 'odata.error': { message: { value: 'Access denied.' } } } });
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'up' } }),
+      new CommandError('Access denied.'));
+  });
+
+  it('correctly handles error when uploading a file fails', async () => {
+    writeLocalFile('index.html', 'Hello world!', '2022-12-01T00:00:00Z');
+    stubRequests();
+    sinon.stub(Cli, 'executeCommandWithOutput').rejects({ error: new CommandError('The file is locked.') });
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, folder: 'Shared Documents/site', localPath: localPath, direction: 'up' } }),
+      new CommandError('The file is locked.'));
+  });
+
+  it('fails validation if the webUrl option is not a valid SharePoint site URL', async () => {
+    const actual = await command.validate({ options: { webUrl: 'foo', folder: 'Shared Documents', localPath: localPath, direction: 'up' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the direction option is not valid', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, folder: 'Shared Documents', localPath: localPath, direction: 'both' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the compareBy option is not valid', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, folder: 'Shared Documents', localPath: localPath, direction: 'up', compareBy: 'size' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the local path does not exist when uploading', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, folder: 'Shared Documents', localPath: path.join(localPath, 'site'), direction: 'up' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the local path is a file', async () => {
+    writeLocalFile('index.html', 'Hello world', '2023-01-01T00:00:00Z');
+    const actual = await command.validate({ options: { webUrl: webUrl, folder: 'Shared Documents', localPath: path.join(localPath, 'index.html'), direction: 'down' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation if the local path does not exist when downloading', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, folder: 'Shared Documents', localPath: path.join(localPath, 'site'), direction: 'down' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+
+  it('passes validation when comparing files by hash', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, folder: 'Shared Documents', localPath: localPath, direction: 'up', compareBy: 'hash' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
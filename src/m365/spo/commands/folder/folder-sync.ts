@@ -0,0 +1,498 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
+import request from '../../../../request';
+import { formatting } from '../../../../utils/formatting';
+import { spo } from '../../../../utils/spo';
+import { urlUtil } from '../../../../utils/urlUtil';
+import { validation } from '../../../../utils/validation';
+import SpoCommand from '../../../base/SpoCommand';
+import commands from '../../commands';
+import * as SpoFileAddCommand from '../file/file-add';
+import * as SpoFileGetCommand from '../file/file-get';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  webUrl: string;
+  folder: string;
+  localPath: string;
+  direction: string;
+  compareBy?: string;
+  deleteOrphans?: boolean;
+}
+
+interface SyncFile {
+  // path relative to the synchronized folder, separated with /
+  path: string;
+  size: number;
+  lastModified: Date;
+}
+
+interface SyncItems {
+  files: SyncFile[];
+  folders: string[];
+}
+
+interface SyncResult {
+  path: string;
+  action: 'Added' | 'Updated' | 'Deleted';
+}
+
+class SpoFolderSyncCommand extends SpoCommand {
+  private static directions: string[] = ['up', 'down'];
+  private static compareByOptions: string[] = ['timestamp', 'hash'];
+
+  public get name(): string {
+    return commands.FOLDER_SYNC;
+  }
+
+  public get description(): string {
+    return 'Synchronizes the contents of a local folder with a folder in a document library';
+  }
+
+  public defaultProperties(): string[] | undefined {
+    return ['path', 'action'];
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+    this.#initValidators();
+    this.#initTypes();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        direction: args.options.direction,
+        compareBy: args.options.compareBy || 'timestamp',
+        deleteOrphans: !!args.options.deleteOrphans
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-u, --webUrl <webUrl>'
+      },
+      {
+        option: '-f, --folder <folder>'
+      },
+      {
+        option: '-p, --localPath <localPath>'
+      },
+      {
+        option: '--direction <direction>',
+        autocomplete: SpoFolderSyncCommand.directions
+      },
+      {
+        option: '--compareBy [compareBy]',
+        autocomplete: SpoFolderSyncCommand.compareByOptions
+      },
+      {
+        option: '--deleteOrphans'
+      }
+    );
+  }
+
+  #initValidators(): void {
+    this.validators.push(
+      async (args: CommandArgs) => {
+        const isValidSharePointUrl: boolean | string = validation.isValidSharePointUrl(args.options.webUrl);
+        if (isValidSharePointUrl !== true) {
+          return isValidSharePointUrl;
+        }
+
+        if (SpoFolderSyncCommand.directions.indexOf(args.options.direction) === -1) {
+          return `${args.options.direction} is not a valid direction. Allowed values are ${SpoFolderSyncCommand.directions.join(', ')}`;
+        }
+
+        if (args.options.compareBy && SpoFolderSyncCommand.compareByOptions.indexOf(args.options.compareBy) === -1) {
+          return `${args.options.compareBy} is not a valid value for the compareBy option. Allowed values are ${SpoFolderSyncCommand.compareByOptions.join(', ')}`;
+        }
+
+        const localPath: string = path.resolve(args.options.localPath);
+        if (args.options.direction === 'up' || fs.existsSync(localPath)) {
+          if (!fs.existsSync(localPath) || !fs.lstatSync(localPath).isDirectory()) {
+            return `Specified local path ${args.options.localPath} does not exist or is not a folder`;
+          }
+        }
+
+        return true;
+      }
+    );
+  }
+
+  #initTypes(): void {
+    this.types.string.push('webUrl', 'folder', 'localPath', 'direction', 'compareBy');
+    this.types.boolean.push('deleteOrphans');
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    const folderUrl: string = urlUtil.getServerRelativePath(args.options.webUrl, args.options.folder);
+    const localPath: string = path.resolve(args.options.localPath);
+
+    try {
+      if (this.verbose) {
+        logger.logToStderr(`Retrieving contents of folder ${folderUrl}...`);
+      }
+
+      const remote: SyncItems = await this.getRemoteItems(args.options.webUrl, folderUrl, args.options.direction === 'up');
+
+      if (this.verbose) {
+        logger.logToStderr(`Retrieving contents of local folder ${localPath}...`);
+      }
+
+      const local: SyncItems = { files: [], folders: [] };
+      if (fs.existsSync(localPath)) {
+        this.loadLocalFolder(localPath, '', local);
+      }
+      else {
+        fs.mkdirSync(localPath, { recursive: true });
+      }
+
+      const results: SyncResult[] = args.options.direction === 'up' ?
+        await this.syncUp(logger, args.options, folderUrl, localPath, local, remote) :
+        await this.syncDown(logger, args.options, folderUrl, localPath, remote, local);
+
+      logger.log(results);
+    }
+    catch (err: any) {
+      this.handleRejectedODataJsonPromise(err);
+    }
+  }
+
+  private async syncUp(logger: Logger, options: Options, folderUrl: string, localPath: string, local: SyncItems, remote: SyncItems): Promise<SyncResult[]> {
+    const results: SyncResult[] = [];
+    const remoteFolders: string[] = remote.folders.map(f => f.toLowerCase());
+
+    // folders are listed before their sub-folders so parent folders are created first
+    for (const folder of local.folders) {
+      if (remoteFolders.indexOf(folder.toLowerCase()) === -1) {
+        if (this.verbose) {
+          logger.logToStderr(`Creating folder ${folder}...`);
+        }
+
+        await spo.ensureFolder(options.webUrl, `${folderUrl}/${folder}`, logger, this.debug);
+        results.push({ path: folder, action: 'Added' });
+      }
+    }
+
+    for (const file of local.files) {
+      const target: SyncFile | undefined = this.findFile(remote.files, file.path);
+      if (!await this.isChanged(file, target, options, folderUrl, localPath)) {
+        continue;
+      }
+
+      if (this.verbose) {
+        logger.logToStderr(`Uploading file ${file.path}...`);
+      }
+
+      const folderPath: string = path.posix.dirname(file.path);
+      await this.executeCommand(SpoFileAddCommand, {
+        webUrl: options.webUrl,
+        folder: folderPath === '.' ? folderUrl : `${folderUrl}/${folderPath}`,
+        path: this.getLocalPath(localPath, file.path)
+      });
+      results.push({ path: file.path, action: target ? 'Updated' : 'Added' });
+    }
+
+    if (options.deleteOrphans) {
+      const orphans: SyncItems = this.getOrphans(remote, local);
+
+      for (const folder of orphans.folders) {
+        if (this.verbose) {
+          logger.logToStderr(`Recycling folder ${folder}...`);
+        }
+
+        await this.recycle(options.webUrl, 'Folder', `${folderUrl}/${folder}`);
+        results.push({ path: folder, action: 'Deleted' });
+      }
+
+      for (const file of orphans.files) {
+        if (this.verbose) {
+          logger.logToStderr(`Recycling file ${file.path}...`);
+        }
+
+        await this.recycle(options.webUrl, 'File', `${folderUrl}/${file.path}`);
+        results.push({ path: file.path, action: 'Deleted' });
+      }
+    }
+
+    return results;
+  }
+
+  private async syncDown(logger: Logger, options: Options, folderUrl: string, localPath: string, remote: SyncItems, local: SyncItems): Promise<SyncResult[]> {
+    const results: SyncResult[] = [];
+    const localFolders: string[] = local.folders.map(f => f.toLowerCase());
+
+    for (const folder of remote.folders) {
+      if (localFolders.indexOf(folder.toLowerCase()) === -1) {
+        if (this.verbose) {
+          logger.logToStderr(`Creating local folder ${folder}...`);
+        }
+
+        fs.mkdirSync(this.getLocalPath(localPath, folder), { recursive: true });
+        results.push({ path: folder, action: 'Added' });
+      }
+    }
+
+    for (const file of remote.files) {
+      const target: SyncFile | undefined = this.findFile(local.files, file.path);
+      if (!await this.isChanged(file, target, options, folderUrl, localPath)) {
+        continue;
+      }
+
+      if (this.verbose) {
+        logger.logToStderr(`Downloading file ${file.path}...`);
+      }
+
+      // keep the name of the existing local file which can differ in casing
+      const filePath: string = this.getLocalPath(localPath, target ? target.path : file.path);
+      await this.executeCommand(SpoFileGetCommand, {
+        webUrl: options.webUrl,
+        url: `${folderUrl}/${file.path}`,
+        asFile: true,
+        path: filePath
+      });
+      // align the timestamp of the local file with the file in SharePoint
+      // so that unchanged files aren't downloaded again on the next run
+      fs.utimesSync(filePath, file.lastModified, file.lastModified);
+      results.push({ path: file.path, action: target ? 'Updated' : 'Added' });
+    }
+
+    if (options.deleteOrphans) {
+      const orphans: SyncItems = this.getOrphans(local, remote);
+
+      orphans.folders.forEach(folder => {
+        if (this.verbose) {
+          logger.logToStderr(`Removing local folder ${folder}...`);
+        }
+
+        fs.rmSync(this.getLocalPath(localPath, folder), { recursive: true, force: true });
+        results.push({ path: folder, action: 'Deleted' });
+      });
+
+      orphans.files.forEach(file => {
+        if (this.verbose) {
+          logger.logToStderr(`Removing local file ${file.path}...`);
+        }
+
+        fs.unlinkSync(this.getLocalPath(localPath, file.path));
+        results.push({ path: file.path, action: 'Deleted' });
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Determines if the source file must be copied to the target. Files that
+   * have the same size are compared by their timestamps or by their hashes
+   */
+  private async isChanged(source: SyncFile, target: SyncFile | undefined, options: Options, folderUrl: string, localPath: string): Promise<boolean> {
+    if (!target || source.size !== target.size) {
+      return true;
+    }
+
+    if (options.compareBy === 'hash') {
+      const remoteHash: string = await this.getRemoteHash(options.webUrl, `${folderUrl}/${source.path}`);
+      const localHash: string = this.getLocalHash(this.getLocalPath(localPath, options.direction === 'up' ? source.path : target.path));
+      return remoteHash !== localHash;
+    }
+
+    // SharePoint stores timestamps with a precision of seconds
+    return Math.floor(source.lastModified.getTime() / 1000) > Math.floor(target.lastModified.getTime() / 1000);
+  }
+
+  /**
+   * Returns the items from the source that don't exist in the target.
+   * Items located in orphaned folders are removed together with their
+   * folder and therefore aren't returned separately
+   */
+  private getOrphans(target: SyncItems, source: SyncItems): SyncItems {
+    const sourceFolders: string[] = source.folders.map(f => f.toLowerCase());
+    const orphanedFolders: string[] = [];
+
+    target.folders.forEach(folder => {
+      if (sourceFolders.indexOf(folder.toLowerCase()) === -1 &&
+        !this.isInFolder(folder, orphanedFolders)) {
+        orphanedFolders.push(folder);
+      }
+    });
+
+    return {
+      folders: orphanedFolders,
+      files: target.files.filter(file => !this.findFile(source.files, file.path) && !this.isInFolder(file.path, orphanedFolders))
+    };
+  }
+
+  private isInFolder(itemPath: string, folders: string[]): boolean {
+    const lowerCasePath: string = itemPath.toLowerCase();
+    return folders.some(f => lowerCasePath.startsWith(`${f.toLowerCase()}/`));
+  }
+
+  // SharePoint URLs are case-insensitive
+  private findFile(files: SyncFile[], filePath: string): SyncFile | undefined {
+    const lowerCasePath: string = filePath.toLowerCase();
+    return files.find(f => f.path.toLowerCase() === lowerCasePath);
+  }
+
+  private getLocalPath(localPath: string, relativePath: string): string {
+    return path.join(localPath, ...relativePath.split('/'));
+  }
+
+  private async getRemoteItems(webUrl: string, folderUrl: string, allowMissing: boolean): Promise<SyncItems> {
+    const items: SyncItems = { files: [], folders: [] };
+
+    try {
+      await this.loadRemoteFolder(webUrl, folderUrl, '', items);
+    }
+    catch (err: any) {
+      // the folder is created when uploading files
+      if (allowMissing && err.response && err.response.status === 404) {
+        return items;
+      }
+
+      throw err;
+    }
+
+    return items;
+  }
+
+  private async loadRemoteFolder(webUrl: string, folderUrl: string, relativePath: string, items: SyncItems): Promise<void> {
+    const requestOptions: any = {
+      url: `${webUrl}/_api/web/GetFolderByServerRelativePath(DecodedUrl=@f)?$expand=Files,Folders/ListItemAllFields&$select=Files/Name,Files/Length,Files/TimeLastModified,Folders/Name,Folders/ServerRelativeUrl,Folders/ListItemAllFields/Id&@f='${formatting.encodeQueryParameter(folderUrl)}'`,
+      headers: {
+        accept: 'application/json;odata=nometadata'
+      },
+      responseType: 'json'
+    };
+
+    const folder: any = await request.get<any>(requestOptions);
+
+    folder.Files.forEach((file: any) => {
+      items.files.push({
+        path: `${relativePath}${file.Name}`,
+        size: parseInt(file.Length),
+        lastModified: new Date(file.TimeLastModified)
+      });
+    });
+
+    for (const subFolder of folder.Folders) {
+      // skip system folders like Forms which aren't list items
+      if (!subFolder.ListItemAllFields || typeof subFolder.ListItemAllFields.Id === 'undefined') {
+        continue;
+      }
+
+      items.folders.push(`${relativePath}${subFolder.Name}`);
+      await this.loadRemoteFolder(webUrl, subFolder.ServerRelativeUrl, `${relativePath}${subFolder.Name}/`, items);
+    }
+  }
+
+  private loadLocalFolder(folderPath: string, relativePath: string, items: SyncItems): void {
+    // sort entries so that the files are synchronized in a predictable order
+    fs.readdirSync(folderPath, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name)).forEach(entry => {
+      const entryPath: string = path.join(folderPath, entry.name);
+
+      if (entry.isDirectory()) {
+        items.folders.push(`${relativePath}${entry.name}`);
+        this.loadLocalFolder(entryPath, `${relativePath}${entry.name}/`, items);
+      }
+      else if (entry.isFile()) {
+        const stats: fs.Stats = fs.statSync(entryPath);
+        items.files.push({
+          path: `${relativePath}${entry.name}`,
+          size: stats.size,
+          lastModified: stats.mtime
+        });
+      }
+    });
+  }
+
+  /**
+   * Retrieves the QuickXorHash of the file in SharePoint from Microsoft Graph
+   * using the URL of the file as sharing URL
+   */
+  private async getRemoteHash(webUrl: string, fileUrl: string): Promise<string> {
+    const absoluteUrl: string = encodeURI(urlUtil.getAbsoluteUrl(webUrl, fileUrl));
+    const shareId: string = Buffer.from(absoluteUrl, 'utf8').toString('base64')
+      .replace(/=+$/, '')
+      .replace(/\//g, '_')
+      .replace(/\+/g, '-');
+
+    const requestOptions: any = {
+      url: `https://graph.microsoft.com/v1.0/shares/u!${shareId}/driveItem?$select=file`,
+      headers: {
+        accept: 'application/json;odata.metadata=none'
+      },
+      responseType: 'json'
+    };
+
+    const driveItem: any = await request.get<any>(requestOptions);
+    return driveItem.file.hashes.quickXorHash;
+  }
+
+  /**
+   * Calculates the QuickXorHash of the local file. The hash is a 160-bit
+   * circular XOR of the file's bytes, each shifted by 11 bits more than
+   * the previous one, combined with the length of the file
+   */
+  private getLocalHash(filePath: string): string {
+    const hash: Buffer = Buffer.alloc(20);
+    const buffer: Buffer = Buffer.alloc(1024 * 1024);
+    const fd: number = fs.openSync(filePath, 'r');
+    let length: number = 0;
+    let bytesRead: number;
+
+    try {
+      while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+        for (let i = 0; i < bytesRead; i++) {
+          const bitOffset: number = ((length + i) * 11) % 160;
+          const byteIndex: number = bitOffset >> 3;
+          const shift: number = bitOffset & 7;
+
+          hash[byteIndex] ^= (buffer[i] << shift) & 0xff;
+          if (shift > 0) {
+            hash[(byteIndex + 1) % 20] ^= buffer[i] >> (8 - shift);
+          }
+        }
+
+        length += bytesRead;
+      }
+    }
+    finally {
+      fs.closeSync(fd);
+    }
+
+    const lengthBytes: Buffer = Buffer.alloc(8);
+    lengthBytes.writeUInt32LE(length % 0x100000000, 0);
+    lengthBytes.writeUInt32LE(Math.floor(length / 0x100000000), 4);
+    for (let i = 0; i < 8; i++) {
+      hash[12 + i] ^= lengthBytes[i];
+    }
+
+    return hash.toString('base64');
+  }
+
+  private async recycle(webUrl: string, type: 'File' | 'Folder', serverRelativeUrl: string): Promise<void> {
+    const requestOptions: any = {
+      url: `${webUrl}/_api/web/Get${type}ByServerRelativePath(DecodedUrl=@f)/recycle()?@f='${formatting.encodeQueryParameter(serverRelativeUrl)}'`,
+      headers: {
+        accept: 'application/json;odata=nometadata'
+      },
+      responseType: 'json'
+    };
+
+    await request.post(requestOptions);
+  }
+}
+
+module.exports = new SpoFolderSyncCommand();
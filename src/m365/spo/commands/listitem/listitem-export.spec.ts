@@ -0,0 +1,276 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as sinon from 'sinon';
+import appInsights from '../../../../appInsights';
+import auth from '../../../../Auth';
+import { Cli } from '../../../../cli/Cli';
+import { CommandInfo } from '../../../../cli/CommandInfo';
+import { Logger } from '../../../../cli/Logger';
+import Command, { CommandError } from '../../../../Command';
+import request from '../../../../request';
+import { pid } from '../../../../utils/pid';
+import { sinonUtil } from '../../../../utils/sinonUtil';
+import commands from '../../commands';
+const command: Command = require('./listitem-export');
+
+describe(commands.LISTITEM_EXPORT, () => {
+  const webUrl: string = 'https://contoso.sharepoint.com/sites/project-x';
+  const fields: any[] = [
+    { InternalName: 'ID', Title: 'ID', TypeAsString: 'Counter', Hidden: false, ReadOnlyField: true },
+    { InternalName: 'ContentType', Title: 'Content Type', TypeAsString: 'Computed', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Attachments', Title: 'Attachments', TypeAsString: 'Attachments', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Modified', Title: 'Modified', TypeAsString: 'DateTime', Hidden: false, ReadOnlyField: true },
+    { InternalName: 'TaxCatchAll', Title: 'Taxonomy Catch All Column', TypeAsString: 'LookupMulti', LookupField: 'CatchAllData', Hidden: true, ReadOnlyField: false },
+    { InternalName: 'Title', Title: 'Title', TypeAsString: 'Text', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Client', Title: 'Client', TypeAsString: 'Lookup', LookupField: 'Title', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Related', Title: 'Related projects', TypeAsString: 'LookupMulti', LookupField: 'Code', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Manager', Title: 'Manager', TypeAsString: 'User', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Members', Title: 'Members', TypeAsString: 'UserMulti', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Department', Title: 'Department', TypeAsString: 'TaxonomyFieldType', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Project_Tags', Title: 'Tags', TypeAsString: 'TaxonomyFieldTypeMulti', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Phases', Title: 'Phases', TypeAsString: 'MultiChoice', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Site', Title: 'Site', TypeAsString: 'URL', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'StartDate', Title: 'Start date', TypeAsString: 'DateTime', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Active', Title: 'Active', TypeAsString: 'Boolean', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Budget', Title: 'Budget', TypeAsString: 'Currency', Hidden: false, ReadOnlyField: false }
+  ];
+  const items: any[] = [
+    {
+      ID: 1,
+      Title: 'Project X, phase 1',
+      Client: { Id: 1, Title: 'Contoso' },
+      Related: [{ Id: 2, Code: 'PRJ-002' }, { Id: 3, Code: 'PRJ-003' }],
+      Manager: { Name: 'i:0#.f|membership|adelev@contoso.com' },
+      Members: [{ Name: 'i:0#.f|membership|meganb@contoso.com' }, { Name: 'c:0o.c|federateddirectoryclaimprovider|b6b2c3b0-7ae4-4b3e-9b6a-1b4f9c4d2e11' }],
+      Department: { Label: '1', TermGuid: '0e8f395e-ff58-4d45-9ff7-e331ab728beb', WssId: 1 },
+      'Project_Tags': [
+        { Label: '2', TermGuid: 'c6d7fb2e-2a0e-4c3c-a4f5-0f1e2d3c4b5a', WssId: 2 },
+        { Label: '3', TermGuid: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d', WssId: 3 }
+      ],
+      Phases: ['Design', 'Build'],
+      Site: { Description: 'Project site', Url: 'https://contoso.sharepoint.com/sites/project-x' },
+      StartDate: '2023-01-15T08:00:00Z',
+      Active: true,
+      Budget: 1500.5,
+      FieldValuesAsText: {
+        Department: 'Marketing',
+        'Project_x005f_Tags': 'Internal;Strategic'
+      }
+    },
+    {
+      ID: 2,
+      Title: 'Project Y',
+      Client: {},
+      Related: [],
+      Manager: {},
+      Members: [],
+      Department: null,
+      'Project_Tags': [],
+      Phases: [],
+      Site: null,
+      StartDate: null,
+      Active: false,
+      Budget: null,
+      FieldValuesAsText: {
+        Department: '',
+        'Project_x005f_Tags': ''
+      }
+    }
+  ];
+
+  let log: any[];
+  let logger: Logger;
+  let loggerLogToStderrSpy: sinon.SinonSpy;
+  let commandInfo: CommandInfo;
+  let writeFileSyncStub: sinon.SinonStub;
+
+  const stubRequests = (listRestUrl: string): sinon.SinonStub => {
+    return sinon.stub(request, 'get').callsFake(async (opts) => {
+      if (opts.url === `${listRestUrl}/fields`) {
+        return { value: fields };
+      }
+
+      if (opts.url === `${listRestUrl}/items?%24skiptoken=Paged%3dTRUE%26p_ID%3d1&%24top=5000`) {
+        return { value: [items[1]] };
+      }
+
+      if ((opts.url as string).startsWith(`${listRestUrl}/items?`)) {
+        return { value: [items[0]], 'odata.nextLink': `${listRestUrl}/items?%24skiptoken=Paged%3dTRUE%26p_ID%3d1&%24top=5000` };
+      }
+
+      throw 'Invalid request';
+    });
+  };
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    auth.service.connected = true;
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    loggerLogToStderrSpy = sinon.spy(logger, 'logToStderr');
+    writeFileSyncStub = sinon.stub(fs, 'writeFileSync').returns();
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      request.get,
+      fs.writeFileSync,
+      fs.existsSync
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+    auth.service.connected = false;
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.LISTITEM_EXPORT), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('exports items with the fields that can be imported to a CSV file', async () => {
+    const listRestUrl: string = `${webUrl}/_api/web/lists/getByTitle('Projects')`;
+    const getStub: sinon.SinonStub = stubRequests(listRestUrl);
+
+    await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } });
+    assert.strictEqual(getStub.secondCall.args[0].url, `${listRestUrl}/items?$select=Title,Client/Id,Client/Title,Related/Id,Related/Code,Manager/Name,Members/Name,Department,FieldValuesAsText,Project_Tags,Phases,Site,StartDate,Active,Budget&$expand=Client,Related,Manager,Members,FieldValuesAsText&$top=5000`);
+    assert(writeFileSyncStub.calledWith('items.csv', [
+      'Title,Client,Related,Manager,Members,Department,Project_Tags,Phases,Site,StartDate,Active,Budget',
+      '"Project X, phase 1",1;#Contoso,2;#PRJ-002;#3;#PRJ-003,i:0#.f|membership|adelev@contoso.com,i:0#.f|membership|meganb@contoso.com;c:0o.c|federateddirectoryclaimprovider|b6b2c3b0-7ae4-4b3e-9b6a-1b4f9c4d2e11,Marketing|0e8f395e-ff58-4d45-9ff7-e331ab728beb,Internal|c6d7fb2e-2a0e-4c3c-a4f5-0f1e2d3c4b5a;Strategic|a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d,Design;#Build,"https://contoso.sharepoint.com/sites/project-x, Project site",2023-01-15T08:00:00Z,true,1500.5',
+      'Project Y,,,,,,,,,,false,',
+      ''
+    ].join('\n'), 'utf8'));
+  });
+
+  it('exports items to a JSON file', async () => {
+    stubRequests(`${webUrl}/_api/web/lists/getByTitle('Projects')`);
+
+    await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.json' } });
+    assert.deepStrictEqual(JSON.parse(writeFileSyncStub.firstCall.args[1]), [
+      {
+        Title: 'Project X, phase 1',
+        Client: '1;#Contoso',
+        Related: '2;#PRJ-002;#3;#PRJ-003',
+        Manager: 'i:0#.f|membership|adelev@contoso.com',
+        Members: 'i:0#.f|membership|meganb@contoso.com;c:0o.c|federateddirectoryclaimprovider|b6b2c3b0-7ae4-4b3e-9b6a-1b4f9c4d2e11',
+        Department: 'Marketing|0e8f395e-ff58-4d45-9ff7-e331ab728beb',
+        'Project_Tags': 'Internal|c6d7fb2e-2a0e-4c3c-a4f5-0f1e2d3c4b5a;Strategic|a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+        Phases: 'Design;#Build',
+        Site: 'https://contoso.sharepoint.com/sites/project-x, Project site',
+        StartDate: '2023-01-15T08:00:00Z',
+        Active: true,
+        Budget: 1500.5
+      },
+      {
+        Title: 'Project Y',
+        Client: null,
+        Related: null,
+        Manager: null,
+        Members: null,
+        Department: null,
+        'Project_Tags': null,
+        Phases: null,
+        Site: null,
+        StartDate: null,
+        Active: false,
+        Budget: null
+      }
+    ]);
+  });
+
+  it('exports the specified fields identified by internal name or display name from the list with the specified ID', async () => {
+    const listRestUrl: string = `${webUrl}/_api/web/lists(guid'4a2b0ba6-6b4a-4b41-9a3c-6f3e4b7b1c2d')`;
+    const getStub: sinon.SinonStub = stubRequests(listRestUrl);
+
+    await command.action(logger, { options: { webUrl: webUrl, listId: '4a2b0ba6-6b4a-4b41-9a3c-6f3e4b7b1c2d', filePath: 'items.csv', fields: 'ID, Title,Start date' } });
+    assert.strictEqual(getStub.secondCall.args[0].url, `${listRestUrl}/items?$select=ID,Title,StartDate&$top=5000`);
+    assert(writeFileSyncStub.calledWith('items.csv', 'ID,Title,StartDate\n1,"Project X, phase 1",2023-01-15T08:00:00Z\n2,Project Y,\n', 'utf8'));
+  });
+
+  it('logs progress in verbose mode', async () => {
+    stubRequests(`${webUrl}/_api/web/lists/getByTitle('Projects')`);
+
+    await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv', verbose: true } });
+    assert(loggerLogToStderrSpy.calledWith('Retrieving fields of list Projects...'));
+    assert(loggerLogToStderrSpy.calledWith('Writing 2 items to items.csv...'));
+  });
+
+  it('throws an error when the specified field does not exist in the list', async () => {
+    stubRequests(`${webUrl}/_api/web/lists/getByTitle('Projects')`);
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv', fields: 'Title,Status' } }),
+      new CommandError(`Field 'Status' not found in the list`));
+    assert(writeFileSyncStub.notCalled);
+  });
+
+  it('correctly handles API OData error', async () => {
+    sinon.stub(request, 'get').callsFake(async () => {
+      throw {
+        error: {
+          'odata.error': {
+            code: '-2130575322, Microsoft.SharePoint.SPException',
+            message: {
+              value: `List 'Projects' does not exist at site with URL 'https://contoso.sharepoint.com/sites/project-x'.`
+            }
+          }
+        }
+      };
+    });
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } }),
+      new CommandError(`List 'Projects' does not exist at site with URL 'https://contoso.sharepoint.com/sites/project-x'.`));
+  });
+
+  it('fails validation if the webUrl option is not a valid SharePoint URL', async () => {
+    const actual = await command.validate({ options: { webUrl: 'foo', listTitle: 'Projects', filePath: 'items.csv' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the listId option is not a valid GUID', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, listId: 'foo', filePath: 'items.csv' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the file is not a CSV or JSON file', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.xlsx' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the folder where to save the file does not exist', async () => {
+    sinon.stub(fs, 'existsSync').returns(false);
+
+    const actual = await command.validate({ options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'export/items.json' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation when all options are valid', async () => {
+    sinon.stub(fs, 'existsSync').returns(true);
+
+    const actual = await command.validate({ options: { webUrl: webUrl, listId: '4a2b0ba6-6b4a-4b41-9a3c-6f3e4b7b1c2d', filePath: 'items.CSV' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
@@ -0,0 +1,265 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
+import request from '../../../../request';
+import { validation } from '../../../../utils/validation';
+import commands from '../../commands';
+import { ListField, SpoListItemTransferBaseCommand } from './listitem-transfer-base';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  webUrl: string;
+  listId?: string;
+  listTitle?: string;
+  filePath: string;
+  fields?: string;
+}
+
+class SpoListItemExportCommand extends SpoListItemTransferBaseCommand {
+  // types of fields that can't be imported and are therefore exported only when requested
+  private static excludedFieldTypes: string[] = ['Attachments', 'Computed'];
+
+  public get name(): string {
+    return commands.LISTITEM_EXPORT;
+  }
+
+  public get description(): string {
+    return 'Exports items from the specified list to a CSV or JSON file';
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+    this.#initValidators();
+    this.#initTypes();
+    this.#initOptionSets();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        listId: typeof args.options.listId !== 'undefined',
+        listTitle: typeof args.options.listTitle !== 'undefined',
+        fields: typeof args.options.fields !== 'undefined'
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-u, --webUrl <webUrl>'
+      },
+      {
+        option: '-i, --listId [listId]'
+      },
+      {
+        option: '-t, --listTitle [listTitle]'
+      },
+      {
+        option: '-p, --filePath <filePath>'
+      },
+      {
+        option: '-f, --fields [fields]'
+      }
+    );
+  }
+
+  #initValidators(): void {
+    this.validators.push(
+      async (args: CommandArgs) => {
+        const isValidSharePointUrl: boolean | string = validation.isValidSharePointUrl(args.options.webUrl);
+        if (isValidSharePointUrl !== true) {
+          return isValidSharePointUrl;
+        }
+
+        if (args.options.listId && !validation.isValidGuid(args.options.listId)) {
+          return `${args.options.listId} in option listId is not a valid GUID`;
+        }
+
+        if (SpoListItemTransferBaseCommand.supportedFileExtensions.indexOf(path.extname(args.options.filePath).toLowerCase()) === -1) {
+          return `Specify the path to a .csv or .json file in option filePath`;
+        }
+
+        if (!fs.existsSync(path.dirname(path.resolve(args.options.filePath)))) {
+          return `Specified path where to save the file does not exist`;
+        }
+
+        return true;
+      }
+    );
+  }
+
+  #initTypes(): void {
+    this.types.string.push('webUrl', 'listId', 'listTitle', 'filePath', 'fields');
+  }
+
+  #initOptionSets(): void {
+    this.optionSets.push(['listId', 'listTitle']);
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    const listRestUrl: string = this.getListRestUrl(args.options.webUrl, args.options.listId, args.options.listTitle);
+
+    try {
+      if (this.verbose) {
+        logger.logToStderr(`Retrieving fields of list ${args.options.listId || args.options.listTitle}...`);
+      }
+
+      const fields: ListField[] = this.getExportedFields(await this.getFields(listRestUrl), args.options.fields);
+
+      if (this.verbose) {
+        logger.logToStderr(`Retrieving items...`);
+      }
+
+      const items: any[] = await this.getItems(listRestUrl, fields);
+      const values: any[] = items.map(item => {
+        const value: any = {};
+        fields.forEach(f => value[f.InternalName] = this.serializeValue(f, item));
+        return value;
+      });
+
+      if (this.verbose) {
+        logger.logToStderr(`Writing ${values.length} items to ${args.options.filePath}...`);
+      }
+
+      let contents: string;
+      if (this.isCsvFile(args.options.filePath)) {
+        const { stringify } = require('csv-stringify/sync');
+        contents = stringify(values, {
+          header: true,
+          columns: fields.map(f => f.InternalName),
+          cast: {
+            boolean: (value: boolean): string => value.toString()
+          }
+        });
+      }
+      else {
+        contents = JSON.stringify(values, null, 2);
+      }
+
+      fs.writeFileSync(args.options.filePath, contents, 'utf8');
+    }
+    catch (err: any) {
+      this.handleRejectedODataJsonPromise(err);
+    }
+  }
+
+  /**
+   * Returns the fields to export. If no fields have been specified, returns
+   * the fields that can be imported, ie. fields that are visible and not read-only
+   */
+  private getExportedFields(listFields: ListField[], fieldsOption: string | undefined): ListField[] {
+    if (!fieldsOption) {
+      return listFields.filter(f => !f.Hidden &&
+        !f.ReadOnlyField &&
+        SpoListItemExportCommand.excludedFieldTypes.indexOf(f.TypeAsString) === -1);
+    }
+
+    return fieldsOption.split(',').map(name => {
+      const fieldName: string = name.trim();
+      const field: ListField | undefined = listFields.find(f => f.InternalName === fieldName) ||
+        listFields.find(f => f.Title === fieldName);
+
+      if (!field) {
+        throw `Field '${fieldName}' not found in the list`;
+      }
+
+      return field;
+    });
+  }
+
+  private async getItems(listRestUrl: string, fields: ListField[]): Promise<any[]> {
+    const select: string[] = [];
+    const expand: string[] = [];
+
+    fields.forEach(f => {
+      switch (f.TypeAsString) {
+        case 'Lookup':
+        case 'LookupMulti':
+          select.push(`${f.InternalName}/Id`, `${f.InternalName}/${f.LookupField}`);
+          expand.push(f.InternalName);
+          break;
+        case 'User':
+        case 'UserMulti':
+          select.push(`${f.InternalName}/Name`);
+          expand.push(f.InternalName);
+          break;
+        case 'TaxonomyFieldType':
+        case 'TaxonomyFieldTypeMulti':
+          // labels of terms are only available in field values as text
+          select.push(f.InternalName);
+          if (expand.indexOf('FieldValuesAsText') === -1) {
+            select.push('FieldValuesAsText');
+            expand.push('FieldValuesAsText');
+          }
+          break;
+        default:
+          select.push(f.InternalName);
+      }
+    });
+
+    let url: string | undefined = `${listRestUrl}/items?$select=${select.join(',')}${expand.length > 0 ? `&$expand=${expand.join(',')}` : ''}&$top=5000`;
+    const items: any[] = [];
+
+    while (url) {
+      const requestOptions: any = {
+        url: url,
+        headers: {
+          accept: 'application/json;odata=nometadata'
+        },
+        responseType: 'json'
+      };
+
+      const res: any = await request.get<{ value: any[] }>(requestOptions);
+      items.push(...res.value);
+      url = res['odata.nextLink'];
+    }
+
+    return items;
+  }
+
+  /**
+   * Serializes the value of the field to the format accepted by
+   * the spo listitem import command
+   */
+  private serializeValue(field: ListField, item: any): any {
+    const value: any = item[field.InternalName];
+
+    if (typeof value === 'undefined' || value === null) {
+      return null;
+    }
+
+    switch (field.TypeAsString) {
+      case 'Lookup':
+        return value.Id ? `${value.Id};#${value[field.LookupField as string]}` : null;
+      case 'LookupMulti':
+        return value.length > 0 ? value.map((v: any) => `${v.Id};#${v[field.LookupField as string]}`).join(';#') : null;
+      case 'User':
+        return value.Name || null;
+      case 'UserMulti':
+        return value.length > 0 ? value.map((v: any) => v.Name).join(';') : null;
+      case 'TaxonomyFieldType':
+      case 'TaxonomyFieldTypeMulti': {
+        const terms: any[] = Array.isArray(value) ? value : [value];
+        // field values as text use encoded internal names
+        const labels: string[] = item.FieldValuesAsText[field.InternalName.replace(/_/g, '_x005f_')].split(';');
+        return terms.length > 0 ? terms.map((t, i) => `${labels[i]}|${t.TermGuid}`).join(';') : null;
+      }
+      case 'MultiChoice':
+        return value.length > 0 ? value.join(';#') : null;
+      case 'URL':
+        return `${value.Url}, ${value.Description}`;
+      default:
+        return value;
+    }
+  }
+}
+
+module.exports = new SpoListItemExportCommand();
@@ -0,0 +1,477 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as sinon from 'sinon';
+import appInsights from '../../../../appInsights';
+import auth from '../../../../Auth';
+import { Cli } from '../../../../cli/Cli';
+import { CommandInfo } from '../../../../cli/CommandInfo';
+import { Logger } from '../../../../cli/Logger';
+import Command, { CommandError } from '../../../../Command';
+import request from '../../../../request';
+import { pid } from '../../../../utils/pid';
+import { sinonUtil } from '../../../../utils/sinonUtil';
+import { spoBatch } from '../../../../utils/spoBatch';
+import commands from '../../commands';
+const command: Command = require('./listitem-import');
+const exportCommand: Command = require('./listitem-export');
+
+describe(commands.LISTITEM_IMPORT, () => {
+  const webUrl: string = 'https://contoso.sharepoint.com/sites/project-x';
+  const listRestUrl: string = `${webUrl}/_api/web/lists/getByTitle('Projects')`;
+  const fields: any[] = [
+    { InternalName: 'ID', Title: 'ID', TypeAsString: 'Counter', Hidden: false, ReadOnlyField: true },
+    { InternalName: 'Modified', Title: 'Modified', TypeAsString: 'DateTime', Hidden: false, ReadOnlyField: true },
+    { InternalName: 'Title', Title: 'Title', TypeAsString: 'Text', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Client', Title: 'Client', TypeAsString: 'Lookup', LookupField: 'Title', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Partners', Title: 'Partners', TypeAsString: 'LookupMulti', LookupField: 'Title', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Department', Title: 'Department', TypeAsString: 'TaxonomyFieldType', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Project_x0020_Tags', Title: 'Project tags', TypeAsString: 'TaxonomyFieldTypeMulti', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Manager', Title: 'Manager', TypeAsString: 'User', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Members', Title: 'Members', TypeAsString: 'UserMulti', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'StartDate', Title: 'Start date', TypeAsString: 'DateTime', Hidden: false, ReadOnlyField: false },
+    { InternalName: 'Active', Title: 'Active', TypeAsString: 'Boolean', Hidden: false, ReadOnlyField: false }
+  ];
+
+  let log: any[];
+  let logger: Logger;
+  let loggerLogSpy: sinon.SinonSpy;
+  let loggerLogToStderrSpy: sinon.SinonSpy;
+  let commandInfo: CommandInfo;
+
+  const getCreateResponse = (id: number): any => ({
+    status: 200,
+    headers: {},
+    body: {
+      value: [
+        { ErrorMessage: null, FieldName: 'Title', FieldValue: 'Project', HasException: false, ItemId: id },
+        { ErrorMessage: null, FieldName: 'Id', FieldValue: id.toString(), HasException: false, ItemId: id }
+      ]
+    }
+  });
+
+  const getUpdateResponse = (id: number): any => ({
+    status: 200,
+    headers: {},
+    body: {
+      value: [
+        { ErrorMessage: null, FieldName: 'Title', FieldValue: 'Project', HasException: false, ItemId: id }
+      ]
+    }
+  });
+
+  const regionalSettings: any = { AM: 'AM', DateFormat: 0, DateSeparator: '/', PM: 'PM', Time24: false, TimeSeparator: ':' };
+
+  const stubFile = (contents: string): void => {
+    sinon.stub(fs, 'readFileSync').returns(contents);
+  };
+
+  const exportAndImport = async (filePath: string): Promise<sinon.SinonStub> => {
+    sinonUtil.restore(request.get);
+    sinon.stub(request, 'get').callsFake(async (opts) => {
+      if (opts.url === `${listRestUrl}/fields`) {
+        return { value: fields };
+      }
+
+      if (opts.url === `${webUrl}/_api/web/RegionalSettings?$select=AM,DateFormat,DateSeparator,PM,Time24,TimeSeparator`) {
+        return regionalSettings;
+      }
+
+      if ((opts.url as string).startsWith(`${listRestUrl}/items?`)) {
+        return {
+          value: [
+            {
+              Title: 'Project X',
+              Client: { Id: 1, Title: 'Contoso' },
+              Partners: [{ Id: 2, Title: 'Fabrikam' }, { Id: 3, Title: 'Northwind' }],
+              Department: { Label: '5', TermGuid: '0e8f395e-ff58-4d45-9ff7-e331ab728beb', WssId: 5 },
+              'Project_x0020_Tags': [
+                { Label: '6', TermGuid: '1b0e1d0f-3c47-4c9a-8c0b-4a1d5e4c8f01', WssId: 6 },
+                { Label: '7', TermGuid: '2c1f2e10-4d58-4dab-9d1c-5b2e6f5d9a12', WssId: 7 }
+              ],
+              StartDate: '2023-01-15T14:05:00Z',
+              Manager: null,
+              Members: [],
+              Active: true,
+              FieldValuesAsText: {
+                Department: 'Marketing',
+                'Project_x005f_x0020_x005f_Tags': 'Cloud;Migration'
+              }
+            }
+          ]
+        };
+      }
+
+      throw 'Invalid request';
+    });
+    const writeFileSyncStub: sinon.SinonStub = sinon.stub(fs, 'writeFileSync').callsFake(() => { });
+    await exportCommand.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: filePath } });
+
+    stubFile(writeFileSyncStub.firstCall.args[1]);
+    const executeStub: sinon.SinonStub = sinon.stub(spoBatch, 'execute').resolves([getCreateResponse(12)]);
+    await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: filePath } });
+    return executeStub;
+  };
+
+  const roundTripFormValues: any[] = [
+    { FieldName: 'Title', FieldValue: 'Project X' },
+    { FieldName: 'Client', FieldValue: '1' },
+    { FieldName: 'Partners', FieldValue: '2;#;#3;#' },
+    { FieldName: 'Department', FieldValue: 'Marketing|0e8f395e-ff58-4d45-9ff7-e331ab728beb;' },
+    { FieldName: 'Project_x0020_Tags', FieldValue: 'Cloud|1b0e1d0f-3c47-4c9a-8c0b-4a1d5e4c8f01;Migration|2c1f2e10-4d58-4dab-9d1c-5b2e6f5d9a12;' },
+    { FieldName: 'Manager', FieldValue: '' },
+    { FieldName: 'Members', FieldValue: '' },
+    { FieldName: 'StartDate', FieldValue: '1/15/2023 2:05 PM' },
+    { FieldName: 'Active', FieldValue: '1' }
+  ];
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    auth.service.connected = true;
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    loggerLogSpy = sinon.spy(logger, 'log');
+    loggerLogToStderrSpy = sinon.spy(logger, 'logToStderr');
+    sinon.stub(request, 'get').callsFake(async (opts) => {
+      if (opts.url === `${listRestUrl}/fields`) {
+        return { value: fields };
+      }
+
+      if (opts.url === `${webUrl}/_api/web/RegionalSettings?$select=AM,DateFormat,DateSeparator,PM,Time24,TimeSeparator`) {
+        return regionalSettings;
+      }
+
+      throw 'Invalid request';
+    });
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      request.get,
+      spoBatch.execute,
+      fs.readFileSync,
+      fs.writeFileSync,
+      fs.existsSync
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+    auth.service.connected = false;
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.LISTITEM_IMPORT), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('defines correct properties for the default output', () => {
+    assert.deepStrictEqual(command.defaultProperties(), ['row', 'id', 'status', 'error']);
+  });
+
+  it('creates and updates items from a CSV file', async () => {
+    stubFile([
+      '\uFEFFID,Title,client,Manager,Members,Start date,Active',
+      ',"Project X, phase 1",1;#Contoso,adelev@contoso.com,meganb@contoso.com; i:0#.f|membership|alexw@contoso.com,2023-01-15T08:00:00Z,true',
+      '',
+      '7,"The ""Y"" project',
+      'with a description",,,,,0'
+    ].join('\r\n'));
+    const executeStub: sinon.SinonStub = sinon.stub(spoBatch, 'execute').resolves([getCreateResponse(12), getUpdateResponse(7)]);
+
+    await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } });
+    assert.strictEqual(executeStub.firstCall.args[0], webUrl);
+    assert.deepStrictEqual(executeStub.firstCall.args[1], [
+      {
+        method: 'POST',
+        url: `${listRestUrl}/AddValidateUpdateItemUsingPath()`,
+        body: {
+          formValues: [
+            { FieldName: 'Title', FieldValue: 'Project X, phase 1' },
+            { FieldName: 'Client', FieldValue: '1' },
+            { FieldName: 'Manager', FieldValue: '[{"Key":"adelev@contoso.com"}]' },
+            { FieldName: 'Members', FieldValue: '[{"Key":"meganb@contoso.com"},{"Key":"i:0#.f|membership|alexw@contoso.com"}]' },
+            { FieldName: 'StartDate', FieldValue: '1/15/2023 8:00 AM' },
+            { FieldName: 'Active', FieldValue: '1' }
+          ],
+          bNewDocumentUpdate: false,
+          datesInUtc: true
+        }
+      },
+      {
+        method: 'POST',
+        url: `${listRestUrl}/items(7)/ValidateUpdateListItem()`,
+        body: {
+          formValues: [
+            { FieldName: 'Title', FieldValue: 'The "Y" project\r\nwith a description' },
+            { FieldName: 'Client', FieldValue: '' },
+            { FieldName: 'Manager', FieldValue: '' },
+            { FieldName: 'Members', FieldValue: '' },
+            { FieldName: 'StartDate', FieldValue: '' },
+            { FieldName: 'Active', FieldValue: '0' }
+          ],
+          bNewDocumentUpdate: false,
+          datesInUtc: true
+        }
+      }
+    ]);
+    assert(loggerLogSpy.calledWith([
+      { row: 1, id: 12, status: 'Created' },
+      { row: 2, id: 7, status: 'Updated' }
+    ]));
+  });
+
+  it('creates items from a JSON file in the list with the specified ID', async () => {
+    const listByIdRestUrl: string = `${webUrl}/_api/web/lists(guid'4a2b0ba6-6b4a-4b41-9a3c-6f3e4b7b1c2d')`;
+    sinonUtil.restore(request.get);
+    sinon.stub(request, 'get').callsFake(async (opts) => {
+      if (opts.url === `${listByIdRestUrl}/fields`) {
+        return { value: fields };
+      }
+
+      throw 'Invalid request';
+    });
+    stubFile(JSON.stringify([
+      { Title: 'Project X', Active: true, Manager: null },
+      { Title: 'Project Y', ID: null, Active: false }
+    ]));
+    const executeStub: sinon.SinonStub = sinon.stub(spoBatch, 'execute').resolves([getCreateResponse(12), getCreateResponse(13)]);
+
+    await command.action(logger, { options: { webUrl: webUrl, listId: '4a2b0ba6-6b4a-4b41-9a3c-6f3e4b7b1c2d', filePath: 'items.json' } });
+    assert.deepStrictEqual(executeStub.firstCall.args[1].map((r: any) => ({ url: r.url, formValues: r.body.formValues })), [
+      {
+        url: `${listByIdRestUrl}/AddValidateUpdateItemUsingPath()`,
+        formValues: [
+          { FieldName: 'Title', FieldValue: 'Project X' },
+          { FieldName: 'Active', FieldValue: '1' },
+          { FieldName: 'Manager', FieldValue: '' }
+        ]
+      },
+      {
+        url: `${listByIdRestUrl}/AddValidateUpdateItemUsingPath()`,
+        formValues: [
+          { FieldName: 'Title', FieldValue: 'Project Y' },
+          { FieldName: 'Active', FieldValue: '0' }
+        ]
+      }
+    ]);
+    assert(loggerLogSpy.calledWith([
+      { row: 1, id: 12, status: 'Created' },
+      { row: 2, id: 13, status: 'Created' }
+    ]));
+  });
+
+  it('imports values of lookup, taxonomy and date fields exported to a CSV file', async () => {
+    const executeStub: sinon.SinonStub = await exportAndImport('items.csv');
+    assert.deepStrictEqual(executeStub.firstCall.args[1][0].body.formValues, roundTripFormValues);
+  });
+
+  it('imports values of lookup, taxonomy and date fields exported to a JSON file', async () => {
+    const executeStub: sinon.SinonStub = await exportAndImport('items.json');
+    assert.deepStrictEqual(executeStub.firstCall.args[1][0].body.formValues, roundTripFormValues);
+  });
+
+  it('converts lookup IDs and dates to the format of the locale of the site', async () => {
+    stubFile(JSON.stringify([
+      { Client: 4, Partners: '5;#;#6;#', StartDate: '2023-01-05' },
+      { Client: '', Partners: '5', StartDate: '2023-01-05T20:30:00' },
+      { StartDate: '2023-01-05T20:30:00.000+01:00' },
+      { StartDate: '5-1-2023 20:30' }
+    ]));
+    regionalSettings.DateFormat = 1;
+    regionalSettings.DateSeparator = '-';
+    regionalSettings.Time24 = true;
+    const executeStub: sinon.SinonStub = sinon.stub(spoBatch, 'execute').resolves([getCreateResponse(12), getCreateResponse(13), getCreateResponse(14), getCreateResponse(15)]);
+
+    try {
+      await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.json' } });
+    }
+    finally {
+      regionalSettings.DateFormat = 0;
+      regionalSettings.DateSeparator = '/';
+      regionalSettings.Time24 = false;
+    }
+    assert.deepStrictEqual(executeStub.firstCall.args[1].map((r: any) => r.body.formValues), [
+      [
+        { FieldName: 'Client', FieldValue: '4' },
+        { FieldName: 'Partners', FieldValue: '5;#;#6;#' },
+        { FieldName: 'StartDate', FieldValue: '5-1-2023 0:00' }
+      ],
+      [
+        { FieldName: 'Client', FieldValue: '' },
+        { FieldName: 'Partners', FieldValue: '5;#' },
+        { FieldName: 'StartDate', FieldValue: '5-1-2023 20:30' }
+      ],
+      [
+        { FieldName: 'StartDate', FieldValue: '5-1-2023 19:30' }
+      ],
+      [
+        { FieldName: 'StartDate', FieldValue: '5-1-2023 20:30' }
+      ]
+    ]);
+  });
+
+  it('formats dates with the year first when the locale of the site uses it', async () => {
+    stubFile('Start date\n2023-11-25T09:07:00Z\n');
+    regionalSettings.DateFormat = 2;
+    const executeStub: sinon.SinonStub = sinon.stub(spoBatch, 'execute').resolves([getCreateResponse(12)]);
+
+    try {
+      await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } });
+    }
+    finally {
+      regionalSettings.DateFormat = 0;
+    }
+    assert.deepStrictEqual(executeStub.firstCall.args[1][0].body.formValues, [{ FieldName: 'StartDate', FieldValue: '2023/11/25 9:07 AM' }]);
+  });
+
+  it(`doesn't retrieve regional settings when the file has no date columns`, async () => {
+    stubFile('Title\nProject X\n');
+    sinon.stub(spoBatch, 'execute').resolves([getCreateResponse(12)]);
+
+    await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } });
+    assert((request.get as sinon.SinonStub).calledOnce);
+  });
+
+  it('reports rows that failed to import', async () => {
+    stubFile('ID,Title,Start date\n,Project X,2023-01-15\n,Project Y,tomorrow\n99,Project Z,\n');
+    sinon.stub(spoBatch, 'execute').resolves([
+      getCreateResponse(12),
+      {
+        status: 200,
+        headers: {},
+        body: {
+          value: [
+            { ErrorMessage: null, FieldName: 'Title', FieldValue: 'Project Y', HasException: false, ItemId: 0 },
+            { ErrorMessage: 'You must specify a valid date within the range of 1/1/1900 and 12/31/8900.', FieldName: 'StartDate', FieldValue: 'tomorrow', HasException: true, ItemId: 0 }
+          ]
+        }
+      },
+      {
+        status: 400,
+        headers: {},
+        body: { 'odata.error': { code: '-2147024809, System.ArgumentException', message: { lang: 'en-US', value: 'Item does not exist. It may have been deleted by another user.' } } }
+      }
+    ]);
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } }),
+      new CommandError('2 of 3 items failed to import'));
+    assert(loggerLogSpy.calledWith([
+      { row: 1, id: 12, status: 'Created' },
+      { row: 2, id: undefined, status: 'Failed', error: 'StartDate: You must specify a valid date within the range of 1/1/1900 and 12/31/8900.' },
+      { row: 3, id: 99, status: 'Failed', error: 'Item does not exist. It may have been deleted by another user.' }
+    ]));
+  });
+
+  it(`doesn't import any items from an empty file`, async () => {
+    stubFile('');
+    const executeStub: sinon.SinonStub = sinon.stub(spoBatch, 'execute').resolves([]);
+
+    await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } });
+    assert.deepStrictEqual(executeStub.firstCall.args[1], []);
+    assert(loggerLogSpy.calledWith([]));
+  });
+
+  it('logs progress in verbose mode', async () => {
+    stubFile('Title\nProject X\n');
+    sinon.stub(spoBatch, 'execute').resolves([getCreateResponse(12)]);
+
+    await command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv', verbose: true } });
+    assert(loggerLogToStderrSpy.calledWith('Retrieving fields of list Projects...'));
+    assert(loggerLogToStderrSpy.calledWith('Importing 1 items...'));
+  });
+
+  it('throws an error when a column does not match any field in the list', async () => {
+    stubFile('Title,Status\nProject X,Active\n');
+    const executeStub: sinon.SinonStub = sinon.stub(spoBatch, 'execute').resolves([]);
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } }),
+      new CommandError(`Column 'Status' doesn't match any field in the list`));
+    assert(executeStub.notCalled);
+  });
+
+  it('throws an error when a column is mapped to a read-only field', async () => {
+    stubFile('Title,Modified\nProject X,2023-01-15T08:00:00Z\n');
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } }),
+      new CommandError(`Field 'Modified' mapped to column 'Modified' is read-only`));
+  });
+
+  it('throws an error when the JSON file does not contain an array', async () => {
+    stubFile('{ "Title": "Project X" }');
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.json' } }),
+      new CommandError('The JSON file must contain an array of items'));
+  });
+
+  it('correctly handles API OData error', async () => {
+    stubFile('Title\nProject X\n');
+    sinonUtil.restore(request.get);
+    sinon.stub(request, 'get').callsFake(async () => {
+      throw {
+        error: {
+          'odata.error': {
+            code: '-2130575322, Microsoft.SharePoint.SPException',
+            message: {
+              value: `List 'Projects' does not exist at site with URL 'https://contoso.sharepoint.com/sites/project-x'.`
+            }
+          }
+        }
+      };
+    });
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.csv' } }),
+      new CommandError(`List 'Projects' does not exist at site with URL 'https://contoso.sharepoint.com/sites/project-x'.`));
+  });
+
+  it('fails validation if the webUrl option is not a valid SharePoint URL', async () => {
+    const actual = await command.validate({ options: { webUrl: 'foo', listTitle: 'Projects', filePath: 'items.csv' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the listId option is not a valid GUID', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, listId: 'foo', filePath: 'items.csv' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the file is not a CSV or JSON file', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.xlsx' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the file does not exist', async () => {
+    sinon.stub(fs, 'existsSync').returns(false);
+
+    const actual = await command.validate({ options: { webUrl: webUrl, listTitle: 'Projects', filePath: 'items.json' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation when all options are valid', async () => {
+    sinon.stub(fs, 'existsSync').returns(true);
+
+    const actual = await command.validate({ options: { webUrl: webUrl, listId: '4a2b0ba6-6b4a-4b41-9a3c-6f3e4b7b1c2d', filePath: 'items.csv' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
@@ -0,0 +1,355 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
+import request from '../../../../request';
+import { formatting } from '../../../../utils/formatting';
+import { spoBatch, SpoBatchRequest, SpoBatchResponse } from '../../../../utils/spoBatch';
+import { validation } from '../../../../utils/validation';
+import commands from '../../commands';
+import { ListField, SpoListItemTransferBaseCommand } from './listitem-transfer-base';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  webUrl: string;
+  listId?: string;
+  listTitle?: string;
+  filePath: string;
+}
+
+interface FieldValue {
+  ErrorMessage: string;
+  FieldName: string;
+  FieldValue: any;
+  HasException: boolean;
+  ItemId: number;
+}
+
+interface RegionalSettings {
+  AM: string;
+  // 0 - month, day, year; 1 - day, month, year; 2 - year, month, day
+  DateFormat: number;
+  DateSeparator: string;
+  PM: string;
+  Time24: boolean;
+  TimeSeparator: string;
+}
+
+interface ImportResult {
+  row: number;
+  id?: number;
+  status: 'Created' | 'Updated' | 'Failed';
+  error?: string;
+}
+
+class SpoListItemImportCommand extends SpoListItemTransferBaseCommand {
+  public get name(): string {
+    return commands.LISTITEM_IMPORT;
+  }
+
+  public get description(): string {
+    return 'Imports items from a CSV or JSON file to the specified list';
+  }
+
+  public defaultProperties(): string[] | undefined {
+    return ['row', 'id', 'status', 'error'];
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+    this.#initValidators();
+    this.#initTypes();
+    this.#initOptionSets();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        listId: typeof args.options.listId !== 'undefined',
+        listTitle: typeof args.options.listTitle !== 'undefined'
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-u, --webUrl <webUrl>'
+      },
+      {
+        option: '-i, --listId [listId]'
+      },
+      {
+        option: '-t, --listTitle [listTitle]'
+      },
+      {
+        option: '-p, --filePath <filePath>'
+      }
+    );
+  }
+
+  #initValidators(): void {
+    this.validators.push(
+      async (args: CommandArgs) => {
+        const isValidSharePointUrl: boolean | string = validation.isValidSharePointUrl(args.options.webUrl);
+        if (isValidSharePointUrl !== true) {
+          return isValidSharePointUrl;
+        }
+
+        if (args.options.listId && !validation.isValidGuid(args.options.listId)) {
+          return `${args.options.listId} in option listId is not a valid GUID`;
+        }
+
+        if (SpoListItemTransferBaseCommand.supportedFileExtensions.indexOf(path.extname(args.options.filePath).toLowerCase()) === -1) {
+          return `Specify the path to a .csv or .json file in option filePath`;
+        }
+
+        if (!fs.existsSync(args.options.filePath)) {
+          return `File '${args.options.filePath}' not found`;
+        }
+
+        return true;
+      }
+    );
+  }
+
+  #initTypes(): void {
+    this.types.string.push('webUrl', 'listId', 'listTitle', 'filePath');
+  }
+
+  #initOptionSets(): void {
+    this.optionSets.push(['listId', 'listTitle']);
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    const listRestUrl: string = this.getListRestUrl(args.options.webUrl, args.options.listId, args.options.listTitle);
+
+    try {
+      const rows: any[] = this.readRows(args.options.filePath);
+
+      if (this.verbose) {
+        logger.logToStderr(`Retrieving fields of list ${args.options.listId || args.options.listTitle}...`);
+      }
+
+      const columnFields: { [column: string]: ListField } = this.mapColumns(rows, await this.getFields(listRestUrl));
+      // dates must be specified in the format of the locale of the site
+      const regionalSettings: RegionalSettings | undefined = Object.keys(columnFields).some(column => columnFields[column].TypeAsString === 'DateTime') ?
+        await this.getRegionalSettings(args.options.webUrl) : undefined;
+      const ids: (number | undefined)[] = rows.map(row => this.getItemId(row, columnFields));
+      const requests: SpoBatchRequest[] = rows.map((row, i) => this.getItemRequest(listRestUrl, row, ids[i], columnFields, regionalSettings));
+
+      if (this.verbose) {
+        logger.logToStderr(`Importing ${rows.length} items...`);
+      }
+
+      const responses: SpoBatchResponse[] = await spoBatch.execute(args.options.webUrl, requests);
+      const results: ImportResult[] = responses.map((response, i) => this.getResult(i + 1, ids[i], response));
+      logger.log(results);
+
+      const failedCount: number = results.filter(r => r.status === 'Failed').length;
+      if (failedCount > 0) {
+        throw `${failedCount} of ${rows.length} items failed to import`;
+      }
+    }
+    catch (err: any) {
+      this.handleRejectedODataJsonPromise(err);
+    }
+  }
+
+  private readRows(filePath: string): any[] {
+    const contents: string = fs.readFileSync(filePath, 'utf8');
+
+    if (this.isCsvFile(filePath)) {
+      return formatting.parseCsvToJson(contents.replace(/^\uFEFF/, ''));
+    }
+
+    const rows: any = formatting.parseJsonWithBom(contents);
+    if (!Array.isArray(rows)) {
+      throw `The JSON file must contain an array of items`;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Maps columns from the file to fields of the list. Columns are matched
+   * by the internal name or the display name of the field
+   */
+  private mapColumns(rows: any[], listFields: ListField[]): { [column: string]: ListField } {
+    const columnFields: { [column: string]: ListField } = {};
+
+    rows.forEach(row => {
+      Object.keys(row)
+        .filter(column => !columnFields[column])
+        .forEach(column => {
+          const field: ListField | undefined = listFields.find(f => f.InternalName === column) ||
+            listFields.find(f => f.Title.toLowerCase() === column.toLowerCase());
+
+          if (!field) {
+            throw `Column '${column}' doesn't match any field in the list`;
+          }
+
+          // the ID is used to identify items to update
+          if (field.ReadOnlyField && field.InternalName !== 'ID') {
+            throw `Field '${field.InternalName}' mapped to column '${column}' is read-only`;
+          }
+
+          columnFields[column] = field;
+        });
+    });
+
+    return columnFields;
+  }
+
+  /**
+   * Returns the ID of the item to update or undefined if the row doesn't
+   * have an ID and a new item should be created
+   */
+  private getItemId(row: any, columnFields: { [column: string]: ListField }): number | undefined {
+    const idColumn: string | undefined = Object.keys(row).find(column => columnFields[column].InternalName === 'ID');
+    return idColumn && row[idColumn] ? parseInt(row[idColumn]) : undefined;
+  }
+
+  private async getRegionalSettings(webUrl: string): Promise<RegionalSettings> {
+    const requestOptions: any = {
+      url: `${webUrl}/_api/web/RegionalSettings?$select=AM,DateFormat,DateSeparator,PM,Time24,TimeSeparator`,
+      headers: {
+        accept: 'application/json;odata=nometadata'
+      },
+      responseType: 'json'
+    };
+
+    return request.get<RegionalSettings>(requestOptions);
+  }
+
+  private getItemRequest(listRestUrl: string, row: any, id: number | undefined, columnFields: { [column: string]: ListField }, regionalSettings: RegionalSettings | undefined): SpoBatchRequest {
+    const formValues: { FieldName: string; FieldValue: string }[] = Object.keys(row)
+      .filter(column => columnFields[column].InternalName !== 'ID')
+      .map(column => ({ FieldName: columnFields[column].InternalName, FieldValue: this.getFieldValue(columnFields[column], row[column], regionalSettings) }));
+
+    return {
+      method: 'POST',
+      url: id ? `${listRestUrl}/items(${id})/ValidateUpdateListItem()` : `${listRestUrl}/AddValidateUpdateItemUsingPath()`,
+      body: {
+        formValues: formValues,
+        bNewDocumentUpdate: false,
+        datesInUtc: true
+      }
+    };
+  }
+
+  /**
+   * Converts the value from the file to the format expected by SharePoint
+   * when validating and updating list items
+   */
+  private getFieldValue(field: ListField, value: any, regionalSettings: RegionalSettings | undefined): string {
+    if (typeof value === 'undefined' || value === null || value === '') {
+      return '';
+    }
+
+    switch (field.TypeAsString) {
+      case 'User':
+      case 'UserMulti':
+        return JSON.stringify(value.toString()
+          .split(';')
+          .map((v: string) => v.trim())
+          .filter((v: string) => v)
+          .map((v: string) => ({ Key: v })));
+      case 'Boolean':
+        return /^(true|1|yes)$/i.test(value.toString()) ? '1' : '0';
+      case 'Lookup':
+        return this.getLookupIds(value)[0];
+      case 'LookupMulti':
+        return this.getLookupIds(value).map(id => `${id};#`).join(';#');
+      case 'TaxonomyFieldType':
+      case 'TaxonomyFieldTypeMulti':
+        // terms are exported as Label|TermGuid separated with ;
+        return value.toString()
+          .split(';')
+          .map((v: string) => v.trim())
+          .filter((v: string) => v)
+          .map((v: string) => `${v};`)
+          .join('');
+      case 'DateTime':
+        return this.formatDate(value.toString(), regionalSettings as RegionalSettings);
+      default:
+        return value.toString();
+    }
+  }
+
+  /**
+   * Returns the IDs of the lookup values. Values are exported as ID;#Value
+   * separated with ;# but can also be specified as IDs only
+   */
+  private getLookupIds(value: any): string[] {
+    return value.toString()
+      .split(';#')
+      .filter((_: string, i: number) => i % 2 === 0)
+      .map((v: string) => v.trim())
+      .filter((v: string) => v);
+  }
+
+  /**
+   * Formats the date in the ISO 8601 format, as exported by the
+   * spo listitem export command, in the format of the locale of the site.
+   * Other values are returned as-is for SharePoint to validate them
+   */
+  private formatDate(value: string, regionalSettings: RegionalSettings): string {
+    const match: RegExpExecArray | null = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/.exec(value);
+    if (!match) {
+      return value;
+    }
+
+    // dates without time zone are in UTC
+    const date: Date = new Date(match[1] && !match[4] ? `${value}Z` : value);
+    const day: number = date.getUTCDate();
+    const month: number = date.getUTCMonth() + 1;
+    const year: number = date.getUTCFullYear();
+    let dateParts: number[];
+    switch (regionalSettings.DateFormat) {
+      case 1:
+        dateParts = [day, month, year];
+        break;
+      case 2:
+        dateParts = [year, month, day];
+        break;
+      default:
+        dateParts = [month, day, year];
+    }
+
+    const hours: number = date.getUTCHours();
+    const minutes: string = `${date.getUTCMinutes() < 10 ? '0' : ''}${date.getUTCMinutes()}`;
+    const time: string = regionalSettings.Time24 ?
+      `${hours}${regionalSettings.TimeSeparator}${minutes}` :
+      `${hours % 12 || 12}${regionalSettings.TimeSeparator}${minutes} ${hours < 12 ? regionalSettings.AM : regionalSettings.PM}`;
+
+    return `${dateParts.join(regionalSettings.DateSeparator)} ${time}`;
+  }
+
+  private getResult(row: number, id: number | undefined, response: SpoBatchResponse): ImportResult {
+    if (response.status >= 400) {
+      return { row, id, status: 'Failed', error: spoBatch.getErrorMessage(response) };
+    }
+
+    const fieldValues: FieldValue[] = response.body.value;
+    const fieldErrors: FieldValue[] = fieldValues.filter(v => v.HasException);
+    if (fieldErrors.length > 0) {
+      return { row, id, status: 'Failed', error: fieldErrors.map(v => `${v.FieldName}: ${v.ErrorMessage}`).join(', ') };
+    }
+
+    if (id) {
+      return { row, id, status: 'Updated' };
+    }
+
+    const idValue: FieldValue = fieldValues.find(v => v.FieldName === 'Id') as FieldValue;
+    return { row, id: parseInt(idValue.FieldValue), status: 'Created' };
+  }
+}
+
+module.exports = new SpoListItemImportCommand();
@@ -0,0 +1,40 @@
+import * as path from 'path';
+import request from '../../../../request';
+import { formatting } from '../../../../utils/formatting';
+import SpoCommand from '../../../base/SpoCommand';
+
+export interface ListField {
+  Hidden: boolean;
+  InternalName: string;
+  LookupField?: string;
+  ReadOnlyField: boolean;
+  Title: string;
+  TypeAsString: string;
+}
+
+export abstract class SpoListItemTransferBaseCommand extends SpoCommand {
+  protected static supportedFileExtensions: string[] = ['.csv', '.json'];
+
+  protected isCsvFile(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.csv';
+  }
+
+  protected getListRestUrl(webUrl: string, listId: string | undefined, listTitle: string | undefined): string {
+    return listId ?
+      `${webUrl}/_api/web/lists(guid'${formatting.encodeQueryParameter(listId)}')`
+      : `${webUrl}/_api/web/lists/getByTitle('${formatting.encodeQueryParameter(listTitle as string)}')`;
+  }
+
+  protected async getFields(listRestUrl: string): Promise<ListField[]> {
+    const requestOptions: any = {
+      url: `${listRestUrl}/fields`,
+      headers: {
+        accept: 'application/json;odata=nometadata'
+      },
+      responseType: 'json'
+    };
+
+    const res = await request.get<{ value: ListField[] }>(requestOptions);
+    return res.value;
+  }
+}
@@ -0,0 +1,91 @@
+export interface SiteTemplate {
+  features?: SiteTemplateFeature[];
+  propertyBag?: { [key: string]: string };
+  fields?: SiteTemplateField[];
+  contentTypes?: SiteTemplateContentType[];
+  lists?: SiteTemplateList[];
+  navigation?: SiteTemplateNavigation;
+  customActions?: SiteTemplateCustomAction[];
+}
+
+export interface SiteTemplateFeature {
+  id: string;
+  /**
+   * Web (default) or Site
+   */
+  scope?: string;
+}
+
+export interface SiteTemplateField {
+  schemaXml: string;
+}
+
+export interface SiteTemplateContentType {
+  id: string;
+  name: string;
+  group?: string;
+  description?: string;
+  fieldLinks?: SiteTemplateFieldLink[];
+}
+
+export interface SiteTemplateFieldLink {
+  id: string;
+  required?: boolean;
+  hidden?: boolean;
+}
+
+export interface SiteTemplateList {
+  title: string;
+  /**
+   * Name of the list template, eg. GenericList or DocumentLibrary
+   */
+  baseTemplate: string;
+  description?: string;
+  fields?: SiteTemplateField[];
+  /**
+   * IDs of the site content types added to the list
+   */
+  contentTypes?: string[];
+  views?: SiteTemplateView[];
+}
+
+export interface SiteTemplateView {
+  title: string;
+  /**
+   * Internal names of the fields displayed in the view
+   */
+  fields: string[];
+  query?: string;
+  rowLimit?: number;
+  default?: boolean;
+}
+
+export interface SiteTemplateNavigation {
+  topNavigationBar?: SiteTemplateNavigationNode[];
+  quickLaunch?: SiteTemplateNavigationNode[];
+}
+
+export interface SiteTemplateNavigationNode {
+  title: string;
+  url: string;
+  isExternal?: boolean;
+  children?: SiteTemplateNavigationNode[];
+}
+
+export interface SiteTemplateCustomAction {
+  title: string;
+  name?: string;
+  description?: string;
+  location: string;
+  /**
+   * Web or Site
+   */
+  scope: string;
+  sequence?: number;
+  clientSideComponentId?: string;
+  clientSideComponentProperties?: string;
+  registrationId?: string;
+  registrationType?: number;
+  scriptSrc?: string;
+  url?: string;
+}
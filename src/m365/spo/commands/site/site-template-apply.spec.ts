@@ -0,0 +1,752 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as sinon from 'sinon';
+import appInsights from '../../../../appInsights';
+import auth from '../../../../Auth';
+import { Cli } from '../../../../cli/Cli';
+import { CommandInfo } from '../../../../cli/CommandInfo';
+import { Logger } from '../../../../cli/Logger';
+import Command, { CommandError } from '../../../../Command';
+import request from '../../../../request';
+import { pid } from '../../../../utils/pid';
+import { sinonUtil } from '../../../../utils/sinonUtil';
+import commands from '../../commands';
+const command: Command = require('./site-template-apply');
+const contentTypeAddCommand: Command = require('../contenttype/contenttype-add');
+const contentTypeFieldSetCommand: Command = require('../contenttype/contenttype-field-set');
+const contentTypeListCommand: Command = require('../contenttype/contenttype-list');
+const contentTypeSetCommand: Command = require('../contenttype/contenttype-set');
+const customActionAddCommand: Command = require('../customaction/customaction-add');
+const customActionListCommand: Command = require('../customaction/customaction-list');
+const featureEnableCommand: Command = require('../feature/feature-enable');
+const featureListCommand: Command = require('../feature/feature-list');
+const fieldAddCommand: Command = require('../field/field-add');
+const fieldListCommand: Command = require('../field/field-list');
+const fieldSetCommand: Command = require('../field/field-set');
+const listAddCommand: Command = require('../list/list-add');
+const listContentTypeAddCommand: Command = require('../list/list-contenttype-add');
+const listContentTypeListCommand: Command = require('../list/list-contenttype-list');
+const listListCommand: Command = require('../list/list-list');
+const listSetCommand: Command = require('../list/list-set');
+const listViewAddCommand: Command = require('../list/list-view-add');
+const listViewListCommand: Command = require('../list/list-view-list');
+const listViewSetCommand: Command = require('../list/list-view-set');
+const navigationNodeAddCommand: Command = require('../navigation/navigation-node-add');
+const navigationNodeListCommand: Command = require('../navigation/navigation-node-list');
+const propertyBagListCommand: Command = require('../propertybag/propertybag-list');
+const propertyBagSetCommand: Command = require('../propertybag/propertybag-set');
+
+describe(commands.SITE_TEMPLATE_APPLY, () => {
+  const webUrl: string = 'https://contoso.sharepoint.com/sites/project-x';
+  const template: any = {
+    features: [
+      { id: '{87294C72-F260-42F3-A41B-981A2FFCE37A}' },
+      { id: 'b50e3104-6812-424f-a011-cc90e6327318', scope: 'Site' }
+    ],
+    fields: [
+      { schemaXml: '<Field ID="{5ee2dd25-d941-455a-9bdb-7f2c54aed11b}" Name="ProjectCode" DisplayName="Project code" Type="Text" Group="Project Columns" Description="Code of the project" />' },
+      { schemaXml: '<Field Name="ProjectManager" DisplayName="Project manager" Type="User" />' }
+    ],
+    contentTypes: [
+      {
+        id: '0x0100A33D9AD9805788419BDAAC2CCB37509F',
+        name: 'Project',
+        group: 'Project Content Types',
+        description: 'Project',
+        fieldLinks: [
+          { id: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', required: true, hidden: false }
+        ]
+      }
+    ],
+    lists: [
+      {
+        title: 'Projects',
+        baseTemplate: 'GenericList',
+        description: 'All projects',
+        fields: [
+          { schemaXml: '<Field ID="{1c9b2d38-1e8a-4b5b-b1a6-6b8b6f1c8e54}" Name="Budget" DisplayName="Budget" Type="Currency" />' }
+        ],
+        contentTypes: ['0x0100A33D9AD9805788419BDAAC2CCB37509F'],
+        views: [
+          { title: 'Active projects', fields: ['LinkTitle', 'ProjectCode'], query: '<Where><Eq><FieldRef Name="Active" /><Value Type="Boolean">1</Value></Eq></Where>', rowLimit: 50, default: true }
+        ]
+      }
+    ],
+    navigation: {
+      topNavigationBar: [
+        { title: 'Projects', url: '/sites/project-x/Lists/Projects' }
+      ],
+      quickLaunch: [
+        { title: 'Intranet', url: 'https://contoso.sharepoint.com', isExternal: true }
+      ]
+    },
+    propertyBag: {
+      projectType: 'internal',
+      projectVersion: 2
+    }
+  };
+  const emptySite: any = {
+    features: { Web: [], Site: [] },
+    fields: [],
+    contentTypes: [],
+    fieldLinks: [],
+    lists: [],
+    listFields: [],
+    listContentTypes: [],
+    views: [],
+    navigation: { TopNavigationBar: [], QuickLaunch: [] },
+    propertyBag: []
+  };
+  const provisionedSite: any = {
+    features: {
+      Web: [{ DefinitionId: '87294c72-f260-42f3-a41b-981a2ffce37a', DisplayName: 'SiteNotebook' }],
+      Site: [{ DefinitionId: 'b50e3104-6812-424f-a011-cc90e6327318', DisplayName: 'DocId' }]
+    },
+    fields: [
+      { Id: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', InternalName: 'ProjectCode', Title: 'Project code', Group: 'Project Columns', Description: 'Code of the project' },
+      { Id: '0fcd2a2c-93a5-4e2b-a3b6-2b5e8d2e9a41', InternalName: 'ProjectManager', Title: 'Project manager', Group: 'Custom Columns', Description: '' }
+    ],
+    contentTypes: [
+      { StringId: '0x0100A33D9AD9805788419BDAAC2CCB37509F', Name: 'Project', Group: 'Project Content Types', Description: 'Project' }
+    ],
+    fieldLinks: [
+      { Id: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', Name: 'ProjectCode', Required: true, Hidden: false }
+    ],
+    lists: [
+      { Id: '3c4a8f1e-2d5b-4e6a-9b7c-8d9e0f1a2b3c', Title: 'Projects', Description: 'All projects', ContentTypesEnabled: true }
+    ],
+    listFields: [
+      { Id: '1c9b2d38-1e8a-4b5b-b1a6-6b8b6f1c8e54', InternalName: 'Budget', Title: 'Budget', Group: 'Custom Columns', Description: '' }
+    ],
+    listContentTypes: [
+      { StringId: '0x0100A33D9AD9805788419BDAAC2CCB37509F00C6C2A0A7E2D3B94C8E0B4B6C43A1D8E1', Name: 'Project' }
+    ],
+    views: [
+      { Id: '8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c', Title: 'Active projects', ViewQuery: '<Where><Eq><FieldRef Name="Active" /><Value Type="Boolean">1</Value></Eq></Where>', RowLimit: 50, DefaultView: true }
+    ],
+    viewFields: ['LinkTitle', 'ProjectCode'],
+    navigation: {
+      TopNavigationBar: [{ Id: 2001, Title: 'Projects', Url: '/sites/project-x/Lists/Projects' }],
+      QuickLaunch: [{ Id: 1025, Title: 'Intranet', Url: 'https://contoso.sharepoint.com' }]
+    },
+    propertyBag: [
+      { key: 'projectType', value: 'internal' },
+      { key: 'projectVersion', value: 2 }
+    ]
+  };
+
+  let log: any[];
+  let logger: Logger;
+  let loggerLogSpy: sinon.SinonSpy;
+  let loggerLogToStderrSpy: sinon.SinonSpy;
+  let commandInfo: CommandInfo;
+  let executedCommands: { command: Command; options: any }[];
+  let postRequests: string[];
+
+  const stubTemplate = (filePath: string, contents: string): void => {
+    const originalReadFileSync = fs.readFileSync;
+    sinon.stub(fs, 'readFileSync').callsFake((path, options) => {
+      if ((path as string).endsWith(filePath)) {
+        return contents;
+      }
+
+      return originalReadFileSync(path, options);
+    });
+  };
+
+  const stubSite = (site: any): void => {
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async (command: Command, args: any): Promise<any> => {
+      executedCommands.push({ command, options: args.options });
+
+      switch (command) {
+        case featureListCommand:
+          return { stdout: JSON.stringify(site.features[args.options.scope]), stderr: '' };
+        case fieldListCommand:
+          return { stdout: JSON.stringify(args.options.listTitle ? site.listFields : site.fields), stderr: '' };
+        case contentTypeListCommand:
+          return { stdout: JSON.stringify(site.contentTypes), stderr: '' };
+        case listListCommand:
+          return { stdout: JSON.stringify(site.lists), stderr: '' };
+        case listContentTypeListCommand:
+          return { stdout: JSON.stringify(site.listContentTypes), stderr: '' };
+        case listViewListCommand:
+          return { stdout: JSON.stringify(site.views), stderr: '' };
+        case navigationNodeListCommand:
+          return { stdout: JSON.stringify(site.navigation[args.options.location]), stderr: '' };
+        case customActionListCommand:
+          return { stdout: site.customActions && site.customActions.length > 0 ? JSON.stringify(site.customActions) : '', stderr: '' };
+        case propertyBagListCommand:
+          return { stdout: JSON.stringify(site.propertyBag), stderr: '' };
+        case listAddCommand:
+          return { stdout: JSON.stringify({ Id: '3c4a8f1e-2d5b-4e6a-9b7c-8d9e0f1a2b3c', Title: args.options.title }), stderr: '' };
+        case navigationNodeAddCommand:
+          return { stdout: JSON.stringify({ Id: 3001, Title: args.options.title, Url: args.options.url }), stderr: '' };
+        default:
+          return { stdout: '', stderr: '' };
+      }
+    });
+
+    sinon.stub(request, 'get').callsFake(async (opts) => {
+      if (opts.url === `${webUrl}/_api/web/contenttypes('0x0100A33D9AD9805788419BDAAC2CCB37509F')/fieldlinks`) {
+        return { value: site.fieldLinks };
+      }
+
+      if (opts.url === `${webUrl}/_api/web/lists/GetByTitle('Projects')/views('8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c')/viewfields`) {
+        return { Items: site.viewFields };
+      }
+
+      const childNodesMatch: RegExpMatchArray | null = (opts.url as string).match(/\/_api\/web\/navigation\/GetNodeById\((\d+)\)\/Children$/);
+      if (childNodesMatch && site.childNavigationNodes) {
+        return { value: site.childNavigationNodes[childNodesMatch[1]] || [] };
+      }
+
+      throw 'Invalid request';
+    });
+
+    sinon.stub(request, 'post').callsFake(async (opts) => {
+      postRequests.push(opts.url as string);
+      return {};
+    });
+  };
+
+  const getExecutedCommands = (command: Command): any[] => executedCommands
+    .filter(c => c.command === command)
+    .map(c => {
+      const options: any = {};
+      Object.keys(c.options)
+        .filter(o => ['output', 'debug', 'verbose', '_'].indexOf(o) < 0 && typeof c.options[o] !== 'undefined')
+        .forEach(o => options[o] = c.options[o]);
+      return options;
+    });
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    auth.service.connected = true;
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    loggerLogSpy = sinon.spy(logger, 'log');
+    loggerLogToStderrSpy = sinon.spy(logger, 'logToStderr');
+    executedCommands = [];
+    postRequests = [];
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      Cli.executeCommandWithOutput,
+      request.get,
+      request.post,
+      fs.readFileSync,
+      fs.existsSync,
+      fs.lstatSync
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+    auth.service.connected = false;
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.SITE_TEMPLATE_APPLY), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('defines correct properties for the default output', () => {
+    assert.deepStrictEqual(command.defaultProperties(), ['type', 'name', 'action']);
+  });
+
+  it('creates all artifacts from the template in an empty site', async () => {
+    stubTemplate('template.json', JSON.stringify(template));
+    stubSite(emptySite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'Feature', name: '{87294C72-F260-42F3-A41B-981A2FFCE37A}', action: 'Activated' },
+      { type: 'Feature', name: 'b50e3104-6812-424f-a011-cc90e6327318', action: 'Activated' },
+      { type: 'Field', name: 'ProjectCode', action: 'Created' },
+      { type: 'Field', name: 'ProjectManager', action: 'Created' },
+      { type: 'ContentType', name: 'Project', action: 'Created' },
+      { type: 'List', name: 'Projects', action: 'Created' },
+      { type: 'Field', name: 'Projects/Budget', action: 'Created' },
+      { type: 'ContentType', name: 'Projects/0x0100A33D9AD9805788419BDAAC2CCB37509F', action: 'Created' },
+      { type: 'View', name: 'Projects/Active projects', action: 'Created' },
+      { type: 'NavigationNode', name: 'TopNavigationBar/Projects', action: 'Created' },
+      { type: 'NavigationNode', name: 'QuickLaunch/Intranet', action: 'Created' },
+      { type: 'PropertyBagValue', name: 'projectType', action: 'Created' },
+      { type: 'PropertyBagValue', name: 'projectVersion', action: 'Created' }
+    ]);
+  });
+
+  it('passes the template values to the commands that create artifacts', async () => {
+    stubTemplate('template.json', JSON.stringify(template));
+    stubSite(emptySite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(getExecutedCommands(featureEnableCommand), [
+      { url: webUrl, featureId: '{87294C72-F260-42F3-A41B-981A2FFCE37A}', scope: 'Web' },
+      { url: webUrl, featureId: 'b50e3104-6812-424f-a011-cc90e6327318', scope: 'Site' }
+    ], 'Features');
+    assert.deepStrictEqual(getExecutedCommands(fieldAddCommand), [
+      { webUrl: webUrl, xml: template.fields[0].schemaXml },
+      { webUrl: webUrl, xml: template.fields[1].schemaXml },
+      { webUrl: webUrl, listTitle: 'Projects', xml: template.lists[0].fields[0].schemaXml }
+    ], 'Fields');
+    assert.deepStrictEqual(getExecutedCommands(contentTypeAddCommand), [
+      { webUrl: webUrl, id: '0x0100A33D9AD9805788419BDAAC2CCB37509F', name: 'Project', group: 'Project Content Types', description: 'Project' }
+    ], 'Content types');
+    assert.deepStrictEqual(getExecutedCommands(contentTypeFieldSetCommand), [
+      { webUrl: webUrl, contentTypeId: '0x0100A33D9AD9805788419BDAAC2CCB37509F', fieldId: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', required: 'true', hidden: 'false' }
+    ], 'Field links');
+    assert.deepStrictEqual(getExecutedCommands(listAddCommand), [
+      { webUrl: webUrl, title: 'Projects', baseTemplate: 'GenericList', description: 'All projects', contentTypesEnabled: 'true' }
+    ], 'Lists');
+    assert.deepStrictEqual(getExecutedCommands(listContentTypeAddCommand), [
+      { webUrl: webUrl, listTitle: 'Projects', contentTypeId: '0x0100A33D9AD9805788419BDAAC2CCB37509F' }
+    ], 'List content types');
+    assert.deepStrictEqual(getExecutedCommands(listViewAddCommand), [
+      { webUrl: webUrl, listTitle: 'Projects', title: 'Active projects', fields: 'LinkTitle,ProjectCode', viewQuery: template.lists[0].views[0].query, rowLimit: 50, default: true }
+    ], 'Views');
+    assert.deepStrictEqual(getExecutedCommands(navigationNodeAddCommand), [
+      { webUrl: webUrl, location: 'TopNavigationBar', title: 'Projects', url: '/sites/project-x/Lists/Projects' },
+      { webUrl: webUrl, location: 'QuickLaunch', title: 'Intranet', url: 'https://contoso.sharepoint.com', isExternal: true }
+    ], 'Navigation nodes');
+    assert.deepStrictEqual(getExecutedCommands(propertyBagSetCommand), [
+      { webUrl: webUrl, key: 'projectType', value: 'internal' },
+      { webUrl: webUrl, key: 'projectVersion', value: '2' }
+    ], 'Property bag');
+  });
+
+  it('doesn\'t change artifacts that match the template', async () => {
+    stubTemplate('template.json', JSON.stringify(template));
+    stubSite(provisionedSite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'Feature', name: '{87294C72-F260-42F3-A41B-981A2FFCE37A}', action: 'Unchanged' },
+      { type: 'Feature', name: 'b50e3104-6812-424f-a011-cc90e6327318', action: 'Unchanged' },
+      { type: 'Field', name: 'ProjectCode', action: 'Unchanged' },
+      { type: 'Field', name: 'ProjectManager', action: 'Unchanged' },
+      { type: 'ContentType', name: 'Project', action: 'Unchanged' },
+      { type: 'List', name: 'Projects', action: 'Unchanged' },
+      { type: 'Field', name: 'Projects/Budget', action: 'Unchanged' },
+      { type: 'ContentType', name: 'Projects/0x0100A33D9AD9805788419BDAAC2CCB37509F', action: 'Unchanged' },
+      { type: 'View', name: 'Projects/Active projects', action: 'Unchanged' },
+      { type: 'NavigationNode', name: 'TopNavigationBar/Projects', action: 'Unchanged' },
+      { type: 'NavigationNode', name: 'QuickLaunch/Intranet', action: 'Unchanged' },
+      { type: 'PropertyBagValue', name: 'projectType', action: 'Unchanged' },
+      { type: 'PropertyBagValue', name: 'projectVersion', action: 'Unchanged' }
+    ]);
+    assert.deepStrictEqual(executedCommands.map(c => c.command.name), [
+      commands.FEATURE_LIST,
+      commands.FEATURE_LIST,
+      commands.FIELD_LIST,
+      commands.CONTENTTYPE_LIST,
+      commands.LIST_LIST,
+      commands.FIELD_LIST,
+      commands.LIST_CONTENTTYPE_LIST,
+      commands.LIST_VIEW_LIST,
+      commands.NAVIGATION_NODE_LIST,
+      commands.NAVIGATION_NODE_LIST,
+      commands.PROPERTYBAG_LIST
+    ]);
+  });
+
+  it('updates artifacts that differ from the template', async () => {
+    stubTemplate('template.json', JSON.stringify(template));
+    stubSite({
+      ...provisionedSite,
+      fields: [
+        { Id: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', InternalName: 'ProjectCode', Title: 'Code', Group: 'Custom Columns', Description: '' },
+        provisionedSite.fields[1]
+      ],
+      contentTypes: [
+        { StringId: '0x0100A33D9AD9805788419BDAAC2CCB37509F', Name: 'Old project', Group: 'Custom Content Types', Description: '' }
+      ],
+      lists: [
+        { Id: '3c4a8f1e-2d5b-4e6a-9b7c-8d9e0f1a2b3c', Title: 'Projects', Description: '', ContentTypesEnabled: false }
+      ],
+      views: [
+        { Id: '8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c', Title: 'Active projects', ViewQuery: '', RowLimit: 30, DefaultView: false }
+      ],
+      viewFields: ['LinkTitle'],
+      propertyBag: [
+        { key: 'projectType', value: 'external' },
+        { key: 'projectVersion', value: 2 }
+      ]
+    });
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0].filter((c: any) => c.action === 'Updated'), [
+      { type: 'Field', name: 'ProjectCode', action: 'Updated' },
+      { type: 'ContentType', name: 'Project', action: 'Updated' },
+      { type: 'List', name: 'Projects', action: 'Updated' },
+      { type: 'View', name: 'Projects/Active projects', action: 'Updated' },
+      { type: 'PropertyBagValue', name: 'projectType', action: 'Updated' }
+    ]);
+    assert.deepStrictEqual(getExecutedCommands(fieldSetCommand), [
+      { webUrl: webUrl, id: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', Title: 'Project code', Group: 'Project Columns', Description: 'Code of the project' }
+    ], 'Fields');
+    assert.deepStrictEqual(getExecutedCommands(contentTypeSetCommand), [
+      { webUrl: webUrl, id: '0x0100A33D9AD9805788419BDAAC2CCB37509F', Name: 'Project', Group: 'Project Content Types', Description: 'Project' }
+    ], 'Content types');
+    assert.deepStrictEqual(getExecutedCommands(contentTypeFieldSetCommand), [], 'Field links');
+    assert.deepStrictEqual(getExecutedCommands(listSetCommand), [
+      { webUrl: webUrl, id: '3c4a8f1e-2d5b-4e6a-9b7c-8d9e0f1a2b3c', description: 'All projects', contentTypesEnabled: 'true' }
+    ], 'Lists');
+    assert.deepStrictEqual(getExecutedCommands(listViewSetCommand), [
+      { webUrl: webUrl, listTitle: 'Projects', viewId: '8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c', ViewQuery: template.lists[0].views[0].query, RowLimit: 50, DefaultView: true }
+    ], 'Views');
+    assert.deepStrictEqual(postRequests, [
+      `${webUrl}/_api/web/lists/GetByTitle('Projects')/views('8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c')/viewfields/removeallviewfields`,
+      `${webUrl}/_api/web/lists/GetByTitle('Projects')/views('8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c')/viewfields/addviewfield('LinkTitle')`,
+      `${webUrl}/_api/web/lists/GetByTitle('Projects')/views('8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c')/viewfields/addviewfield('ProjectCode')`
+    ], 'View fields');
+  });
+
+  it('updates fields of views that differ only in the order of fields', async () => {
+    stubTemplate('template.json', JSON.stringify({ lists: template.lists }));
+    stubSite({
+      ...provisionedSite,
+      viewFields: ['ProjectCode', 'LinkTitle']
+    });
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0].filter((c: any) => c.type === 'View'), [
+      { type: 'View', name: 'Projects/Active projects', action: 'Updated' }
+    ]);
+    assert.deepStrictEqual(getExecutedCommands(listViewSetCommand), [], 'View properties');
+    assert.deepStrictEqual(postRequests, [
+      `${webUrl}/_api/web/lists/GetByTitle('Projects')/views('8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c')/viewfields/removeallviewfields`,
+      `${webUrl}/_api/web/lists/GetByTitle('Projects')/views('8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c')/viewfields/addviewfield('LinkTitle')`,
+      `${webUrl}/_api/web/lists/GetByTitle('Projects')/views('8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c')/viewfields/addviewfield('ProjectCode')`
+    ], 'View fields');
+  });
+
+  it('adds site content types to a list that contains only content types inheriting from them', async () => {
+    stubTemplate('template.json', JSON.stringify({ lists: [{ ...template.lists[0], fields: undefined, views: undefined }] }));
+    stubSite({
+      ...provisionedSite,
+      listContentTypes: [
+        { StringId: '0x0100A33D9AD9805788419BDAAC2CCB37509F0100C6C2A0A7E2D3B94C8E0B4B6C43A1D8E1', Name: 'Internal project' }
+      ]
+    });
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(getExecutedCommands(listContentTypeAddCommand), [
+      { webUrl: webUrl, listTitle: 'Projects', contentTypeId: '0x0100A33D9AD9805788419BDAAC2CCB37509F' }
+    ]);
+  });
+
+  it('updates field links of content types that differ from the template', async () => {
+    stubTemplate('template.json', JSON.stringify({
+      contentTypes: [
+        {
+          id: '0x0100A33D9AD9805788419BDAAC2CCB37509F',
+          name: 'Project',
+          fieldLinks: [
+            { id: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', hidden: true },
+            { id: '0fcd2a2c-93a5-4e2b-a3b6-2b5e8d2e9a41' }
+          ]
+        }
+      ]
+    }));
+    stubSite(provisionedSite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'ContentType', name: 'Project', action: 'Updated' }
+    ]);
+    assert.deepStrictEqual(getExecutedCommands(contentTypeFieldSetCommand), [
+      { webUrl: webUrl, contentTypeId: '0x0100A33D9AD9805788419BDAAC2CCB37509F', fieldId: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', hidden: 'true' },
+      { webUrl: webUrl, contentTypeId: '0x0100A33D9AD9805788419BDAAC2CCB37509F', fieldId: '0fcd2a2c-93a5-4e2b-a3b6-2b5e8d2e9a41' }
+    ]);
+  });
+
+  it('matches fields without an internal name by their ID', async () => {
+    stubTemplate('template.json', JSON.stringify({
+      fields: [
+        { schemaXml: '<Field ID="{0FCD2A2C-93A5-4E2B-A3B6-2B5E8D2E9A41}" Type="User" />' }
+      ]
+    }));
+    stubSite(provisionedSite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'Field', name: '{0FCD2A2C-93A5-4E2B-A3B6-2B5E8D2E9A41}', action: 'Unchanged' }
+    ]);
+  });
+
+  it('applies a template with only some of the navigation locations', async () => {
+    stubTemplate('template.json', JSON.stringify({
+      navigation: {
+        quickLaunch: [
+          { title: 'Projects', url: '/sites/project-x/Lists/Projects' }
+        ]
+      }
+    }));
+    stubSite(provisionedSite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'NavigationNode', name: 'QuickLaunch/Projects', action: 'Created' }
+    ]);
+  });
+
+  it('creates navigation nodes with their child nodes', async () => {
+    stubTemplate('template.json', JSON.stringify({
+      navigation: {
+        topNavigationBar: [
+          {
+            title: 'Departments',
+            url: 'https://contoso.sharepoint.com/sites/departments',
+            isExternal: true,
+            children: [
+              { title: 'Finance', url: 'https://contoso.sharepoint.com/sites/finance', isExternal: true }
+            ]
+          }
+        ]
+      }
+    }));
+    stubSite(emptySite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'NavigationNode', name: 'TopNavigationBar/Departments', action: 'Created' },
+      { type: 'NavigationNode', name: 'TopNavigationBar/Departments/Finance', action: 'Created' }
+    ]);
+    assert.deepStrictEqual(getExecutedCommands(navigationNodeAddCommand), [
+      { webUrl: webUrl, location: 'TopNavigationBar', title: 'Departments', url: 'https://contoso.sharepoint.com/sites/departments', isExternal: true },
+      { webUrl: webUrl, parentNodeId: 3001, title: 'Finance', url: 'https://contoso.sharepoint.com/sites/finance', isExternal: true }
+    ]);
+  });
+
+  it('adds child navigation nodes missing under existing navigation nodes', async () => {
+    stubTemplate('template.json', JSON.stringify({
+      navigation: {
+        topNavigationBar: [
+          {
+            title: 'Projects',
+            url: '/sites/project-x/Lists/Projects',
+            children: [
+              { title: 'Active projects', url: '/sites/project-x/Lists/Projects/Active projects.aspx' },
+              { title: 'Closed projects', url: '/sites/project-x/Lists/Projects/Closed projects.aspx' }
+            ]
+          }
+        ]
+      }
+    }));
+    stubSite({
+      ...provisionedSite,
+      childNavigationNodes: {
+        2001: [{ Id: 2002, Title: 'Active projects', Url: '/sites/project-x/Lists/Projects/Active projects.aspx' }]
+      }
+    });
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'NavigationNode', name: 'TopNavigationBar/Projects', action: 'Unchanged' },
+      { type: 'NavigationNode', name: 'TopNavigationBar/Projects/Active projects', action: 'Unchanged' },
+      { type: 'NavigationNode', name: 'TopNavigationBar/Projects/Closed projects', action: 'Created' }
+    ]);
+    assert.deepStrictEqual(getExecutedCommands(navigationNodeAddCommand), [
+      { webUrl: webUrl, parentNodeId: 2001, title: 'Closed projects', url: '/sites/project-x/Lists/Projects/Closed projects.aspx' }
+    ]);
+  });
+
+  it('adds custom actions missing in the site', async () => {
+    stubTemplate('template.json', JSON.stringify({
+      customActions: [
+        {
+          title: 'Banner',
+          location: 'ClientSideExtension.ApplicationCustomizer',
+          scope: 'Web',
+          name: '{d26a9d2f-6eb7-4b6a-bc2e-4a30a4dc6d0b}',
+          clientSideComponentId: '015e0fcf-fe9d-4037-95af-0a4776cdfbb4',
+          clientSideComponentProperties: '{"testMessage":"Test message"}'
+        },
+        {
+          title: 'Banner',
+          location: 'ClientSideExtension.ApplicationCustomizer',
+          scope: 'Site',
+          clientSideComponentId: '015e0fcf-fe9d-4037-95af-0a4776cdfbb4'
+        },
+        {
+          title: 'Legacy form',
+          location: 'EditControlBlock',
+          scope: 'Site',
+          name: 'LegacyForm',
+          description: 'Opens the item in the legacy form',
+          sequence: 100,
+          registrationId: '100',
+          registrationType: 1,
+          url: 'javascript:openLegacyForm()'
+        }
+      ]
+    }));
+    stubSite({
+      ...provisionedSite,
+      customActions: [
+        { Title: 'Banner', Location: 'ClientSideExtension.ApplicationCustomizer', Scope: 2 },
+        { Title: 'Legacy form', Location: 'EditControlBlock', Scope: 3 }
+      ]
+    });
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'CustomAction', name: 'Banner', action: 'Created' },
+      { type: 'CustomAction', name: 'Banner', action: 'Unchanged' },
+      { type: 'CustomAction', name: 'Legacy form', action: 'Created' }
+    ]);
+    assert.deepStrictEqual(getExecutedCommands(customActionAddCommand), [
+      { url: webUrl, name: '{d26a9d2f-6eb7-4b6a-bc2e-4a30a4dc6d0b}', title: 'Banner', location: 'ClientSideExtension.ApplicationCustomizer', scope: 'Web', clientSideComponentId: '015e0fcf-fe9d-4037-95af-0a4776cdfbb4', clientSideComponentProperties: '{"testMessage":"Test message"}' },
+      { url: webUrl, name: 'LegacyForm', title: 'Legacy form', location: 'EditControlBlock', scope: 'Site', description: 'Opens the item in the legacy form', sequence: 100, registrationId: '100', registrationType: 'List', actionUrl: 'javascript:openLegacyForm()' }
+    ]);
+  });
+
+  it('adds custom actions to a site without custom actions', async () => {
+    stubTemplate('template.json', JSON.stringify({
+      customActions: [
+        { title: 'Script', location: 'ScriptLink', scriptSrc: '~sitecollection/SiteAssets/script.js' }
+      ]
+    }));
+    stubSite(emptySite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } });
+    assert.deepStrictEqual(getExecutedCommands(customActionAddCommand), [
+      { url: webUrl, name: 'Script', title: 'Script', location: 'ScriptLink', scope: 'Web', scriptSrc: '~sitecollection/SiteAssets/script.js' }
+    ]);
+  });
+
+  it('reads the template from a YAML file', async () => {
+    stubTemplate('template.yaml', [
+      'lists:',
+      '  - title: Projects',
+      '    baseTemplate: GenericList',
+      'propertyBag:',
+      '  projectType: internal'
+    ].join('\n'));
+    stubSite(emptySite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.yaml' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], [
+      { type: 'List', name: 'Projects', action: 'Created' },
+      { type: 'PropertyBagValue', name: 'projectType', action: 'Created' }
+    ]);
+  });
+
+  it('applies an empty YAML template', async () => {
+    stubTemplate('template.yml', '');
+    stubSite(emptySite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.yml' } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], []);
+    assert.strictEqual(executedCommands.length, 0);
+  });
+
+  it('logs progress in verbose mode', async () => {
+    stubTemplate('template.json', JSON.stringify({ ...template, customActions: [] }));
+    stubSite(provisionedSite);
+
+    await command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json', verbose: true } });
+    assert(loggerLogToStderrSpy.calledWith('Applying features...'));
+    assert(loggerLogToStderrSpy.calledWith('Applying site columns...'));
+    assert(loggerLogToStderrSpy.calledWith('Applying content types...'));
+    assert(loggerLogToStderrSpy.calledWith('Applying lists...'));
+    assert(loggerLogToStderrSpy.calledWith('Applying navigation...'));
+    assert(loggerLogToStderrSpy.calledWith('Applying custom actions...'));
+    assert(loggerLogToStderrSpy.calledWith('Applying property bag values...'));
+  });
+
+  it('throws an error when the template is not valid JSON', async () => {
+    stubTemplate('template.json', '{ "lists": [ }');
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } }),
+      (err: any) => err instanceof CommandError && err.message.startsWith('Unable to parse template'));
+  });
+
+  it('throws an error when the template is not valid YAML', async () => {
+    stubTemplate('template.yaml', 'lists: [');
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, filePath: 'template.yaml' } }),
+      (err: any) => err instanceof CommandError && err.message.startsWith('Unable to parse template'));
+  });
+
+  it('correctly handles error returned by a command applying an artifact', async () => {
+    stubTemplate('template.json', JSON.stringify(template));
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async (): Promise<any> => {
+      throw { error: new CommandError('Access denied') };
+    });
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } }),
+      new CommandError('Access denied'));
+  });
+
+  it('correctly handles error when retrieving field links of a content type', async () => {
+    stubTemplate('template.json', JSON.stringify({ contentTypes: template.contentTypes }));
+    stubSite(provisionedSite);
+    sinonUtil.restore(request.get);
+    sinon.stub(request, 'get').callsFake(async () => {
+      throw {
+        error: {
+          'odata.error': {
+            code: '-2147024891, System.UnauthorizedAccessException',
+            message: {
+              value: 'Access denied. You do not have permission to perform this action or access this resource.'
+            }
+          }
+        }
+      };
+    });
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl, filePath: 'template.json' } }),
+      new CommandError('Access denied. You do not have permission to perform this action or access this resource.'));
+  });
+
+  it('fails validation if the webUrl option is not a valid SharePoint URL', async () => {
+    const actual = await command.validate({ options: { webUrl: 'foo', filePath: 'template.json' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the template file doesn\'t exist', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => false);
+    const actual = await command.validate({ options: { webUrl: webUrl, filePath: 'template.json' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('fails validation if the filePath option points to a directory', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'lstatSync').callsFake(() => ({ isDirectory: () => true }) as any);
+    const actual = await command.validate({ options: { webUrl: webUrl, filePath: 'templates' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation when the webUrl and filePath options are valid', async () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'lstatSync').callsFake(() => ({ isDirectory: () => false }) as any);
+    const actual = await command.validate({ options: { webUrl: webUrl, filePath: 'template.json' } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
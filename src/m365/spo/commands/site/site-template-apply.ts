@@ -0,0 +1,579 @@
+import { DOMParser } from '@xmldom/xmldom';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../../../../cli/Logger';
+import { CommandError } from '../../../../Command';
+import GlobalOptions from '../../../../GlobalOptions';
+import request from '../../../../request';
+import { formatting } from '../../../../utils/formatting';
+import { validation } from '../../../../utils/validation';
+import commands from '../../commands';
+import * as SpoContentTypeAddCommand from '../contenttype/contenttype-add';
+import * as SpoContentTypeFieldSetCommand from '../contenttype/contenttype-field-set';
+import * as SpoContentTypeListCommand from '../contenttype/contenttype-list';
+import * as SpoContentTypeSetCommand from '../contenttype/contenttype-set';
+import { FieldLink } from '../contenttype/FieldLink';
+import { CustomAction } from '../customaction/customaction';
+import * as SpoCustomActionAddCommand from '../customaction/customaction-add';
+import * as SpoCustomActionListCommand from '../customaction/customaction-list';
+import { Feature } from '../feature/Feature';
+import * as SpoFeatureEnableCommand from '../feature/feature-enable';
+import * as SpoFeatureListCommand from '../feature/feature-list';
+import * as SpoFieldAddCommand from '../field/field-add';
+import * as SpoFieldListCommand from '../field/field-list';
+import * as SpoFieldSetCommand from '../field/field-set';
+import * as SpoListAddCommand from '../list/list-add';
+import * as SpoListContentTypeAddCommand from '../list/list-contenttype-add';
+import * as SpoListContentTypeListCommand from '../list/list-contenttype-list';
+import * as SpoListListCommand from '../list/list-list';
+import * as SpoListSetCommand from '../list/list-set';
+import * as SpoListViewAddCommand from '../list/list-view-add';
+import * as SpoListViewListCommand from '../list/list-view-list';
+import * as SpoListViewSetCommand from '../list/list-view-set';
+import * as SpoNavigationNodeAddCommand from '../navigation/navigation-node-add';
+import * as SpoNavigationNodeListCommand from '../navigation/navigation-node-list';
+import { NavigationNode } from '../navigation/NavigationNode';
+import * as SpoPropertyBagListCommand from '../propertybag/propertybag-list';
+import * as SpoPropertyBagSetCommand from '../propertybag/propertybag-set';
+import { SiteTemplate, SiteTemplateContentType, SiteTemplateCustomAction, SiteTemplateField, SiteTemplateList, SiteTemplateNavigationNode } from './SiteTemplate';
+import { SpoSiteTemplateBaseCommand } from './site-template-base';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  webUrl: string;
+  filePath: string;
+}
+
+interface TemplateChange {
+  type: string;
+  name: string;
+  action: string;
+}
+
+class SpoSiteTemplateApplyCommand extends SpoSiteTemplateBaseCommand {
+  // names of the registration types of custom actions by their value
+  private static registrationTypes: string[] = ['None', 'List', 'ContentType', 'ProgId', 'FileType'];
+
+  public get name(): string {
+    return commands.SITE_TEMPLATE_APPLY;
+  }
+
+  public get description(): string {
+    return 'Applies a site template with lists, fields, content types, views, navigation, custom actions, features and property bag values to a site';
+  }
+
+  public defaultProperties(): string[] | undefined {
+    return ['type', 'name', 'action'];
+  }
+
+  constructor() {
+    super();
+
+    this.#initOptions();
+    this.#initValidators();
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-u, --webUrl <webUrl>'
+      },
+      {
+        option: '-p, --filePath <filePath>'
+      }
+    );
+  }
+
+  #initValidators(): void {
+    this.validators.push(
+      async (args: CommandArgs) => {
+        const isValidSharePointUrl: boolean | string = validation.isValidSharePointUrl(args.options.webUrl);
+        if (isValidSharePointUrl !== true) {
+          return isValidSharePointUrl;
+        }
+
+        const fullPath: string = path.resolve(args.options.filePath);
+
+        if (!fs.existsSync(fullPath)) {
+          return `File '${fullPath}' not found`;
+        }
+
+        if (fs.lstatSync(fullPath).isDirectory()) {
+          return `Path '${fullPath}' points to a directory`;
+        }
+
+        return true;
+      }
+    );
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    const webUrl: string = args.options.webUrl;
+    const template: SiteTemplate = this.readTemplate(path.resolve(args.options.filePath));
+    const changes: TemplateChange[] = [];
+
+    try {
+      if (template.features) {
+        if (this.verbose) {
+          logger.logToStderr('Applying features...');
+        }
+
+        await this.applyFeatures(template, webUrl, changes);
+      }
+
+      if (template.fields) {
+        if (this.verbose) {
+          logger.logToStderr('Applying site columns...');
+        }
+
+        await this.applyFields(template.fields, webUrl, undefined, changes);
+      }
+
+      if (template.contentTypes) {
+        if (this.verbose) {
+          logger.logToStderr('Applying content types...');
+        }
+
+        await this.applyContentTypes(template.contentTypes, webUrl, changes);
+      }
+
+      if (template.lists) {
+        if (this.verbose) {
+          logger.logToStderr('Applying lists...');
+        }
+
+        await this.applyLists(template.lists, webUrl, changes);
+      }
+
+      if (template.navigation) {
+        if (this.verbose) {
+          logger.logToStderr('Applying navigation...');
+        }
+
+        await this.applyNavigationNodes(template.navigation.topNavigationBar, 'TopNavigationBar', webUrl, changes);
+        await this.applyNavigationNodes(template.navigation.quickLaunch, 'QuickLaunch', webUrl, changes);
+      }
+
+      if (template.customActions) {
+        if (this.verbose) {
+          logger.logToStderr('Applying custom actions...');
+        }
+
+        await this.applyCustomActions(template.customActions, webUrl, changes);
+      }
+
+      if (template.propertyBag) {
+        if (this.verbose) {
+          logger.logToStderr('Applying property bag values...');
+        }
+
+        await this.applyPropertyBag(template.propertyBag, webUrl, changes);
+      }
+
+      logger.log(changes);
+    }
+    catch (err: any) {
+      this.handleRejectedODataJsonPromise(err);
+    }
+  }
+
+  /**
+   * Reads the template from a YAML file, if the file has the .yaml or .yml
+   * extension, or from a JSON file otherwise
+   */
+  private readTemplate(filePath: string): SiteTemplate {
+    const contents: string = fs.readFileSync(filePath, 'utf-8');
+
+    try {
+      if (['.yaml', '.yml'].indexOf(path.extname(filePath).toLowerCase()) > -1) {
+        const yaml = require('js-yaml');
+        return yaml.load(contents) || {};
+      }
+
+      return JSON.parse(contents);
+    }
+    catch (err: any) {
+      throw new CommandError(`Unable to parse template ${filePath}: ${err.message}`);
+    }
+  }
+
+  private async applyFeatures(template: SiteTemplate, webUrl: string, changes: TemplateChange[]): Promise<void> {
+    const activeFeatures: { [scope: string]: Feature[] } = {};
+
+    for (const feature of template.features!) {
+      const scope: string = feature.scope || 'Web';
+
+      if (!activeFeatures[scope]) {
+        activeFeatures[scope] = await this.executeCommand(SpoFeatureListCommand, { url: webUrl, scope });
+      }
+
+      if (activeFeatures[scope].some(f => this.normalizeId(f.DefinitionId) === this.normalizeId(feature.id))) {
+        changes.push({ type: 'Feature', name: feature.id, action: 'Unchanged' });
+        continue;
+      }
+
+      await this.executeCommand(SpoFeatureEnableCommand, { url: webUrl, featureId: feature.id, scope });
+      changes.push({ type: 'Feature', name: feature.id, action: 'Activated' });
+    }
+  }
+
+  /**
+   * Creates the fields missing in the site or list and updates the title,
+   * group and description of the existing fields. Fields are matched
+   * by their ID or internal name
+   */
+  private async applyFields(fields: SiteTemplateField[], webUrl: string, listTitle: string | undefined, changes: TemplateChange[]): Promise<void> {
+    const existingFields: any[] = await this.executeCommand(SpoFieldListCommand, { webUrl, listTitle });
+
+    for (const field of fields) {
+      const fieldElement: Element = new DOMParser()
+        .parseFromString(field.schemaXml, 'text/xml')
+        .getElementsByTagName('Field')[0];
+      const id: string | null = fieldElement.getAttribute('ID');
+      const internalName: string | null = fieldElement.getAttribute('Name');
+      const name: string = this.getChangeName(internalName || id as string, listTitle);
+      const existingField: any = existingFields.find(f =>
+        (id && this.normalizeId(f.Id) === this.normalizeId(id)) ||
+        (internalName && f.InternalName === internalName));
+
+      if (!existingField) {
+        await this.executeCommand(SpoFieldAddCommand, { webUrl, listTitle, xml: field.schemaXml });
+        changes.push({ type: 'Field', name, action: 'Created' });
+        continue;
+      }
+
+      const properties: any = {};
+      [
+        { attribute: 'DisplayName', property: 'Title' },
+        { attribute: 'Group', property: 'Group' },
+        { attribute: 'Description', property: 'Description' }
+      ].forEach(p => {
+        const value: string | null = fieldElement.getAttribute(p.attribute);
+        if (fieldElement.hasAttribute(p.attribute) && value !== existingField[p.property]) {
+          properties[p.property] = value;
+        }
+      });
+
+      if (Object.keys(properties).length === 0) {
+        changes.push({ type: 'Field', name, action: 'Unchanged' });
+        continue;
+      }
+
+      await this.executeCommand(SpoFieldSetCommand, { webUrl, listTitle, id: existingField.Id, ...properties });
+      changes.push({ type: 'Field', name, action: 'Updated' });
+    }
+  }
+
+  private async applyContentTypes(contentTypes: SiteTemplateContentType[], webUrl: string, changes: TemplateChange[]): Promise<void> {
+    const existingContentTypes: any[] = await this.executeCommand(SpoContentTypeListCommand, { webUrl });
+
+    for (const contentType of contentTypes) {
+      const existingContentType: any = existingContentTypes.find(c => c.StringId.toUpperCase() === contentType.id.toUpperCase());
+      let action: string = 'Unchanged';
+
+      if (!existingContentType) {
+        await this.executeCommand(SpoContentTypeAddCommand, {
+          webUrl,
+          id: contentType.id,
+          name: contentType.name,
+          group: contentType.group,
+          description: contentType.description
+        });
+        action = 'Created';
+      }
+      else {
+        const properties: any = {};
+        if (contentType.name !== existingContentType.Name) {
+          properties.Name = contentType.name;
+        }
+        if (typeof contentType.group !== 'undefined' && contentType.group !== existingContentType.Group) {
+          properties.Group = contentType.group;
+        }
+        if (typeof contentType.description !== 'undefined' && contentType.description !== existingContentType.Description) {
+          properties.Description = contentType.description;
+        }
+
+        if (Object.keys(properties).length > 0) {
+          await this.executeCommand(SpoContentTypeSetCommand, { webUrl, id: contentType.id, ...properties });
+          action = 'Updated';
+        }
+      }
+
+      if (contentType.fieldLinks) {
+        const requestOptions: any = {
+          url: `${webUrl}/_api/web/contenttypes('${encodeURIComponent(contentType.id)}')/fieldlinks`,
+          headers: {
+            accept: 'application/json;odata=nometadata'
+          },
+          responseType: 'json'
+        };
+        const fieldLinks = await request.get<{ value: FieldLink[] }>(requestOptions);
+
+        for (const fieldLink of contentType.fieldLinks) {
+          const existingFieldLink: FieldLink | undefined = fieldLinks.value.find(l => this.normalizeId(l.Id) === this.normalizeId(fieldLink.id));
+          if (existingFieldLink &&
+            (typeof fieldLink.required === 'undefined' || fieldLink.required === existingFieldLink.Required) &&
+            (typeof fieldLink.hidden === 'undefined' || fieldLink.hidden === existingFieldLink.Hidden)) {
+            continue;
+          }
+
+          await this.executeCommand(SpoContentTypeFieldSetCommand, {
+            webUrl,
+            contentTypeId: contentType.id,
+            fieldId: fieldLink.id,
+            required: typeof fieldLink.required !== 'undefined' ? fieldLink.required.toString() : undefined,
+            hidden: typeof fieldLink.hidden !== 'undefined' ? fieldLink.hidden.toString() : undefined
+          });
+
+          if (action === 'Unchanged') {
+            action = 'Updated';
+          }
+        }
+      }
+
+      changes.push({ type: 'ContentType', name: contentType.name, action });
+    }
+  }
+
+  private async applyLists(lists: SiteTemplateList[], webUrl: string, changes: TemplateChange[]): Promise<void> {
+    const existingLists: any[] = await this.executeCommand(SpoListListCommand, { webUrl });
+
+    for (const list of lists) {
+      const existingList: any = existingLists.find(l => l.Title === list.title);
+
+      if (!existingList) {
+        await this.executeCommand(SpoListAddCommand, {
+          webUrl,
+          title: list.title,
+          baseTemplate: list.baseTemplate,
+          description: list.description,
+          contentTypesEnabled: list.contentTypes ? 'true' : undefined
+        });
+        changes.push({ type: 'List', name: list.title, action: 'Created' });
+      }
+      else {
+        const properties: any = {};
+        if (typeof list.description !== 'undefined' && list.description !== existingList.Description) {
+          properties.description = list.description;
+        }
+        if (list.contentTypes && !existingList.ContentTypesEnabled) {
+          properties.contentTypesEnabled = 'true';
+        }
+
+        if (Object.keys(properties).length > 0) {
+          await this.executeCommand(SpoListSetCommand, { webUrl, id: existingList.Id, ...properties });
+          changes.push({ type: 'List', name: list.title, action: 'Updated' });
+        }
+        else {
+          changes.push({ type: 'List', name: list.title, action: 'Unchanged' });
+        }
+      }
+
+      if (list.fields) {
+        await this.applyFields(list.fields, webUrl, list.title, changes);
+      }
+
+      if (list.contentTypes) {
+        const listContentTypes: any[] = await this.executeCommand(SpoListContentTypeListCommand, { webUrl, listTitle: list.title });
+
+        for (const contentTypeId of list.contentTypes) {
+          if (listContentTypes.some(c => this.getParentContentTypeId(c.StringId).toUpperCase() === contentTypeId.toUpperCase())) {
+            changes.push({ type: 'ContentType', name: this.getChangeName(contentTypeId, list.title), action: 'Unchanged' });
+            continue;
+          }
+
+          await this.executeCommand(SpoListContentTypeAddCommand, { webUrl, listTitle: list.title, contentTypeId });
+          changes.push({ type: 'ContentType', name: this.getChangeName(contentTypeId, list.title), action: 'Created' });
+        }
+      }
+
+      if (list.views) {
+        const existingViews: any[] = await this.executeCommand(SpoListViewListCommand, { webUrl, listTitle: list.title });
+
+        for (const view of list.views) {
+          const name: string = this.getChangeName(view.title, list.title);
+          const existingView: any = existingViews.find(v => v.Title === view.title);
+
+          if (!existingView) {
+            await this.executeCommand(SpoListViewAddCommand, {
+              webUrl,
+              listTitle: list.title,
+              title: view.title,
+              fields: view.fields.join(','),
+              viewQuery: view.query,
+              rowLimit: view.rowLimit,
+              default: view.default
+            });
+            changes.push({ type: 'View', name, action: 'Created' });
+            continue;
+          }
+
+          const properties: any = {};
+          if (typeof view.query !== 'undefined' && view.query !== existingView.ViewQuery) {
+            properties.ViewQuery = view.query;
+          }
+          if (typeof view.rowLimit !== 'undefined' && view.rowLimit !== existingView.RowLimit) {
+            properties.RowLimit = view.rowLimit;
+          }
+          if (view.default && !existingView.DefaultView) {
+            properties.DefaultView = true;
+          }
+
+          const fieldsUpdated: boolean = await this.applyViewFields(view.fields, webUrl, list.title, existingView.Id);
+
+          if (Object.keys(properties).length === 0) {
+            changes.push({ type: 'View', name, action: fieldsUpdated ? 'Updated' : 'Unchanged' });
+            continue;
+          }
+
+          await this.executeCommand(SpoListViewSetCommand, { webUrl, listTitle: list.title, viewId: existingView.Id, ...properties });
+          changes.push({ type: 'View', name, action: 'Updated' });
+        }
+      }
+    }
+  }
+
+  /**
+   * Replaces the fields of the view when they differ from the fields
+   * in the template, including their order. Returns true if the fields
+   * were updated
+   */
+  private async applyViewFields(fields: string[], webUrl: string, listTitle: string, viewId: string): Promise<boolean> {
+    const viewFieldsUrl: string = `${webUrl}/_api/web/lists/GetByTitle('${formatting.encodeQueryParameter(listTitle)}')/views('${viewId}')/viewfields`;
+    const requestOptions: any = {
+      url: viewFieldsUrl,
+      headers: {
+        accept: 'application/json;odata=nometadata'
+      },
+      responseType: 'json'
+    };
+    const viewFields = await request.get<{ Items: string[] }>(requestOptions);
+
+    if (viewFields.Items.join(',') === fields.join(',')) {
+      return false;
+    }
+
+    await request.post({ ...requestOptions, url: `${viewFieldsUrl}/removeallviewfields` });
+    for (const field of fields) {
+      await request.post({ ...requestOptions, url: `${viewFieldsUrl}/addviewfield('${formatting.encodeQueryParameter(field)}')` });
+    }
+
+    return true;
+  }
+
+  private async applyNavigationNodes(nodes: SiteTemplateNavigationNode[] | undefined, location: string, webUrl: string, changes: TemplateChange[]): Promise<void> {
+    if (!nodes) {
+      return;
+    }
+
+    const existingNodes: NavigationNode[] = await this.executeCommand(SpoNavigationNodeListCommand, { webUrl, location });
+    await this.applyChildNavigationNodes(nodes, existingNodes, location, undefined, location, webUrl, changes);
+  }
+
+  /**
+   * Adds the navigation nodes missing in the specified location or under
+   * the specified parent node, including their child nodes. Nodes are matched
+   * by their title
+   */
+  private async applyChildNavigationNodes(nodes: SiteTemplateNavigationNode[], existingNodes: NavigationNode[], location: string, parentNodeId: number | undefined, parentName: string, webUrl: string, changes: TemplateChange[]): Promise<void> {
+    for (const node of nodes) {
+      const name: string = `${parentName}/${node.title}`;
+      let existingNode: NavigationNode | undefined = existingNodes.find(n => n.Title === node.title);
+      let existingChildNodes: NavigationNode[] = [];
+
+      if (existingNode) {
+        changes.push({ type: 'NavigationNode', name, action: 'Unchanged' });
+
+        if (node.children) {
+          const requestOptions: any = {
+            url: `${webUrl}/_api/web/navigation/GetNodeById(${existingNode.Id})/Children`,
+            headers: {
+              accept: 'application/json;odata=nometadata'
+            },
+            responseType: 'json'
+          };
+          existingChildNodes = (await request.get<{ value: NavigationNode[] }>(requestOptions)).value;
+        }
+      }
+      else {
+        existingNode = await this.executeCommand(SpoNavigationNodeAddCommand, {
+          webUrl,
+          location: parentNodeId ? undefined : location,
+          parentNodeId,
+          title: node.title,
+          url: node.url,
+          isExternal: node.isExternal
+        }) as NavigationNode;
+        changes.push({ type: 'NavigationNode', name, action: 'Created' });
+      }
+
+      if (node.children) {
+        await this.applyChildNavigationNodes(node.children, existingChildNodes, location, existingNode.Id, name, webUrl, changes);
+      }
+    }
+  }
+
+  /**
+   * Adds the custom actions missing in the site. Custom actions are matched
+   * by their title and scope
+   */
+  private async applyCustomActions(customActions: SiteTemplateCustomAction[], webUrl: string, changes: TemplateChange[]): Promise<void> {
+    // the command doesn't return any output when there are no custom actions
+    const existingCustomActions: CustomAction[] = await this.executeCommand(SpoCustomActionListCommand, { url: webUrl }) || [];
+
+    for (const customAction of customActions) {
+      const scope: string = customAction.scope || 'Web';
+
+      if (existingCustomActions.some(a => a.Title === customAction.title && (a.Scope === 2 ? 'Site' : 'Web') === scope)) {
+        changes.push({ type: 'CustomAction', name: customAction.title, action: 'Unchanged' });
+        continue;
+      }
+
+      await this.executeCommand(SpoCustomActionAddCommand, {
+        url: webUrl,
+        name: customAction.name || customAction.title,
+        title: customAction.title,
+        location: customAction.location,
+        scope,
+        description: customAction.description,
+        sequence: customAction.sequence,
+        clientSideComponentId: customAction.clientSideComponentId,
+        clientSideComponentProperties: customAction.clientSideComponentProperties,
+        registrationId: customAction.registrationId,
+        registrationType: typeof customAction.registrationType !== 'undefined' ? SpoSiteTemplateApplyCommand.registrationTypes[customAction.registrationType] : undefined,
+        scriptSrc: customAction.scriptSrc,
+        actionUrl: customAction.url
+      });
+      changes.push({ type: 'CustomAction', name: customAction.title, action: 'Created' });
+    }
+  }
+
+  private async applyPropertyBag(propertyBag: { [key: string]: string }, webUrl: string, changes: TemplateChange[]): Promise<void> {
+    const existingProperties: { key: string; value: any; }[] = await this.executeCommand(SpoPropertyBagListCommand, { webUrl });
+
+    for (const key of Object.keys(propertyBag)) {
+      const value: string = String(propertyBag[key]);
+      const existingProperty = existingProperties.find(p => p.key === key);
+
+      if (existingProperty && String(existingProperty.value) === value) {
+        changes.push({ type: 'PropertyBagValue', name: key, action: 'Unchanged' });
+        continue;
+      }
+
+      await this.executeCommand(SpoPropertyBagSetCommand, { webUrl, key, value });
+      changes.push({ type: 'PropertyBagValue', name: key, action: existingProperty ? 'Updated' : 'Created' });
+    }
+  }
+
+  /**
+   * Prefixes the name of an artifact with the title of the list it belongs to
+   */
+  private getChangeName(name: string, listTitle: string | undefined): string {
+    return listTitle ? `${listTitle}/${name}` : name;
+  }
+}
+
+module.exports = new SpoSiteTemplateApplyCommand();
@@ -0,0 +1,21 @@
+import SpoCommand from '../../../base/SpoCommand';
+
+export abstract class SpoSiteTemplateBaseCommand extends SpoCommand {
+  /**
+   * Returns the ID of the site content type from which the specified list
+   * content type was created. Content types added to a list get an ID built
+   * from the ID of the site content type followed by 00 and a GUID without
+   * dashes
+   */
+  protected getParentContentTypeId(listContentTypeId: string): string {
+    return listContentTypeId.substring(0, listContentTypeId.length - 34);
+  }
+
+  /**
+   * Removes braces and lowercases the specified ID so that IDs
+   * from schema XML and REST responses can be compared
+   */
+  protected normalizeId(id: string): string {
+    return id.replace(/[{}]/g, '').toLowerCase();
+  }
+}
@@ -0,0 +1,374 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import appInsights from '../../../../appInsights';
+import auth from '../../../../Auth';
+import { Cli } from '../../../../cli/Cli';
+import { CommandInfo } from '../../../../cli/CommandInfo';
+import { Logger } from '../../../../cli/Logger';
+import Command, { CommandError } from '../../../../Command';
+import request from '../../../../request';
+import { pid } from '../../../../utils/pid';
+import { sinonUtil } from '../../../../utils/sinonUtil';
+import commands from '../../commands';
+const command: Command = require('./site-template-get');
+const contentTypeListCommand: Command = require('../contenttype/contenttype-list');
+const customActionListCommand: Command = require('../customaction/customaction-list');
+const featureListCommand: Command = require('../feature/feature-list');
+const fieldListCommand: Command = require('../field/field-list');
+const listContentTypeListCommand: Command = require('../list/list-contenttype-list');
+const listListCommand: Command = require('../list/list-list');
+const propertyBagListCommand: Command = require('../propertybag/propertybag-list');
+
+describe(commands.SITE_TEMPLATE_GET, () => {
+  const webUrl: string = 'https://contoso.sharepoint.com/sites/project-x';
+  const site: any = {
+    features: {
+      Web: [{ DefinitionId: '87294c72-f260-42f3-a41b-981a2ffce37a', DisplayName: 'SiteNotebook' }],
+      Site: [{ DefinitionId: 'b50e3104-6812-424f-a011-cc90e6327318', DisplayName: 'DocId' }]
+    },
+    fields: [
+      { Id: 'fa564e0f-0c70-4ab9-b863-0177e6ddd247', InternalName: 'Title', SchemaXml: '<Field ID="{fa564e0f-0c70-4ab9-b863-0177e6ddd247}" Type="Text" Name="Title" DisplayName="Title" SourceID="http://schemas.microsoft.com/sharepoint/v3" StaticName="Title" />' },
+      { Id: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', InternalName: 'ProjectCode', SchemaXml: '<Field ID="{5ee2dd25-d941-455a-9bdb-7f2c54aed11b}" Name="ProjectCode" DisplayName="Project code" Type="Text" Group="Project Columns" SourceID="{d6f8a2b1-3c4d-4e5f-8a9b-0c1d2e3f4a5b}" StaticName="ProjectCode" Version="3" />' }
+    ],
+    contentTypes: [
+      { StringId: '0x01', Name: 'Item', Group: 'List Content Types', Description: 'Create a new list item.', SchemaXml: '<ContentType ID="0x01" Name="Item" FeatureId="{695b6570-a48b-4a8e-8ea5-26ea7fc1d162}"></ContentType>' },
+      { StringId: '0x0100A33D9AD9805788419BDAAC2CCB37509F', Name: 'Project', Group: 'Project Content Types', Description: 'Project', SchemaXml: '<ContentType ID="0x0100A33D9AD9805788419BDAAC2CCB37509F" Name="Project"></ContentType>' }
+    ],
+    fieldLinks: {
+      '0x01': [
+        { Id: 'fa564e0f-0c70-4ab9-b863-0177e6ddd247', Name: 'Title', Required: true, Hidden: false }
+      ],
+      '0x0100A33D9AD9805788419BDAAC2CCB37509F': [
+        { Id: 'fa564e0f-0c70-4ab9-b863-0177e6ddd247', Name: 'Title', Required: true, Hidden: false },
+        { Id: '{5EE2DD25-D941-455A-9BDB-7F2C54AED11B}', Name: 'ProjectCode', Required: false, Hidden: false }
+      ]
+    },
+    lists: [
+      { Id: '3c4a8f1e-2d5b-4e6a-9b7c-8d9e0f1a2b3c', Title: 'Projects', BaseTemplate: 100, Description: 'All projects', ContentTypesEnabled: true, Hidden: false, IsCatalog: false },
+      { Id: '1f2e3d4c-5b6a-4978-8695-a4b3c2d1e0f9', Title: 'Form Templates', BaseTemplate: 101, Description: '', ContentTypesEnabled: false, Hidden: true, IsCatalog: false },
+      { Id: '9a8b7c6d-5e4f-4a3b-2c1d-0e9f8a7b6c5d', Title: 'Master Page Gallery', BaseTemplate: 116, Description: '', ContentTypesEnabled: true, Hidden: false, IsCatalog: true },
+      { Id: '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e', Title: 'Custom', BaseTemplate: 99999, Description: '', ContentTypesEnabled: false, Hidden: false, IsCatalog: false }
+    ],
+    listFields: [
+      { Id: 'fa564e0f-0c70-4ab9-b863-0177e6ddd247', InternalName: 'Title', SchemaXml: '<Field ID="{fa564e0f-0c70-4ab9-b863-0177e6ddd247}" Type="Text" Name="Title" DisplayName="Title" SourceID="http://schemas.microsoft.com/sharepoint/v3" StaticName="Title" ColName="nvarchar1" />' },
+      { Id: '1c9b2d38-1e8a-4b5b-b1a6-6b8b6f1c8e54', InternalName: 'Budget', SchemaXml: '<Field ID="{1c9b2d38-1e8a-4b5b-b1a6-6b8b6f1c8e54}" Name="Budget" DisplayName="Budget" Type="Currency" SourceID="{3c4a8f1e-2d5b-4e6a-9b7c-8d9e0f1a2b3c}" ColName="float1" RowOrdinal="0" />' }
+    ],
+    listContentTypes: [
+      { StringId: '0x0100A33D9AD9805788419BDAAC2CCB37509F00C6C2A0A7E2D3B94C8E0B4B6C43A1D8E1', Name: 'Project', Hidden: false },
+      { StringId: '0x012000F1D3A6C8B1E24B4C9F2E8D7A6B5C4D3E', Name: 'Folder', Hidden: true }
+    ],
+    views: {
+      '3c4a8f1e-2d5b-4e6a-9b7c-8d9e0f1a2b3c': [
+        { Id: '8f2c1a3b-4d5e-4f6a-8b7c-9d0e1f2a3b4c', Title: 'All Items', ViewQuery: '<OrderBy><FieldRef Name="ID" /></OrderBy>', RowLimit: 30, DefaultView: true, Hidden: false, PersonalView: false, ViewFields: { Items: ['LinkTitle', 'Budget'] } },
+        { Id: '7e1b0a2c-3d4e-4f5a-9b8c-7d6e5f4a3b2c', Title: '', ViewQuery: '', RowLimit: 30, DefaultView: false, Hidden: true, PersonalView: false, ViewFields: { Items: ['LinkTitle'] } },
+        { Id: '6d0a9b1c-2e3f-4a4b-8c7d-6e5f4a3b2c1d', Title: 'My items', ViewQuery: '', RowLimit: 30, DefaultView: false, Hidden: false, PersonalView: true, ViewFields: { Items: ['LinkTitle'] } }
+      ]
+    },
+    navigation: {
+      topnavigationbar: [{ Id: 2001, Title: 'Projects', Url: '/sites/project-x/Lists/Projects', IsExternal: false }],
+      'GetNodeById(2001)/Children': [{ Id: 2002, Title: 'Active projects', Url: '/sites/project-x/Lists/Projects/Active.aspx', IsExternal: false }],
+      quicklaunch: [{ Id: 1025, Title: 'Intranet', Url: 'https://contoso.sharepoint.com', IsExternal: true }]
+    },
+    customActions: [
+      {
+        ClientSideComponentId: '015e0fcf-fe9d-4037-95af-0a4776cdfbb4',
+        ClientSideComponentProperties: '{"testMessage":"Test message"}',
+        Description: null,
+        Location: 'ClientSideExtension.ApplicationCustomizer',
+        Name: '{d26a9d2f-6eb7-4b6a-bc2e-4a30a4dc6d0b}',
+        RegistrationId: null,
+        RegistrationType: 0,
+        Scope: 3,
+        ScriptSrc: null,
+        Sequence: 0,
+        Title: 'Banner',
+        Url: null
+      },
+      {
+        ClientSideComponentId: '00000000-0000-0000-0000-000000000000',
+        ClientSideComponentProperties: '',
+        Description: 'Opens the item in the legacy form',
+        Location: 'EditControlBlock',
+        Name: 'LegacyForm',
+        RegistrationId: '100',
+        RegistrationType: 1,
+        Scope: 2,
+        ScriptSrc: '~sitecollection/SiteAssets/legacy.js',
+        Sequence: 100,
+        Title: 'Legacy form',
+        Url: 'javascript:openLegacyForm()'
+      }
+    ],
+    propertyBag: [
+      { key: 'vti_defaultlanguage', value: 'en-us' },
+      { key: 'projectType', value: 'internal' },
+      { key: 'projectVersion', value: 2 }
+    ]
+  };
+  const expectedTemplate: any = {
+    features: [
+      { id: '87294c72-f260-42f3-a41b-981a2ffce37a', scope: 'Web' },
+      { id: 'b50e3104-6812-424f-a011-cc90e6327318', scope: 'Site' }
+    ],
+    fields: [
+      { schemaXml: '<Field ID="{5ee2dd25-d941-455a-9bdb-7f2c54aed11b}" Name="ProjectCode" DisplayName="Project code" Type="Text" Group="Project Columns" StaticName="ProjectCode" />' }
+    ],
+    contentTypes: [
+      {
+        id: '0x0100A33D9AD9805788419BDAAC2CCB37509F',
+        name: 'Project',
+        group: 'Project Content Types',
+        description: 'Project',
+        fieldLinks: [
+          { id: 'fa564e0f-0c70-4ab9-b863-0177e6ddd247', required: true, hidden: false },
+          { id: '5ee2dd25-d941-455a-9bdb-7f2c54aed11b', required: false, hidden: false }
+        ]
+      }
+    ],
+    lists: [
+      {
+        title: 'Projects',
+        baseTemplate: 'GenericList',
+        description: 'All projects',
+        fields: [
+          { schemaXml: '<Field ID="{1c9b2d38-1e8a-4b5b-b1a6-6b8b6f1c8e54}" Name="Budget" DisplayName="Budget" Type="Currency" />' }
+        ],
+        contentTypes: ['0x0100A33D9AD9805788419BDAAC2CCB37509F'],
+        views: [
+          { title: 'All Items', fields: ['LinkTitle', 'Budget'], query: '<OrderBy><FieldRef Name="ID" /></OrderBy>', rowLimit: 30, default: true }
+        ]
+      },
+      {
+        title: 'Custom',
+        baseTemplate: '99999',
+        description: '',
+        fields: [
+          { schemaXml: '<Field ID="{1c9b2d38-1e8a-4b5b-b1a6-6b8b6f1c8e54}" Name="Budget" DisplayName="Budget" Type="Currency" />' }
+        ],
+        views: []
+      }
+    ],
+    navigation: {
+      topNavigationBar: [
+        {
+          title: 'Projects',
+          url: '/sites/project-x/Lists/Projects',
+          children: [
+            { title: 'Active projects', url: '/sites/project-x/Lists/Projects/Active.aspx' }
+          ]
+        }
+      ],
+      quickLaunch: [
+        { title: 'Intranet', url: 'https://contoso.sharepoint.com', isExternal: true }
+      ]
+    },
+    customActions: [
+      {
+        title: 'Banner',
+        location: 'ClientSideExtension.ApplicationCustomizer',
+        scope: 'Web',
+        name: '{d26a9d2f-6eb7-4b6a-bc2e-4a30a4dc6d0b}',
+        clientSideComponentId: '015e0fcf-fe9d-4037-95af-0a4776cdfbb4',
+        clientSideComponentProperties: '{"testMessage":"Test message"}'
+      },
+      {
+        title: 'Legacy form',
+        location: 'EditControlBlock',
+        scope: 'Site',
+        name: 'LegacyForm',
+        description: 'Opens the item in the legacy form',
+        sequence: 100,
+        registrationId: '100',
+        registrationType: 1,
+        scriptSrc: '~sitecollection/SiteAssets/legacy.js',
+        url: 'javascript:openLegacyForm()'
+      }
+    ],
+    propertyBag: {
+      projectType: 'internal',
+      projectVersion: '2'
+    }
+  };
+
+  let log: any[];
+  let logger: Logger;
+  let loggerLogSpy: sinon.SinonSpy;
+  let loggerLogToStderrSpy: sinon.SinonSpy;
+  let commandInfo: CommandInfo;
+
+  const stubSite = (site: any): void => {
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async (command: Command, args: any): Promise<any> => {
+      switch (command) {
+        case featureListCommand:
+          return { stdout: JSON.stringify(site.features[args.options.scope]), stderr: '' };
+        case fieldListCommand:
+          return { stdout: JSON.stringify(args.options.listTitle ? site.listFields : site.fields), stderr: '' };
+        case contentTypeListCommand:
+          return { stdout: JSON.stringify(site.contentTypes), stderr: '' };
+        case listListCommand:
+          return { stdout: JSON.stringify(site.lists), stderr: '' };
+        case listContentTypeListCommand:
+          return { stdout: JSON.stringify(site.listContentTypes), stderr: '' };
+        case customActionListCommand:
+          return { stdout: site.customActions.length > 0 ? JSON.stringify(site.customActions) : '', stderr: '' };
+        case propertyBagListCommand:
+          return { stdout: JSON.stringify(site.propertyBag), stderr: '' };
+      }
+
+      throw { error: new CommandError('Unknown command') };
+    });
+
+    sinon.stub(request, 'get').callsFake(async (opts) => {
+      const fieldLinksMatch: RegExpMatchArray | null = (opts.url as string).match(/\/_api\/web\/contenttypes\('([^']+)'\)\/fieldlinks$/);
+      if (fieldLinksMatch) {
+        return { value: site.fieldLinks[fieldLinksMatch[1]] };
+      }
+
+      const viewsMatch: RegExpMatchArray | null = (opts.url as string).match(/\/_api\/web\/lists\(guid'([^']+)'\)\/views\?\$expand=ViewFields$/);
+      if (viewsMatch) {
+        return { value: site.views[viewsMatch[1]] || [] };
+      }
+
+      const navigationMatch: RegExpMatchArray | null = (opts.url as string).match(/\/_api\/web\/navigation\/(.+)$/);
+      if (navigationMatch) {
+        return { value: site.navigation[navigationMatch[1]] || [] };
+      }
+
+      throw 'Invalid request';
+    });
+  };
+
+  before(() => {
+    sinon.stub(auth, 'restoreAuth').callsFake(() => Promise.resolve());
+    sinon.stub(appInsights, 'trackEvent').callsFake(() => { });
+    sinon.stub(pid, 'getProcessName').callsFake(() => '');
+    auth.service.connected = true;
+    commandInfo = Cli.getCommandInfo(command);
+  });
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: string) => {
+        log.push(msg);
+      },
+      logRaw: (msg: string) => {
+        log.push(msg);
+      },
+      logToStderr: (msg: string) => {
+        log.push(msg);
+      }
+    };
+    loggerLogSpy = sinon.spy(logger, 'log');
+    loggerLogToStderrSpy = sinon.spy(logger, 'logToStderr');
+  });
+
+  afterEach(() => {
+    sinonUtil.restore([
+      Cli.executeCommandWithOutput,
+      request.get
+    ]);
+  });
+
+  after(() => {
+    sinonUtil.restore([
+      auth.restoreAuth,
+      appInsights.trackEvent,
+      pid.getProcessName
+    ]);
+    auth.service.connected = false;
+  });
+
+  it('has correct name', () => {
+    assert.strictEqual(command.name.startsWith(commands.SITE_TEMPLATE_GET), true);
+  });
+
+  it('has a description', () => {
+    assert.notStrictEqual(command.description, null);
+  });
+
+  it('gets the template of the site without built-in artifacts', async () => {
+    stubSite(site);
+
+    await command.action(logger, { options: { webUrl: webUrl } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0], expectedTemplate);
+  });
+
+  it('gets the template of the site including built-in artifacts', async () => {
+    stubSite(site);
+
+    await command.action(logger, { options: { webUrl: webUrl, includeBuiltIn: true } });
+    const template: any = loggerLogSpy.lastCall.args[0];
+    assert.deepStrictEqual(template.fields.map((f: any) => f.schemaXml), [
+      '<Field ID="{fa564e0f-0c70-4ab9-b863-0177e6ddd247}" Type="Text" Name="Title" DisplayName="Title" StaticName="Title" />',
+      expectedTemplate.fields[0].schemaXml
+    ], 'Fields');
+    assert.deepStrictEqual(template.contentTypes.map((c: any) => c.id), ['0x01', '0x0100A33D9AD9805788419BDAAC2CCB37509F'], 'Content types');
+    assert.deepStrictEqual(template.lists.map((l: any) => `${l.title} (${l.baseTemplate})`), ['Projects (GenericList)', 'Form Templates (DocumentLibrary)', 'Master Page Gallery (116)', 'Custom (99999)'], 'Lists');
+    assert.strictEqual(template.lists[0].fields.length, 2, 'List fields');
+    assert.deepStrictEqual(template.propertyBag, { vti_defaultlanguage: 'en-us', projectType: 'internal', projectVersion: '2' }, 'Property bag');
+  });
+
+  it('returns an empty list of custom actions when the site has no custom actions', async () => {
+    stubSite({ ...site, customActions: [] });
+
+    await command.action(logger, { options: { webUrl: webUrl } });
+    assert.deepStrictEqual(loggerLogSpy.lastCall.args[0].customActions, []);
+  });
+
+  it('logs progress in verbose mode', async () => {
+    stubSite(site);
+
+    await command.action(logger, { options: { webUrl: webUrl, verbose: true } });
+    assert(loggerLogToStderrSpy.calledWith('Retrieving features...'));
+    assert(loggerLogToStderrSpy.calledWith('Retrieving site columns...'));
+    assert(loggerLogToStderrSpy.calledWith('Retrieving content types...'));
+    assert(loggerLogToStderrSpy.calledWith('Retrieving lists...'));
+    assert(loggerLogToStderrSpy.calledWith('Retrieving navigation...'));
+    assert(loggerLogToStderrSpy.calledWith('Retrieving custom actions...'));
+    assert(loggerLogToStderrSpy.calledWith('Retrieving property bag values...'));
+  });
+
+  it('correctly handles error returned by a command retrieving artifacts', async () => {
+    sinon.stub(Cli, 'executeCommandWithOutput').callsFake(async (): Promise<any> => {
+      throw { error: new CommandError('Access denied') };
+    });
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl } }),
+      new CommandError('Access denied'));
+  });
+
+  it('correctly handles error when retrieving views of a list', async () => {
+    stubSite(site);
+    sinonUtil.restore(request.get);
+    sinon.stub(request, 'get').callsFake(async (opts) => {
+      if ((opts.url as string).indexOf('/fieldlinks') > -1) {
+        return { value: [] };
+      }
+
+      throw {
+        error: {
+          'odata.error': {
+            code: '-2147024891, System.UnauthorizedAccessException',
+            message: {
+              value: 'Access denied. You do not have permission to perform this action or access this resource.'
+            }
+          }
+        }
+      };
+    });
+
+    await assert.rejects(command.action(logger, { options: { webUrl: webUrl } }),
+      new CommandError('Access denied. You do not have permission to perform this action or access this resource.'));
+  });
+
+  it('fails validation if the webUrl option is not a valid SharePoint URL', async () => {
+    const actual = await command.validate({ options: { webUrl: 'foo' } }, commandInfo);
+    assert.notStrictEqual(actual, true);
+  });
+
+  it('passes validation when the webUrl option is a valid SharePoint URL', async () => {
+    const actual = await command.validate({ options: { webUrl: webUrl } }, commandInfo);
+    assert.strictEqual(actual, true);
+  });
+});
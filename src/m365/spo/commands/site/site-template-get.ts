@@ -0,0 +1,339 @@
+import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
+import request from '../../../../request';
+import { validation } from '../../../../utils/validation';
+import commands from '../../commands';
+import { FieldLink } from '../contenttype/FieldLink';
+import * as SpoContentTypeListCommand from '../contenttype/contenttype-list';
+import { CustomAction } from '../customaction/customaction';
+import * as SpoCustomActionListCommand from '../customaction/customaction-list';
+import { Feature } from '../feature/Feature';
+import * as SpoFeatureListCommand from '../feature/feature-list';
+import * as SpoFieldListCommand from '../field/field-list';
+import { ListInstance } from '../list/ListInstance';
+import { ListTemplateType } from '../list/ListTemplateType';
+import * as SpoListContentTypeListCommand from '../list/list-contenttype-list';
+import * as SpoListListCommand from '../list/list-list';
+import { NavigationNode } from '../navigation/NavigationNode';
+import * as SpoPropertyBagListCommand from '../propertybag/propertybag-list';
+import { SiteTemplate, SiteTemplateContentType, SiteTemplateCustomAction, SiteTemplateFeature, SiteTemplateField, SiteTemplateList, SiteTemplateNavigationNode, SiteTemplateView } from './SiteTemplate';
+import { SpoSiteTemplateBaseCommand } from './site-template-base';
+
+interface CommandArgs {
+  options: Options;
+}
+
+interface Options extends GlobalOptions {
+  webUrl: string;
+  includeBuiltIn?: boolean;
+}
+
+class SpoSiteTemplateGetCommand extends SpoSiteTemplateBaseCommand {
+  // attributes of the schema XML of fields that differ between sites
+  private static environmentSpecificFieldAttributes: string[] = ['SourceID', 'ColName', 'RowOrdinal', 'Version'];
+
+  public get name(): string {
+    return commands.SITE_TEMPLATE_GET;
+  }
+
+  public get description(): string {
+    return 'Gets a site template with the lists, fields, content types, views, navigation, custom actions, features and property bag values of a site';
+  }
+
+  constructor() {
+    super();
+
+    this.#initTelemetry();
+    this.#initOptions();
+    this.#initValidators();
+  }
+
+  #initTelemetry(): void {
+    this.telemetry.push((args: CommandArgs) => {
+      Object.assign(this.telemetryProperties, {
+        includeBuiltIn: !!args.options.includeBuiltIn
+      });
+    });
+  }
+
+  #initOptions(): void {
+    this.options.unshift(
+      {
+        option: '-u, --webUrl <webUrl>'
+      },
+      {
+        option: '--includeBuiltIn'
+      }
+    );
+  }
+
+  #initValidators(): void {
+    this.validators.push(
+      async (args: CommandArgs) => validation.isValidSharePointUrl(args.options.webUrl)
+    );
+  }
+
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
+    const webUrl: string = args.options.webUrl;
+    const includeBuiltIn: boolean = !!args.options.includeBuiltIn;
+
+    try {
+      if (this.verbose) {
+        logger.logToStderr('Retrieving features...');
+      }
+
+      const template: SiteTemplate = {
+        features: await this.getFeatures(webUrl)
+      };
+
+      if (this.verbose) {
+        logger.logToStderr('Retrieving site columns...');
+      }
+
+      template.fields = await this.getFields(webUrl, undefined, includeBuiltIn);
+
+      if (this.verbose) {
+        logger.logToStderr('Retrieving content types...');
+      }
+
+      template.contentTypes = await this.getContentTypes(webUrl, includeBuiltIn);
+
+      if (this.verbose) {
+        logger.logToStderr('Retrieving lists...');
+      }
+
+      template.lists = await this.getLists(webUrl, includeBuiltIn);
+
+      if (this.verbose) {
+        logger.logToStderr('Retrieving navigation...');
+      }
+
+      template.navigation = {
+        topNavigationBar: await this.getNavigationNodes(webUrl, 'topnavigationbar'),
+        quickLaunch: await this.getNavigationNodes(webUrl, 'quicklaunch')
+      };
+
+      if (this.verbose) {
+        logger.logToStderr('Retrieving custom actions...');
+      }
+
+      template.customActions = await this.getCustomActions(webUrl);
+
+      if (this.verbose) {
+        logger.logToStderr('Retrieving property bag values...');
+      }
+
+      template.propertyBag = await this.getPropertyBag(webUrl, includeBuiltIn);
+
+      logger.log(template);
+    }
+    catch (err: any) {
+      this.handleRejectedODataJsonPromise(err);
+    }
+  }
+
+  private async getFeatures(webUrl: string): Promise<SiteTemplateFeature[]> {
+    const features: SiteTemplateFeature[] = [];
+
+    for (const scope of ['Web', 'Site']) {
+      const scopeFeatures: Feature[] = await this.executeCommand(SpoFeatureListCommand, { url: webUrl, scope });
+      features.push(...scopeFeatures.map(f => ({ id: f.DefinitionId, scope })));
+    }
+
+    return features;
+  }
+
+  /**
+   * Returns fields of the site or list. Built-in fields, which are defined
+   * in the SharePoint schema, are returned only when requested
+   */
+  private async getFields(webUrl: string, listTitle: string | undefined, includeBuiltIn: boolean): Promise<SiteTemplateField[]> {
+    const fields: any[] = await this.executeCommand(SpoFieldListCommand, { webUrl, listTitle });
+
+    return fields
+      .filter(f => includeBuiltIn || !/SourceID="http:\/\/schemas\.microsoft\.com\/sharepoint\//i.test(f.SchemaXml))
+      .map(f => ({
+        schemaXml: SpoSiteTemplateGetCommand.environmentSpecificFieldAttributes
+          .reduce((schemaXml: string, attribute: string) => schemaXml.replace(new RegExp(` ${attribute}="[^"]*"`, 'g'), ''), f.SchemaXml)
+      }));
+  }
+
+  /**
+   * Returns content types of the site with their field links. Content types
+   * provisioned by features, which includes all built-in content types, are
+   * returned only when requested
+   */
+  private async getContentTypes(webUrl: string, includeBuiltIn: boolean): Promise<SiteTemplateContentType[]> {
+    const contentTypes: any[] = await this.executeCommand(SpoContentTypeListCommand, { webUrl });
+    const templateContentTypes: SiteTemplateContentType[] = [];
+
+    for (const contentType of contentTypes.filter(c => includeBuiltIn || !/ FeatureId="/.test(c.SchemaXml))) {
+      const requestOptions: any = {
+        url: `${webUrl}/_api/web/contenttypes('${encodeURIComponent(contentType.StringId)}')/fieldlinks`,
+        headers: {
+          accept: 'application/json;odata=nometadata'
+        },
+        responseType: 'json'
+      };
+      const fieldLinks = await request.get<{ value: FieldLink[] }>(requestOptions);
+
+      templateContentTypes.push({
+        id: contentType.StringId,
+        name: contentType.Name,
+        group: contentType.Group,
+        description: contentType.Description,
+        fieldLinks: fieldLinks.value.map(l => ({
+          id: this.normalizeId(l.Id),
+          required: l.Required,
+          hidden: l.Hidden
+        }))
+      });
+    }
+
+    return templateContentTypes;
+  }
+
+  /**
+   * Returns lists of the site with their fields, content types and views.
+   * Hidden lists and catalogs are returned only when requested
+   */
+  private async getLists(webUrl: string, includeBuiltIn: boolean): Promise<SiteTemplateList[]> {
+    const lists: ListInstance[] = await this.executeCommand(SpoListListCommand, { webUrl });
+    const templateLists: SiteTemplateList[] = [];
+
+    for (const list of lists.filter(l => includeBuiltIn || (!l.Hidden && !l.IsCatalog))) {
+      const templateList: SiteTemplateList = {
+        title: list.Title,
+        baseTemplate: ListTemplateType[list.BaseTemplate] || list.BaseTemplate.toString(),
+        description: list.Description,
+        fields: await this.getFields(webUrl, list.Title, includeBuiltIn)
+      };
+
+      if (list.ContentTypesEnabled) {
+        const listContentTypes: any[] = await this.executeCommand(SpoListContentTypeListCommand, { webUrl, listTitle: list.Title });
+        templateList.contentTypes = listContentTypes
+          .filter(c => !c.Hidden)
+          .map(c => this.getParentContentTypeId(c.StringId));
+      }
+
+      templateList.views = await this.getViews(webUrl, list);
+      templateLists.push(templateList);
+    }
+
+    return templateLists;
+  }
+
+  private async getViews(webUrl: string, list: ListInstance): Promise<SiteTemplateView[]> {
+    const requestOptions: any = {
+      url: `${webUrl}/_api/web/lists(guid'${list.Id}')/views?$expand=ViewFields`,
+      headers: {
+        accept: 'application/json;odata=nometadata'
+      },
+      responseType: 'json'
+    };
+    const views = await request.get<{ value: any[] }>(requestOptions);
+
+    return views.value
+      .filter(v => !v.Hidden && !v.PersonalView)
+      .map(v => ({
+        title: v.Title,
+        fields: v.ViewFields.Items,
+        query: v.ViewQuery,
+        rowLimit: v.RowLimit,
+        default: v.DefaultView
+      }));
+  }
+
+  /**
+   * Returns navigation nodes from the specified collection, like quicklaunch,
+   * with their child nodes
+   */
+  private async getNavigationNodes(webUrl: string, nodesCollection: string): Promise<SiteTemplateNavigationNode[]> {
+    const requestOptions: any = {
+      url: `${webUrl}/_api/web/navigation/${nodesCollection}`,
+      headers: {
+        accept: 'application/json;odata=nometadata'
+      },
+      responseType: 'json'
+    };
+    const nodes = await request.get<{ value: NavigationNode[] }>(requestOptions);
+    const templateNodes: SiteTemplateNavigationNode[] = [];
+
+    for (const n of nodes.value) {
+      const node: SiteTemplateNavigationNode = { title: n.Title, url: n.Url };
+
+      if (n.IsExternal) {
+        node.isExternal = true;
+      }
+
+      const children: SiteTemplateNavigationNode[] = await this.getNavigationNodes(webUrl, `GetNodeById(${n.Id})/Children`);
+      if (children.length > 0) {
+        node.children = children;
+      }
+
+      templateNodes.push(node);
+    }
+
+    return templateNodes;
+  }
+
+  private async getCustomActions(webUrl: string): Promise<SiteTemplateCustomAction[]> {
+    // the command doesn't return any output when there are no custom actions
+    const customActions: CustomAction[] = await this.executeCommand(SpoCustomActionListCommand, { url: webUrl }) || [];
+
+    return customActions.map(a => {
+      const customAction: SiteTemplateCustomAction = {
+        title: a.Title,
+        location: a.Location,
+        scope: a.Scope === 2 ? 'Site' : 'Web'
+      };
+
+      if (a.Name) {
+        customAction.name = a.Name;
+      }
+      if (a.Description) {
+        customAction.description = a.Description;
+      }
+      if (a.Sequence) {
+        customAction.sequence = a.Sequence;
+      }
+      if (a.ClientSideComponentId && a.ClientSideComponentId !== '00000000-0000-0000-0000-000000000000') {
+        customAction.clientSideComponentId = a.ClientSideComponentId;
+      }
+      if (a.ClientSideComponentProperties) {
+        customAction.clientSideComponentProperties = a.ClientSideComponentProperties;
+      }
+      if (a.RegistrationId) {
+        customAction.registrationId = a.RegistrationId.toString();
+        customAction.registrationType = a.RegistrationType;
+      }
+      if (a.ScriptSrc) {
+        customAction.scriptSrc = a.ScriptSrc;
+      }
+      if (a.Url) {
+        customAction.url = a.Url;
+      }
+
+      return customAction;
+    });
+  }
+
+  /**
+   * Returns property bag values of the site. Values set by SharePoint, which
+   * are prefixed with vti_, are returned only when requested
+   */
+  private async getPropertyBag(webUrl: string, includeBuiltIn: boolean): Promise<{ [key: string]: string }> {
+    const properties: { key: string; value: any; }[] = await this.executeCommand(SpoPropertyBagListCommand, { webUrl });
+    const propertyBag: { [key: string]: string } = {};
+
+    properties
+      .filter(p => includeBuiltIn || !p.key.startsWith('vti_'))
+      .forEach(p => {
+        propertyBag[p.key] = String(p.value);
+      });
+
+    return propertyBag;
+  }
+}
+
+module.exports = new SpoSiteTemplateGetCommand();
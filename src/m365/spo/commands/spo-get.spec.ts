@@ -121,7 +121,7 @@ describe(commands.GET, () => {
       }
     });
 
-    assert(options.length === 4, "Wrong amount of options returned");
+    assert(options.length === 7, "Wrong amount of options returned");
     assert(containsOutputOption, "Output option not available");
     assert(containsVerboseOption, "Verbose option not available");
     assert(containsDebugOption, "Debug option not available");
@@ -30,6 +30,10 @@ class TeamsChannelListCommand extends GraphCommand {
     return 'Lists channels in the specified Microsoft Teams team';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'displayName'];
   }
@@ -112,8 +116,7 @@ class TeamsChannelListCommand extends GraphCommand {
         endpoint += `?$filter=membershipType eq '${args.options.type}'`;
       }
 
-      const items = await odata.getAllItems<Channel>(endpoint);
-      logger.log(items);
+      await odata.logAllItems<Channel>(endpoint, logger, args.options);
     }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -456,6 +456,79 @@ describe(commands.CHANNEL_MEMBER_ADD, () => {
     assert(loggerLogSpy.notCalled);
   });
 
+  it('adds multiple conversation members in a batch using teamId, channelId, and userId', async () => {
+    sinonUtil.restore(request.post);
+    const postStub = sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
+        return Promise.resolve({
+          responses: [
+            { id: '0', status: 201, body: {} },
+            { id: '1', status: 201, body: {} }
+          ]
+        });
+      }
+
+      return Promise.reject('Invalid Request');
+    });
+
+    await command.action(logger, {
+      options: {
+        teamId: "47d6625d-a540-4b59-a4ab-19b787e40593",
+        channelId: "19:586a8b9e36c4479bbbd378e439a96df2@thread.skype",
+        userId: "admin@contoso.com,user@contoso.com",
+        owner: true
+      }
+    });
+    assert.deepStrictEqual(postStub.firstCall.args[0].data.requests, [
+      {
+        id: '0',
+        method: 'POST',
+        url: `/teams/${encodeURIComponent('47d6625d-a540-4b59-a4ab-19b787e40593')}/channels/${encodeURIComponent('19:586a8b9e36c4479bbbd378e439a96df2@thread.skype')}/members`,
+        headers: { 'content-type': 'application/json' },
+        body: {
+          '@odata.type': '#microsoft.graph.aadUserConversationMember',
+          'roles': ['owner'],
+          'user@odata.bind': `https://graph.microsoft.com/v1.0/users('admin@contoso.com')`
+        }
+      },
+      {
+        id: '1',
+        method: 'POST',
+        url: `/teams/${encodeURIComponent('47d6625d-a540-4b59-a4ab-19b787e40593')}/channels/${encodeURIComponent('19:586a8b9e36c4479bbbd378e439a96df2@thread.skype')}/members`,
+        headers: { 'content-type': 'application/json' },
+        body: {
+          '@odata.type': '#microsoft.graph.aadUserConversationMember',
+          'roles': ['owner'],
+          'user@odata.bind': `https://graph.microsoft.com/v1.0/users('user@contoso.com')`
+        }
+      }
+    ]);
+  });
+
+  it('correctly handles error when adding one of multiple conversation members in a batch', async () => {
+    sinonUtil.restore(request.post);
+    sinon.stub(request, 'post').callsFake((opts) => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/$batch') {
+        return Promise.resolve({
+          responses: [
+            { id: '0', status: 201, body: {} },
+            { id: '1', status: 404, body: { error: { code: 'NotFound', message: 'User not found' } } }
+          ]
+        });
+      }
+
+      return Promise.reject('Invalid Request');
+    });
+
+    await assert.rejects(command.action(logger, {
+      options: {
+        teamId: "47d6625d-a540-4b59-a4ab-19b787e40593",
+        channelId: "19:586a8b9e36c4479bbbd378e439a96df2@thread.skype",
+        userId: "admin@contoso.com,user@contoso.com"
+      }
+    }), new CommandError('User not found'));
+  });
+
   it('fails adding conversation members with invalid channelName', async () => {
     sinonUtil.restore(request.get);
     sinon.stub(request, 'get').callsFake((opts) => {
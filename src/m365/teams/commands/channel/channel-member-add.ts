@@ -5,6 +5,7 @@ import GlobalOptions from '../../../../GlobalOptions';
 import request from '../../../../request';
 import { validation } from '../../../../utils/validation';
 import { aadGroup } from '../../../../utils/aadGroup';
+import { graphBatch, GraphBatchResponse } from '../../../../utils/graphBatch';
 import GraphCommand from '../../../base/GraphCommand';
 import commands from '../../commands';
 
@@ -119,16 +120,21 @@ class TeamsChannelMemberAddCommand extends GraphCommand {
       const teamId: string = await this.getTeamId(args);
       const channelId: string = await this.getChannelId(teamId, args);
       const userIds: string[] = await this.getUserId(args);
-      const endpoint: string = `${this.resource}/v1.0/teams/${encodeURIComponent(teamId)}/channels/${encodeURIComponent(channelId)}/members`;
+      const endpoint: string = `/teams/${encodeURIComponent(teamId)}/channels/${encodeURIComponent(channelId)}/members`;
       const roles: string[] = args.options.owner ? ["owner"] : [];
-      const tasks: Promise<void>[] = [];
 
-      for (const userId of userIds) {
-        tasks.push(this.addUser(userId, endpoint, roles));
+      if (userIds.length === 1) {
+        await this.addUser(userIds[0], `${this.resource}/v1.0${endpoint}`, roles);
+        return;
       }
 
-      await Promise.all(tasks);
-    } 
+      const responses: GraphBatchResponse[] = await graphBatch.execute(userIds.map(userId => ({
+        method: 'POST',
+        url: endpoint,
+        body: this.getMemberData(userId, roles)
+      })));
+      graphBatch.ensureSuccess(responses);
+    }
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
     }
@@ -142,16 +148,20 @@ class TeamsChannelMemberAddCommand extends GraphCommand {
         'accept': 'application/json;odata.metadata=none'
       },
       responseType: 'json',
-      data: {
-        '@odata.type': '#microsoft.graph.aadUserConversationMember',
-        'roles': roles,
-        'user@odata.bind': `${this.resource}/v1.0/users('${userId}')`
-      }
+      data: this.getMemberData(userId, roles)
     };
 
     return request.post(requestOptions);
   }
 
+  private getMemberData(userId: string, roles: string[]): any {
+    return {
+      '@odata.type': '#microsoft.graph.aadUserConversationMember',
+      'roles': roles,
+      'user@odata.bind': `${this.resource}/v1.0/users('${userId}')`
+    };
+  }
+
   private getTeamId(args: CommandArgs): Promise<string> {
     if (args.options.teamId) {
       return Promise.resolve(args.options.teamId);
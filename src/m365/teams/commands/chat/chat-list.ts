@@ -21,6 +21,10 @@ class TeamsChatListCommand extends GraphCommand {
     return 'Lists all chat conversations';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'topic', 'chatType'];
   }
@@ -69,8 +73,7 @@ class TeamsChatListCommand extends GraphCommand {
     const endpoint: string = `${this.resource}/v1.0/chats${filter}`;
 
     try {
-      const items = await odata.getAllItems(endpoint);
-      logger.log(items);
+      await odata.logAllItems(endpoint, logger, args.options);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -22,6 +22,10 @@ class TeamsChatMemberListCommand extends GraphCommand {
     return 'Lists all members from a chat';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['userId', 'displayName', 'email'];
   }
@@ -57,8 +61,7 @@ class TeamsChatMemberListCommand extends GraphCommand {
     const endpoint: string = `${this.resource}/v1.0/chats/${args.options.chatId}/members`;
 
     try {
-      const items = await odata.getAllItems(endpoint);
-      logger.log(items);
+      await odata.logAllItems(endpoint, logger, args.options);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
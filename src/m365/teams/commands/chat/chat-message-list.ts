@@ -27,6 +27,10 @@ class TeamsChatMessageListCommand extends GraphCommand {
     return 'Lists all messages from a chat';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'shortBody'];
   }
@@ -62,31 +66,30 @@ class TeamsChatMessageListCommand extends GraphCommand {
     const endpoint: string = `${this.resource}/v1.0/chats/${args.options.chatId}/messages`;
 
     try {
-      const items = await odata.getAllItems<ExtendedMessage>(endpoint);
-      if (args.options.output !== 'json') {
-        items.forEach(i => {
-          // hoist the content to body for readability
-          i.body = (i.body as ItemBody).content as any;
-
-          let shortBody: string | undefined;
-          const bodyToProcess = i.body as string;
-
-          if (bodyToProcess) {
-            let maxLength = 50;
-            let addedDots = '...';
-            if (bodyToProcess.length < maxLength) {
-              maxLength = bodyToProcess.length;
-              addedDots = '';
+      await odata.logAllItems<ExtendedMessage>(endpoint, logger, args.options, items => {
+        if (args.options.output !== 'json') {
+          items.forEach(i => {
+            // hoist the content to body for readability
+            i.body = (i.body as ItemBody).content as any;
+
+            let shortBody: string | undefined;
+            const bodyToProcess = i.body as string;
+
+            if (bodyToProcess) {
+              let maxLength = 50;
+              let addedDots = '...';
+              if (bodyToProcess.length < maxLength) {
+                maxLength = bodyToProcess.length;
+                addedDots = '';
+              }
+
+              shortBody = bodyToProcess.replace(/\n/g, ' ').substring(0, maxLength) + addedDots;
             }
 
-            shortBody = bodyToProcess.replace(/\n/g, ' ').substring(0, maxLength) + addedDots;
-          }
-
-          i.shortBody = shortBody;
-        });
-      }
-
-      logger.log(items);
+            i.shortBody = shortBody;
+          });
+        }
+      });
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -25,6 +25,10 @@ class TeamsMessageListCommand extends GraphCommand {
     return 'Lists all messages from a channel in a Microsoft Teams team';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'summary', 'body'];
   }
@@ -88,14 +92,13 @@ class TeamsMessageListCommand extends GraphCommand {
     const endpoint: string = `${this.resource}/v1.0/teams/${args.options.teamId}/channels/${args.options.channelId}/messages${deltaExtension}`;
 
     try {
-      const items = await odata.getAllItems<Message>(endpoint);
-      if (args.options.output !== 'json') {
-        items.forEach(i => {
-          i.body = i.body.content as any;
-        });
-      }
-
-      logger.log(items);
+      await odata.logAllItems<Message>(endpoint, logger, args.options, items => {
+        if (args.options.output !== 'json') {
+          items.forEach(i => {
+            i.body = i.body.content as any;
+          });
+        }
+      });
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
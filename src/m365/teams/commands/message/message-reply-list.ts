@@ -25,6 +25,10 @@ class TeamsMessageReplyListCommand extends GraphCommand {
     return 'Retrieves replies to a message from a channel in a Microsoft Teams team';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'body'];
   }
@@ -70,14 +74,13 @@ class TeamsMessageReplyListCommand extends GraphCommand {
     const endpoint: string = `${this.resource}/v1.0/teams/${args.options.teamId}/channels/${args.options.channelId}/messages/${args.options.messageId}/replies`;
 
     try {
-      const items = await odata.getAllItems<Reply>(endpoint);
-      if (args.options.output !== 'json') {
-        items.forEach(i => {
-          i.body = i.body.content as any;
-        });
-      }
-
-      logger.log(items);
+      await odata.logAllItems<Reply>(endpoint, logger, args.options, items => {
+        if (args.options.output !== 'json') {
+          items.forEach(i => {
+            i.body = i.body.content as any;
+          });
+        }
+      });
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
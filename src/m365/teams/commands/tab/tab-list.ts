@@ -24,6 +24,10 @@ class TeamsTabListCommand extends GraphCommand {
     return 'Lists tabs in the specified Microsoft Teams channel';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'displayName', 'teamsAppTabId'];
   }
@@ -66,12 +70,11 @@ class TeamsTabListCommand extends GraphCommand {
     const endpoint: string = `${this.resource}/v1.0/teams/${args.options.teamId}/channels/${encodeURIComponent(args.options.channelId)}/tabs?$expand=teamsApp`;
 
     try {
-      const items = await odata.getAllItems<Tab>(endpoint);
-      items.forEach(i => {
-        (i as any).teamsAppTabId = i.teamsApp.id;
+      await odata.logAllItems<Tab>(endpoint, logger, args.options, items => {
+        items.forEach(i => {
+          (i as any).teamsAppTabId = i.teamsApp.id;
+        });
       });
-
-      logger.log(items);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -22,6 +22,10 @@ class TenantServiceAnnouncementHealthIssueListCommand extends GraphCommand {
     return 'Gets all service health issues for the tenant';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'title'];
   }
@@ -48,8 +52,7 @@ class TenantServiceAnnouncementHealthIssueListCommand extends GraphCommand {
     }
 
     try {
-      const items: any = await odata.getAllItems<ServiceHealthIssue>(endpoint);
-      logger.log(items);
+      await odata.logAllItems<ServiceHealthIssue>(endpoint, logger, args.options);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
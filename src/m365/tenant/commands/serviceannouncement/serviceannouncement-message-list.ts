@@ -22,6 +22,10 @@ class TenantServiceAnnouncementMessageListCommand extends GraphCommand {
     return 'Gets all service update messages for the tenant';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['id', 'title'];
   }
@@ -57,8 +61,7 @@ class TenantServiceAnnouncementMessageListCommand extends GraphCommand {
     }
 
     try {
-      const items: ServiceUpdateMessage[] = await odata.getAllItems<ServiceUpdateMessage>(endpoint);
-      logger.log(items);
+      await odata.logAllItems<ServiceUpdateMessage>(endpoint, logger, args.options);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
@@ -1,9 +1,14 @@
 import { Logger } from '../../../../cli/Logger';
+import GlobalOptions from '../../../../GlobalOptions';
 import { odata } from '../../../../utils/odata';
 import GraphCommand from '../../../base/GraphCommand';
 import commands from '../../commands';
 import { ToDoList } from '../../ToDoList';
 
+interface CommandArgs {
+  options: GlobalOptions;
+}
+
 class TodoListListCommand extends GraphCommand {
   public get name(): string {
     return commands.LIST_LIST;
@@ -13,14 +18,17 @@ class TodoListListCommand extends GraphCommand {
     return 'Returns a list of Microsoft To Do task lists';
   }
 
+  protected get supportsMaxItems(): boolean {
+    return true;
+  }
+
   public defaultProperties(): string[] | undefined {
     return ['displayName', 'id'];
   }
 
-  public async commandAction(logger: Logger): Promise<void> {
+  public async commandAction(logger: Logger, args: CommandArgs): Promise<void> {
     try {
-      const items: any = await odata.getAllItems<ToDoList>(`${this.resource}/v1.0/me/todo/lists`);
-      logger.log(items);
+      await odata.logAllItems<ToDoList>(`${this.resource}/v1.0/me/todo/lists`, logger, args.options);
     } 
     catch (err: any) {
       this.handleRejectedODataJsonPromise(err);
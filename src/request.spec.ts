@@ -3,9 +3,13 @@ import { AxiosRequestConfig } from 'axios';
 import { ClientRequest } from 'http';
 import * as https from 'https';
 import * as sinon from 'sinon';
+import { PassThrough } from 'stream';
 import auth from './Auth';
+import { Cli } from './cli/Cli';
 import { Logger } from './cli/Logger';
 import _request from './request';
+import { settingsNames } from './settingsNames';
+import { cassette } from './utils/cassette';
 import { sinonUtil } from './utils/sinonUtil';
 
 describe('Request', () => {
@@ -30,8 +34,14 @@ describe('Request', () => {
       https.request,
       (_request as any).req,
       logger.log,
-      auth.ensureAccessToken
+      logger.logToStderr,
+      auth.ensureAccessToken,
+      Cli.getInstance().getSettingWithDefaultValue,
+      Math.random
     ]);
+    _request.verbose = false;
+    _request.timing = false;
+    _request.timings = [];
   });
 
   it('fails when no command instance set', (done) => {
@@ -704,7 +714,7 @@ describe('Request', () => {
   it('logs additional info for throttled requests in debug mode', (done) => {
     let i: number = 0;
     _request.debug = true;
-    const logSpy: sinon.SinonSpy = sinon.spy(logger, 'log');
+    const logSpy: sinon.SinonSpy = sinon.spy(logger, 'logToStderr');
 
     sinon.stub(_request as any, 'req').callsFake(() => {
       if (i++ === 0) {
@@ -732,7 +742,7 @@ describe('Request', () => {
       })
       .then(() => {
         try {
-          assert(logSpy.calledWith('Request throttled. Waiting 10sec before retrying...'));
+          assert(logSpy.calledWith('Request to https://contoso.sharepoint.com/ failed with status 429. Waiting 10000ms before retrying (attempt 2 of 5)...'));
           done();
         }
         catch (err) {
@@ -742,4 +752,577 @@ describe('Request', () => {
         done(err);
       });
   });
+
+  it('repeats request that failed with 502 using exponential backoff', async () => {
+    let i: number = 0;
+    const timeouts: number[] = [];
+    sinon.stub(Cli.getInstance(), 'getSettingWithDefaultValue').callsFake((settingName, defaultValue) => settingName === settingsNames.retryJitter ? false : defaultValue);
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      if (i++ < 3) {
+        return Promise.reject({ response: { status: 502, headers: {} } });
+      }
+
+      return Promise.resolve({ data: 'abc' });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeouts.push(to as number);
+      fn();
+      return {} as any;
+    });
+
+    const actual = await _request.get({ url: 'https://contoso.sharepoint.com/' });
+    assert.strictEqual(actual, 'abc');
+    assert.deepStrictEqual(timeouts, [1000, 2000, 4000]);
+  });
+
+  it('randomizes backoff delay when jitter is enabled', async () => {
+    let i: number = 0;
+    let timeout: number | undefined;
+    sinon.stub(Math, 'random').returns(0.5);
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      if (i++ === 0) {
+        return Promise.reject({ response: { status: 504, headers: {} } });
+      }
+
+      return Promise.resolve({ data: {} });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeout = to;
+      fn();
+      return {} as any;
+    });
+
+    await _request.get({ url: 'https://contoso.sharepoint.com/' });
+    assert.strictEqual(timeout, 750);
+  });
+
+  it('stops repeating failed request after the configured number of attempts', async () => {
+    let i: number = 0;
+    sinon.stub(Cli.getInstance(), 'getSettingWithDefaultValue').callsFake((settingName, defaultValue) => settingName === settingsNames.retryMaxAttempts ? 3 : defaultValue);
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      i++;
+      return Promise.reject({ response: { status: 504, headers: {} } });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+
+    await assert.rejects(_request.get({ url: 'https://contoso.sharepoint.com/' }), { response: { status: 504, headers: {} } });
+    assert.strictEqual(i, 3);
+  });
+
+  it('repeats request that failed with a configured status code', async () => {
+    let i: number = 0;
+    sinon.stub(Cli.getInstance(), 'getSettingWithDefaultValue').callsFake((settingName, defaultValue) => settingName === settingsNames.retryStatusCodes ? '500' : defaultValue);
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      if (i++ === 0) {
+        return Promise.reject({ response: { status: 500, headers: { 'retry-after': '2' } } });
+      }
+
+      return Promise.resolve({ data: {} });
+    });
+    let timeout: number | undefined;
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeout = to;
+      fn();
+      return {} as any;
+    });
+
+    await _request.get({ url: 'https://contoso.sharepoint.com/' });
+    assert.strictEqual(i, 2);
+    assert.strictEqual(timeout, 2000);
+  });
+
+  it(`doesn't repeat request that failed with a status code that isn't configured`, async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      i++;
+      return Promise.reject({ response: { status: 500, headers: {} } });
+    });
+
+    await assert.rejects(_request.get({ url: 'https://contoso.sharepoint.com/' }));
+    assert.strictEqual(i, 1);
+  });
+
+  it('repeats request that failed with a transient network error', async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      if (i++ === 0) {
+        return Promise.reject({ code: 'ECONNRESET' });
+      }
+
+      return Promise.resolve({ data: {} });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+
+    await _request.get({ url: 'https://contoso.sharepoint.com/' });
+    assert.strictEqual(i, 2);
+  });
+
+  it(`doesn't repeat request that failed with a network error that isn't transient`, async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      i++;
+      return Promise.reject({ code: 'ENOTFOUND' });
+    });
+
+    await assert.rejects(_request.get({ url: 'https://contoso.sharepoint.com/' }), { code: 'ENOTFOUND' });
+    assert.strictEqual(i, 1);
+  });
+
+  it('treats throttling and transient network errors as transient errors', () => {
+    assert.strictEqual(_request.isTransientError({ response: { status: 429, headers: {} } }), true, '429');
+    assert.strictEqual(_request.isTransientError({ response: { status: 503, headers: {} } }), true, '503');
+    assert.strictEqual(_request.isTransientError({ code: 'ECONNRESET' }), true, 'ECONNRESET');
+  });
+
+  it(`doesn't treat other errors as transient errors`, () => {
+    assert.strictEqual(_request.isTransientError({ response: { status: 404, headers: {} } }), false, '404');
+    assert.strictEqual(_request.isTransientError({ code: 'ENOTFOUND' }), false, 'ENOTFOUND');
+    assert.strictEqual(_request.isTransientError({ error: 'An error has occurred' }), false, 'error');
+    assert.strictEqual(_request.isTransientError(undefined), false, 'undefined');
+  });
+
+  it('repeats failed request using the default retry policy when no policy provided', async () => {
+    let i: number = 0;
+    const getRetryPolicy = _request.getRetryPolicy;
+    _request.getRetryPolicy = undefined;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      i++;
+      return Promise.reject({ response: { status: 504, headers: {} } });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+
+    try {
+      await assert.rejects(_request.get({ url: 'https://contoso.sharepoint.com/' }), { response: { status: 504, headers: {} } });
+      assert.strictEqual(i, 5);
+    }
+    finally {
+      _request.getRetryPolicy = getRetryPolicy;
+    }
+  });
+
+  it(`doesn't repeat request that changes data and failed with a status code that doesn't guarantee it wasn't processed`, async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      i++;
+      return Promise.reject({ response: { status: 502, headers: {} } });
+    });
+
+    await assert.rejects(_request.post({ url: 'https://contoso.sharepoint.com/_api/web/lists' }), { response: { status: 502, headers: {} } });
+    assert.strictEqual(i, 1);
+  });
+
+  it(`doesn't repeat request that changes data and failed with a network error`, async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      i++;
+      return Promise.reject({ code: 'ECONNRESET' });
+    });
+
+    await assert.rejects(_request.delete({ url: 'https://contoso.sharepoint.com/_api/web/lists' }), { code: 'ECONNRESET' });
+    assert.strictEqual(i, 1);
+  });
+
+  it('repeats throttled request that changes data', async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      if (i++ === 0) {
+        return Promise.reject({ response: { status: 429, headers: { 'retry-after': '1' } } });
+      }
+
+      return Promise.resolve({ data: {} });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+
+    await _request.patch({ url: 'https://contoso.sharepoint.com/_api/web/lists' });
+    assert.strictEqual(i, 2);
+  });
+
+  it('repeats request that replaces data and failed with a transient error', async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      if (i++ === 0) {
+        return Promise.reject({ response: { status: 504, headers: {} } });
+      }
+
+      return Promise.resolve({ data: {} });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+
+    await _request.put({ url: 'https://graph.microsoft.com/v1.0/me/photo/$value', data: 'abc' });
+    assert.strictEqual(i, 2);
+  });
+
+  it(`doesn't repeat failed request with streamed body`, async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      i++;
+      return Promise.reject({ response: { status: 503, headers: {} } });
+    });
+
+    await assert.rejects(_request.put({ url: 'https://contoso.sharepoint.com/', data: new PassThrough() }));
+    assert.strictEqual(i, 1);
+  });
+
+  it('logs repeating request that failed with a network error in verbose mode', async () => {
+    let i: number = 0;
+    _request.verbose = true;
+    const logSpy: sinon.SinonSpy = sinon.spy(logger, 'logToStderr');
+    sinon.stub(Cli.getInstance(), 'getSettingWithDefaultValue').callsFake((settingName, defaultValue) => settingName === settingsNames.retryJitter ? false : defaultValue);
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      if (i++ === 0) {
+        return Promise.reject({ code: 'ETIMEDOUT' });
+      }
+
+      return Promise.resolve({ data: {} });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+
+    await _request.get({ url: 'https://contoso.sharepoint.com/' });
+    assert(logSpy.calledWith('Request to https://contoso.sharepoint.com/ failed with error ETIMEDOUT. Waiting 1000ms before retrying (attempt 2 of 5)...'));
+  });
+
+  it('records duration, status and size of requests in timing mode', async () => {
+    sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ status: 200, headers: { 'content-length': '1024' }, data: 'abc' }));
+    _request.timing = true;
+
+    await _request.get({ url: 'https://contoso.sharepoint.com/_api/web' });
+    assert.strictEqual(_request.timings.length, 1);
+    assert.strictEqual(_request.timings[0].method, 'GET');
+    assert.strictEqual(_request.timings[0].url, 'https://contoso.sharepoint.com/_api/web');
+    assert.strictEqual(_request.timings[0].status, 200);
+    assert.strictEqual(_request.timings[0].size, 1024);
+    assert.strictEqual(_request.timings[0].retried, false);
+    assert.strictEqual(typeof _request.timings[0].duration, 'number');
+  });
+
+  it('records size of string, buffer and JSON responses without content-length in timing mode', async () => {
+    const reqStub = sinon.stub(_request as any, 'req');
+    reqStub.onFirstCall().callsFake(() => Promise.resolve({ status: 200, headers: {}, data: 'abc' }));
+    reqStub.onSecondCall().callsFake(() => Promise.resolve({ status: 200, data: Buffer.from('abcd') }));
+    reqStub.onThirdCall().callsFake(() => Promise.resolve({ status: 200, data: { a: 1 } }));
+    _request.timing = true;
+
+    await _request.get({ url: 'https://contoso.sharepoint.com/_api/web' });
+    await _request.get({ url: 'https://contoso.sharepoint.com/_api/web' });
+    await _request.get({ url: 'https://contoso.sharepoint.com/_api/web' });
+    assert.deepStrictEqual(_request.timings.map(t => t.size), [3, 4, 7]);
+  });
+
+  it(`doesn't record size of empty and streamed responses in timing mode`, async () => {
+    const reqStub = sinon.stub(_request as any, 'req');
+    reqStub.onFirstCall().callsFake(() => Promise.resolve({ status: 204, data: '' }));
+    reqStub.onSecondCall().callsFake(() => Promise.resolve({ status: 200, data: new PassThrough() }));
+    reqStub.onThirdCall().callsFake(() => Promise.resolve({ status: 204 }));
+    _request.timing = true;
+
+    await _request.get({ url: 'https://contoso.sharepoint.com/_api/web' });
+    await _request.get({ url: 'https://contoso.sharepoint.com/_api/web', responseType: 'stream' });
+    await _request.get({ url: 'https://contoso.sharepoint.com/_api/web' });
+    assert.deepStrictEqual(_request.timings.map(t => t.size), [0, undefined, undefined]);
+  });
+
+  it('records failed and retried requests in timing mode', async () => {
+    let i: number = 0;
+    sinon.stub(_request as any, 'req').callsFake(() => {
+      if (i++ === 0) {
+        return Promise.reject({ response: { status: 429, headers: {} } });
+      }
+
+      return Promise.reject({ code: 'ENOTFOUND' });
+    });
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+    _request.timing = true;
+
+    await assert.rejects(_request.post({ url: 'https://graph.microsoft.com/v1.0/$batch' }));
+    assert.deepStrictEqual(_request.timings.map(t => ({ method: t.method, status: t.status, size: t.size, retried: t.retried })), [
+      { method: 'POST', status: 429, size: undefined, retried: true },
+      { method: 'POST', status: undefined, size: undefined, retried: false }
+    ]);
+  });
+
+  it(`doesn't record requests that haven't been sent in timing mode`, async () => {
+    sinonUtil.restore(auth.ensureAccessToken);
+    sinon.stub(auth, 'ensureAccessToken').callsFake(() => Promise.reject('Error'));
+    _request.timing = true;
+
+    await assert.rejects(_request.get({ url: 'https://contoso.sharepoint.com/_api/web' }));
+    assert.deepStrictEqual(_request.timings, []);
+  });
+
+  it('records requests with no method specified as GET requests in timing mode', async () => {
+    sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ status: 200, data: 'abc' }));
+    _request.timing = true;
+
+    await _request.execute({ url: 'https://contoso.sharepoint.com/_api/web' });
+    assert.strictEqual(_request.timings[0].method, 'GET');
+  });
+
+  it(`doesn't record requests when timing mode is disabled`, async () => {
+    sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ status: 200, data: 'abc' }));
+
+    await _request.get({ url: 'https://contoso.sharepoint.com/_api/web' });
+    assert.deepStrictEqual(_request.timings, []);
+  });
+
+  it('executes GET requests in whatIf mode', async () => {
+    const reqStub = sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ data: 'abc' }));
+    _request.whatIf = true;
+    _request.whatIfRequests = [];
+
+    try {
+      const actual = await _request.get({ url: 'https://contoso.sharepoint.com/_api/web' });
+      assert.strictEqual(actual, 'abc');
+      assert(reqStub.called);
+      assert.deepStrictEqual(_request.whatIfRequests, []);
+    }
+    finally {
+      _request.whatIf = false;
+    }
+  });
+
+  it('executes requests with no method specified in whatIf mode', async () => {
+    const reqStub = sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ data: 'abc' }));
+    _request.whatIf = true;
+    _request.whatIfRequests = [];
+
+    try {
+      await _request.execute({ url: 'https://contoso.sharepoint.com/_api/web' });
+      assert(reqStub.called);
+    }
+    finally {
+      _request.whatIf = false;
+    }
+  });
+
+  it('executes form digest requests in whatIf mode', async () => {
+    const reqStub = sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ data: {} }));
+    _request.whatIf = true;
+    _request.whatIfRequests = [];
+
+    try {
+      await _request.post({ url: 'https://contoso.sharepoint.com/_api/contextinfo' });
+      assert(reqStub.called);
+    }
+    finally {
+      _request.whatIf = false;
+    }
+  });
+
+  it('executes Microsoft Graph batches of GET requests in whatIf mode', async () => {
+    const reqStub = sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ data: {} }));
+    _request.whatIf = true;
+    _request.whatIfRequests = [];
+
+    try {
+      await _request.post({
+        url: 'https://graph.microsoft.com/v1.0/$batch',
+        data: { requests: [{ id: '0', method: 'GET', url: '/users/1' }, { id: '1', method: 'GET', url: '/users/2' }] }
+      });
+      assert(reqStub.called);
+    }
+    finally {
+      _request.whatIf = false;
+    }
+  });
+
+  it('skips Microsoft Graph batches with requests that could change data in whatIf mode', async () => {
+    const reqStub = sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ data: {} }));
+    sinon.stub(logger, 'logToStderr').callsFake(() => { });
+    _request.whatIf = true;
+    _request.whatIfRequests = [];
+
+    try {
+      await assert.rejects(_request.post({
+        url: 'https://graph.microsoft.com/v1.0/$batch',
+        data: { requests: [{ id: '0', method: 'GET', url: '/users/1' }, { id: '1', method: 'DELETE', url: '/users/2' }] }
+      }));
+      assert(reqStub.notCalled);
+    }
+    finally {
+      _request.whatIf = false;
+    }
+  });
+
+  it('skips Microsoft Graph batches without requests in whatIf mode', async () => {
+    const reqStub = sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ data: {} }));
+    sinon.stub(logger, 'logToStderr').callsFake(() => { });
+    _request.whatIf = true;
+    _request.whatIfRequests = [];
+
+    try {
+      await assert.rejects(_request.post({ url: 'https://graph.microsoft.com/v1.0/$batch' }));
+      assert(reqStub.notCalled);
+    }
+    finally {
+      _request.whatIf = false;
+    }
+  });
+
+  it('skips requests that could change data in whatIf mode', async () => {
+    const reqStub = sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ data: {} }));
+    const logToStderrSpy = sinon.spy(logger, 'logToStderr');
+    _request.whatIf = true;
+    _request.whatIfRequests = [];
+
+    try {
+      await assert.rejects(_request.post({
+        url: 'https://contoso.sharepoint.com/_api/web/lists',
+        data: { Title: 'List' }
+      }), new Error('POST request to https://contoso.sharepoint.com/_api/web/lists skipped in whatIf mode'));
+      await assert.rejects(_request.delete({
+        url: 'https://graph.microsoft.com/v1.0/groups/1',
+        headers: {
+          'x-resource': 'https://graph.microsoft.com'
+        }
+      }));
+      await assert.rejects(_request.put({
+        url: 'https://contoso.sharepoint.com/file',
+        headers: {
+          'x-anonymous': true
+        },
+        data: Buffer.from('abc')
+      }));
+      assert(reqStub.notCalled);
+      assert(logToStderrSpy.calledWith('What if: skipped executing POST request to https://contoso.sharepoint.com/_api/web/lists'));
+      assert.deepStrictEqual(_request.whatIfRequests, [
+        {
+          method: 'POST',
+          url: 'https://contoso.sharepoint.com/_api/web/lists',
+          resource: 'https://contoso.sharepoint.com',
+          body: { Title: 'List' }
+        },
+        {
+          method: 'DELETE',
+          url: 'https://graph.microsoft.com/v1.0/groups/1',
+          resource: 'https://graph.microsoft.com'
+        },
+        {
+          method: 'PUT',
+          url: 'https://contoso.sharepoint.com/file',
+          body: '<binary data>'
+        }
+      ]);
+    }
+    finally {
+      _request.whatIf = false;
+      logToStderrSpy.restore();
+    }
+  });
+
+  it('records successful responses when recording', async () => {
+    sinon.stub(cassette, 'getRecordFilePath').callsFake(() => 'cassette.json');
+    const recordStub = sinon.stub(cassette, 'record').callsFake(() => { });
+    sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ status: 200, headers: { 'content-type': 'application/json' }, data: { Id: '1' } }));
+
+    try {
+      const actual = await _request.post({ url: 'https://contoso.sharepoint.com/_api/web/files', data: Buffer.from('abc') });
+      assert.deepStrictEqual(actual, { Id: '1' });
+      assert(recordStub.calledWith('cassette.json', {
+        request: {
+          method: 'POST',
+          url: 'https://contoso.sharepoint.com/_api/web/files',
+          body: '<binary data>'
+        },
+        response: {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+          body: { Id: '1' }
+        }
+      }));
+    }
+    finally {
+      sinonUtil.restore([cassette.getRecordFilePath, cassette.record]);
+    }
+  });
+
+  it('records error responses when recording', async () => {
+    sinon.stub(cassette, 'getRecordFilePath').callsFake(() => 'cassette.json');
+    const recordStub = sinon.stub(cassette, 'record').callsFake(() => { });
+    sinon.stub(_request as any, 'req').callsFake(() => Promise.reject({ response: { status: 404, headers: {}, data: 'Not found' } }));
+
+    try {
+      await assert.rejects(_request.execute({ url: 'https://contoso.sharepoint.com/_api/web' }));
+      assert(recordStub.calledWith('cassette.json', {
+        request: {
+          method: 'GET',
+          url: 'https://contoso.sharepoint.com/_api/web',
+          body: undefined
+        },
+        response: {
+          status: 404,
+          headers: {},
+          body: 'Not found'
+        }
+      }));
+    }
+    finally {
+      sinonUtil.restore([cassette.getRecordFilePath, cassette.record]);
+    }
+  });
+
+  it('replays recorded responses without retrieving access tokens when replaying', async () => {
+    sinon.stub(cassette, 'getReplayFilePath').callsFake(() => 'cassette.json');
+    const replayStub = sinon.stub(cassette, 'replay').callsFake(() => ({ status: 200, body: 'abc' }));
+    const reqStub = sinon.stub(_request as any, 'req').callsFake(() => Promise.resolve({ data: 'def' }));
+
+    try {
+      const actual = await _request.execute({ url: 'https://contoso.sharepoint.com/_api/web' });
+      assert.strictEqual(actual, 'abc');
+      assert(replayStub.calledWith('cassette.json', { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web', body: undefined }));
+      assert((auth.ensureAccessToken as sinon.SinonStub).notCalled);
+      assert(reqStub.notCalled);
+    }
+    finally {
+      sinonUtil.restore([cassette.getReplayFilePath, cassette.replay]);
+    }
+  });
+
+  it('replays recorded error responses when replaying', async () => {
+    sinon.stub(cassette, 'getReplayFilePath').callsFake(() => 'cassette.json');
+    sinon.stub(cassette, 'replay').callsFake(() => ({ status: 404, headers: {}, body: { error: { message: 'Not found' } } }));
+
+    try {
+      await assert.rejects(_request.post({ url: 'https://graph.microsoft.com/v1.0/groups', data: { displayName: 'Group' } }), (err: any) => {
+        assert.strictEqual(err.response.status, 404);
+        assert.deepStrictEqual(err.error, { error: { message: 'Not found' } });
+        return true;
+      });
+    }
+    finally {
+      sinonUtil.restore([cassette.getReplayFilePath, cassette.replay]);
+    }
+  });
+
+  it('fails when no recorded response found when replaying', async () => {
+    sinon.stub(cassette, 'getReplayFilePath').callsFake(() => 'cassette.json');
+    sinon.stub(cassette, 'replay').callsFake(() => { throw new Error('No recorded response found for GET https://contoso.sharepoint.com/_api/web'); });
+
+    try {
+      await assert.rejects(_request.get({ url: 'https://contoso.sharepoint.com/_api/web' }), new Error('No recorded response found for GET https://contoso.sharepoint.com/_api/web'));
+    }
+    finally {
+      sinonUtil.restore([cassette.getReplayFilePath, cassette.replay]);
+    }
+  });
 });
@@ -2,13 +2,90 @@ import Axios, { AxiosError, AxiosInstance, AxiosPromise, AxiosRequestConfig, Axi
 import { Stream } from 'stream';
 import auth, { Auth } from './Auth';
 import { Logger } from './cli/Logger';
+import { cassette, CassetteResponse } from './utils/cassette';
 import { formatting } from './utils/formatting';
 const packageJSON = require('../package.json');
 
+export interface WhatIfRequest {
+  method: string;
+  url: string;
+  resource?: string;
+  body?: any;
+}
+
+export interface RequestTiming {
+  method: string;
+  url: string;
+  status?: number;
+  /**
+   * Duration of the request in milliseconds
+   */
+  duration: number;
+  /**
+   * Size of the response body in bytes, if known
+   */
+  size?: number;
+  /**
+   * Set when the request failed and has been retried
+   */
+  retried: boolean;
+}
+
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts to execute a request, including the first one
+   */
+  maxAttempts: number;
+  /**
+   * Delay in milliseconds before the first retry. Doubles with each retry
+   */
+  baseDelay: number;
+  /**
+   * Randomizes delays to avoid retrying multiple requests at the same time
+   */
+  jitter: boolean;
+  statusCodes: number[];
+}
+
+// errors without a response from the server that are worth retrying
+const transientErrorCodes: string[] = ['ECONNABORTED', 'ECONNRESET', 'EAI_AGAIN', 'EPIPE', 'ESOCKETTIMEDOUT', 'ETIMEDOUT'];
+// status codes with which the server indicates that it didn't process the
+// request, so that it's safe to retry requests that change data
+const notProcessedStatusCodes: number[] = [429, 503];
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelay: 1000,
+  jitter: true,
+  statusCodes: [429, 502, 503, 504]
+};
+
 class Request {
   private req: AxiosInstance;
   private _logger?: Logger;
   private _debug: boolean = false;
+  /**
+   * When enabled, requests that could change data aren't executed but
+   * recorded in whatIfRequests instead
+   */
+  public whatIf: boolean = false;
+  public whatIfRequests: WhatIfRequest[] = [];
+  /**
+   * Returns the policy for retrying failed requests. Set by the CLI to read
+   * the policy from the CLI settings. If not set, uses the default policy
+   */
+  public getRetryPolicy?: () => RetryPolicy;
+
+  public get retryPolicy(): RetryPolicy {
+    return this.getRetryPolicy ? this.getRetryPolicy() : defaultRetryPolicy;
+  }
+  public verbose: boolean = false;
+  /**
+   * When enabled, the duration, status and size of each executed request is
+   * recorded in timings
+   */
+  public timing: boolean = false;
+  public timings: RequestTiming[] = [];
 
   public set debug(debug: boolean) {
     // if the value to set is the same as current value return early to avoid
@@ -28,7 +105,10 @@ class Request {
           if (config.responseType !== 'stream') {
             properties.push('data');
           }
-          this._logger.logToStderr(JSON.stringify(formatting.filterObject(config, properties), null, 2));
+          const requestInfo: any = formatting.filterObject(config, properties);
+          // don't log contents of uploaded files
+          requestInfo.data = Request.getSerializableData(requestInfo.data);
+          this._logger.logToStderr(JSON.stringify(requestInfo, null, 2));
         }
         return config;
       });
@@ -145,14 +225,24 @@ class Request {
     return this.execute(options);
   }
 
-  public execute<TResponse>(options: AxiosRequestConfig, resolve?: (res: TResponse) => void, reject?: (error: any) => void): Promise<TResponse> {
+  public execute<TResponse>(options: AxiosRequestConfig, resolve?: (res: TResponse) => void, reject?: (error: any) => void, attempt: number = 1): Promise<TResponse> {
     if (!this._logger) {
       return Promise.reject('Logger not set on the request object');
     }
 
+    if (this.whatIf && !Request.isReadOnlyRequest(options)) {
+      return this.skipRequest(options);
+    }
+
+    const recordFilePath: string | undefined = cassette.getRecordFilePath();
+    const replayFilePath: string | undefined = cassette.getReplayFilePath();
+
     return new Promise<TResponse>((_resolve: (res: TResponse) => void, _reject: (error: any) => void): void => {
+      let start: number | undefined;
+
       ((): Promise<string> => {
-        if (options.headers && options.headers['x-anonymous']) {
+        // when replaying recorded responses, we don't need access tokens
+        if ((options.headers && options.headers['x-anonymous']) || replayFilePath) {
           return Promise.resolve('');
         }
         else {
@@ -173,9 +263,16 @@ class Request {
               options.headers.authorization = `Bearer ${accessToken}`;
             }
           }
-          return this.req(options);
+          start = Date.now();
+          return replayFilePath ? this.replayResponse(replayFilePath, options) : this.req(options);
         })
         .then((res: any): void => {
+          if (recordFilePath) {
+            Request.recordResponse(recordFilePath, options, res);
+          }
+
+          this.recordTiming(options, start, res, false);
+
           if (resolve) {
             resolve(options.responseType === 'stream' ? res : res.data);
           }
@@ -183,19 +280,21 @@ class Request {
             _resolve(options.responseType === 'stream' ? res : res.data);
           }
         }, (error: AxiosError): void => {
-          if (error && error.response &&
-            (error.response.status === 429 ||
-              error.response.status === 503)) {
-            let retryAfter: number = parseInt(error.response.headers['retry-after'] || '10');
-            if (isNaN(retryAfter)) {
-              retryAfter = 10;
-            }
-            if (this._debug) {
-              (this._logger as Logger).log(`Request throttled. Waiting ${retryAfter}sec before retrying...`);
+          if (recordFilePath && error && error.response) {
+            Request.recordResponse(recordFilePath, options, error.response);
+          }
+
+          const retryPolicy: RetryPolicy = this.retryPolicy;
+          const retryDelay: number | undefined = Request.getRetryDelay(options, error, attempt, retryPolicy);
+          this.recordTiming(options, start, error && error.response, typeof retryDelay !== 'undefined');
+          if (typeof retryDelay !== 'undefined') {
+            if (this.verbose || this._debug) {
+              const reason: string = error.response ? `status ${error.response.status}` : `error ${error.code}`;
+              (this._logger as Logger).logToStderr(`Request to ${options.url} failed with ${reason}. Waiting ${retryDelay}ms before retrying (attempt ${attempt + 1} of ${retryPolicy.maxAttempts})...`);
             }
             setTimeout(() => {
-              this.execute(options, resolve || _resolve, reject || _reject);
-            }, retryAfter * 1000);
+              this.execute(options, resolve || _resolve, reject || _reject, attempt + 1);
+            }, retryDelay);
           }
           else {
             if (reject) {
@@ -208,6 +307,188 @@ class Request {
         });
     });
   }
+
+  private recordTiming(options: AxiosRequestConfig, start: number | undefined, response: AxiosResponse | undefined, retried: boolean): void {
+    // if the request hasn't been sent, eg. because retrieving an access token
+    // failed, there is nothing to record
+    if (!this.timing || typeof start === 'undefined') {
+      return;
+    }
+
+    this.timings.push({
+      method: (options.method || 'GET').toUpperCase(),
+      url: options.url as string,
+      status: response ? response.status : undefined,
+      duration: Date.now() - start,
+      size: response ? Request.getResponseSize(response) : undefined,
+      retried: retried
+    });
+  }
+
+  private static getResponseSize(response: AxiosResponse): number | undefined {
+    const contentLength: number = parseInt(response.headers && response.headers['content-length']);
+    if (!isNaN(contentLength)) {
+      return contentLength;
+    }
+
+    const data: any = response.data;
+    if (typeof data === 'undefined' || data === null || data instanceof Stream) {
+      return undefined;
+    }
+
+    if (typeof data === 'string' || Buffer.isBuffer(data)) {
+      return Buffer.byteLength(data);
+    }
+
+    return Buffer.byteLength(JSON.stringify(data));
+  }
+
+  /**
+   * Checks if the request failed with an error after which it can be sent
+   * again, like throttling or a dropped connection
+   * @param error Error with which the request failed
+   */
+  public isTransientError(error: any): boolean {
+    if (!error) {
+      return false;
+    }
+
+    if (error.response) {
+      return this.retryPolicy.statusCodes.indexOf(error.response.status) > -1;
+    }
+
+    return transientErrorCodes.indexOf(error.code) > -1;
+  }
+
+  /**
+   * Returns the number of milliseconds to wait before retrying the failed
+   * request or undefined if the request shouldn't be retried
+   */
+  private static getRetryDelay(options: AxiosRequestConfig, error: AxiosError, attempt: number, retryPolicy: RetryPolicy): number | undefined {
+    // streamed request body can't be sent again
+    if (!error || attempt >= retryPolicy.maxAttempts || options.data instanceof Stream) {
+      return undefined;
+    }
+
+    // requests that change data might have been processed before failing,
+    // so retry them only when the server indicated it didn't process them
+    const isIdempotent: boolean = Request.isReadOnlyRequest(options) || (options.method as string).toUpperCase() === 'PUT';
+    if (!isIdempotent &&
+      (!error.response || notProcessedStatusCodes.indexOf(error.response.status) < 0)) {
+      return undefined;
+    }
+
+    if (error.response) {
+      const status: number = error.response.status;
+      if (retryPolicy.statusCodes.indexOf(status) < 0) {
+        return undefined;
+      }
+
+      const retryAfter: number = parseInt(error.response.headers['retry-after'] || '');
+      if (!isNaN(retryAfter)) {
+        return retryAfter * 1000;
+      }
+
+      // when throttled without retry-after, wait 10 seconds as before
+      if (status === 429 || status === 503) {
+        return 10000;
+      }
+    }
+    else if (transientErrorCodes.indexOf(error.code as string) < 0) {
+      return undefined;
+    }
+
+    const delay: number = retryPolicy.baseDelay * Math.pow(2, attempt - 1);
+    return retryPolicy.jitter ? Math.round(delay / 2 + Math.random() * delay / 2) : delay;
+  }
+
+  private skipRequest<TResponse>(options: AxiosRequestConfig): Promise<TResponse> {
+    const method: string = (options.method as string).toUpperCase();
+    const url: string = options.url as string;
+    const whatIfRequest: WhatIfRequest = { method, url };
+    if (!options.headers || !options.headers['x-anonymous']) {
+      whatIfRequest.resource = Auth.getResourceFromUrl(options.headers && options.headers['x-resource'] ? options.headers['x-resource'] as string : url);
+    }
+    if (typeof options.data !== 'undefined') {
+      whatIfRequest.body = Request.getSerializableData(options.data);
+    }
+
+    this.whatIfRequests.push(whatIfRequest);
+    (this._logger as Logger).logToStderr(`What if: skipped executing ${method} request to ${url}`);
+
+    return Promise.reject(new Error(`${method} request to ${url} skipped in whatIf mode`));
+  }
+
+  private replayResponse<TResponse>(filePath: string, options: AxiosRequestConfig): Promise<AxiosResponse<TResponse>> {
+    const response: CassetteResponse = cassette.replay(filePath, {
+      method: (options.method || 'GET').toUpperCase(),
+      url: options.url as string,
+      body: Request.getSerializableData(options.data)
+    });
+    const axiosResponse: any = {
+      status: response.status,
+      headers: response.headers || {},
+      data: response.body,
+      config: options
+    };
+
+    if (response.status >= 400) {
+      // shape the error the same way as errors returned by the API
+      const error: any = new Error(`Request failed with status code ${response.status}`);
+      error.response = axiosResponse;
+      error.error = response.body;
+      return Promise.reject(error);
+    }
+
+    return Promise.resolve(axiosResponse);
+  }
+
+  private static recordResponse(filePath: string, options: AxiosRequestConfig, response: AxiosResponse): void {
+    cassette.record(filePath, {
+      request: {
+        method: (options.method || 'GET').toUpperCase(),
+        url: options.url as string,
+        body: Request.getSerializableData(options.data)
+      },
+      response: {
+        status: response.status,
+        headers: response.headers,
+        body: Request.getSerializableData(response.data)
+      }
+    });
+  }
+
+  /**
+   * Replaces binary data, like file contents, with a placeholder so that the
+   * data can be safely logged or stored
+   */
+  private static getSerializableData(data: any): any {
+    return Buffer.isBuffer(data) || data instanceof Stream ? '<binary data>' : data;
+  }
+
+  /**
+   * Checks if the request can be safely executed in whatIf mode. Next to GET
+   * requests, this includes POST requests that don't change data, like
+   * retrieving a form digest or Microsoft Graph batches of GET requests
+   */
+  private static isReadOnlyRequest(options: AxiosRequestConfig): boolean {
+    const method: string = (options.method || 'GET').toUpperCase();
+    if (method === 'GET' || method === 'HEAD' || method === 'OPTIONS') {
+      return true;
+    }
+
+    if (method !== 'POST') {
+      return false;
+    }
+
+    if (/\/\$batch$/i.test(options.url as string)) {
+      return !!options.data &&
+        Array.isArray(options.data.requests) &&
+        options.data.requests.every((r: any) => Request.isReadOnlyRequest(r));
+    }
+
+    return /\/_api\/contextinfo$/i.test(options.url as string);
+  }
 }
 
 export default new Request();
@@ -11,6 +11,10 @@ const settingsNames = {
   output: 'output',
   printErrorsAsPlainText: 'printErrorsAsPlainText',
   prompt: 'prompt',
+  retryBaseDelay: 'retryBaseDelay',
+  retryJitter: 'retryJitter',
+  retryMaxAttempts: 'retryMaxAttempts',
+  retryStatusCodes: 'retryStatusCodes',
   showHelpOnFailure: 'showHelpOnFailure'
 };
 
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import request, { defaultRetryPolicy } from '../request';
+import { batchRetry, BatchItemResponse } from './batchRetry';
+import { sinonUtil } from './sinonUtil';
+
+describe('utils/batchRetry', () => {
+  let getRetryPolicy: any;
+
+  before(() => {
+    getRetryPolicy = request.getRetryPolicy;
+  });
+
+  afterEach(() => {
+    sinonUtil.restore(global.setTimeout);
+    request.getRetryPolicy = getRetryPolicy;
+  });
+
+  it('executes requests in batches of the specified size', async () => {
+    const batches: number[][] = [];
+
+    const actual = await batchRetry.execute(5, 2, async (indexes: number[]): Promise<BatchItemResponse[]> => {
+      batches.push(indexes);
+      return indexes.map(index => ({ status: 200 + index }));
+    });
+    assert.deepStrictEqual(batches, [[0, 1], [2, 3], [4]]);
+    assert.deepStrictEqual(actual.map(r => r.status), [200, 201, 202, 203, 204]);
+  });
+
+  it('retries only throttled requests, waiting the longest indicated period', async () => {
+    const timeouts: number[] = [];
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeouts.push(to as number);
+      fn();
+      return {} as any;
+    });
+    const batches: number[][] = [];
+
+    const actual = await batchRetry.execute(3, 20, async (indexes: number[]): Promise<BatchItemResponse[]> => {
+      batches.push(indexes);
+      if (batches.length === 1) {
+        return [{ status: 429, headers: { 'retry-after': '2' } }, { status: 200 }, { status: 503, headers: { 'Retry-After': '4' } }];
+      }
+
+      return indexes.map(() => ({ status: 201 }));
+    });
+    assert.deepStrictEqual(batches, [[0, 1, 2], [0, 2]]);
+    assert.deepStrictEqual(timeouts, [4000]);
+    assert.deepStrictEqual(actual.map(r => r.status), [201, 200, 201]);
+  });
+
+  it('returns the last throttled response after the maximum number of attempts', async () => {
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+    request.getRetryPolicy = () => ({ ...defaultRetryPolicy, maxAttempts: 3 });
+    let attempts: number = 0;
+
+    const actual = await batchRetry.execute(1, 20, async (): Promise<BatchItemResponse[]> => {
+      attempts++;
+      return [{ status: 429, headers: { 'retry-after': attempts.toString() } }];
+    });
+    assert.strictEqual(attempts, 3);
+    assert.deepStrictEqual(actual, [{ status: 429, headers: { 'retry-after': '3' } }]);
+  });
+});
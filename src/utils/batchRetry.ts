@@ -0,0 +1,67 @@
+import request from "../request";
+
+export interface BatchItemResponse {
+  status: number;
+  headers?: { [name: string]: string };
+}
+
+function isThrottled(response: BatchItemResponse): boolean {
+  return response.status === 429 || response.status === 503;
+}
+
+function getRetryAfter(response: BatchItemResponse): number {
+  const header: string | undefined = response.headers ? Object.keys(response.headers).find(h => h.toLowerCase() === 'retry-after') : undefined;
+  const value: number = header ? parseInt(response.headers![header]) : NaN;
+
+  return isNaN(value) ? 10 : value;
+}
+
+function wait(seconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, seconds * 1000));
+}
+
+export const batchRetry = {
+  /**
+   * Executes requests in batches and retries throttled requests after the
+   * period indicated by the service. Throttled requests are retried up to the
+   * maximum number of attempts of the retry policy. After that, the last
+   * throttled response is returned
+   * @param requestsCount Number of requests to execute
+   * @param maxBatchSize Maximum number of requests in a single batch
+   * @param executeBatch Executes the requests with the specified indexes in a single batch and returns their responses in the same order
+   * @returns Responses in the same order as the requests
+   */
+  async execute<TResponse extends BatchItemResponse>(requestsCount: number, maxBatchSize: number, executeBatch: (indexes: number[]) => Promise<TResponse[]>): Promise<TResponse[]> {
+    const responses: TResponse[] = [];
+    const maxAttempts: number = request.retryPolicy.maxAttempts;
+    let pending: number[] = Array.from({ length: requestsCount }, (_, i) => i);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      const throttled: number[] = [];
+      let retryAfter: number = 0;
+
+      for (let i = 0; i < pending.length; i += maxBatchSize) {
+        const batchIndexes: number[] = pending.slice(i, i + maxBatchSize);
+        const batchResponses: TResponse[] = await executeBatch(batchIndexes);
+
+        batchIndexes.forEach((index, j) => {
+          const response: TResponse = batchResponses[j];
+          responses[index] = response;
+
+          if (isThrottled(response) && attempt < maxAttempts) {
+            throttled.push(index);
+            retryAfter = Math.max(retryAfter, getRetryAfter(response));
+          }
+        });
+      }
+
+      if (throttled.length > 0) {
+        await wait(retryAfter);
+      }
+
+      pending = throttled;
+    }
+
+    return responses;
+  }
+};
@@ -15,6 +15,7 @@ describe('utils/cache', () => {
       fs.readdir,
       fs.stat,
       fs.unlink,
+      fs.unlinkSync,
       cache.clearExpired
     ]);
   });
@@ -93,6 +94,20 @@ describe('utils/cache', () => {
     });
   });
 
+  describe('removeValue', () => {
+    it('removes the cache file of the specified value', () => {
+      const unlinkSyncStub = sinon.stub(fs, 'unlinkSync').callsFake(() => { });
+      cache.removeValue('key');
+
+      assert(unlinkSyncStub.calledWith(path.join(cache.cacheFolderPath, 'key')));
+    });
+
+    it(`doesn't fail when the cache file doesn't exist`, () => {
+      sinon.stub(fs, 'unlinkSync').throws(new Error('ENOENT'));
+      assert.doesNotThrow(() => cache.removeValue('key'));
+    });
+  });
+
   describe('clearExpired', () => {
     it(`doesn't fail when reading the cache folder fails`, (done) => {
       sinon.stub(fs, 'readdir').callsArgWith(1, 'error');
@@ -37,6 +37,13 @@ export const cache = {
     catch { }
   },
 
+  removeValue(key: string): void {
+    try {
+      fs.unlinkSync(path.join(cacheFolderPath, key));
+    }
+    catch { }
+  },
+
   clearExpired(cb?: () => void): void {
     // we don't need to wait for this to complete
     // even if it stops meanwhile, it will be picked up next time
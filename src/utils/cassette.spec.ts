@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as sinon from 'sinon';
+import { cassette, CassetteEntry } from './cassette';
+import { sinonUtil } from './sinonUtil';
+
+describe('utils/cassette', () => {
+  const entries: CassetteEntry[] = [
+    {
+      request: { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web' },
+      response: { status: 200, body: { Title: 'Contoso' } }
+    },
+    {
+      request: { method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', body: { Title: 'List 1' } },
+      response: { status: 201, body: { Id: '1' } }
+    },
+    {
+      request: { method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', body: { Title: 'List 2' } },
+      response: { status: 201, body: { Id: '2' } }
+    },
+    {
+      request: { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web' },
+      response: { status: 200, body: { Title: 'Contoso 2' } }
+    }
+  ];
+
+  afterEach(() => {
+    sinonUtil.restore([
+      fs.existsSync,
+      fs.readFileSync,
+      fs.writeFileSync
+    ]);
+    cassette.entries = undefined;
+    cassette.replayedEntries = [];
+    delete process.env.CLIMICROSOFT365_RECORD;
+    delete process.env.CLIMICROSOFT365_REPLAY;
+  });
+
+  it('returns the record file path from the environment variable', () => {
+    process.env.CLIMICROSOFT365_RECORD = 'cassette.json';
+    assert.strictEqual(cassette.getRecordFilePath(), 'cassette.json');
+  });
+
+  it('returns undefined record file path when the environment variable is empty', () => {
+    process.env.CLIMICROSOFT365_RECORD = '';
+    assert.strictEqual(cassette.getRecordFilePath(), undefined);
+  });
+
+  it('returns the replay file path from the environment variable', () => {
+    process.env.CLIMICROSOFT365_REPLAY = 'cassette.json';
+    assert.strictEqual(cassette.getReplayFilePath(), 'cassette.json');
+  });
+
+  it('returns undefined replay file path when the environment variable is not set', () => {
+    assert.strictEqual(cassette.getReplayFilePath(), undefined);
+  });
+
+  it('records entry to a new cassette file', () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => false);
+    const writeFileSyncStub = sinon.stub(fs, 'writeFileSync').callsFake(() => { });
+    cassette.record('cassette.json', entries[0]);
+    assert.deepStrictEqual(JSON.parse(writeFileSyncStub.lastCall.args[1] as string), [entries[0]]);
+  });
+
+  it('records entry to an existing cassette file', () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'readFileSync').callsFake(() => JSON.stringify([entries[0]]));
+    const writeFileSyncStub = sinon.stub(fs, 'writeFileSync').callsFake(() => { });
+    cassette.record('cassette.json', entries[1]);
+    assert.deepStrictEqual(JSON.parse(writeFileSyncStub.lastCall.args[1] as string), [entries[0], entries[1]]);
+  });
+
+  it('replays responses for repeated requests in the recorded order', () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    const readFileSyncStub = sinon.stub(fs, 'readFileSync').callsFake(() => JSON.stringify(entries));
+    const request = { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web' };
+    assert.deepStrictEqual(cassette.replay('cassette.json', request), { status: 200, body: { Title: 'Contoso' } });
+    assert.deepStrictEqual(cassette.replay('cassette.json', request), { status: 200, body: { Title: 'Contoso 2' } });
+    assert(readFileSyncStub.calledOnce);
+  });
+
+  it('replays the response for the request with the same body', () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'readFileSync').callsFake(() => JSON.stringify(entries));
+    const actual = cassette.replay('cassette.json', { method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', body: { Title: 'List 2' } });
+    assert.deepStrictEqual(actual, { status: 201, body: { Id: '2' } });
+  });
+
+  it('replays the first response for the request with the same method and URL if no request with the same body found', () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'readFileSync').callsFake(() => JSON.stringify(entries));
+    const actual = cassette.replay('cassette.json', { method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', body: { Title: 'List 3' } });
+    assert.deepStrictEqual(actual, { status: 201, body: { Id: '1' } });
+  });
+
+  it('throws an error when no recorded response found for the request', () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => true);
+    sinon.stub(fs, 'readFileSync').callsFake(() => JSON.stringify(entries));
+    assert.throws(() => cassette.replay('cassette.json', { method: 'DELETE', url: 'https://contoso.sharepoint.com/_api/web' }),
+      new Error('No recorded response found for DELETE https://contoso.sharepoint.com/_api/web'));
+  });
+
+  it('throws an error when the cassette file does not exist', () => {
+    sinon.stub(fs, 'existsSync').callsFake(() => false);
+    assert.throws(() => cassette.replay('cassette.json', { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web' }),
+      new Error('Cassette file cassette.json not found'));
+  });
+});
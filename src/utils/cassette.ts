@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  body?: any;
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers?: any;
+  body?: any;
+}
+
+export interface CassetteEntry {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export const cassette = {
+  /**
+   * Entries loaded from the cassette file in replay mode
+   */
+  entries: undefined as CassetteEntry[] | undefined,
+  /**
+   * Entries that have already been replayed. Each recorded response is
+   * replayed only once so that repeated requests get responses in the same
+   * order as they were recorded
+   */
+  replayedEntries: [] as CassetteEntry[],
+
+  /**
+   * Returns the path to the file to record requests and responses to
+   * as specified in the CLIMICROSOFT365_RECORD environment variable
+   */
+  getRecordFilePath(): string | undefined {
+    return process.env.CLIMICROSOFT365_RECORD || undefined;
+  },
+
+  /**
+   * Returns the path to the file to replay responses from as specified in the
+   * CLIMICROSOFT365_REPLAY environment variable
+   */
+  getReplayFilePath(): string | undefined {
+    return process.env.CLIMICROSOFT365_REPLAY || undefined;
+  },
+
+  record(filePath: string, entry: CassetteEntry): void {
+    const entries: CassetteEntry[] = fs.existsSync(filePath) ?
+      JSON.parse(fs.readFileSync(filePath, 'utf8')) : [];
+    entries.push(entry);
+    fs.writeFileSync(filePath, JSON.stringify(entries, null, 2), 'utf8');
+  },
+
+  replay(filePath: string, request: CassetteRequest): CassetteResponse {
+    if (!cassette.entries) {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`Cassette file ${filePath} not found`);
+      }
+
+      cassette.entries = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CassetteEntry[];
+    }
+
+    const matchingEntries: CassetteEntry[] = cassette.entries.filter(e =>
+      cassette.replayedEntries.indexOf(e) < 0 &&
+      e.request.method === request.method &&
+      e.request.url === request.url);
+    // prefer the entry with the same body, but fall back to the first entry
+    // with the same method and URL, in case the body contains generated
+    // values, like IDs
+    const body: string = JSON.stringify(request.body);
+    const entry: CassetteEntry | undefined = matchingEntries.find(e => JSON.stringify(e.request.body) === body) || matchingEntries[0];
+    if (!entry) {
+      throw new Error(`No recorded response found for ${request.method} ${request.url}`);
+    }
+
+    cassette.replayedEntries.push(entry);
+    return entry.response;
+  }
+};
@@ -1,5 +1,64 @@
 import * as stripJsonComments from 'strip-json-comments';
 
+/**
+ * Splits CSV into rows of values
+ */
+function splitCsvRows(s: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value: string = '';
+  let inQuotes: boolean = false;
+
+  const completeRow = (): void => {
+    row.push(value);
+    // skip empty lines
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    value = '';
+  };
+
+  for (let i = 0; i < s.length; i++) {
+    const c: string = s[i];
+
+    if (inQuotes) {
+      if (c === '"' && s[i + 1] === '"') {
+        value += c;
+        i++;
+      }
+      else if (c === '"') {
+        inQuotes = false;
+      }
+      else {
+        value += c;
+      }
+      continue;
+    }
+
+    switch (c) {
+      case '"':
+        inQuotes = true;
+        break;
+      case ',':
+        row.push(value);
+        value = '';
+        break;
+      case '\r':
+        break;
+      case '\n':
+        completeRow();
+        break;
+      default:
+        value += c;
+    }
+  }
+
+  completeRow();
+
+  return rows;
+}
+
 export const formatting = {
   escapeXml(s: any | undefined): any | undefined {
     if (!s) {
@@ -42,18 +101,27 @@ export const formatting = {
       }, {});
   },
 
+  /**
+   * Parses CSV with a header row into an array of objects. Values can be
+   * enclosed in double quotes to include commas, line breaks and escaped
+   * double quotes (""). Empty lines are skipped
+   */
   parseCsvToJson(s: string): any {
-    const rows: string[] = s.split('\n');
+    const rows: string[][] = splitCsvRows(s);
     const jsonObj: any = [];
-    const headers: string[] = rows[0].split(',');
+    if (rows.length === 0) {
+      return jsonObj;
+    }
+
+    const headers: string[] = rows[0].map(h => h.trim());
 
     for (let i = 1; i < rows.length; i++) {
-      const data: string[] = rows[i].split(',');
+      const data: string[] = rows[i];
       const obj: any = {};
       for (let j = 0; j < data.length; j++) {
         const value = data[j].trim();
         const numValue = parseInt(value);
-        obj[headers[j].trim()] = isNaN(numValue) || numValue.toString() !== value ? value : numValue;
+        obj[headers[j]] = isNaN(numValue) || numValue.toString() !== value ? value : numValue;
       }
       jsonObj.push(obj);
     }
@@ -73,6 +141,17 @@ export const formatting = {
     return stripJsonComments(s);
   },
 
+  /**
+   * Converts the specified string to PascalCase, eg. hello-world becomes
+   * HelloWorld
+   */
+  toPascalCase(s: string): string {
+    return s
+      .split(/[^a-z0-9]+/i)
+      .map(w => w.charAt(0).toUpperCase() + w.substring(1))
+      .join('');
+  },
+
   splitAndTrim(s: string): string[] {
     return s.split(',').map(c => c.trim());
   },
@@ -0,0 +1,177 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import request from '../request';
+import { graphBatch, GraphBatchRequest } from './graphBatch';
+import { sinonUtil } from './sinonUtil';
+
+describe('utils/graphBatch', () => {
+  afterEach(() => {
+    sinonUtil.restore([
+      request.post,
+      global.setTimeout
+    ]);
+  });
+
+  it('sends requests in a single batch to Microsoft Graph', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async () => ({
+      responses: [
+        { id: '1', status: 204 },
+        { id: '0', status: 200, body: { id: 'user1' } }
+      ]
+    }));
+
+    const actual = await graphBatch.execute([
+      { method: 'GET', url: '/users/user1' },
+      { method: 'DELETE', url: '/users/user2', headers: { 'if-match': '*' } }
+    ]);
+    assert.deepStrictEqual(postStub.firstCall.args[0].url, 'https://graph.microsoft.com/v1.0/$batch');
+    assert.deepStrictEqual(postStub.firstCall.args[0].data, {
+      requests: [
+        { id: '0', method: 'GET', url: '/users/user1' },
+        { id: '1', method: 'DELETE', url: '/users/user2', headers: { 'if-match': '*' } }
+      ]
+    });
+    assert.deepStrictEqual(actual, [
+      { status: 200, headers: undefined, body: { id: 'user1' } },
+      { status: 204, headers: undefined, body: undefined }
+    ]);
+  });
+
+  it('sends requests to the specified Microsoft Graph API version', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async () => ({ responses: [{ id: '0', status: 200 }] }));
+
+    await graphBatch.execute([{ method: 'GET', url: '/me' }], 'beta');
+    assert.strictEqual(postStub.firstCall.args[0].url, 'https://graph.microsoft.com/beta/$batch');
+  });
+
+  it('adds content-type header to requests with a body', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async () => ({ responses: [{ id: '0', status: 204 }, { id: '1', status: 204 }] }));
+
+    await graphBatch.execute([
+      { method: 'POST', url: '/groups/group1/members/$ref', body: { '@odata.id': 'https://graph.microsoft.com/v1.0/directoryObjects/user1' } },
+      { method: 'PATCH', url: '/groups/group1', headers: { 'content-type': 'application/json;odata=nometadata' }, body: { displayName: 'Group' } }
+    ]);
+    assert.deepStrictEqual(postStub.firstCall.args[0].data.requests, [
+      { id: '0', method: 'POST', url: '/groups/group1/members/$ref', headers: { 'content-type': 'application/json' }, body: { '@odata.id': 'https://graph.microsoft.com/v1.0/directoryObjects/user1' } },
+      { id: '1', method: 'PATCH', url: '/groups/group1', headers: { 'content-type': 'application/json;odata=nometadata' }, body: { displayName: 'Group' } }
+    ]);
+  });
+
+  it('splits requests into batches of 20 requests', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async opts => ({
+      responses: opts.data.requests.map((r: any) => ({ id: r.id, status: 200, body: r.url }))
+    }));
+    const requests: GraphBatchRequest[] = [];
+    for (let i = 0; i < 45; i++) {
+      requests.push({ method: 'GET', url: `/users/user${i}` });
+    }
+
+    const actual = await graphBatch.execute(requests);
+    assert.strictEqual(postStub.callCount, 3);
+    assert.strictEqual(postStub.firstCall.args[0].data.requests.length, 20);
+    assert.strictEqual(postStub.thirdCall.args[0].data.requests.length, 5);
+    assert.deepStrictEqual(actual.map(r => r.body), requests.map(r => r.url));
+  });
+
+  it('retries throttled requests after the period indicated by Microsoft Graph', async () => {
+    let timeout: number | undefined;
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeout = to;
+      fn();
+      return {} as any;
+    });
+    const postStub = sinon.stub(request, 'post');
+    postStub.onFirstCall().callsFake(async () => ({
+      responses: [
+        { id: '0', status: 200, body: 'user1' },
+        { id: '1', status: 429, headers: { 'Retry-After': '5' } },
+        { id: '2', status: 503, headers: { 'Retry-After': '3' } }
+      ]
+    }));
+    postStub.onSecondCall().callsFake(async () => ({
+      responses: [
+        { id: '1', status: 200, body: 'user2' },
+        { id: '2', status: 200, body: 'user3' }
+      ]
+    }));
+
+    const actual = await graphBatch.execute([
+      { method: 'GET', url: '/users/user1' },
+      { method: 'GET', url: '/users/user2' },
+      { method: 'GET', url: '/users/user3' }
+    ]);
+    assert.strictEqual(timeout, 5000);
+    assert.deepStrictEqual(postStub.secondCall.args[0].data.requests.map((r: any) => r.id), ['1', '2']);
+    assert.deepStrictEqual(actual.map(r => r.body), ['user1', 'user2', 'user3']);
+  });
+
+  it('retries throttled requests after 10s if no valid period indicated', async () => {
+    const timeouts: number[] = [];
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeouts.push(to as number);
+      fn();
+      return {} as any;
+    });
+    const postStub = sinon.stub(request, 'post');
+    postStub.onFirstCall().callsFake(async () => ({ responses: [{ id: '0', status: 429 }] }));
+    postStub.onSecondCall().callsFake(async () => ({ responses: [{ id: '0', status: 429, headers: { 'Retry-After': 'abc' } }] }));
+    postStub.onThirdCall().callsFake(async () => ({ responses: [{ id: '0', status: 429, headers: { 'Cache-Control': 'no-cache' } }] }));
+    postStub.onCall(3).callsFake(async () => ({ responses: [{ id: '0', status: 200 }] }));
+
+    await graphBatch.execute([{ method: 'GET', url: '/users/user1' }]);
+    assert.deepStrictEqual(timeouts, [10000, 10000, 10000]);
+  });
+
+  it('returns the throttled response after the maximum number of attempts', async () => {
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+    const postStub = sinon.stub(request, 'post').callsFake(async () => ({ responses: [{ id: '0', status: 429, body: { error: { message: 'Too many requests' } } }] }));
+
+    const actual = await graphBatch.execute([{ method: 'GET', url: '/users/user1' }]);
+    assert.strictEqual(postStub.callCount, 5);
+    assert.deepStrictEqual(actual, [{ status: 429, headers: undefined, body: { error: { message: 'Too many requests' } } }]);
+  });
+
+  it('reports requests without a response in the batch as failed', async () => {
+    sinon.stub(request, 'post').callsFake(async () => ({
+      responses: [
+        { id: '1', status: 204 }
+      ]
+    }));
+
+    const actual = await graphBatch.execute([
+      { method: 'DELETE', url: '/users/user1' },
+      { method: 'DELETE', url: '/users/user2' }
+    ]);
+    assert.deepStrictEqual(actual, [
+      { status: 500, headers: {}, body: { error: { code: 'NoResponse', message: 'Microsoft Graph did not return a response for the request' } } },
+      { status: 204, headers: undefined, body: undefined }
+    ]);
+    assert.throws(() => graphBatch.ensureSuccess(actual), (err: any) => err.error.error.message === 'Microsoft Graph did not return a response for the request');
+  });
+
+  it(`doesn't send any request when no requests specified`, async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async () => ({ responses: [] }));
+
+    const actual = await graphBatch.execute([]);
+    assert.deepStrictEqual(actual, []);
+    assert(postStub.notCalled);
+  });
+
+  it('throws error of the first failed response', () => {
+    assert.throws(() => graphBatch.ensureSuccess([
+      { status: 204 },
+      { status: 404, body: { error: { code: 'Request_ResourceNotFound', message: 'Resource not found' } } },
+      { status: 400, body: { error: { code: 'BadRequest', message: 'Bad request' } } }
+    ]), (err: any) => {
+      assert.deepStrictEqual(err, { error: { error: { code: 'Request_ResourceNotFound', message: 'Resource not found' } } });
+      return true;
+    });
+  });
+
+  it(`doesn't throw an error when all requests succeeded`, () => {
+    assert.doesNotThrow(() => graphBatch.ensureSuccess([{ status: 200 }, { status: 204 }]));
+  });
+});
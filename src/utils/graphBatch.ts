@@ -0,0 +1,104 @@
+import request from "../request";
+import { batchRetry } from "./batchRetry";
+
+const graphResource = 'https://graph.microsoft.com';
+// maximum number of requests that Microsoft Graph allows in a single batch
+const maxBatchSize: number = 20;
+
+export interface GraphBatchRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  /**
+   * URL relative to the Microsoft Graph API version, eg. /users/{id}
+   */
+  url: string;
+  headers?: { [name: string]: string };
+  body?: any;
+}
+
+export interface GraphBatchResponse<T = any> {
+  status: number;
+  headers?: { [name: string]: string };
+  body?: T;
+}
+
+interface GraphBatchResponseItem<T> extends GraphBatchResponse<T> {
+  id: string;
+}
+
+export const graphBatch = {
+  /**
+   * Executes the specified requests using Microsoft Graph JSON batching.
+   * Requests are sent in batches of up to 20 requests. Throttled requests are
+   * retried after the period indicated by Microsoft Graph, up to the maximum
+   * number of attempts configured for retrying requests.
+   * @param requests Requests to execute
+   * @param apiVersion Microsoft Graph API version. Default v1.0
+   * @returns Responses in the same order as the specified requests
+   */
+  async execute<T = any>(requests: GraphBatchRequest[], apiVersion: 'v1.0' | 'beta' = 'v1.0'): Promise<GraphBatchResponse<T>[]> {
+    return batchRetry.execute(requests.length, maxBatchSize, async (indexes: number[]): Promise<GraphBatchResponse<T>[]> => {
+      const batchRequests = indexes.map(index => {
+        const req: GraphBatchRequest = requests[index];
+        const batchRequest: any = {
+          id: index.toString(),
+          method: req.method,
+          url: req.url
+        };
+
+        if (typeof req.body !== 'undefined') {
+          batchRequest.body = req.body;
+          batchRequest.headers = Object.assign({ 'content-type': 'application/json' }, req.headers);
+        }
+        else if (req.headers) {
+          batchRequest.headers = req.headers;
+        }
+
+        return batchRequest;
+      });
+
+      const requestOptions: any = {
+        url: `${graphResource}/${apiVersion}/$batch`,
+        headers: {
+          accept: 'application/json;odata.metadata=none',
+          'content-type': 'application/json'
+        },
+        responseType: 'json',
+        data: {
+          requests: batchRequests
+        }
+      };
+
+      // Microsoft Graph doesn't return responses in the order of the requests
+      const res = await request.post<{ responses: GraphBatchResponseItem<T>[] }>(requestOptions);
+      return indexes.map(index => {
+        const response: GraphBatchResponseItem<T> | undefined = res.responses.find(r => r.id === index.toString());
+        if (!response) {
+          return {
+            status: 500,
+            headers: {},
+            body: { error: { code: 'NoResponse', message: 'Microsoft Graph did not return a response for the request' } } as any
+          };
+        }
+
+        return {
+          status: response.status,
+          headers: response.headers,
+          body: response.body
+        };
+      });
+    });
+  },
+
+  /**
+   * Throws the error of the first failed response. The error has the same
+   * shape as errors returned by the request object, so that it can be handled
+   * by commands the same way.
+   * @param responses Responses returned from a batch
+   */
+  ensureSuccess(responses: GraphBatchResponse[]): void {
+    const failedResponse: GraphBatchResponse | undefined = responses.find(r => r.status >= 400);
+    if (failedResponse) {
+      throw { error: failedResponse.body };
+    }
+  }
+};
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { Logger } from '../cli/Logger';
+import request from '../request';
+import { odata } from './odata';
+import { sinonUtil } from './sinonUtil';
+
+describe('utils/odata', () => {
+  let log: any[];
+  let logger: Logger;
+
+  const stubPages = (): sinon.SinonStub => {
+    return sinon.stub(request, 'get').callsFake(async opts => {
+      if (opts.url === 'https://graph.microsoft.com/v1.0/users') {
+        return {
+          '@odata.nextLink': 'https://graph.microsoft.com/v1.0/users?$skiptoken=2',
+          value: [{ id: '1' }, { id: '2' }]
+        };
+      }
+
+      if (opts.url === 'https://graph.microsoft.com/v1.0/users?$skiptoken=2') {
+        return {
+          nextLink: 'https://graph.microsoft.com/v1.0/users?$skiptoken=3',
+          value: [{ id: '3' }, { id: '4' }]
+        };
+      }
+
+      if (opts.url === 'https://graph.microsoft.com/v1.0/users?$skiptoken=3') {
+        return {
+          value: [{ id: '5' }]
+        };
+      }
+
+      throw 'Invalid request';
+    });
+  };
+
+  beforeEach(() => {
+    log = [];
+    logger = {
+      log: (msg: any) => {
+        log.push(msg);
+      },
+      logRaw: (msg: any) => {
+        log.push(msg);
+      },
+      logToStderr: () => { }
+    };
+  });
+
+  afterEach(() => {
+    sinonUtil.restore(request.get);
+  });
+
+  it('retrieves all items from all pages', async () => {
+    stubPages();
+    const actual = await odata.getAllItems('https://graph.microsoft.com/v1.0/users', 'minimal');
+    assert.deepStrictEqual(actual, [{ id: '1' }, { id: '2' }, { id: '3' }, { id: '4' }, { id: '5' }]);
+  });
+
+  it('logs all items from all pages at once when output is json', async () => {
+    stubPages();
+    await odata.logAllItems('https://graph.microsoft.com/v1.0/users', logger, { output: 'json' });
+    assert.deepStrictEqual(log, [[{ id: '1' }, { id: '2' }, { id: '3' }, { id: '4' }, { id: '5' }]]);
+  });
+
+  it('logs items of each page when output is ndjson', async () => {
+    stubPages();
+    await odata.logAllItems('https://graph.microsoft.com/v1.0/users', logger, { output: 'ndjson' });
+    assert.deepStrictEqual(log, [[{ id: '1' }, { id: '2' }], [{ id: '3' }, { id: '4' }], [{ id: '5' }]]);
+  });
+
+  it('logs items of each page when output is csv', async () => {
+    stubPages();
+    await odata.logAllItems('https://graph.microsoft.com/v1.0/users', logger, { output: 'csv' });
+    assert.strictEqual(log.length, 3);
+  });
+
+  it('logs all items at once when output is csv and query specified', async () => {
+    stubPages();
+    await odata.logAllItems('https://graph.microsoft.com/v1.0/users', logger, { output: 'csv', query: '[].id' });
+    assert.strictEqual(log.length, 1);
+  });
+
+  it('retrieves only as many items as specified in maxItems', async () => {
+    const getStub = stubPages();
+    await odata.logAllItems('https://graph.microsoft.com/v1.0/users', logger, { output: 'json', maxItems: 3 });
+    assert.deepStrictEqual(log, [[{ id: '1' }, { id: '2' }, { id: '3' }]]);
+    assert.strictEqual(getStub.callCount, 2);
+  });
+
+  it('stops retrieving pages when the number of items specified in maxItems retrieved', async () => {
+    const getStub = stubPages();
+    await odata.logAllItems('https://graph.microsoft.com/v1.0/users', logger, { output: 'ndjson', maxItems: 2 });
+    assert.deepStrictEqual(log, [[{ id: '1' }, { id: '2' }]]);
+    assert.strictEqual(getStub.callCount, 1);
+  });
+
+  it('retrieves all items when maxItems is larger than the number of items', async () => {
+    stubPages();
+    await odata.logAllItems('https://graph.microsoft.com/v1.0/users', logger, { output: 'json', maxItems: 10 });
+    assert.strictEqual(log[0].length, 5);
+  });
+
+  it(`doesn't log empty pages when streaming items`, async () => {
+    sinon.stub(request, 'get').callsFake(async () => ({ value: [] }));
+    await odata.logAllItems('https://graph.microsoft.com/v1.0/users', logger, { output: 'ndjson' });
+    assert.deepStrictEqual(log, []);
+  });
+
+  it('processes items of each page before logging them', async () => {
+    stubPages();
+    await odata.logAllItems<{ id: string, processed?: boolean }>('https://graph.microsoft.com/v1.0/users', logger, { output: 'ndjson' }, items => {
+      items.forEach(i => i.processed = true);
+    });
+    assert.deepStrictEqual(log[2], [{ id: '5', processed: true }]);
+  });
+});
@@ -1,3 +1,5 @@
+import { Logger } from "../cli/Logger";
+import GlobalOptions from "../GlobalOptions";
 import request from "../request";
 
 export interface ODataResponse<T> {
@@ -17,19 +19,23 @@ export interface GraphResponseError {
   }
 }
 
+function getPage<T>(url: string, metadata?: 'none' | 'minimal' | 'full'): Promise<ODataResponse<T>> {
+  const requestOptions: any = {
+    url: url,
+    headers: {
+      accept: `application/json;odata.metadata=${metadata ?? 'none'}`
+    },
+    responseType: 'json'
+  };
+
+  return request.get<ODataResponse<T>>(requestOptions);
+}
+
 export const odata = {
   async getAllItems<T>(url: string, metadata?: 'none' | 'minimal' | 'full'): Promise<T[]> {
     let items: T[] = [];
 
-    const requestOptions: any = {
-      url: url,
-      headers: {
-        accept: `application/json;odata.metadata=${metadata ?? 'none'}`
-      },
-      responseType: 'json'
-    };
-
-    const res = await request.get<ODataResponse<T>>(requestOptions);
+    const res = await getPage<T>(url, metadata);
     items = res.value;
 
     const nextLink = res['@odata.nextLink'] ?? res.nextLink;
@@ -39,5 +45,51 @@ export const odata = {
     }
     
     return items;
+  },
+
+  /**
+   * Retrieves all items and logs them. Retrieves at most the number of items
+   * specified in the maxItems option. When the output is ndjson or csv and no
+   * query is specified, logs the items of each page as soon as the page is
+   * retrieved instead of after retrieving all items
+   * @param url URL of the first page of items
+   * @param logger Logger to log the items to
+   * @param options Command options with the output, query and maxItems
+   * @param processItems Optional function to process items of each page before logging them
+   */
+  async logAllItems<T>(url: string, logger: Logger, options: GlobalOptions, processItems?: (items: T[]) => void): Promise<void> {
+    const stream: boolean = (options.output === 'ndjson' || options.output === 'csv') && !options.query;
+    let items: T[] = [];
+    let retrievedItemsCount: number = 0;
+    let nextLink: string | undefined = url;
+
+    while (nextLink) {
+      const res: ODataResponse<T> = await getPage<T>(nextLink);
+      let pageItems: T[] = res.value;
+      nextLink = res['@odata.nextLink'] ?? res.nextLink;
+
+      if (typeof options.maxItems !== 'undefined' &&
+        retrievedItemsCount + pageItems.length >= options.maxItems) {
+        pageItems = pageItems.slice(0, options.maxItems - retrievedItemsCount);
+        nextLink = undefined;
+      }
+
+      retrievedItemsCount += pageItems.length;
+
+      if (processItems) {
+        processItems(pageItems);
+      }
+
+      if (!stream) {
+        items = items.concat(pageItems);
+      }
+      else if (pageItems.length > 0) {
+        logger.log(pageItems);
+      }
+    }
+
+    if (!stream) {
+      logger.log(items);
+    }
   }
-};
\ No newline at end of file
+};
@@ -728,4 +728,49 @@ describe('utils/spo', () => {
         done(err);
       });
   });
-});
\ No newline at end of file
+
+  it('retrieves a new form digest when the form digest cache is disabled', async () => {
+    const contextInfo = { FormDigestValue: 'abc', FormDigestTimeoutSeconds: 1800, WebFullUrl: 'https://contoso.sharepoint.com' };
+    const postStub = sinon.stub(request, 'post').callsFake(() => Promise.resolve(contextInfo));
+
+    await spo.getRequestDigest('https://contoso.sharepoint.com');
+    await spo.getRequestDigest('https://contoso.sharepoint.com');
+    assert.strictEqual(postStub.callCount, 2);
+  });
+
+  it('reuses the cached form digest when the form digest cache is enabled', async () => {
+    const contextInfo = { FormDigestValue: 'abc', FormDigestTimeoutSeconds: 1800, WebFullUrl: 'https://contoso.sharepoint.com' };
+    const postStub = sinon.stub(request, 'post').callsFake(() => Promise.resolve(contextInfo));
+    spo.formDigestCache = {};
+
+    try {
+      await spo.getRequestDigest('https://contoso.sharepoint.com');
+      const actual = await spo.getRequestDigest('https://contoso.sharepoint.com');
+      assert.strictEqual(postStub.callCount, 1);
+      assert.deepStrictEqual(actual, contextInfo);
+    }
+    finally {
+      spo.formDigestCache = undefined;
+    }
+  });
+
+  it('retrieves a new form digest when the cached form digest expired', async () => {
+    const contextInfo = { FormDigestValue: 'abc', FormDigestTimeoutSeconds: 1800, WebFullUrl: 'https://contoso.sharepoint.com' };
+    const postStub = sinon.stub(request, 'post').callsFake(() => Promise.resolve(contextInfo));
+    spo.formDigestCache = {
+      'https://contoso.sharepoint.com': {
+        digest: contextInfo as any,
+        expiresAt: Date.now() - 1000
+      }
+    };
+
+    try {
+      await spo.getRequestDigest('https://contoso.sharepoint.com');
+      assert.strictEqual(postStub.callCount, 1);
+      assert(spo.formDigestCache['https://contoso.sharepoint.com'].expiresAt > Date.now());
+    }
+    finally {
+      spo.formDigestCache = undefined;
+    }
+  });
+});
@@ -61,7 +61,22 @@ export interface IdentityResponse {
 }
 
 export const spo = {
+  /**
+   * In-memory cache of form digests by site URL. Disabled by default.
+   * Enabled when running multiple commands in one process, eg. in batch mode,
+   * so that subsequent commands don't need to retrieve a new form digest
+   */
+  formDigestCache: undefined as { [siteUrl: string]: { digest: FormDigestInfo; expiresAt: number; } } | undefined,
+
   getRequestDigest(siteUrl: string): Promise<FormDigestInfo> {
+    const cache = spo.formDigestCache;
+    if (cache) {
+      const cachedDigest = cache[siteUrl];
+      if (cachedDigest && cachedDigest.expiresAt > Date.now()) {
+        return Promise.resolve(cachedDigest.digest);
+      }
+    }
+
     const requestOptions: any = {
       url: `${siteUrl}/_api/contextinfo`,
       headers: {
@@ -70,7 +85,18 @@ export const spo = {
       responseType: 'json'
     };
 
-    return request.post(requestOptions);
+    return request
+      .post<FormDigestInfo>(requestOptions)
+      .then((res: FormDigestInfo): FormDigestInfo => {
+        if (cache) {
+          cache[siteUrl] = {
+            digest: res,
+            expiresAt: Date.now() + (res.FormDigestTimeoutSeconds - 5) * 1000
+          };
+        }
+
+        return res;
+      });
   },
 
   ensureFormDigest(siteUrl: string, logger: Logger, context: FormDigestInfo | undefined, debug: boolean): Promise<FormDigestInfo> {
@@ -0,0 +1,255 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import request from '../request';
+import { sinonUtil } from './sinonUtil';
+import { spoBatch, SpoBatchRequest } from './spoBatch';
+
+describe('utils/spoBatch', () => {
+  const getBatchResponse = (responses: { status: number, headers?: string[], body?: string }[]): string => {
+    const lines: string[] = [];
+
+    responses.forEach(r => {
+      lines.push(
+        '--batchresponse_3ac5ad22-5e7d-4e8b-8e6c-7d1c2c4e8b6a',
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+        '',
+        `HTTP/1.1 ${r.status} Status`,
+        ...(r.headers || ['CONTENT-TYPE: application/json;odata=nometadata;streaming=true;charset=utf-8']),
+        '',
+        r.body || ''
+      );
+    });
+
+    lines.push('--batchresponse_3ac5ad22-5e7d-4e8b-8e6c-7d1c2c4e8b6a--', '');
+    return lines.join('\r\n');
+  };
+
+  const getBody = (data: string): string => data
+    .replace(/batch_[0-9a-f-]{36}/g, 'batch_id')
+    .replace(/changeset_[0-9a-f-]{36}/g, 'changeset_id');
+
+  afterEach(() => {
+    sinonUtil.restore([
+      request.post,
+      global.setTimeout
+    ]);
+  });
+
+  it('sends requests in a single batch to SharePoint', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async () => getBatchResponse([
+      { status: 200, body: '{"Title":"Project X"}' },
+      { status: 204, headers: [] }
+    ]));
+
+    const actual = await spoBatch.execute('https://contoso.sharepoint.com/sites/project-x', [
+      { method: 'GET', url: 'https://contoso.sharepoint.com/sites/project-x/_api/web?$select=Title' },
+      { method: 'DELETE', url: 'https://contoso.sharepoint.com/sites/project-x/_api/web/lists/getByTitle(\'Projects\')/items(1)', headers: { 'if-match': '*' } }
+    ]);
+    assert.strictEqual(postStub.firstCall.args[0].url, 'https://contoso.sharepoint.com/sites/project-x/_api/$batch');
+    assert.match(postStub.firstCall.args[0].headers!['content-type'] as string, /^multipart\/mixed; boundary=batch_[0-9a-f-]{36}$/);
+    assert.strictEqual(getBody(postStub.firstCall.args[0].data), [
+      '--batch_id',
+      'Content-Type: application/http',
+      'Content-Transfer-Encoding: binary',
+      '',
+      'GET https://contoso.sharepoint.com/sites/project-x/_api/web?$select=Title HTTP/1.1',
+      'accept: application/json;odata=nometadata',
+      '',
+      '--batch_id',
+      'Content-Type: multipart/mixed; boundary="changeset_id"',
+      'Content-Transfer-Encoding: binary',
+      '',
+      '--changeset_id',
+      'Content-Type: application/http',
+      'Content-Transfer-Encoding: binary',
+      '',
+      'DELETE https://contoso.sharepoint.com/sites/project-x/_api/web/lists/getByTitle(\'Projects\')/items(1) HTTP/1.1',
+      'accept: application/json;odata=nometadata',
+      'if-match: *',
+      '',
+      '--changeset_id--',
+      '',
+      '--batch_id--',
+      ''
+    ].join('\r\n'));
+    assert.deepStrictEqual(actual, [
+      { status: 200, headers: { 'CONTENT-TYPE': 'application/json;odata=nometadata;streaming=true;charset=utf-8' }, body: { Title: 'Project X' } },
+      { status: 204, headers: {} }
+    ]);
+  });
+
+  it('adds the body and content-type header to requests with a body', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async () => getBatchResponse([{ status: 201 }, { status: 204 }]));
+
+    await spoBatch.execute('https://contoso.sharepoint.com', [
+      { method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists', body: { Title: 'Projects' } },
+      { method: 'MERGE', url: 'https://contoso.sharepoint.com/_api/web', headers: { 'content-type': 'application/json;odata=verbose' }, body: '{"Title":"Contoso"}' }
+    ]);
+    const body: string = getBody(postStub.firstCall.args[0].data);
+    assert(body.indexOf([
+      'POST https://contoso.sharepoint.com/_api/web/lists HTTP/1.1',
+      'accept: application/json;odata=nometadata',
+      'content-type: application/json;odata=nometadata',
+      '',
+      '{"Title":"Projects"}',
+      '',
+      '--changeset_id--'
+    ].join('\r\n')) > -1, 'POST request');
+    assert(body.indexOf([
+      'MERGE https://contoso.sharepoint.com/_api/web HTTP/1.1',
+      'accept: application/json;odata=nometadata',
+      'content-type: application/json;odata=verbose',
+      '',
+      '{"Title":"Contoso"}',
+      '',
+      '--changeset_id--'
+    ].join('\r\n')) > -1, 'MERGE request');
+  });
+
+  it('parses responses wrapped in changesets and responses that are not JSON', async () => {
+    sinon.stub(request, 'post').callsFake(async () => [
+      '--batchresponse_3ac5ad22-5e7d-4e8b-8e6c-7d1c2c4e8b6a',
+      'Content-Type: multipart/mixed; boundary=changesetresponse_9c6e3f6a-1b2c-4d5e-8f9a-0b1c2d3e4f5a',
+      '',
+      '--changesetresponse_9c6e3f6a-1b2c-4d5e-8f9a-0b1c2d3e4f5a',
+      'Content-Type: application/http',
+      'Content-Transfer-Encoding: binary',
+      '',
+      'HTTP/1.1 200 OK',
+      'CONTENT-TYPE: application/json;odata=nometadata',
+      '',
+      '{"value":[{"FieldName":"Id","FieldValue":"1"}]}',
+      '--changesetresponse_9c6e3f6a-1b2c-4d5e-8f9a-0b1c2d3e4f5a--',
+      '--batchresponse_3ac5ad22-5e7d-4e8b-8e6c-7d1c2c4e8b6a',
+      'Content-Type: application/http',
+      'Content-Transfer-Encoding: binary',
+      '',
+      'HTTP/1.1 500 Internal Server Error',
+      'CONTENT-TYPE: text/plain',
+      '',
+      'Something went wrong',
+      '--batchresponse_3ac5ad22-5e7d-4e8b-8e6c-7d1c2c4e8b6a--',
+      ''
+    ].join('\r\n'));
+
+    const actual = await spoBatch.execute('https://contoso.sharepoint.com', [
+      { method: 'POST', url: 'https://contoso.sharepoint.com/_api/web/lists/getByTitle(\'Projects\')/AddValidateUpdateItemUsingPath()', body: { formValues: [] } },
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web' }
+    ]);
+    assert.deepStrictEqual(actual, [
+      { status: 200, headers: { 'CONTENT-TYPE': 'application/json;odata=nometadata' }, body: { value: [{ FieldName: 'Id', FieldValue: '1' }] } },
+      { status: 500, headers: { 'CONTENT-TYPE': 'text/plain' }, body: 'Something went wrong' }
+    ]);
+  });
+
+  it('splits requests into batches of 100 requests', async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async opts => {
+      const urls: string[] = (opts.data as string).match(/^GET \S+/gm) as string[];
+      return getBatchResponse(urls.map(u => ({ status: 200, body: JSON.stringify(u.substring(4)) })));
+    });
+    const requests: SpoBatchRequest[] = [];
+    for (let i = 0; i < 210; i++) {
+      requests.push({ method: 'GET', url: `https://contoso.sharepoint.com/_api/web/lists/getByTitle('Projects')/items(${i})` });
+    }
+
+    const actual = await spoBatch.execute('https://contoso.sharepoint.com', requests);
+    assert.strictEqual(postStub.callCount, 3);
+    assert.strictEqual((postStub.thirdCall.args[0].data as string).match(/^GET /gm)!.length, 10);
+    assert.deepStrictEqual(actual.map(r => r.body), requests.map(r => r.url));
+  });
+
+  it('retries throttled requests after the period indicated by SharePoint', async () => {
+    let timeout: number | undefined;
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeout = to;
+      fn();
+      return {} as any;
+    });
+    const postStub = sinon.stub(request, 'post');
+    postStub.onFirstCall().callsFake(async () => getBatchResponse([
+      { status: 200, body: '"item1"' },
+      { status: 429, headers: ['Retry-After: 5'] },
+      { status: 503, headers: ['Retry-After: 3'] }
+    ]));
+    postStub.onSecondCall().callsFake(async () => getBatchResponse([
+      { status: 200, body: '"item2"' },
+      { status: 200, body: '"item3"' }
+    ]));
+
+    const actual = await spoBatch.execute('https://contoso.sharepoint.com', [
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web/lists/getByTitle(\'Projects\')/items(1)' },
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web/lists/getByTitle(\'Projects\')/items(2)' },
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web/lists/getByTitle(\'Projects\')/items(3)' }
+    ]);
+    assert.strictEqual(timeout, 5000);
+    assert.deepStrictEqual((postStub.secondCall.args[0].data as string).match(/items\(\d\)/g), ['items(2)', 'items(3)']);
+    assert.deepStrictEqual(actual.map(r => r.body), ['item1', 'item2', 'item3']);
+  });
+
+  it('retries throttled requests after 10s if no valid period indicated', async () => {
+    const timeouts: number[] = [];
+    sinon.stub(global, 'setTimeout').callsFake((fn, to) => {
+      timeouts.push(to as number);
+      fn();
+      return {} as any;
+    });
+    const postStub = sinon.stub(request, 'post');
+    postStub.onFirstCall().callsFake(async () => getBatchResponse([{ status: 429, headers: [] }]));
+    postStub.onSecondCall().callsFake(async () => getBatchResponse([{ status: 429, headers: ['Retry-After: abc'] }]));
+    postStub.onThirdCall().callsFake(async () => getBatchResponse([{ status: 200 }]));
+
+    await spoBatch.execute('https://contoso.sharepoint.com', [{ method: 'GET', url: 'https://contoso.sharepoint.com/_api/web' }]);
+    assert.deepStrictEqual(timeouts, [10000, 10000]);
+  });
+
+  it('returns the throttled response after the maximum number of attempts', async () => {
+    sinon.stub(global, 'setTimeout').callsFake((fn) => {
+      fn();
+      return {} as any;
+    });
+    const postStub = sinon.stub(request, 'post').callsFake(async () => getBatchResponse([{ status: 429, headers: ['Retry-After: 1'], body: 'Too many requests' }]));
+
+    const actual = await spoBatch.execute('https://contoso.sharepoint.com', [{ method: 'GET', url: 'https://contoso.sharepoint.com/_api/web' }]);
+    assert.strictEqual(postStub.callCount, 5);
+    assert.deepStrictEqual(actual, [{ status: 429, headers: { 'Retry-After': '1' }, body: 'Too many requests' }]);
+  });
+
+  it('returns failed responses for requests without a response in the batch', async () => {
+    sinon.stub(request, 'post').callsFake(async () => getBatchResponse([{ status: 200, body: '"item1"' }]));
+
+    const actual = await spoBatch.execute('https://contoso.sharepoint.com', [
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web/lists/getByTitle(\'Projects\')/items(1)' },
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web/lists/getByTitle(\'Projects\')/items(2)' }
+    ]);
+    assert.deepStrictEqual(actual[1], { status: 500, headers: {}, body: 'SharePoint did not return a response for the request' });
+    assert.strictEqual(spoBatch.getErrorMessage(actual[1]), 'SharePoint did not return a response for the request');
+  });
+
+  it(`doesn't send any request when no requests specified`, async () => {
+    const postStub = sinon.stub(request, 'post').callsFake(async () => '');
+
+    const actual = await spoBatch.execute('https://contoso.sharepoint.com', []);
+    assert.deepStrictEqual(actual, []);
+    assert(postStub.notCalled);
+  });
+
+  it('returns error message of a failed response with an OData error', () => {
+    const actual = spoBatch.getErrorMessage({
+      status: 400,
+      headers: {},
+      body: { 'odata.error': { code: '-2147024809, System.ArgumentException', message: { lang: 'en-US', value: 'Item does not exist.' } } }
+    });
+    assert.strictEqual(actual, 'Item does not exist.');
+  });
+
+  it('returns body of a failed response with a text body as error message', () => {
+    const actual = spoBatch.getErrorMessage({ status: 500, headers: {}, body: 'Something went wrong' });
+    assert.strictEqual(actual, 'Something went wrong');
+  });
+
+  it('returns status code as error message of a failed response without a body', () => {
+    const actual = spoBatch.getErrorMessage({ status: 404, headers: {} });
+    assert.strictEqual(actual, 'Request failed with status code 404');
+  });
+});
@@ -0,0 +1,182 @@
+import { v4 } from 'uuid';
+import request from "../request";
+import { batchRetry } from "./batchRetry";
+
+// maximum number of requests that SharePoint allows in a single batch
+const maxBatchSize: number = 100;
+
+export interface SpoBatchRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'MERGE' | 'PUT' | 'DELETE';
+  /**
+   * Absolute URL of the request, eg. https://contoso.sharepoint.com/_api/web
+   */
+  url: string;
+  headers?: { [name: string]: string };
+  body?: any;
+}
+
+export interface SpoBatchResponse<T = any> {
+  status: number;
+  headers: { [name: string]: string };
+  body?: T;
+}
+
+/**
+ * Builds the multipart body of a batch. Each request that changes data is
+ * wrapped in its own changeset, so that a failed request doesn't prevent
+ * SharePoint from executing the other requests in the batch
+ */
+function getBatchBody(batchBoundary: string, requests: SpoBatchRequest[]): string {
+  const lines: string[] = [];
+
+  requests.forEach(req => {
+    const requestLines: string[] = [
+      'Content-Type: application/http',
+      'Content-Transfer-Encoding: binary',
+      '',
+      `${req.method} ${req.url} HTTP/1.1`,
+      'accept: application/json;odata=nometadata'
+    ];
+
+    const headers: { [name: string]: string } = Object.assign(typeof req.body !== 'undefined' ? { 'content-type': 'application/json;odata=nometadata' } : {}, req.headers);
+    Object.keys(headers).forEach(name => requestLines.push(`${name}: ${headers[name]}`));
+    requestLines.push('');
+
+    if (typeof req.body !== 'undefined') {
+      requestLines.push(typeof req.body === 'string' ? req.body : JSON.stringify(req.body), '');
+    }
+
+    lines.push(`--${batchBoundary}`);
+
+    if (req.method === 'GET') {
+      lines.push(...requestLines);
+      return;
+    }
+
+    const changesetBoundary: string = `changeset_${v4()}`;
+    lines.push(
+      `Content-Type: multipart/mixed; boundary="${changesetBoundary}"`,
+      'Content-Transfer-Encoding: binary',
+      '',
+      `--${changesetBoundary}`,
+      ...requestLines,
+      `--${changesetBoundary}--`,
+      ''
+    );
+  });
+
+  lines.push(`--${batchBoundary}--`, '');
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Parses the multipart response of a batch. SharePoint returns responses in
+ * the same order as the requests in the batch
+ */
+function parseBatchResponse(response: string): SpoBatchResponse[] {
+  const responses: SpoBatchResponse[] = [];
+  let current: SpoBatchResponse | undefined;
+  let bodyLines: string[] = [];
+  let state: 'status' | 'headers' | 'body' = 'status';
+
+  const completeResponse = (): void => {
+    const body: string = bodyLines.join('\n').trim();
+    if (body) {
+      try {
+        current!.body = JSON.parse(body);
+      }
+      catch {
+        current!.body = body;
+      }
+    }
+
+    responses.push(current!);
+    current = undefined;
+    bodyLines = [];
+    state = 'status';
+  };
+
+  response.split(/\r?\n/).forEach(line => {
+    switch (state) {
+      case 'status': {
+        const match: RegExpMatchArray | null = line.match(/^HTTP\/1\.1 (\d{3})/);
+        if (match) {
+          current = { status: parseInt(match[1]), headers: {} };
+          state = 'headers';
+        }
+        break;
+      }
+      case 'headers': {
+        if (line === '') {
+          state = 'body';
+          break;
+        }
+
+        const separatorPos: number = line.indexOf(':');
+        current!.headers[line.substring(0, separatorPos).trim()] = line.substring(separatorPos + 1).trim();
+        break;
+      }
+      case 'body':
+        if (line.startsWith('--batchresponse_') || line.startsWith('--changesetresponse_')) {
+          completeResponse();
+          break;
+        }
+
+        bodyLines.push(line);
+        break;
+    }
+  });
+
+  return responses;
+}
+
+export const spoBatch = {
+  /**
+   * Executes the specified requests using SharePoint OData batching.
+   * Requests are sent in batches of up to 100 requests. Throttled requests are
+   * retried after the period indicated by SharePoint, up to the maximum number
+   * of attempts configured for retrying requests. Requests for which
+   * SharePoint didn't return a response are reported as failed.
+   * @param webUrl URL of the site to send the batches to
+   * @param requests Requests to execute
+   * @returns Responses in the same order as the specified requests
+   */
+  async execute<T = any>(webUrl: string, requests: SpoBatchRequest[]): Promise<SpoBatchResponse<T>[]> {
+    return batchRetry.execute(requests.length, maxBatchSize, async (indexes: number[]): Promise<SpoBatchResponse<T>[]> => {
+      const batchBoundary: string = `batch_${v4()}`;
+
+      const requestOptions: any = {
+        url: `${webUrl}/_api/$batch`,
+        headers: {
+          accept: 'multipart/mixed',
+          'content-type': `multipart/mixed; boundary=${batchBoundary}`
+        },
+        responseType: 'text',
+        data: getBatchBody(batchBoundary, indexes.map(index => requests[index]))
+      };
+
+      const res = await request.post<string>(requestOptions);
+      const responses: SpoBatchResponse[] = parseBatchResponse(res);
+      return indexes.map((_, i) => responses[i] || {
+        status: 500,
+        headers: {},
+        body: 'SharePoint did not return a response for the request'
+      });
+    });
+  },
+
+  /**
+   * Returns the error message of a failed response
+   * @param response Response returned from a batch
+   */
+  getErrorMessage(response: SpoBatchResponse): string {
+    const body: any = response.body;
+
+    if (body && body['odata.error']) {
+      return body['odata.error'].message.value;
+    }
+
+    return typeof body === 'string' && body ? body : `Request failed with status code ${response.status}`;
+  }
+};
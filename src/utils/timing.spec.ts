@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { timing } from './timing';
+
+describe('utils/timing', () => {
+  it('returns info that no requests were executed', () => {
+    assert.strictEqual(timing.getSummary([]), `No requests executed${os.EOL}`);
+  });
+
+  it('returns total number and duration of executed requests', () => {
+    const actual = timing.getSummary([
+      { method: 'GET', url: 'https://graph.microsoft.com/v1.0/me', status: 200, duration: 100, size: 512, retried: false },
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web', status: 200, duration: 250, size: 2048, retried: false }
+    ]);
+    assert(actual.startsWith(`Executed 2 request(s) in 350ms${os.EOL}`));
+  });
+
+  it('summarizes requests per host', () => {
+    const actual = timing.getSummary([
+      { method: 'GET', url: 'https://graph.microsoft.com/v1.0/me', status: 429, duration: 100, retried: true },
+      { method: 'GET', url: 'https://graph.microsoft.com/v1.0/me', status: 200, duration: 200, retried: false },
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web', status: 502, duration: 300, retried: true },
+      { method: 'GET', url: 'https://contoso.sharepoint.com/_api/web', status: 503, duration: 50, retried: false }
+    ]);
+    const lines = actual.split(os.EOL);
+    assert(lines.some(l => /^graph\.microsoft\.com\s+2\s+300ms\s+1\s*$/.test(l)), 'Incorrect summary for graph.microsoft.com');
+    assert(lines.some(l => /^contoso\.sharepoint\.com\s+2\s+350ms\s+0\s*$/.test(l)), 'Incorrect summary for contoso.sharepoint.com');
+  });
+
+  it('lists the five slowest requests starting with the slowest one', () => {
+    const actual = timing.getSummary([1, 2, 3, 4, 5, 6].map(i => ({
+      method: 'GET',
+      url: `https://graph.microsoft.com/v1.0/users/${i}`,
+      status: 200,
+      duration: i * 100,
+      size: i * 1024,
+      retried: false
+    })));
+    const lines = actual.split(os.EOL);
+    const slowestRequests = lines.slice(lines.indexOf('Slowest requests:') + 4).filter(l => l.length > 0);
+    assert.strictEqual(slowestRequests.length, 5);
+    assert(/^600ms\s+200\s+6\.0KB\s+GET\s+https:\/\/graph\.microsoft\.com\/v1\.0\/users\/6$/.test(slowestRequests[0]), slowestRequests[0]);
+    assert(slowestRequests[4].endsWith('/users/2'));
+  });
+
+  it('shows empty status and size when not known', () => {
+    const actual = timing.getSummary([
+      { method: 'POST', url: 'https://graph.microsoft.com/v1.0/$batch', duration: 100, retried: false }
+    ]);
+    const lines = actual.split(os.EOL);
+    assert(lines.some(l => /^100ms\s+POST\s+https:\/\/graph\.microsoft\.com\/v1\.0\/\$batch$/.test(l)));
+  });
+
+  it('shows size in bytes for small responses', () => {
+    const actual = timing.getSummary([
+      { method: 'GET', url: 'https://graph.microsoft.com/v1.0/me', status: 200, duration: 100, size: 100, retried: false }
+    ]);
+    assert(actual.indexOf(' 100B ') > -1);
+  });
+
+  it('uses the url as host when the url is invalid', () => {
+    const actual = timing.getSummary([
+      { method: 'GET', url: 'invalid', status: 200, duration: 100, retried: false }
+    ]);
+    assert(actual.split(os.EOL).some(l => /^invalid\s+1\s+100ms\s+0\s*$/.test(l)));
+  });
+});
@@ -0,0 +1,101 @@
+import * as os from 'os';
+import { RequestTiming } from '../request';
+
+// number of slowest requests to include in the summary
+const slowestRequestsCount: number = 5;
+
+interface HostSummary {
+  host: string;
+  requests: number;
+  totalTime: number;
+  throttledRetries: number;
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  }
+  catch {
+    return url;
+  }
+}
+
+function formatSize(size: number | undefined): string {
+  if (typeof size === 'undefined') {
+    return '';
+  }
+
+  if (size < 1024) {
+    return `${size}B`;
+  }
+
+  return `${(size / 1024).toFixed(1)}KB`;
+}
+
+function getTable(rows: any[]): string {
+  const Table = require('easy-table');
+  const t = new Table();
+  rows.forEach(r => {
+    Object.getOwnPropertyNames(r).forEach(p => {
+      t.cell(p, r[p]);
+    });
+    t.newRow();
+  });
+
+  return t.toString();
+}
+
+export const timing = {
+  /**
+   * Returns a summary of the executed requests with the number of requests,
+   * total time and throttled retries per host and the slowest requests
+   * @param timings Timings of the executed requests
+   */
+  getSummary(timings: RequestTiming[]): string {
+    if (timings.length === 0) {
+      return `No requests executed${os.EOL}`;
+    }
+
+    const hosts: HostSummary[] = [];
+    timings.forEach(t => {
+      const host: string = getHost(t.url);
+      let hostSummary: HostSummary | undefined = hosts.find(h => h.host === host);
+      if (!hostSummary) {
+        hostSummary = { host, requests: 0, totalTime: 0, throttledRetries: 0 };
+        hosts.push(hostSummary);
+      }
+
+      hostSummary.requests++;
+      hostSummary.totalTime += t.duration;
+      if (t.retried && (t.status === 429 || t.status === 503)) {
+        hostSummary.throttledRetries++;
+      }
+    });
+
+    const totalTime: number = timings.reduce((total, t) => total + t.duration, 0);
+    const slowestRequests: RequestTiming[] = timings
+      .slice()
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, slowestRequestsCount);
+
+    return [
+      `Executed ${timings.length} request(s) in ${totalTime}ms`,
+      '',
+      getTable(hosts.map(h => ({
+        Host: h.host,
+        Requests: h.requests,
+        'Total time': `${h.totalTime}ms`,
+        'Throttled retries': h.throttledRetries
+      }))),
+      'Slowest requests:',
+      '',
+      getTable(slowestRequests.map(t => ({
+        Duration: `${t.duration}ms`,
+        Status: typeof t.status === 'undefined' ? '' : t.status,
+        Size: formatSize(t.size),
+        Method: t.method,
+        Url: t.url
+      })))
+    ].join(os.EOL);
+  }
+};